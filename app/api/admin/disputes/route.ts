@@ -0,0 +1,75 @@
+/**
+ * Admin API for market disputes
+ *
+ * GET  - Disputes by status (?status=open by default)
+ * POST - Uphold or reject an open dispute: { disputeId, decision: 'uphold' | 'reject', note? }
+ *
+ * Upholding flips the proposed outcome and restarts the market's dispute window.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { createServiceClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { decideDispute, type DisputeDecision } from '@/lib/yellow/disputes';
+
+const DISPUTE_STATUSES = ['open', 'upheld', 'rejected'];
+const DECISIONS: DisputeDecision[] = ['uphold', 'reject'];
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status') || 'open';
+  if (!DISPUTE_STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+  }
+
+  const { data: disputes, error } = await createServiceClient()
+    .from('market_disputes')
+    .select('*, markets ( id, question, winner, dispute_ends_at )')
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, disputes });
+}
+
+export async function POST(request: NextRequest) {
+  const log = createLogger('api/admin/disputes', { correlationId: createCorrelationId('dispute') });
+
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { disputeId, decision } = body;
+    const note: string | null = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    if (!disputeId || !DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: 'disputeId and a decision of "uphold" or "reject" are required' },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await decideDispute(disputeId, decision, note);
+    log.info('Dispute decided', { disputeId, marketId: dispute.market_id, decision });
+
+    return NextResponse.json({ success: true, dispute });
+  } catch (error) {
+    log.error('Dispute decision failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 400 }
+    );
+  }
+}
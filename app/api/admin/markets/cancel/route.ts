@@ -0,0 +1,45 @@
+/**
+ * Admin API for market cancellation
+ *
+ * POST - Cancel a market that has not been settled: { marketId, note? }
+ *
+ * The market stops taking bets at once; the next oracle run closes its app
+ * session and transfers every stake back.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { cancelMarket } from '@/lib/yellow/cancellation';
+
+export async function POST(request: NextRequest) {
+  const log = createLogger('api/admin/markets/cancel', { correlationId: createCorrelationId('cancel') });
+
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { marketId } = body;
+    const note: string | null = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    if (!marketId) {
+      return NextResponse.json({ error: 'marketId is required' }, { status: 400 });
+    }
+
+    const market = await cancelMarket(marketId, 'admin', note);
+    log.info('Market cancelled by admin', { marketId });
+
+    return NextResponse.json({ success: true, market });
+  } catch (error) {
+    log.error('Market cancellation failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 400 }
+    );
+  }
+}
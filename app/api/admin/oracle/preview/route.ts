@@ -0,0 +1,49 @@
+/**
+ * Admin API for the oracle dry run
+ *
+ * GET - What the next oracle cycle would do to every due market: the metric
+ *       reading and winner of markets to resolve, and the exact final
+ *       allocations each App Session would be closed with
+ *
+ * Nothing changes in Supabase or on the ClearNode. Markets to resolve are
+ * read from the stored metric samples, without taking closing readings, so
+ * the preview makes no Twitch calls.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { TwitchOracle } from '@/lib/yellow/oracle';
+import { getOracleService } from '@/lib/yellow/service';
+
+export async function GET(request: NextRequest) {
+  const log = createLogger('api/admin/oracle/preview', { correlationId: createCorrelationId('preview') });
+
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const yellowService = getOracleService();
+    const oracle = new TwitchOracle(await yellowService.getClient(), yellowService.address);
+
+    const { previews, ...result } = await oracle.run('api', { dryRun: true });
+    log.info('Oracle dry run', { ...result });
+
+    return NextResponse.json({
+      success: true,
+      result,
+      markets: previews ?? [],
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Oracle dry run failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
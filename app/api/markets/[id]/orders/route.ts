@@ -0,0 +1,348 @@
+/**
+ * API endpoint for a market's limit order book
+ *
+ * GET    /api/markets/[id]/orders - Depth of the book: resting shares per
+ *        price on each side, best price first. With a Supabase access
+ *        token it also returns the caller's open orders.
+ * POST   /api/markets/[id]/orders - { side: 'yes' | 'no', price, shares }
+ *        rests a limit order to buy `shares` (display units) at up to
+ *        `price` cents per share, then matches it against the opposite
+ *        side in price-time priority. The order's cost is transferred to
+ *        the oracle as escrow first; the oracle adds each fill's stakes to
+ *        the market's app session from it, and whatever is left rests in
+ *        the book.
+ * DELETE /api/markets/[id]/orders?orderId= - Cancels the unfilled rest of
+ *        one of the caller's orders and refunds the escrow it did not
+ *        spend.
+ *
+ * Placing and cancelling need a signed-in user. Orders are paid from the
+ * server-held demo user wallet, the one bets are placed with, so matching
+ * tells orders apart by user: a user's orders never match each other, and
+ * orders of different users do (see order-book.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { createServerClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { getOracleService, getYellowService } from '@/lib/yellow/service';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
+import { bookDepth, isValidOrderPrice, orderCost, remainingShares } from '@/lib/yellow/order-book';
+import {
+  cancelOrder,
+  matchIncomingOrder,
+  placeOrder,
+  refundOrder,
+  toOrder,
+} from '@/lib/yellow/orders';
+import type { Order } from '@/lib/yellow/types';
+import type { Hex } from 'viem';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Id of the signed-in user, from the Supabase access token sent as a
+ * Bearer token. Undefined when none was sent, null when it is invalid.
+ */
+async function authenticate(request: NextRequest): Promise<string | null | undefined> {
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!accessToken) {
+    return undefined;
+  }
+  const { data: { user } } = await createServerClient().auth.getUser(accessToken);
+  return user?.id ?? null;
+}
+
+function serializeOrder(order: Order, assetId: string) {
+  return {
+    id: order.id,
+    side: order.side,
+    price: order.price,
+    shares: fromSmallestUnit(order.shares, assetId),
+    filledShares: fromSmallestUnit(order.filled_shares, assetId),
+    remainingShares: fromSmallestUnit(remainingShares(order), assetId),
+    status: order.status,
+    walletAddress: order.wallet_address,
+    createdAt: order.created_at,
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const log = createLogger('api/markets/orders', { correlationId: createCorrelationId('book') });
+
+  try {
+    const { id: marketId } = await params;
+
+    const userId = await authenticate(request);
+    if (userId === null) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data: market, error: marketError } = await supabase
+      .from('markets')
+      .select('id, asset, status')
+      .eq('id', marketId)
+      .single();
+
+    if (marketError || !market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: rows, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('market_id', marketId)
+      .eq('status', 'open');
+    if (error) {
+      throw error;
+    }
+
+    const { assetId } = getAsset(market.asset);
+    const orders = (rows ?? []).map(toOrder);
+    // Orders stop matching once the market closes, so its book is empty
+    const depth = bookDepth(market.status === 'active' ? orders : []);
+    const toDisplay = (level: { price: number; shares: string; orders: number }) => ({
+      ...level,
+      shares: fromSmallestUnit(level.shares, assetId),
+    });
+
+    return NextResponse.json({
+      success: true,
+      marketId,
+      asset: assetId,
+      depth: { yes: depth.yes.map(toDisplay), no: depth.no.map(toDisplay) },
+      ...(userId && {
+        orders: orders
+          .filter((order) => order.user_id === userId)
+          .map((order) => serializeOrder(order, assetId)),
+      }),
+    });
+  } catch (error) {
+    log.error('Failed to load order book', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const correlationId = createCorrelationId('order');
+  let log = createLogger('api/markets/orders', { correlationId });
+
+  try {
+    const { id: marketId } = await params;
+    const body = await request.json();
+    const { side, price } = body;
+
+    if (side !== 'yes' && side !== 'no') {
+      return NextResponse.json(
+        { error: 'Invalid side. Must be "yes" or "no"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidOrderPrice(price)) {
+      return NextResponse.json(
+        { error: 'price must be a whole number of cents from 1 to 99' },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number(body.shares) > 0)) {
+      return NextResponse.json(
+        { error: 'shares must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    log = log.child({ marketId });
+    log.info('Placing order', { side, price, shares: body.shares });
+
+    const { data: market, error: marketError } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('id', marketId)
+      .single();
+
+    if (marketError || !market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    if (market.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Market is not active' },
+        { status: 400 }
+      );
+    }
+
+    if (!market.app_session_id) {
+      return NextResponse.json(
+        { error: 'Market does not have Yellow Network integration' },
+        { status: 400 }
+      );
+    }
+
+    const userPrivateKey = process.env.YELLOW_USER_PRIVATE_KEY;
+    if (!userPrivateKey) {
+      return NextResponse.json(
+        { error: 'User wallet not configured. Please connect your wallet.' },
+        { status: 400 }
+      );
+    }
+    const yellowService = getYellowService(userPrivateKey as Hex);
+
+    const { assetId } = getAsset(market.asset);
+    const shares = toSmallestUnit(body.shares, assetId);
+    const cost = orderCost(shares, price);
+    if (cost <= 0n) {
+      return NextResponse.json(
+        { error: 'Order is too small' },
+        { status: 400 }
+      );
+    }
+
+    // The order's cost is held by the oracle until fills spend it
+    const oracle = getOracleService();
+    const escrowTxId = await yellowService.transfer(oracle.address, assetId, cost.toString(), {
+      correlationId,
+    });
+
+    let order: Order;
+    try {
+      order = await placeOrder({
+        marketId,
+        userId,
+        walletAddress: yellowService.address,
+        side,
+        price,
+        shares,
+        escrow: cost,
+        escrowTxId,
+      });
+    } catch (error) {
+      try {
+        await oracle.transfer(yellowService.address, assetId, cost.toString(), { correlationId });
+      } catch (refundError) {
+        log.error('Failed to refund the escrow of an order never placed', {
+          escrowTxId,
+          error: refundError,
+        });
+      }
+      throw error;
+    }
+    log.info('Order placed', { orderId: order.id, escrowTxId });
+
+    const result = await matchIncomingOrder(
+      { id: marketId, asset: assetId, app_session_id: market.app_session_id },
+      order.id,
+      correlationId,
+      log.child({ orderId: order.id })
+    );
+    if (result.error) {
+      log.warn('Matching stopped early', { orderId: order.id, error: result.error });
+    }
+
+    return NextResponse.json({
+      success: true,
+      order: serializeOrder(result.order, assetId),
+      fills: result.fills.map((fill) => ({
+        id: fill.id,
+        makerOrderId: fill.makerOrderId,
+        shares: fromSmallestUnit(fill.shares, assetId),
+        price: side === 'yes' ? fill.yesPrice : 100 - fill.yesPrice,
+        cost: fromSmallestUnit(side === 'yes' ? fill.yesStake : fill.noStake, assetId),
+        appSessionVersion: fill.appSessionVersion,
+      })),
+      ...(result.error && { matchError: result.error }),
+    });
+  } catch (error) {
+    log.error('Order failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const correlationId = createCorrelationId('cancel');
+  const log = createLogger('api/markets/orders', { correlationId });
+
+  try {
+    const { id: marketId } = await params;
+    const orderId = new URL(request.url).searchParams.get('orderId');
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Missing orderId' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const order = await cancelOrder(marketId, orderId, userId);
+    if (!order) {
+      return NextResponse.json(
+        { error: 'No open order of yours with this id' },
+        { status: 404 }
+      );
+    }
+
+    log.info('Order cancelled', { marketId, orderId });
+
+    // A failed refund is retried when the market closes
+    const refunded = await refundOrder(orderId, getOracleService(), correlationId, log);
+
+    const { data: market } = await supabase
+      .from('markets')
+      .select('asset')
+      .eq('id', marketId)
+      .single();
+
+    return NextResponse.json({
+      success: true,
+      order: serializeOrder(order, getAsset(market?.asset).assetId),
+      refunded,
+    });
+  } catch (error) {
+    log.error('Cancel failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * API endpoint to quote a bet before placing it
+ *
+ * GET /api/markets/[id]/quote?side=yes|no&amount=12.5
+ *
+ * Returns the LMSR shares the stake buys, the average fill price, the
+ * side's price after the bet, the fee, the slippage against the current
+ * price and what the shares are paid if the side wins. Amounts are in display
+ * units of the market asset, prices and slippage in percent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
+import { quoteBet, type BetQuote } from '@/lib/yellow/quote';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createLogger('api/markets/quote', { correlationId: createCorrelationId('quote') });
+
+  try {
+    const { id: marketId } = await params;
+    const { searchParams } = new URL(request.url);
+    const side = searchParams.get('side');
+    const amount = Number(searchParams.get('amount'));
+
+    if (side !== 'yes' && side !== 'no') {
+      return NextResponse.json(
+        { error: 'Invalid side. Must be "yes" or "no"' },
+        { status: 400 }
+      );
+    }
+
+    if (!(amount > 0)) {
+      return NextResponse.json(
+        { error: 'amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const { data: market, error: marketError } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('id', marketId)
+      .single();
+
+    if (marketError || !market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    if (market.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Market is not active' },
+        { status: 400 }
+      );
+    }
+
+    const asset = getAsset(market.asset);
+    let quote: BetQuote;
+    try {
+      quote = quoteBet(market, side, toSmallestUnit(amount, asset.assetId));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid amount' },
+        { status: 400 }
+      );
+    }
+
+    log.debug('Bet quoted', { marketId, side, amount, shares: quote.shares.toString() });
+
+    return NextResponse.json({
+      success: true,
+      quote: {
+        marketId,
+        side,
+        asset: asset.assetId,
+        amount: fromSmallestUnit(quote.stake, asset.assetId),
+        fee: fromSmallestUnit(quote.fee, asset.assetId),
+        shares: fromSmallestUnit(quote.shares, asset.assetId),
+        price: quote.price,
+        averagePrice: quote.averagePrice,
+        postPrice: quote.postPrice,
+        slippage: quote.slippage,
+        potentialPayout: fromSmallestUnit(quote.payout, asset.assetId),
+      },
+    });
+  } catch (error) {
+    log.error('Quote failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,13 +5,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
+import { createCorrelationId, createLogger } from '@/lib/logger';
 import { getLiveStreams, getUserByLogin, getFollowerCount } from '@/lib/twitch/client';
-import { YellowClient } from '@/lib/yellow/client';
+import { getOracleService } from '@/lib/yellow/service';
+import { DEFAULT_ASSET_ID } from '@/lib/yellow/assets';
 import { YELLOW_CONFIG } from '@/lib/yellow/config';
-import type { Hex } from 'viem';
+import { MARKET_TYPES } from '@/lib/yellow/market-types';
+import { MarketType } from '@/lib/yellow/types';
 
 interface MarketTemplate {
-  metric: 'viewer_count' | 'followers_count';
+  marketType: MarketType.REACH_VIEWER_COUNT | MarketType.REACH_FOLLOWER_COUNT;
   questionTemplate: (streamerName: string, target: number) => string;
   descriptionTemplate: (streamerName: string, target: number) => string;
   calculateTarget: (currentValue: number) => number;
@@ -21,7 +24,7 @@ interface MarketTemplate {
 // Templates for auto-generated markets
 const MARKET_TEMPLATES: MarketTemplate[] = [
   {
-    metric: 'viewer_count',
+    marketType: MarketType.REACH_VIEWER_COUNT,
     questionTemplate: (name, target) => `Will ${name} reach ${target.toLocaleString()} viewers in this stream?`,
     descriptionTemplate: (name, target) => `Auto-created market: Will ${name} achieve ${target.toLocaleString()} concurrent viewers during their current stream?`,
     calculateTarget: (current) => {
@@ -31,7 +34,7 @@ const MARKET_TEMPLATES: MarketTemplate[] = [
     durationHours: 6, // 6 hours for viewer count markets
   },
   {
-    metric: 'followers_count',
+    marketType: MarketType.REACH_FOLLOWER_COUNT,
     questionTemplate: (name, target) => `Will ${name} reach ${target.toLocaleString()} followers today?`,
     descriptionTemplate: (name, target) => `Auto-created market: Will ${name} gain enough followers to reach ${target.toLocaleString()} total followers by end of day?`,
     calculateTarget: (current) => {
@@ -44,8 +47,10 @@ const MARKET_TEMPLATES: MarketTemplate[] = [
 ];
 
 export async function POST(request: NextRequest) {
+  const log = createLogger('api/markets/auto-create', { correlationId: createCorrelationId('auto') });
+
   try {
-    console.log('🤖 Starting auto-market creation...');
+    log.info('Starting auto-market creation');
 
     // Get all live streams
     const liveStreams = await getLiveStreams();
@@ -58,16 +63,10 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    console.log(`Found ${liveStreams.length} live streams`);
-
-    // Initialize Yellow client (requires oracle wallet)
-    const oraclePrivateKey = process.env.YELLOW_ORACLE_PRIVATE_KEY;
-    if (!oraclePrivateKey) {
-      throw new Error('YELLOW_ORACLE_PRIVATE_KEY not configured');
-    }
+    log.info('Found live streams', { count: liveStreams.length });
 
-    const yellowClient = new YellowClient(oraclePrivateKey as Hex);
-    await yellowClient.connect();
+    // Market sessions are created by the oracle wallet
+    const yellowService = getOracleService();
 
     const createdMarkets: string[] = [];
 
@@ -82,7 +81,7 @@ export async function POST(request: NextRequest) {
           .single();
 
         if (!streamer) {
-          console.log(`Streamer ${stream.user_login} not in database, skipping...`);
+          log.debug('Streamer not in database, skipping', { login: stream.user_login });
           continue;
         }
 
@@ -95,7 +94,7 @@ export async function POST(request: NextRequest) {
           .gte('end_date', new Date().toISOString());
 
         if (existingMarkets && existingMarkets.length > 0) {
-          console.log(`Streamer ${streamer.name} already has active markets, skipping...`);
+          log.debug('Streamer already has active markets, skipping', { streamer: streamer.name });
           continue;
         }
 
@@ -106,11 +105,12 @@ export async function POST(request: NextRequest) {
         const followerCount = await getFollowerCount(userData.id);
         const viewerCount = stream.viewer_count;
 
-        console.log(`Creating markets for ${streamer.name} (${viewerCount} viewers, ${followerCount} followers)`);
+        log.info('Creating markets for streamer', { streamer: streamer.name, viewerCount, followerCount });
 
         // Create markets for each template
         for (const template of MARKET_TEMPLATES) {
-          const currentValue = template.metric === 'viewer_count' ? viewerCount : followerCount;
+          const currentValue =
+            template.marketType === MarketType.REACH_VIEWER_COUNT ? viewerCount : followerCount;
           const targetValue = template.calculateTarget(currentValue);
           const question = template.questionTemplate(streamer.name, targetValue);
           const description = template.descriptionTemplate(streamer.name, targetValue);
@@ -119,46 +119,22 @@ export async function POST(request: NextRequest) {
           const endDate = new Date();
           endDate.setHours(endDate.getHours() + template.durationHours);
 
+          // Pool participants are derived from the market id, so pick it up front
+          const marketId = crypto.randomUUID();
+          const correlationId = createCorrelationId('market');
+          const marketLog = log.child({ correlationId, marketId });
+
           // Create Yellow Network App Session for this market
-          const oracleAddress = yellowClient.getAddress();
-          const appSessionId = await yellowClient.createAppSession({
-            definition: {
-              protocol: 'NitroRPC/0.4',
-              application: YELLOW_CONFIG.APPLICATION_NAME,
-              name: `Market: ${question.substring(0, 50)}`,
-              participants: [
-                YELLOW_CONFIG.DEFAULT_POOL_YES,
-                YELLOW_CONFIG.DEFAULT_POOL_NO,
-                oracleAddress
-              ] as string[],
-              weights: [0, 0, 100], // Oracle has full control to close
-              quorum: 100,
-              challenge: 3600,
-              nonce: Date.now(),
-            },
-            allocations: [
-              {
-                participant: YELLOW_CONFIG.DEFAULT_POOL_YES as `0x${string}`,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-              {
-                participant: YELLOW_CONFIG.DEFAULT_POOL_NO as `0x${string}`,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-              {
-                participant: oracleAddress as `0x${string}`,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-            ],
-          });
+          const { appSessionId, pools, oracleAddress } = await yellowService.createMarketSession(
+            { marketId, question, asset: DEFAULT_ASSET_ID },
+            { correlationId }
+          );
 
           // Insert market into database
           const { data: market, error } = await supabase
             .from('markets')
             .insert({
+              id: marketId,
               streamer_id: streamer.id,
               question,
               description,
@@ -169,33 +145,34 @@ export async function POST(request: NextRequest) {
               volume: 0,
               // Yellow Network fields
               app_session_id: appSessionId,
-              pool_yes_address: YELLOW_CONFIG.DEFAULT_POOL_YES,
-              pool_no_address: YELLOW_CONFIG.DEFAULT_POOL_NO,
-              oracle_address: yellowClient.getAddress(),
+              pool_yes_address: pools.yes,
+              pool_no_address: pools.no,
+              oracle_address: oracleAddress,
               yes_amount: '0',
               no_amount: '0',
-              twitch_metric: template.metric,
+              liquidity: Number(YELLOW_CONFIG.MARKET.LIQUIDITY),
+              market_type: template.marketType,
+              twitch_metric: MARKET_TYPES[template.marketType].metric,
               target_value: targetValue,
+              asset: DEFAULT_ASSET_ID,
             } as any)
             .select('id')
             .single();
 
           if (error) {
-            console.error(`Failed to create market for ${streamer.name}:`, error);
+            marketLog.error('Failed to create market', { streamer: streamer.name, appSessionId, error });
             continue;
           }
 
-          console.log(`✅ Created market: ${question}`);
+          marketLog.info('Created market', { question, appSessionId });
           createdMarkets.push(market.id);
         }
       } catch (error) {
-        console.error(`Error processing stream ${stream.user_login}:`, error);
+        log.error('Error processing stream', { login: stream.user_login, error });
         continue;
       }
     }
 
-    await yellowClient.disconnect();
-
     return NextResponse.json({
       success: true,
       message: `Created ${createdMarkets.length} markets`,
@@ -203,7 +180,7 @@ export async function POST(request: NextRequest) {
       marketIds: createdMarkets,
     });
   } catch (error) {
-    console.error('Auto-market creation failed:', error);
+    log.error('Auto-market creation failed', { error });
     return NextResponse.json(
       {
         success: false,
@@ -1,16 +1,204 @@
 /**
  * API endpoint to place a bet on a prediction market using Yellow Network
+ *
+ * The stake buys LMSR shares (see lmsr.ts), quoted once before anything
+ * moves. The client sends what its quote promised (expectedShares, display
+ * units, and/or maxPrice, percent per share) and the bet is refused with
+ * 409 when the market moved against it since. The shares are recorded in
+ * the session's stake ledger with the stake. Bettors are not app session
+ * participants, so the bettor's wallet transfers the stake to the oracle,
+ * which deposits it and moves it to the pool net of the fee; the fee stays
+ * in the oracle's allocation of the session. A stake the session rejects
+ * is transferred back in full. The bet is reserved as a pending row before any
+ * funds move (reserve_bet), which adds its shares to the market and prices
+ * it in the same transaction, so the shares the ledger records are the ones
+ * the market moved by. When another bet changed the market since the quote,
+ * the bet is quoted again and still refused with 409 outside what the client
+ * accepted. The pending bet keeps its transfer id and session version as
+ * they come in. Once the session accepts the stake, record_bet confirms it
+ * and adds it to the market's amounts; a stake that never reached the
+ * session releases it (release_bet), giving its shares back. A Supabase
+ * access token, when sent, ties the bet to the signed-in user.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
-import { YellowClient } from '@/lib/yellow/client';
-import type { Hex } from 'viem';
+import { createServerClient, createServiceClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger, type Logger } from '@/lib/logger';
+import { getOracleService, getYellowService } from '@/lib/yellow/service';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
+import type { MarketOutcome } from '@/lib/yellow/pools';
+import { lmsrPrices, marketLiquidity, marketShares, type MarketPrices } from '@/lib/yellow/lmsr';
+import { quoteBet, type BetQuote, type QuotableMarket } from '@/lib/yellow/quote';
+import type { BetReceipt } from '@/lib/yellow/types';
+import { getAddress, type Hex } from 'viem';
+
+// Attempts before giving up when other bets keep changing the market's shares
+const RESERVE_ATTEMPTS = 3;
+
+// serialization_failure, raised by reserve_bet when the shares moved since the quote
+const SHARES_CHANGED = '40001';
+
+// What the client accepted from its quote
+interface BetLimits {
+  expectedShares?: bigint; // Smallest units
+  maxPrice?: number; // Percent per share
+}
+
+interface PendingBet {
+  marketId: string;
+  appSessionId: string;
+  userId: string | null;
+  walletAddress: string;
+  outcome: MarketOutcome;
+  stake: bigint; // Smallest units, fee included
+  liquidity: bigint;
+  limits: BetLimits;
+}
+
+interface BetReservation {
+  betId: string; // Pending row reserved with reserve_bet
+  quote: BetQuote; // The shares the stake bought
+  prices: MarketPrices; // What the shares left the market at
+}
+
+/**
+ * Whether the market moved against the bet beyond what the client accepted
+ */
+function priceMoved(quote: BetQuote, limits: BetLimits): boolean {
+  return (
+    (limits.expectedShares !== undefined && quote.shares < limits.expectedShares) ||
+    (limits.maxPrice !== undefined && quote.averagePrice > limits.maxPrice)
+  );
+}
+
+/**
+ * Reserve the bet with reserve_bet at `quote`, which adds its shares to the
+ * market. When another bet changed the market in between, the bet is quoted
+ * again against the latest shares; a new quote outside the client's limits
+ * is returned as `moved` without reserving anything.
+ */
+async function reserveBet(
+  bet: PendingBet,
+  market: QuotableMarket,
+  quote: BetQuote
+): Promise<BetReservation | { moved: BetQuote }> {
+  const service = createServiceClient();
+
+  for (let attempt = 1; ; attempt++) {
+    const shares = marketShares(market);
+    const prices = lmsrPrices(
+      { ...shares, [bet.outcome]: shares[bet.outcome] + quote.shares },
+      bet.liquidity
+    );
+    const { data: betId, error } = await service.rpc('reserve_bet', {
+      p_market_id: bet.marketId,
+      p_user_id: bet.userId,
+      p_wallet_address: bet.walletAddress,
+      p_side: bet.outcome,
+      p_amount: (quote.stake - quote.fee).toString(),
+      p_fee: quote.fee.toString(),
+      p_shares: quote.shares.toString(),
+      p_price_at_bet: quote.averagePrice,
+      p_app_session_id: bet.appSessionId,
+      p_yes_price: prices.yesPrice,
+      p_no_price: prices.noPrice,
+      p_expected_yes_shares: shares.yes.toString(),
+      p_expected_no_shares: shares.no.toString(),
+    });
+
+    if (!error) {
+      return { betId, quote, prices };
+    }
+    if (error.code !== SHARES_CHANGED || attempt === RESERVE_ATTEMPTS) {
+      throw error;
+    }
+
+    const { data: latest, error: marketError } = await service
+      .from('markets')
+      .select('asset, liquidity, yes_shares, no_shares, yes_amount, no_amount')
+      .eq('id', bet.marketId)
+      .single();
+    if (marketError) {
+      throw marketError;
+    }
+    market = latest;
+    quote = quoteBet(market, bet.outcome, bet.stake);
+    if (priceMoved(quote, bet.limits)) {
+      return { moved: quote };
+    }
+  }
+}
+
+/**
+ * 409 with the quote the bet would get now
+ */
+function priceMovedResponse(quote: BetQuote, assetId: string, limits: BetLimits, log: Logger) {
+  const sharesNow = fromSmallestUnit(quote.shares, assetId);
+  log.info('Price moved since the quote', { ...limits, shares: sharesNow });
+  return NextResponse.json(
+    {
+      error: `Price moved since your quote: ${sharesNow} shares at ${quote.averagePrice}% now. Review the new quote and try again.`,
+      shares: sharesNow,
+      averagePrice: quote.averagePrice,
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Store what is known about a pending bet so far, for reconciliation if it
+ * is never confirmed
+ */
+async function trackBet(
+  betId: string,
+  update: { yellow_tx_id?: string; app_session_version?: number },
+  log: Logger
+): Promise<void> {
+  const { error } = await createServiceClient().from('bets').update(update).eq('id', betId);
+  if (error) {
+    log.error('Failed to track pending bet', { betId, ...update, error });
+  }
+}
+
+/**
+ * Mark a pending bet whose stake never reached the app session as failed,
+ * giving its shares back to the market
+ */
+async function releaseBet(betId: string, reason: unknown, liquidity: bigint, log: Logger): Promise<void> {
+  const message = reason instanceof Error ? reason.message : String(reason);
+  const { error } = await createServiceClient().rpc('release_bet', {
+    p_bet_id: betId,
+    p_error: message,
+    p_liquidity: liquidity.toString(),
+  });
+  if (error) {
+    log.error('Failed to release pending bet', { betId, error });
+  }
+}
+
+/**
+ * Confirm the bet with record_bet and add its stake to the market's amounts
+ */
+async function recordBet(betId: string, volume: number, receipt: BetReceipt): Promise<void> {
+  const { error } = await createServiceClient().rpc('record_bet', {
+    p_bet_id: betId,
+    p_volume: volume,
+    p_app_session_version: receipt.version,
+    p_yellow_tx_id: receipt.transferId,
+  });
+  if (error) {
+    throw error;
+  }
+}
 
 export async function POST(request: NextRequest) {
+  const correlationId = createCorrelationId('bet');
+  let log = createLogger('api/markets/bet', { correlationId });
+
   try {
     const body = await request.json();
-    const { marketId, position, amount, userAddress } = body;
+    const { marketId, position, amount, userAddress, expectedShares, maxPrice } = body;
 
     // Validate required fields
     if (!marketId || !position || !amount || !userAddress) {
@@ -27,7 +215,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`💰 Processing bet: ${amount} on ${position.toUpperCase()} for market ${marketId}`);
+    if (expectedShares === undefined && maxPrice === undefined) {
+      return NextResponse.json(
+        { error: 'expectedShares or maxPrice is required, from a quote of this bet' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (expectedShares !== undefined && !(Number(expectedShares) > 0)) ||
+      (maxPrice !== undefined && !(Number(maxPrice) > 0))
+    ) {
+      return NextResponse.json(
+        { error: 'expectedShares and maxPrice must be positive numbers' },
+        { status: 400 }
+      );
+    }
+
+    log = log.child({ marketId });
+    log.info('Processing bet', { amount, position, userAddress });
+
+    // Signed-in user, if the caller sent their Supabase access token
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    let userId: string | null = null;
+    if (accessToken) {
+      const { data: { user } } = await createServerClient().auth.getUser(accessToken);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      userId = user.id;
+    }
 
     // Fetch market from database
     const { data: market, error: marketError } = await supabase
@@ -57,8 +277,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Yellow client with user's private key (in real app, use wallet connect)
-    // For now, we'll use a test private key or require it in the request
+    // Bet with the server-held demo user wallet (in real app, use wallet connect)
+    // Its authenticated connection is kept warm across requests
     const userPrivateKey = process.env.YELLOW_USER_PRIVATE_KEY;
     if (!userPrivateKey) {
       return NextResponse.json(
@@ -67,70 +287,139 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const yellowClient = new YellowClient(userPrivateKey as Hex);
-    await yellowClient.connect();
+    const { assetId } = getAsset(market.asset);
+    const betAmount = toSmallestUnit(amount, assetId);
+    const liquidity = marketLiquidity(market.liquidity, assetId);
+
+    const limits: BetLimits = {
+      expectedShares:
+        expectedShares !== undefined ? toSmallestUnit(String(expectedShares), assetId) : undefined,
+      maxPrice: maxPrice !== undefined ? Number(maxPrice) : undefined,
+    };
+
+    // Quote before anything moves, so a stake too small to buy a share is
+    // never submitted and the shares recorded are the ones checked here
+    let firstQuote: BetQuote;
+    try {
+      firstQuote = quoteBet(market, position, betAmount);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid stake' },
+        { status: 400 }
+      );
+    }
+    if (priceMoved(firstQuote, limits)) {
+      return priceMovedResponse(firstQuote, assetId, limits, log);
+    }
 
-    // Determine which pool to bet on
-    const poolAddress = position === 'yes' ? market.pool_yes_address : market.pool_no_address;
+    const bettor = getYellowService(userPrivateKey as Hex);
+    const oracle = getOracleService();
 
-    // Submit bet as DEPOSIT intent to the App Session
-    await yellowClient.submitBet(
-      market.app_session_id as Hex,
-      poolAddress as Hex,
-      amount
+    // Reserve the bet and its shares before any funds move
+    const reservation = await reserveBet(
+      {
+        marketId,
+        appSessionId: market.app_session_id,
+        userId,
+        walletAddress: bettor.address,
+        outcome: position,
+        stake: betAmount,
+        liquidity,
+        limits,
+      },
+      market,
+      firstQuote
     );
+    if ('moved' in reservation) {
+      return priceMovedResponse(reservation.moved, assetId, limits, log);
+    }
+    const { betId, quote, prices } = reservation;
+    log = log.child({ betId });
 
-    console.log(`✅ Bet submitted to Yellow Network`);
+    // What reaches the pool; the fee stays with the oracle
+    const poolStake = quote.stake - quote.fee;
 
-    // Update market amounts in database
-    const currentYesAmount = BigInt(market.yes_amount || '0');
-    const currentNoAmount = BigInt(market.no_amount || '0');
-    const betAmount = BigInt(Math.floor(amount * 1e6)); // Convert to smallest unit (6 decimals)
+    // Pay the stake to the oracle, which adds it to the pool of the position
+    let transferId: string;
+    try {
+      transferId = await bettor.transfer(oracle.address, assetId, betAmount.toString(), {
+        correlationId,
+      });
+    } catch (error) {
+      await releaseBet(betId, error, liquidity, log);
+      throw error;
+    }
+    await trackBet(betId, { yellow_tx_id: transferId }, log);
 
-    const newYesAmount = position === 'yes' ? currentYesAmount + betAmount : currentYesAmount;
-    const newNoAmount = position === 'no' ? currentNoAmount + betAmount : currentNoAmount;
+    let version: number;
+    try {
+      version = await oracle.addStakes(
+        market.app_session_id as Hex,
+        assetId,
+        betAmount.toString(),
+        [
+          {
+            bettor: bettor.address,
+            outcome: position,
+            amount: poolStake.toString(),
+            shares: quote.shares.toString(),
+          },
+        ],
+        { correlationId }
+      );
+    } catch (error) {
+      try {
+        await oracle.transfer(bettor.address, assetId, betAmount.toString(), { correlationId });
+        await releaseBet(betId, error, liquidity, log);
+      } catch (refundError) {
+        // Left pending: the stake is with the oracle and still owed
+        log.error('Failed to refund rejected stake', { transferId, error: refundError });
+      }
+      throw error;
+    }
+    await trackBet(betId, { app_session_version: version }, log);
 
-    // Calculate new probabilities (simple AMM formula)
-    const totalVolume = newYesAmount + newNoAmount;
-    const newYesPrice = totalVolume > 0n ? Number((newYesAmount * 100n) / totalVolume) : 50;
-    const newNoPrice = 100 - newYesPrice;
+    const receipt: BetReceipt = { bettor: bettor.address, version, transferId };
+    log.info('Bet submitted to Yellow Network', {
+      appSessionId: market.app_session_id,
+      version,
+      transferId,
+    });
 
-    // Update market
-    const { error: updateError } = await supabase
-      .from('markets')
-      .update({
-        yes_amount: newYesAmount.toString(),
-        no_amount: newNoAmount.toString(),
-        yes_price: newYesPrice,
-        no_price: newNoPrice,
-        volume: market.volume + amount,
-      } as any)
-      .eq('id', marketId);
-
-    await yellowClient.disconnect();
-
-    if (updateError) {
-      console.error('Failed to update market:', updateError);
+    // Confirm the bet and add its stake to the market amounts
+    try {
+      await recordBet(betId, Number(amount), receipt);
+    } catch (error) {
+      log.error('Failed to record bet, left pending for reconciliation', { error, version: receipt.version });
       return NextResponse.json(
-        { error: 'Bet placed but failed to update market display' },
+        { error: 'Bet placed but failed to record it', betId },
         { status: 500 }
       );
     }
 
-    console.log(`✅ Market updated: YES ${newYesPrice}% / NO ${newNoPrice}%`);
+    log.info('Bet recorded', {
+      shares: quote.shares.toString(),
+      yesPrice: prices.yesPrice,
+      noPrice: prices.noPrice,
+    });
 
     return NextResponse.json({
       success: true,
       bet: {
+        id: betId,
         marketId,
         position,
         amount,
-        newYesPrice,
-        newNoPrice,
+        walletAddress: getAddress(receipt.bettor),
+        appSessionVersion: receipt.version,
+        shares: quote.shares.toString(),
+        averagePrice: quote.averagePrice,
+        newYesPrice: prices.yesPrice,
+        newNoPrice: prices.noPrice,
       },
     });
   } catch (error) {
-    console.error('Bet placement failed:', error);
+    log.error('Bet placement failed', { error });
     return NextResponse.json(
       {
         success: false,
@@ -1,11 +1,22 @@
 /**
- * API endpoint to claim winnings from a resolved prediction market
+ * API endpoint to check a bettor's winnings from a resolved prediction market
+ *
+ * There is nothing to withdraw: settling a market closes its app session
+ * with the pot in the oracle's allocation, and the oracle transfers each
+ * winner's payout to their wallet (see lib/yellow/market-payouts.ts). This
+ * reports the bettor's payout: its amount, whether it has been sent and
+ * the ClearNode transfer that paid it.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase/client';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { fromSmallestUnit, getAsset } from '@/lib/yellow/assets';
+import { getAddress, isAddress } from 'viem';
 
 export async function POST(request: NextRequest) {
+  const log = createLogger('api/markets/claim', { correlationId: createCorrelationId('claim') });
+
   try {
     const body = await request.json();
     const { marketId, userAddress } = body;
@@ -18,7 +29,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`💰 Processing claim for market ${marketId} by ${userAddress}`);
+    if (!isAddress(userAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid user address' },
+        { status: 400 }
+      );
+    }
+
+    log.info('Processing claim', { marketId, userAddress });
 
     // Fetch market from database
     const { data: market, error: marketError } = await supabase
@@ -48,52 +66,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // In a real implementation, this would:
-    // 1. Check if the user has bets on the winning side
-    // 2. Calculate their share of the winnings
-    // 3. Withdraw from the Yellow Network App Session to their wallet
-    //
-    // For now, we'll simulate this and just mark it as claimed
-
-    // The actual distribution happens when the oracle calls distributeWinnings
-    // which closes the App Session and sends funds to the winning pool
-    // Users would then withdraw from their pool
-
-    // Calculate winnings (simplified)
-    const totalWinningAmount = market.winner === 'yes'
-      ? BigInt(market.yes_amount || '0')
-      : BigInt(market.no_amount || '0');
-
-    const totalLosingAmount = market.winner === 'yes'
-      ? BigInt(market.no_amount || '0')
-      : BigInt(market.yes_amount || '0');
-
-    const totalPot = totalWinningAmount + totalLosingAmount;
+    // Recorded by the oracle when it settled the market
+    const { data: payout, error: payoutError } = await supabase
+      .from('market_payouts')
+      .select('*')
+      .eq('market_id', marketId)
+      .eq('wallet_address', getAddress(userAddress))
+      .maybeSingle();
 
-    // In real app: fetch user's bet amount from a bets table
-    // For demo: assume user has 10 USDC bet
-    const userBetAmount = BigInt(10 * 1e6); // 10 USDC in smallest unit
+    if (payoutError) {
+      throw payoutError;
+    }
 
-    // Calculate user's share: (userBet / totalWinningPool) * totalPot
-    const userWinnings = totalWinningAmount > 0n
-      ? (userBetAmount * totalPot) / totalWinningAmount
-      : 0n;
+    if (!payout) {
+      return NextResponse.json(
+        { error: 'No winning bets in this market' },
+        { status: 400 }
+      );
+    }
 
-    const winningsInUSDC = Number(userWinnings) / 1e6;
+    const asset = getAsset(payout.asset);
+    const winnings = Number(fromSmallestUnit(payout.amount, asset.assetId));
+    const paid = payout.status === 'paid';
 
-    console.log(`✅ User would receive ${winningsInUSDC} USDC`);
+    log.info('Claim checked', { marketId, winnings, asset: asset.assetId, status: payout.status });
 
     return NextResponse.json({
       success: true,
       claim: {
         marketId,
         winner: market.winner,
-        winnings: winningsInUSDC,
-        message: `You won ${winningsInUSDC} USDC! (Demo mode - actual withdrawal not implemented)`,
+        winnings,
+        asset: asset.assetId,
+        status: payout.status,
+        transferId: payout.yellow_tx_id,
+        paidAt: payout.paid_at,
+        message: paid
+          ? `You won ${winnings} ${asset.symbol}! It was transferred to your wallet.`
+          : `You won ${winnings} ${asset.symbol}! The oracle is transferring it to your wallet.`,
       },
     });
   } catch (error) {
-    console.error('Claim failed:', error);
+    log.error('Claim failed', { error });
     return NextResponse.json(
       {
         success: false,
@@ -4,23 +4,73 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
-import { YellowClient } from '@/lib/yellow/client';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { getOracleService } from '@/lib/yellow/service';
+import { DEFAULT_ASSET_ID, isSupportedAsset } from '@/lib/yellow/assets';
 import { YELLOW_CONFIG } from '@/lib/yellow/config';
-import type { Hex } from 'viem';
+import { getMarketType, MARKET_TYPES } from '@/lib/yellow/market-types';
+import { takeSnapshot } from '@/lib/yellow/sampler';
+import { MarketType } from '@/lib/yellow/types';
 
 export async function POST(request: NextRequest) {
+  const correlationId = createCorrelationId('market');
+  const log = createLogger('api/markets/create', { correlationId });
+
   try {
     const body = await request.json();
-    const { streamerId, question, description, twitchMetric, targetValue, endDate } = body;
+    const { streamerId, question, description, targetValue, endDate } = body;
+    const asset: string = body.asset || DEFAULT_ASSET_ID;
+    const liquidity = Number(body.liquidity ?? YELLOW_CONFIG.MARKET.LIQUIDITY);
+    let targetCategory: string | null = body.targetCategory?.trim() || null;
 
     // Validate required fields
-    if (!streamerId || !question || !twitchMetric || !targetValue || !endDate) {
+    if (!streamerId || !question || !(body.marketType || body.twitchMetric) || !endDate) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    // Older clients only send twitchMetric, which maps to a market type
+    let marketType: MarketType;
+    try {
+      marketType = getMarketType({ market_type: body.marketType, twitch_metric: body.twitchMetric });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown market type' },
+        { status: 400 }
+      );
+    }
+    const typeInfo = MARKET_TYPES[marketType];
+
+    if (typeInfo.target === 'number' && !(Number(targetValue) >= 1)) {
+      return NextResponse.json(
+        { error: `${typeInfo.targetLabel} must be at least 1` },
+        { status: 400 }
+      );
+    }
+
+    if (typeInfo.target === 'category' && !targetCategory && marketType !== MarketType.CHANGE_CATEGORY) {
+      return NextResponse.json(
+        { error: `${typeInfo.targetLabel} is required` },
+        { status: 400 }
+      );
+    }
+
+    if (!isSupportedAsset(asset)) {
+      return NextResponse.json(
+        { error: `Unsupported asset: ${asset}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(liquidity > 0)) {
+      return NextResponse.json(
+        { error: 'Liquidity must be a positive amount' },
+        { status: 400 }
+      );
+    }
+
     // Check authentication
     const supabase = createServerClient();
     const { data: { user } } = await supabase.auth.getUser();
@@ -32,59 +82,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`🎲 Creating market: ${question}`);
+    // Change-category markets compare against the category at creation
+    if (typeInfo.target === 'category' && !targetCategory) {
+      const { data: streamer } = await supabase
+        .from('streamers')
+        .select('slug')
+        .eq('id', streamerId)
+        .single();
+      if (!streamer) {
+        return NextResponse.json({ error: 'Streamer not found' }, { status: 404 });
+      }
 
-    // Initialize Yellow client with oracle private key
-    const oraclePrivateKey = process.env.YELLOW_ORACLE_PRIVATE_KEY;
-    if (!oraclePrivateKey) {
-      throw new Error('YELLOW_ORACLE_PRIVATE_KEY not configured');
+      targetCategory = (await takeSnapshot(streamer.slug)).gameName;
+      if (!targetCategory) {
+        return NextResponse.json(
+          { error: 'Streamer has no current category to compare against' },
+          { status: 400 }
+        );
+      }
     }
 
-    const yellowClient = new YellowClient(oraclePrivateKey as Hex);
-    await yellowClient.connect();
-
-    // Create Yellow Network App Session
-    const oracleAddress = yellowClient.getAddress();
-    const appSessionId = await yellowClient.createAppSession({
-      definition: {
-        protocol: 'NitroRPC/0.4',
-        application: YELLOW_CONFIG.APPLICATION_NAME,
-        name: `Market: ${question.substring(0, 50)}`,
-        participants: [
-          YELLOW_CONFIG.DEFAULT_POOL_YES,
-          YELLOW_CONFIG.DEFAULT_POOL_NO,
-          oracleAddress
-        ] as string[],
-        weights: [0, 0, 100], // Oracle has full control to close
-        quorum: 100,
-        challenge: 3600,
-        nonce: Date.now(),
-      },
-      allocations: [
-        {
-          participant: YELLOW_CONFIG.DEFAULT_POOL_YES as `0x${string}`,
-          asset: 'ytest.usd',
-          amount: '0',
-        },
-        {
-          participant: YELLOW_CONFIG.DEFAULT_POOL_NO as `0x${string}`,
-          asset: 'ytest.usd',
-          amount: '0',
-        },
-        {
-          participant: oracleAddress as `0x${string}`,
-          asset: 'ytest.usd',
-          amount: '0',
-        },
-      ],
-    });
+    log.info('Creating market', { question, streamerId, asset, marketType });
 
-    console.log(`✅ Yellow App Session created: ${appSessionId}`);
+    // Pool participants are derived from the market id, so pick it up front
+    const marketId = crypto.randomUUID();
+
+    // Create Yellow Network App Session with the oracle wallet
+    const { appSessionId, pools, oracleAddress } = await getOracleService().createMarketSession(
+      { marketId, question, asset },
+      { correlationId }
+    );
+
+    log.info('Yellow App Session created', { marketId, appSessionId });
 
     // Insert market into database
     const { data: market, error } = await supabase
       .from('markets')
       .insert({
+        id: marketId,
         streamer_id: streamerId,
         question,
         description: description || null,
@@ -95,35 +130,37 @@ export async function POST(request: NextRequest) {
         volume: 0,
         // Yellow Network fields
         app_session_id: appSessionId,
-        pool_yes_address: YELLOW_CONFIG.DEFAULT_POOL_YES,
-        pool_no_address: YELLOW_CONFIG.DEFAULT_POOL_NO,
-        oracle_address: yellowClient.getAddress(),
+        pool_yes_address: pools.yes,
+        pool_no_address: pools.no,
+        oracle_address: oracleAddress,
         yes_amount: '0',
         no_amount: '0',
-        twitch_metric: twitchMetric,
-        target_value: targetValue,
+        liquidity,
+        market_type: marketType,
+        twitch_metric: typeInfo.metric,
+        target_value: typeInfo.target === 'number' ? Number(targetValue) : null,
+        target_category: typeInfo.target === 'category' ? targetCategory : null,
+        asset,
       } as any)
       .select()
       .single();
 
-    await yellowClient.disconnect();
-
     if (error) {
-      console.error('Database error:', error);
+      log.error('Database error', { marketId, appSessionId, error });
       return NextResponse.json(
         { error: 'Failed to create market in database' },
         { status: 500 }
       );
     }
 
-    console.log(`✅ Market created successfully: ${market.id}`);
+    log.info('Market created', { marketId: market.id });
 
     return NextResponse.json({
       success: true,
       market,
     });
   } catch (error) {
-    console.error('Market creation failed:', error);
+    log.error('Market creation failed', { error });
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,130 @@
+/**
+ * API endpoint to dispute a market's proposed outcome during its dispute window
+ *
+ * POST - { marketId, reason }. Only signed-in users with a bet in the
+ * market can dispute it; the dispute is filed for the wallet of their bets.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, createServiceClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { getBettorWallet, getCurrentResolution } from '@/lib/yellow/disputes';
+
+const MAX_REASON_LENGTH = 2000;
+
+export async function POST(request: NextRequest) {
+  const log = createLogger('api/markets/dispute', { correlationId: createCorrelationId('dispute') });
+
+  try {
+    const body = await request.json();
+    const { marketId } = body;
+    const reason: string = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    // Validate required fields
+    if (!marketId || !reason) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Check authentication (the caller's Supabase access token)
+    const supabase = createServerClient();
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '') || undefined;
+    const { data: { user } } = await supabase.auth.getUser(accessToken);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { data: market } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('id', marketId)
+      .maybeSingle();
+
+    if (!market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    if (market.status !== 'proposed' || !market.dispute_ends_at) {
+      return NextResponse.json(
+        { error: 'Market has no proposed outcome to dispute' },
+        { status: 400 }
+      );
+    }
+
+    if (new Date(market.dispute_ends_at) <= new Date()) {
+      return NextResponse.json(
+        { error: 'Dispute window has ended' },
+        { status: 400 }
+      );
+    }
+
+    // Only bettors in the market can dispute its outcome
+    const bettorAddress = await getBettorWallet(market.id, user.id);
+    if (!bettorAddress) {
+      return NextResponse.json(
+        { error: 'Only bettors in this market can dispute its outcome' },
+        { status: 403 }
+      );
+    }
+
+    const resolution = await getCurrentResolution(market.id);
+    if (!resolution) {
+      return NextResponse.json(
+        { error: 'Market has no proposed outcome to dispute' },
+        { status: 400 }
+      );
+    }
+
+    const { data: dispute, error } = await createServiceClient()
+      .from('market_disputes')
+      .insert({
+        market_id: market.id,
+        resolution_id: resolution.id,
+        user_id: user.id,
+        bettor_address: bettorAddress,
+        reason,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      log.error('Database error', { marketId, error });
+      return NextResponse.json(
+        { error: 'Failed to file dispute' },
+        { status: 500 }
+      );
+    }
+
+    log.info('Dispute filed', { marketId, disputeId: dispute.id, resolutionId: resolution.id });
+
+    return NextResponse.json({
+      success: true,
+      dispute,
+    });
+  } catch (error) {
+    log.error('Dispute filing failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
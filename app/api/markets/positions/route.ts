@@ -0,0 +1,55 @@
+/**
+ * API endpoint for user positions
+ *
+ * GET - A user's stakes per market, summed over their bets, with what each
+ *       would pay out if either side won at the current pool sizes
+ *       ?address=0x... or ?userId=<uuid>, optionally &marketId=<uuid>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { getPositions } from '@/lib/yellow/positions';
+import { isAddress } from 'viem';
+
+export async function GET(request: NextRequest) {
+  const log = createLogger('api/markets/positions', { correlationId: createCorrelationId('positions') });
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const userId = searchParams.get('userId');
+    const marketId = searchParams.get('marketId');
+
+    if (!address && !userId) {
+      return NextResponse.json(
+        { error: 'address or userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (address && !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid address' },
+        { status: 400 }
+      );
+    }
+
+    const positions = await getPositions({
+      walletAddress: address ?? undefined,
+      userId: userId ?? undefined,
+      marketId: marketId ?? undefined,
+    });
+    log.info('Positions fetched', { address, userId, marketId, count: positions.length });
+
+    return NextResponse.json({ success: true, positions });
+  } catch (error) {
+    log.error('Fetching positions failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
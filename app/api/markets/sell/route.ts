@@ -0,0 +1,447 @@
+/**
+ * API endpoint to cash out a position before the market resolves
+ *
+ * POST - { marketId, position: 'yes' | 'no', shares? } sells `shares`
+ *        (display units, all held when omitted) of the signed-in user's
+ *        position back to the LMSR market maker. Requires a Supabase
+ *        access token, and only sells shares that user's own bets bought.
+ *        Bettors are not app session participants, so the oracle moves the
+ *        proceeds from the pool to its allocation in an OPERATE state
+ *        update, withdraws them net of the fee (which stays in its
+ *        allocation) and transfers them to the seller. The sale is stored
+ *        in the bets table as a negative position with its realized PnL.
+ *        It is reserved before the session moves (reserve_sale), which
+ *        checks the shares the user still holds and takes them off the
+ *        market under its lock, and quoted again when another bet changed
+ *        the market since the quote. The seller is only paid once
+ *        record_sale has confirmed the sale; a sale that cannot be
+ *        confirmed is given back to its pool instead (release_sale).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase/client';
+import { createServerClient, createServiceClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger, type Logger } from '@/lib/logger';
+import { getOracleService } from '@/lib/yellow/service';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
+import type { MarketOutcome } from '@/lib/yellow/pools';
+import {
+  betFee,
+  lmsrPrices,
+  marketLiquidity,
+  marketShares,
+  quoteSale,
+  type MarketPrices,
+  type OutstandingShares,
+  type SaleQuote,
+} from '@/lib/yellow/lmsr';
+import { costOfShares, getPositions } from '@/lib/yellow/positions';
+import type { BetReceipt } from '@/lib/yellow/types';
+import { getAddress, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+// Attempts before giving up when other bets keep changing the market's shares
+const RESERVE_ATTEMPTS = 3;
+
+// Attempts to confirm a sale the session already took before giving it back
+const RECORD_ATTEMPTS = 3;
+
+// serialization_failure, raised by reserve_sale when the shares moved since the quote
+const SHARES_CHANGED = '40001';
+
+// check_violation, raised by reserve_sale when the shares are no longer held or the pool is short
+const SALE_REFUSED = '23514';
+
+interface PendingSale {
+  marketId: string;
+  appSessionId: string;
+  userId: string;
+  walletAddress: string;
+  outcome: MarketOutcome;
+  sold: bigint;
+  liquidity: bigint;
+  holding: { shares: bigint; cost: bigint }; // Shares held before the sale and their cost
+}
+
+interface SaleTerms {
+  quote: SaleQuote;
+  fee: bigint; // Kept by the oracle
+  payout: bigint; // What the seller is paid, the proceeds net of the fee
+  realizedPnl: bigint; // Against what the seller is paid
+  prices: MarketPrices; // What the sale leaves the market at
+}
+
+interface SaleReservation extends SaleTerms {
+  saleId: string; // Pending row reserved with reserve_sale
+}
+
+/**
+ * What selling the shares pays at `shares` outstanding. Throws when they
+ * are worth nothing.
+ */
+function priceSale(sale: PendingSale, shares: OutstandingShares): SaleTerms {
+  const { outcome, sold } = sale;
+  const quote = quoteSale(shares, sale.liquidity, outcome, sold);
+
+  // The pool pays the proceeds; the oracle keeps the fee and pays out the rest
+  const fee = betFee(quote.proceeds);
+  const payout = quote.proceeds - fee;
+  if (payout <= 0n) {
+    throw new Error('These shares are worth nothing at the current price');
+  }
+
+  return {
+    quote,
+    fee,
+    payout,
+    realizedPnl: payout - costOfShares(sale.holding, sold),
+    prices: lmsrPrices({ ...shares, [outcome]: shares[outcome] - sold }, sale.liquidity),
+  };
+}
+
+/**
+ * Reserve the sale with reserve_sale at `terms`, which takes its shares and
+ * proceeds off the market. When another bet changed the market in between,
+ * the sale is priced again against the latest shares. A sale the seller no
+ * longer holds the shares for, or the pool can no longer cover, is returned
+ * as `refused`.
+ */
+async function reserveSale(
+  sale: PendingSale,
+  shares: OutstandingShares,
+  terms: SaleTerms
+): Promise<SaleReservation | { refused: string }> {
+  const service = createServiceClient();
+
+  for (let attempt = 1; ; attempt++) {
+    const { data: saleId, error } = await service.rpc('reserve_sale', {
+      p_market_id: sale.marketId,
+      p_user_id: sale.userId,
+      p_wallet_address: sale.walletAddress,
+      p_side: sale.outcome,
+      p_proceeds: terms.quote.proceeds.toString(),
+      p_fee: terms.fee.toString(),
+      p_shares: sale.sold.toString(),
+      p_price: terms.quote.averagePrice,
+      p_realized_pnl: terms.realizedPnl.toString(),
+      p_yes_price: terms.prices.yesPrice,
+      p_no_price: terms.prices.noPrice,
+      p_app_session_id: sale.appSessionId,
+      p_expected_yes_shares: shares.yes.toString(),
+      p_expected_no_shares: shares.no.toString(),
+    });
+
+    if (!error) {
+      return { saleId, ...terms };
+    }
+    if (error.code === SALE_REFUSED) {
+      return { refused: error.message };
+    }
+    if (error.code !== SHARES_CHANGED || attempt === RESERVE_ATTEMPTS) {
+      throw error;
+    }
+
+    const { data: market, error: marketError } = await service
+      .from('markets')
+      .select('yes_shares, no_shares')
+      .eq('id', sale.marketId)
+      .single();
+    if (marketError) {
+      throw marketError;
+    }
+    shares = marketShares(market);
+    try {
+      terms = priceSale(sale, shares);
+    } catch (priceError) {
+      return { refused: priceError instanceof Error ? priceError.message : 'Invalid sale' };
+    }
+  }
+}
+
+/**
+ * Confirm a reserved sale the app session took, with record_sale
+ */
+async function recordSale(saleId: string, volume: number, receipt: BetReceipt): Promise<void> {
+  const service = createServiceClient();
+
+  for (let attempt = 1; ; attempt++) {
+    const { error } = await service.rpc('record_sale', {
+      p_sale_id: saleId,
+      p_volume: volume,
+      p_app_session_version: receipt.version,
+    });
+    if (!error) {
+      return;
+    }
+    if (attempt === RECORD_ATTEMPTS) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Mark a pending sale that is not in the app session as failed, giving its
+ * shares and proceeds back to the market
+ */
+async function releaseSale(saleId: string, reason: unknown, liquidity: bigint, log: Logger): Promise<void> {
+  const message = reason instanceof Error ? reason.message : String(reason);
+  const { error } = await createServiceClient().rpc('release_sale', {
+    p_sale_id: saleId,
+    p_error: message,
+    p_liquidity: liquidity.toString(),
+  });
+  if (error) {
+    log.error('Failed to release pending sale', { saleId, error });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const correlationId = createCorrelationId('sale');
+  let log = createLogger('api/markets/sell', { correlationId });
+
+  try {
+    const body = await request.json();
+    const { marketId, position } = body;
+
+    if (!marketId || !position) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (position !== 'yes' && position !== 'no') {
+      return NextResponse.json(
+        { error: 'Invalid position. Must be "yes" or "no"' },
+        { status: 400 }
+      );
+    }
+    const outcome: MarketOutcome = position;
+
+    if (body.shares !== undefined && !(Number(body.shares) > 0)) {
+      return NextResponse.json(
+        { error: 'shares must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    log = log.child({ marketId });
+    log.info('Processing sale', { position, shares: body.shares });
+
+    // Only the signed-in user's own shares can be sold
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { data: { user } } = await createServerClient().auth.getUser(accessToken);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = user.id;
+
+    const { data: market, error: marketError } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('id', marketId)
+      .single();
+
+    if (marketError || !market) {
+      return NextResponse.json(
+        { error: 'Market not found' },
+        { status: 404 }
+      );
+    }
+
+    if (market.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Market is not active' },
+        { status: 400 }
+      );
+    }
+
+    if (!market.app_session_id) {
+      return NextResponse.json(
+        { error: 'Market does not have Yellow Network integration' },
+        { status: 400 }
+      );
+    }
+
+    // Sell from the server-held demo user wallet, the one bets are placed with
+    const userPrivateKey = process.env.YELLOW_USER_PRIVATE_KEY;
+    if (!userPrivateKey) {
+      return NextResponse.json(
+        { error: 'User wallet not configured. Please connect your wallet.' },
+        { status: 400 }
+      );
+    }
+    const seller = privateKeyToAccount(userPrivateKey as Hex).address;
+
+    // Shares held and their cost, from the user's own bets in this market
+    const positions = await getPositions({ userId, marketId });
+    const held = positions.find((p) => p.wallet_address.toLowerCase() === seller.toLowerCase());
+    const heldShares = BigInt(held?.[`${outcome}_shares`] ?? '0');
+    if (heldShares <= 0n) {
+      return NextResponse.json(
+        { error: `No ${outcome.toUpperCase()} shares to cash out` },
+        { status: 400 }
+      );
+    }
+
+    const { assetId } = getAsset(market.asset);
+    const sold = body.shares === undefined ? heldShares : toSmallestUnit(body.shares, assetId);
+    if (sold > heldShares || !held) {
+      return NextResponse.json(
+        { error: `Only ${fromSmallestUnit(heldShares, assetId)} ${outcome.toUpperCase()} shares held` },
+        { status: 400 }
+      );
+    }
+
+    const pending: PendingSale = {
+      marketId,
+      appSessionId: market.app_session_id,
+      userId,
+      walletAddress: seller,
+      outcome,
+      sold,
+      liquidity: marketLiquidity(market.liquidity, assetId),
+      holding: { shares: heldShares, cost: BigInt(held[`${outcome}_cost`]) },
+    };
+
+    let terms: SaleTerms;
+    try {
+      terms = priceSale(pending, marketShares(market));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid sale' },
+        { status: 400 }
+      );
+    }
+
+    // Reserve the sale and take its shares off the market before the session moves
+    const reservation = await reserveSale(pending, marketShares(market), terms);
+    if ('refused' in reservation) {
+      log.info('Sale refused', { reason: reservation.refused });
+      return NextResponse.json(
+        { error: reservation.refused },
+        { status: 400 }
+      );
+    }
+    const { saleId, quote, fee, payout, realizedPnl, prices } = reservation;
+    const { proceeds } = quote;
+    log = log.child({ saleId });
+
+    // The oracle moves the proceeds out of the pool and records the sale in the ledger
+    const oracle = getOracleService();
+    let version: number;
+    try {
+      version = await oracle.cashOut(
+        market.app_session_id as Hex,
+        assetId,
+        seller,
+        outcome,
+        proceeds.toString(),
+        sold.toString(),
+        { correlationId }
+      );
+    } catch (error) {
+      await releaseSale(saleId, error, pending.liquidity, log);
+      throw error;
+    }
+    const receipt: BetReceipt = { bettor: seller, version };
+
+    log.info('Sale submitted to Yellow Network', {
+      appSessionId: market.app_session_id,
+      version,
+    });
+
+    // Confirm the sale before paying it; one that cannot be confirmed goes back to its pool
+    try {
+      await recordSale(saleId, Number(fromSmallestUnit(proceeds, assetId)), receipt);
+    } catch (error) {
+      log.error('Failed to record sale, reverting it', { error, version });
+      try {
+        await oracle.revertCashOut(
+          market.app_session_id as Hex,
+          assetId,
+          seller,
+          outcome,
+          proceeds.toString(),
+          sold.toString(),
+          { correlationId }
+        );
+        await releaseSale(saleId, error, pending.liquidity, log);
+      } catch (revertError) {
+        // Left pending: the proceeds are in the oracle's allocation and the sale in the ledger
+        log.error('Failed to revert unrecorded sale', { version, error: revertError });
+        return NextResponse.json(
+          { error: 'Sale submitted but failed to record it', saleId },
+          { status: 500 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to record sale, it was reverted', saleId },
+        { status: 500 }
+      );
+    }
+
+    let transferId: string;
+    try {
+      await oracle.withdraw(market.app_session_id as Hex, assetId, payout.toString(), { correlationId });
+      transferId = await oracle.transfer(seller, assetId, payout.toString(), { correlationId });
+    } catch (error) {
+      log.error('Sale recorded but not paid, pay it by hand', { error, version, payout: payout.toString() });
+      return NextResponse.json(
+        { error: 'Sale recorded but the payout failed', saleId },
+        { status: 500 }
+      );
+    }
+
+    const { error: trackError } = await createServiceClient()
+      .from('bets')
+      .update({ yellow_tx_id: transferId })
+      .eq('id', saleId);
+    if (trackError) {
+      log.error('Failed to store the payout transfer of the sale', { saleId, transferId, error: trackError });
+    }
+
+    log.info('Sale recorded', {
+      proceeds: proceeds.toString(),
+      payout: payout.toString(),
+      realizedPnl: realizedPnl.toString(),
+      transferId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      sale: {
+        id: saleId,
+        marketId,
+        position: outcome,
+        walletAddress: getAddress(receipt.bettor),
+        appSessionVersion: receipt.version,
+        shares: fromSmallestUnit(sold, assetId),
+        proceeds: fromSmallestUnit(payout, assetId),
+        fee: fromSmallestUnit(fee, assetId),
+        averagePrice: quote.averagePrice,
+        realizedPnl: fromSmallestUnit(realizedPnl, assetId),
+        newYesPrice: prices.yesPrice,
+        newNoPrice: prices.noPrice,
+      },
+    });
+  } catch (error) {
+    log.error('Sale failed', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
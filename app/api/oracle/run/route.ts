@@ -5,20 +5,20 @@
  * 1. Close expired markets
  * 2. Resolve closed markets
  * 3. Distribute winnings
+ * 4. Refund cancelled markets
  *
- * Can be called manually or via cron job
+ * Can be called manually or via cron job; `npm run oracle` runs the same
+ * cycle on a schedule without it
  */
 
 import { NextResponse } from 'next/server';
-import { YellowClient } from '@/lib/yellow/client';
+import { createCorrelationId, createLogger } from '@/lib/logger';
 import { TwitchOracle } from '@/lib/yellow/oracle';
-import { YELLOW_CONFIG } from '@/lib/yellow/config';
-
-// Oracle wallet address (should be a secure server-side wallet)
-const ORACLE_ADDRESS = process.env.ORACLE_WALLET_ADDRESS as `0x${string}`;
-const ORACLE_PRIVATE_KEY = process.env.ORACLE_PRIVATE_KEY as `0x${string}`;
+import { getOracleService } from '@/lib/yellow/service';
 
 export async function POST(request: Request) {
+  const log = createLogger('api/oracle/run', { correlationId: createCorrelationId('run') });
+
   try {
     // Optional: Add authentication/authorization here
     // For example, check for a secret token
@@ -29,36 +29,23 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('🔮 Oracle API: Starting oracle cycle...');
-
-    // Initialize Yellow Client
-    const yellowClient = new YellowClient({
-      wsUrl: YELLOW_CONFIG.CLEARNODE_WS_URL,
-    });
-
-    // Connect to Yellow Network
-    await yellowClient.connect();
+    log.info('Starting oracle cycle');
 
-    // Note: In production, you'd authenticate with the oracle's wallet
-    // For now, this is a placeholder - the oracle needs to be authenticated
-    // to be able to close App Sessions
-
-    // Initialize Oracle
-    const oracle = new TwitchOracle(yellowClient, ORACLE_ADDRESS);
+    // The oracle wallet's warm, authenticated connection closes App Sessions
+    const yellowService = getOracleService();
+    const oracle = new TwitchOracle(await yellowService.getClient(), yellowService.address);
 
     // Run oracle cycle
-    await oracle.run();
-
-    // Disconnect
-    await yellowClient.disconnect();
+    const result = await oracle.run('api');
 
     return NextResponse.json({
       success: true,
       message: 'Oracle cycle completed successfully',
+      result,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Oracle API error:', error);
+    log.error('Oracle cycle failed', { error });
 
     return NextResponse.json(
       {
@@ -73,9 +60,16 @@ export async function POST(request: Request) {
 
 // GET endpoint to check oracle status
 export async function GET() {
+  let oracleAddress = 'not configured';
+  try {
+    oracleAddress = getOracleService().address;
+  } catch {
+    // YELLOW_ORACLE_PRIVATE_KEY is not set
+  }
+
   return NextResponse.json({
     status: 'ready',
-    oracle_address: ORACLE_ADDRESS || 'not configured',
+    oracle_address: oracleAddress,
     message: 'Oracle API is running. Use POST to trigger oracle cycle.',
   });
 }
@@ -0,0 +1,42 @@
+/**
+ * Metric Sampler API Endpoint
+ *
+ * Records one metric snapshot per tracked streamer. Call it from a cron job
+ * every ORACLE.SAMPLE_INTERVAL when scripts/metric-sampler.ts is not running.
+ */
+
+import { NextResponse } from 'next/server';
+import { createCorrelationId, createLogger } from '@/lib/logger';
+import { sampleTrackedStreamers } from '@/lib/yellow/sampler';
+
+export async function POST(request: Request) {
+  const log = createLogger('api/oracle/sample', { correlationId: createCorrelationId('sample') });
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedToken = process.env.ORACLE_API_SECRET;
+
+    if (expectedToken && authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await sampleTrackedStreamers();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Metric sampling failed', { error });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,10 @@ import { notFound } from 'next/navigation';
 import { createServerClient } from '@/lib/supabase/server';
 import { Navbar } from '@/components/navbar';
 import { MarketDetail } from '@/components/market-detail';
+import { ResolutionEvidence } from '@/components/resolution-evidence';
+import { DisputeForm } from '@/components/dispute-form';
+import { PositionList } from '@/components/position-list';
+import { OrderBook } from '@/components/order-book';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -17,6 +21,19 @@ async function getMarket(id: string) {
   return market;
 }
 
+async function getLatestResolution(marketId: string) {
+  const supabase = createServerClient();
+  const { data: resolution } = await supabase
+    .from('market_resolutions')
+    .select('*')
+    .eq('market_id', marketId)
+    .order('resolved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return resolution;
+}
+
 async function getUserProfile(userId: string | undefined) {
   if (!userId) return null;
   const supabase = createServerClient();
@@ -44,16 +61,27 @@ export default async function MarketPage({
   }
 
   const profile = await getUserProfile(user?.id);
+  const resolution = await getLatestResolution(market.id);
 
   return (
     <div className="min-h-screen bg-gray-950">
       <Navbar />
-      <main className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
+      <main className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8 space-y-6">
         <MarketDetail
           market={market}
           userBalance={profile?.balance ?? 0}
           isAuthenticated={!!user}
         />
+        {market.status === 'active' && <OrderBook marketId={market.id} isAuthenticated={!!user} />}
+        {market.status === 'active' && <PositionList marketId={market.id} />}
+        {market.status === 'proposed' && market.dispute_ends_at && resolution && (
+          <DisputeForm
+            marketId={market.id}
+            winner={resolution.winner as 'yes' | 'no'}
+            disputeEndsAt={market.dispute_ends_at}
+          />
+        )}
+        {resolution && market.status !== 'cancelled' && <ResolutionEvidence resolution={resolution} />}
       </main>
     </div>
   );
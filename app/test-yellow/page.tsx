@@ -9,6 +9,15 @@ import { getWalletClient } from '@wagmi/core';
 import type { Hex, Address } from 'viem';
 import { formatAddress } from '@/lib/utils';
 import { InlineMarketOperations } from '@/components/inline-market-operations';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
+import {
+  buildMarketParticipants,
+  derivePoolAddresses,
+  getSessionPools,
+} from '@/lib/yellow/pools';
+
+// The test harness always works in the default market asset
+const testAsset = getAsset();
 
 declare global {
   interface Window {
@@ -122,20 +131,20 @@ export default function TestYellow() {
           addLog(`  - ${b.asset}: ${b.amount} units`);
         });
       } else {
-        addLog('⚠️ No balances found. You may need ytest.usd tokens from a faucet.');
+        addLog(`⚠️ No balances found. You may need ${testAsset.assetId} tokens from a faucet.`);
       }
 
-      // Extract ytest.usd balance
+      // Extract the test asset balance
       let balance = '0';
       if (ledgerBalances && ledgerBalances.length > 0) {
-        const ytestBalance = ledgerBalances.find((b: any) => b.asset === 'ytest.usd');
-        if (ytestBalance) {
-          balance = ytestBalance.amount || '0';
+        const assetBalance = ledgerBalances.find((b: any) => b.asset === testAsset.assetId);
+        if (assetBalance) {
+          balance = assetBalance.amount || '0';
         }
       }
 
       setLedgerBalance(balance);
-      addLog(`✅ Ledger balance: ${balance} ytest.usd (${Number(balance) / 1000000} tokens)`);
+      addLog(`✅ Ledger balance: ${balance} ${testAsset.assetId} (${fromSmallestUnit(balance, testAsset.assetId)} tokens)`);
 
       // Step 7: Refresh app sessions (with error handling)
       addLog('Step 7: Refreshing app sessions...');
@@ -186,22 +195,24 @@ export default function TestYellow() {
       addLog('Creating test prediction market...');
 
       // Check user's current balance
-      const hasBalance = await yellowClientRef.current.hasBalance('ytest.usd', '1000000'); // Check for at least 1 ytest.usd
+      const oneToken = toSmallestUnit(1, testAsset.assetId).toString();
+      const hasBalance = await yellowClientRef.current.hasBalance(testAsset.assetId, oneToken); // Check for at least 1 token
       let initialAmount = '0';
 
       if (hasBalance) {
-        // Use a smaller amount - 1 ytest.usd (1000000 units)
-        initialAmount = '1000000';
-        addLog(`Using ${initialAmount} units (1 ytest.usd) for initial market allocation`);
+        // Use a smaller amount - 1 token
+        initialAmount = oneToken;
+        addLog(`Using ${initialAmount} units (1 ${testAsset.symbol}) for initial market allocation`);
       } else {
-        addLog('Warning: No ytest.usd balance available, creating market with 0 initial allocation');
+        addLog(`Warning: No ${testAsset.assetId} balance available, creating market with 0 initial allocation`);
       }
 
-      // Create a simple test market
+      // Create a simple test market with its own pools
+      const pools = derivePoolAddresses(crypto.randomUUID());
       const appSessionId = await yellowClientRef.current.createAppSession({
         definition: {
           protocol: 'NitroRPC/0.4',
-          participants: ['0x0000000000000000000000000000000000000001', '0x0000000000000000000000000000000000000002', address] as [string, string, string],
+          participants: buildMarketParticipants(pools, address as Address),
           weights: [0, 0, 100],
           quorum: 100,
           challenge: 3600,
@@ -209,19 +220,19 @@ export default function TestYellow() {
         },
         allocations: [
           {
-            participant: '0x0000000000000000000000000000000000000001' as Address, // YES pool
+            participant: pools.yes, // YES pool
             amount: '0',
-            asset: 'ytest.usd'
+            asset: testAsset.assetId
           },
           {
-            participant: '0x0000000000000000000000000000000000000002' as Address, // NO pool
+            participant: pools.no, // NO pool
             amount: '0',
-            asset: 'ytest.usd'
+            asset: testAsset.assetId
           },
           {
             participant: address as Address, // User with initial balance
             amount: initialAmount, // Use available balance or 0
-            asset: 'ytest.usd'
+            asset: testAsset.assetId
           }
         ]
       });
@@ -270,7 +281,7 @@ export default function TestYellow() {
         const totalLocked = session.allocations?.reduce((sum: bigint, alloc: any) =>
           sum + BigInt(alloc.amount || 0), 0n) || 0n;
         const sessionId = session.appSessionId || session.app_session_id;
-        addLog(`  - Session ${sessionId?.slice(0, 10)}... | Status: ${session.status} | Locked: ${totalLocked.toString()} ytest.usd`);
+        addLog(`  - Session ${sessionId?.slice(0, 10)}... | Status: ${session.status} | Locked: ${totalLocked.toString()} ${testAsset.assetId}`);
       });
     } catch (error) {
       addLog(`❌ Error fetching sessions: ${error instanceof Error ? error.message : String(error)}`);
@@ -290,11 +301,11 @@ export default function TestYellow() {
             <div className="mb-6 space-y-2">
               <p>Wallet: {mounted && isConnected ? formatAddress(address) : 'Not connected'}</p>
               <p>Status: <span className={status === 'SUCCESS! 🎉' ? 'text-green-500' : status === 'FAILED' ? 'text-red-500' : 'text-yellow-500'}>{status}</span></p>
-              <p>Balance: {ledgerBalance} ytest.usd ({Number(ledgerBalance) / 1000000} tokens)</p>
+              <p>Balance: {ledgerBalance} {testAsset.assetId} ({fromSmallestUnit(ledgerBalance, testAsset.assetId)} tokens)</p>
               {ledgerBalance === '0' && status === 'SUCCESS! 🎉' && (
                 <div className="bg-yellow-900/50 border border-yellow-600 rounded p-3 text-sm">
-                  <p className="font-semibold">⚠️ No ytest.usd balance detected</p>
-                  <p className="mt-1">To create markets and place bets, you need ytest.usd tokens from the Yellow Network testnet faucet.</p>
+                  <p className="font-semibold">⚠️ No {testAsset.assetId} balance detected</p>
+                  <p className="mt-1">To create markets and place bets, you need {testAsset.assetId} tokens from the Yellow Network testnet faucet.</p>
                   <p className="mt-1">Markets can still be created with 0 initial allocation for testing.</p>
                 </div>
               )}
@@ -363,11 +374,12 @@ export default function TestYellow() {
                     sum + BigInt(alloc.amount || 0), 0n) || 0n;
 
                   // Calculate YES/NO pools if available
-                  const yesPool = session.allocations?.find((a: any) =>
-                    a.participant === '0x0000000000000000000000000000000000000001'
+                  const pools = getSessionPools(session.participants);
+                  const yesPool = pools && session.allocations?.find((a: any) =>
+                    a.participant.toLowerCase() === pools.yes.toLowerCase()
                   );
-                  const noPool = session.allocations?.find((a: any) =>
-                    a.participant === '0x0000000000000000000000000000000000000002'
+                  const noPool = pools && session.allocations?.find((a: any) =>
+                    a.participant.toLowerCase() === pools.no.toLowerCase()
                   );
 
                   const sessionId = session.appSessionId || session.app_session_id;
@@ -443,8 +455,8 @@ export default function TestYellow() {
                           <p className="text-xs text-gray-400 mb-2">Participants & Weights</p>
                           <div className="space-y-1">
                             {session.participants?.map((participant: string, pIdx: number) => {
-                              const isYesPool = participant === '0x0000000000000000000000000000000000000001';
-                              const isNoPool = participant === '0x0000000000000000000000000000000000000002';
+                              const isYesPool = participant.toLowerCase() === pools?.yes.toLowerCase();
+                              const isNoPool = participant.toLowerCase() === pools?.no.toLowerCase();
                               const label = isYesPool ? 'YES Pool' : isNoPool ? 'NO Pool' : 'User';
                               const color = isYesPool ? 'text-green-400' : isNoPool ? 'text-red-400' : 'text-blue-400';
 
@@ -469,12 +481,12 @@ export default function TestYellow() {
                               <div className="bg-green-900/30 p-2 rounded border border-green-600">
                                 <p className="text-xs text-green-400 font-semibold">YES</p>
                                 <p className="text-lg font-bold">{yesPool?.amount || '0'}</p>
-                                <p className="text-xs text-gray-400">{yesPool?.asset || 'ytest.usd'}</p>
+                                <p className="text-xs text-gray-400">{yesPool?.asset || testAsset.assetId}</p>
                               </div>
                               <div className="bg-red-900/30 p-2 rounded border border-red-600">
                                 <p className="text-xs text-red-400 font-semibold">NO</p>
                                 <p className="text-lg font-bold">{noPool?.amount || '0'}</p>
-                                <p className="text-xs text-gray-400">{noPool?.asset || 'ytest.usd'}</p>
+                                <p className="text-xs text-gray-400">{noPool?.asset || testAsset.assetId}</p>
                               </div>
                             </div>
                           </div>
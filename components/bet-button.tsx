@@ -15,6 +15,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
 import { useYellow } from '@/components/providers/yellow-provider';
+import { useBetQuote } from '@/hooks/use-bet-quote';
 
 interface BetButtonProps {
   marketId: string;
@@ -29,6 +30,7 @@ export function BetButton({ marketId, position, currentPrice, className, childre
   const [amount, setAmount] = useState('10');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { isConnected, address, connect } = useYellow();
+  const { quote, loading: quoting, error: quoteError } = useBetQuote(marketId, open ? position : null, amount);
 
   const handleBet = async () => {
     if (!isConnected || !address) {
@@ -42,6 +44,12 @@ export function BetButton({ marketId, position, currentPrice, className, childre
       return;
     }
 
+    // The bet is refused if the market moved past this quote
+    if (!quote || Number(quote.amount) !== betAmount) {
+      alert('Wait for the quote of this amount');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -55,6 +63,7 @@ export function BetButton({ marketId, position, currentPrice, className, childre
           position,
           amount: betAmount,
           userAddress: address,
+          expectedShares: quote.shares,
         }),
       });
 
@@ -125,12 +134,46 @@ export function BetButton({ marketId, position, currentPrice, className, childre
               <span className="text-gray-400">Current price:</span>
               <span className="text-white">{currentPrice}%</span>
             </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-400">Potential return:</span>
-              <span className="text-white">
-                ${currentPrice > 0 ? ((parseFloat(amount) || 0) * (100 / currentPrice)).toFixed(2) : '0.00'}
-              </span>
-            </div>
+            {quoteError ? (
+              <p className="text-sm text-red-400">{quoteError}</p>
+            ) : quote ? (
+              <>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-gray-400">Shares:</span>
+                  <span className="text-white">{Number(quote.shares).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-gray-400">Average price:</span>
+                  <span className="text-white">{quote.averagePrice.toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-gray-400">Price after bet:</span>
+                  <span className="text-white">{quote.postPrice.toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-gray-400">Slippage:</span>
+                  <span className={quote.slippage >= 5 ? 'text-yellow-400' : 'text-white'}>
+                    {quote.slippage.toFixed(2)}%
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-gray-400">Fee:</span>
+                  <span className="text-white">${Number(quote.fee).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-400">Potential payout:</span>
+                  <span className="text-white">
+                    ${Number(quote.potentialPayout).toFixed(2)}
+                    {quoting && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+                  </span>
+                </div>
+              </>
+            ) : quoting ? (
+              <div className="flex items-center text-sm text-gray-400">
+                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                Quoting...
+              </div>
+            ) : null}
           </div>
         </div>
         <DialogFooter>
@@ -144,7 +187,7 @@ export function BetButton({ marketId, position, currentPrice, className, childre
           ) : (
             <Button
               onClick={handleBet}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !quote}
               className={`w-full ${position === 'yes' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
             >
               {isSubmitting ? (
@@ -35,19 +35,46 @@ import { CalendarIcon, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database';
+import { DEFAULT_ASSET_ID, isSupportedAsset, listAssets } from '@/lib/yellow/assets';
+import { listMarketTypes, MARKET_TYPES } from '@/lib/yellow/market-types';
+import { MarketType } from '@/lib/yellow/types';
 
-const formSchema = z.object({
-  streamerId: z.string().min(1, 'Please select a streamer'),
-  question: z.string().min(10, 'Question must be at least 10 characters'),
-  description: z.string().optional(),
-  twitchMetric: z.enum(['viewer_count', 'followers_count'], {
-    required_error: 'Please select a Twitch metric',
-  }),
-  targetValue: z.coerce.number().min(1, 'Target value must be at least 1'),
-  endDate: z.date({
-    required_error: 'Please select a resolution date',
-  }),
-});
+const formSchema = z
+  .object({
+    streamerId: z.string().min(1, 'Please select a streamer'),
+    question: z.string().min(10, 'Question must be at least 10 characters'),
+    description: z.string().optional(),
+    marketType: z.nativeEnum(MarketType, {
+      required_error: 'Please select a market type',
+    }),
+    targetValue: z.coerce.number().optional(),
+    targetCategory: z.string().optional(),
+    asset: z.string().refine(isSupportedAsset, 'Please select a supported asset'),
+    endDate: z.date({
+      required_error: 'Please select a resolution date',
+    }),
+  })
+  .superRefine((values, ctx) => {
+    const { target } = MARKET_TYPES[values.marketType];
+    if (target === 'number' && !(values.targetValue && values.targetValue >= 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['targetValue'],
+        message: 'Target value must be at least 1',
+      });
+    }
+    // Change-category markets default to the streamer's current category
+    if (
+      values.marketType === MarketType.PLAY_SPECIFIC_GAME &&
+      !values.targetCategory?.trim()
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['targetCategory'],
+        message: 'Please enter a game or category',
+      });
+    }
+  });
 
 type FormValues = z.infer<typeof formSchema>;
 
@@ -69,11 +96,15 @@ export function CreateMarketForm({ streamers }: CreateMarketFormProps) {
       streamerId: '',
       question: '',
       description: '',
-      twitchMetric: 'viewer_count',
+      marketType: MarketType.REACH_VIEWER_COUNT,
       targetValue: 10000,
+      targetCategory: '',
+      asset: DEFAULT_ASSET_ID,
     },
   });
 
+  const marketTypeInfo = MARKET_TYPES[form.watch('marketType')];
+
   const onSubmit = async (values: FormValues) => {
     setIsSubmitting(true);
 
@@ -88,8 +119,10 @@ export function CreateMarketForm({ streamers }: CreateMarketFormProps) {
           streamerId: values.streamerId,
           question: values.question,
           description: values.description || null,
-          twitchMetric: values.twitchMetric,
+          marketType: values.marketType,
           targetValue: values.targetValue,
+          targetCategory: values.targetCategory?.trim() || null,
+          asset: values.asset,
           endDate: values.endDate.toISOString(),
         }),
       });
@@ -195,55 +228,107 @@ export function CreateMarketForm({ streamers }: CreateMarketFormProps) {
 
         <FormField
           control={form.control}
-          name="twitchMetric"
+          name="marketType"
           render={({ field }) => (
             <FormItem>
-              <FormLabel className="text-white">Twitch Metric</FormLabel>
+              <FormLabel className="text-white">Market Type</FormLabel>
               <Select onValueChange={field.onChange} defaultValue={field.value}>
                 <FormControl>
                   <SelectTrigger className="bg-gray-900 border-gray-800 text-white">
-                    <SelectValue placeholder="Select a metric to track" />
+                    <SelectValue placeholder="Select what the market tracks" />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent className="bg-gray-900 border-gray-800">
-                  <SelectItem
-                    value="viewer_count"
-                    className="text-white focus:bg-gray-800 focus:text-white"
-                  >
-                    Viewer Count (live viewers)
-                  </SelectItem>
-                  <SelectItem
-                    value="followers_count"
-                    className="text-white focus:bg-gray-800 focus:text-white"
-                  >
-                    Follower Count (total followers)
-                  </SelectItem>
+                  {listMarketTypes().map((info) => (
+                    <SelectItem
+                      key={info.type}
+                      value={info.type}
+                      className="text-white focus:bg-gray-800 focus:text-white"
+                    >
+                      {info.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormDescription className="text-gray-500">
-                Which Twitch metric will determine the outcome
+                {marketTypeInfo.description}
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        {marketTypeInfo.target === 'number' ? (
+          <FormField
+            control={form.control}
+            name="targetValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-white">{marketTypeInfo.targetLabel}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="10000"
+                    className="bg-gray-900 border-gray-800 text-white placeholder:text-gray-600"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription className="text-gray-500">
+                  YES wins if metric reaches this value, NO wins otherwise
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            control={form.control}
+            name="targetCategory"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-white">{marketTypeInfo.targetLabel}</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Just Chatting"
+                    className="bg-gray-900 border-gray-800 text-white placeholder:text-gray-600"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription className="text-gray-500">
+                  Twitch category name, matched case-insensitively
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
-          name="targetValue"
+          name="asset"
           render={({ field }) => (
             <FormItem>
-              <FormLabel className="text-white">Target Value</FormLabel>
-              <FormControl>
-                <Input
-                  type="number"
-                  placeholder="10000"
-                  className="bg-gray-900 border-gray-800 text-white placeholder:text-gray-600"
-                  {...field}
-                />
-              </FormControl>
+              <FormLabel className="text-white">Asset</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-gray-900 border-gray-800 text-white">
+                    <SelectValue placeholder="Select the asset bets are placed in" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent className="bg-gray-900 border-gray-800">
+                  {listAssets().map((asset) => (
+                    <SelectItem
+                      key={asset.assetId}
+                      value={asset.assetId}
+                      className="text-white focus:bg-gray-800 focus:text-white"
+                    >
+                      {asset.displayName} ({asset.symbol})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <FormDescription className="text-gray-500">
-                YES wins if metric reaches this value, NO wins otherwise
+                All bets and payouts for this market use this asset
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Scale } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+
+interface DisputeFormProps {
+  marketId: string;
+  winner: 'yes' | 'no';
+  disputeEndsAt: string;
+}
+
+export function DisputeForm({ marketId, winner, disputeEndsAt }: DisputeFormProps) {
+  const router = useRouter();
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [filed, setFiled] = useState(false);
+
+  const windowOpen = new Date(disputeEndsAt) > new Date();
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Please sign in to file a dispute');
+      }
+
+      const response = await fetch('/api/markets/dispute', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ marketId, reason }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to file dispute');
+      }
+
+      setFiled(true);
+      setReason('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to file dispute');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-orange-400" />
+          <h3 className="text-lg font-semibold text-white">
+            Proposed outcome: {winner.toUpperCase()}
+          </h3>
+        </div>
+
+        {!windowOpen ? (
+          <p className="text-sm text-gray-400">
+            The dispute window has ended. Winnings are paid out on the next oracle run unless a
+            dispute is still being reviewed.
+          </p>
+        ) : filed ? (
+          <p className="text-sm text-green-400">
+            Dispute filed. The market will not settle until an admin reviews it.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400">
+              Bettors can dispute this outcome for another{' '}
+              {formatDistanceToNow(new Date(disputeEndsAt))}. Explain what the oracle got wrong.
+            </p>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The stream peaked above the target at 21:40 UTC"
+              maxLength={2000}
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || !reason.trim()}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'File Dispute'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,10 +6,30 @@ import { Input } from '@/components/ui/input';
 import { Loader2, TrendingUp, TrendingDown, Lock } from 'lucide-react';
 import type { Address, Hex } from 'viem';
 import type { YellowClient } from '@/lib/yellow/client';
+import type { Allocation, AppSessionState } from '@/lib/yellow/types';
+import { isVersionConflict } from '@/lib/yellow/errors';
+import { supabase } from '@/lib/supabase/client';
+import {
+  DEFAULT_ASSET_ID,
+  fromSmallestUnit,
+  getAsset,
+  isSupportedAsset,
+  toSmallestUnit,
+} from '@/lib/yellow/assets';
+import { getSessionPools } from '@/lib/yellow/pools';
+import { marketLiquidity } from '@/lib/yellow/lmsr';
+import { sessionPrices } from '@/lib/yellow/payouts';
+import type { BetQuoteResult } from '@/hooks/use-bet-quote';
+
+// The market row behind the session
+interface SessionMarket {
+  id: string;
+  liquidity: number | null;
+}
 
 interface InlineMarketOperationsProps {
   sessionId: string;
-  session: any;
+  session: AppSessionState;
   yellowClient: YellowClient | null;
   userAddress?: Address;
   onUpdate?: () => void;
@@ -31,26 +51,53 @@ export function InlineMarketOperations({
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(false);
   const [joinAmount, setJoinAmount] = useState('10');
-
-  // Extract pool amounts
-  const yesPool = session.allocations?.find((a: any) =>
-    a.participant === '0x0000000000000000000000000000000000000001'
+  const [market, setMarket] = useState<SessionMarket | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('markets')
+      .select('id, liquidity')
+      .eq('app_session_id', sessionId)
+      .maybeSingle()
+      .then(({ data }) => setMarket(data));
+  }, [sessionId]);
+
+  // The session's allocations all use the market asset
+  const sessionAssetId = session.allocations?.[0]?.asset;
+  const asset = getAsset(isSupportedAsset(sessionAssetId) ? sessionAssetId : DEFAULT_ASSET_ID);
+
+  // Extract pool amounts; each market has its own pool participants
+  const pools = getSessionPools(session.participants);
+  const yesPool = pools && session.allocations?.find((a: Allocation) =>
+    a.participant.toLowerCase() === pools.yes.toLowerCase()
   );
-  const noPool = session.allocations?.find((a: any) =>
-    a.participant === '0x0000000000000000000000000000000000000002'
+  const noPool = pools && session.allocations?.find((a: Allocation) =>
+    a.participant.toLowerCase() === pools.no.toLowerCase()
   );
 
   const yesAmount = BigInt(yesPool?.amount || '0');
   const noAmount = BigInt(noPool?.amount || '0');
   const totalLocked = yesAmount + noAmount;
 
-  // Calculate odds
-  const yesOdds = totalLocked === 0n ? 50 : Number((yesAmount * 100n) / totalLocked);
-  const noOdds = 100 - yesOdds;
+  // LMSR odds from the session's stake ledger, at the market's liquidity
+  const liquidity = marketLiquidity(market?.liquidity, asset.assetId);
+  const { yesPrice, noPrice } = sessionPrices(session.session_data, liquidity);
+  const yesOdds = yesPrice.toFixed(0);
+  const noOdds = noPrice.toFixed(0);
 
   const handleQuickBet = async (position: 'yes' | 'no') => {
     if (!yellowClient || !userAddress) return;
 
+    if (!pools) {
+      setErrorMessage('This market has no betting pools');
+      return;
+    }
+
+    if (!market) {
+      setErrorMessage('No market found for this session');
+      return;
+    }
+
     const amount = parseFloat(betAmount);
     if (isNaN(amount) || amount <= 0) {
       setErrorMessage('Please enter a valid amount');
@@ -62,54 +109,44 @@ export function InlineMarketOperations({
     setErrorMessage(null);
 
     try {
-      const amountInSmallestUnit = (amount * 1e6).toString();
-      const poolAddress = position === 'yes'
-        ? '0x0000000000000000000000000000000000000001' as Address
-        : '0x0000000000000000000000000000000000000002' as Address;
-
-      console.log(`Placing bet: ${amount} ytest.usd on ${position.toUpperCase()}`);
-
-      // Ensure user is a participant (check case-insensitive)
-      const isUserParticipant = session.participants?.some((p: string) =>
-        p.toLowerCase() === userAddress.toLowerCase()
-      );
-
-      if (!isUserParticipant) {
-        setErrorMessage('You are not a participant in this market. Please create a new market to start betting.');
-        return;
+      // Quote the stake first; the bet route refuses it if the market moves past the quote
+      const params = new URLSearchParams({ side: position, amount: String(amount) });
+      const quoteResponse = await fetch(`/api/markets/${market.id}/quote?${params}`);
+      const quoteData = await quoteResponse.json();
+      if (!quoteResponse.ok || !quoteData.success) {
+        throw new Error(quoteData.error || 'Failed to fetch quote');
+      }
+      const quote: BetQuoteResult = quoteData.quote;
+
+      // The route places the bet: it moves the stake to the oracle, which adds
+      // it to the pool net of the fee, and records the shares it bought
+      const response = await fetch('/api/markets/bet', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          marketId: market.id,
+          position,
+          amount,
+          userAddress,
+          expectedShares: quote.shares,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to place bet');
       }
-
-      // Submit bet - the client will fetch current state and handle versioning
-      await yellowClient.submitBet(
-        sessionId as Hex,
-        poolAddress,
-        'ytest.usd',
-        amountInSmallestUnit
-      );
 
       setErrorMessage(null);
-      console.log('✅ Bet placed successfully!');
 
       // Refresh the session data
       if (onUpdate) {
         setTimeout(onUpdate, 1000);
       }
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('Bet failed:', error);
-
-      // Parse error message for user feedback
-      let userMessage = 'Failed to place bet';
-      if (error.message?.includes('balance')) {
-        userMessage = 'Insufficient balance in this market';
-      } else if (error.message?.includes('participant')) {
-        userMessage = 'You need to be a participant with funds in this market';
-      } else if (error.message?.includes('version')) {
-        userMessage = 'Market state changed, please try again';
-      } else if (error.message?.includes('closed')) {
-        userMessage = 'This market is closed';
-      }
-
-      setErrorMessage(userMessage);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to place bet');
     } finally {
       setIsPlacingBet(false);
       setActiveBet(null);
@@ -129,18 +166,15 @@ export function InlineMarketOperations({
     setErrorMessage(null);
 
     try {
-      const amountInSmallestUnit = (amount * 1e6).toString();
-
-      console.log(`Joining market with ${amount} ytest.usd...`);
+      const amountInSmallestUnit = toSmallestUnit(amount, asset.assetId).toString();
 
       await yellowClient.joinMarket(
         sessionId as Hex,
         amountInSmallestUnit,
-        'ytest.usd'
+        asset.assetId
       );
 
       setErrorMessage(null);
-      console.log('✅ Successfully joined market!');
 
       // Refresh the session data
       if (onUpdate) {
@@ -150,7 +184,10 @@ export function InlineMarketOperations({
       console.error('Failed to join market:', error);
 
       let userMessage = 'Failed to join market';
-      if (error.message?.includes('balance')) {
+      if (isVersionConflict(error)) {
+        // The client already retried; other bets kept landing first
+        userMessage = 'Market is busy, please try again in a moment';
+      } else if (error.message?.includes('balance')) {
         userMessage = 'Insufficient balance to join market';
       } else if (error.message?.includes('already')) {
         userMessage = 'You are already a participant';
@@ -202,7 +239,7 @@ export function InlineMarketOperations({
       const finalAllocations = [{
         participant: userAddress,
         amount: totalLocked.toString(),
-        asset: 'ytest.usd'
+        asset: asset.assetId
       }];
 
       console.log('Attempting to close with allocations:', finalAllocations);
@@ -223,7 +260,8 @@ export function InlineMarketOperations({
     }
   };
 
-  const formatAmount = (amount: bigint) => (Number(amount) / 1e6).toFixed(2);
+  const formatAmount = (amount: bigint) =>
+    Number(fromSmallestUnit(amount, asset.assetId)).toFixed(2);
 
   if (!yellowClient || session.status !== 'open') {
     return null;
@@ -347,7 +385,7 @@ export function InlineMarketOperations({
       <div className="flex items-center justify-between">
         <span className="text-sm text-gray-400">Quick Bet</span>
         <span className="text-xs text-yellow-400">
-          TVL: {formatAmount(totalLocked)} ytest.usd
+          TVL: {formatAmount(totalLocked)} {asset.symbol}
         </span>
       </div>
 
@@ -380,7 +418,7 @@ export function InlineMarketOperations({
                   Joining Market...
                 </>
               ) : (
-                <>Join with {joinAmount} ytest.usd</>
+                <>Join with {joinAmount} {asset.symbol}</>
               )}
             </Button>
           </div>
@@ -459,11 +497,11 @@ export function InlineMarketOperations({
       <div className="grid grid-cols-2 gap-2 text-xs">
         <div className="bg-green-950/50 p-2 rounded border border-green-900">
           <div className="text-green-400">YES Pool</div>
-          <div className="text-white font-semibold">{formatAmount(yesAmount)} ytest.usd</div>
+          <div className="text-white font-semibold">{formatAmount(yesAmount)} {asset.symbol}</div>
         </div>
         <div className="bg-red-950/50 p-2 rounded border border-red-900">
           <div className="text-red-400">NO Pool</div>
-          <div className="text-white font-semibold">{formatAmount(noAmount)} ytest.usd</div>
+          <div className="text-white font-semibold">{formatAmount(noAmount)} {asset.symbol}</div>
         </div>
       </div>
     </div>
@@ -5,10 +5,11 @@ import { Button } from '@/components/ui/button';
 import { BetButton } from '@/components/bet-button';
 import { ClaimWinningsButton } from '@/components/claim-winnings-button';
 import { ProbabilityChart } from '@/components/probability-chart';
-import { TrendingUp, Clock, Zap, Target } from 'lucide-react';
+import { TrendingUp, Clock, Zap, Target, Ban } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { useState } from 'react';
 import Link from 'next/link';
+import { CANCEL_REASONS, isCancelReason } from '@/lib/yellow/market-types';
 
 interface MarketCardProps {
   id: string;
@@ -23,6 +24,7 @@ interface MarketCardProps {
   twitchMetric?: string | null;
   targetValue?: number | null;
   winner?: 'yes' | 'no' | null;
+  cancelReason?: string | null;
   onBuy?: (marketId: string, position: 'yes' | 'no') => void;
 }
 
@@ -39,6 +41,7 @@ export function MarketCard({
   twitchMetric,
   targetValue,
   winner,
+  cancelReason,
   onBuy,
 }: MarketCardProps) {
   const [selectedPosition, setSelectedPosition] = useState<'yes' | 'no' | null>(null);
@@ -96,7 +99,18 @@ export function MarketCard({
             </div>
           </div>
 
-        {status === 'resolved' && winner ? (
+        {status === 'cancelled' ? (
+          <div className="mb-4 p-4 bg-gray-950 rounded-lg border border-gray-800 text-center">
+            <div className="flex items-center justify-center gap-2 mb-1">
+              <Ban className="h-4 w-4 text-gray-400" />
+              <span className="text-lg font-bold text-gray-300">Market Cancelled</span>
+            </div>
+            {isCancelReason(cancelReason) && (
+              <p className="text-sm text-gray-400">{CANCEL_REASONS[cancelReason]}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">Every stake is refunded in full</p>
+          </div>
+        ) : status === 'resolved' && winner ? (
           <div className="mb-4 p-4 bg-gray-950 rounded-lg border border-gray-800">
             <div className="text-center mb-3">
               <span className={`text-lg font-bold ${winner === 'yes' ? 'text-green-400' : 'text-red-400'}`}>
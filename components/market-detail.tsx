@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/lib/supabase/client';
+import { useBetQuote } from '@/hooks/use-bet-quote';
 import {
   TrendingUp,
   Users,
@@ -49,6 +50,7 @@ export function MarketDetail({ market, userBalance, isAuthenticated }: MarketDet
   const [amount, setAmount] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const { quote, error: quoteError } = useBetQuote(market.id, selectedOutcome, amount);
 
   const yesPrice = Number(market.yes_price);
   const noPrice = Number(market.no_price);
@@ -75,14 +77,6 @@ export function MarketDetail({ market, userBalance, isAuthenticated }: MarketDet
     return (100 / price).toFixed(2);
   };
 
-  const calculatePotentialReturn = () => {
-    if (!selectedOutcome || !amount) return 0;
-    const betAmount = parseFloat(amount);
-    if (isNaN(betAmount) || betAmount <= 0) return 0;
-    const price = selectedOutcome === 'yes' ? yesPrice : noPrice;
-    return (betAmount * (100 / price)).toFixed(2);
-  };
-
   const handlePlaceBet = async () => {
     if (!selectedOutcome || !amount || !isAuthenticated) return;
 
@@ -407,14 +401,40 @@ export function MarketDetail({ market, userBalance, isAuthenticated }: MarketDet
                 </div>
               </div>
 
-              {selectedOutcome && amount && parseFloat(amount) > 0 && (
-                <div className="p-3 bg-gray-800 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-400">Potential Return</span>
-                    <span className="text-xl font-bold text-green-400">
-                      {calculatePotentialReturn()} tokens
-                    </span>
-                  </div>
+              {selectedOutcome && amount && parseFloat(amount) > 0 && (quote || quoteError) && (
+                <div className="p-3 bg-gray-800 rounded-lg space-y-2">
+                  {quote ? (
+                    <>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-400">Shares</span>
+                        <span className="text-white">{Number(quote.shares).toFixed(2)}</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-400">Avg. price / after bet</span>
+                        <span className="text-white">
+                          {quote.averagePrice.toFixed(2)}% / {quote.postPrice.toFixed(2)}%
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-400">Slippage</span>
+                        <span className={quote.slippage >= 5 ? 'text-yellow-400' : 'text-white'}>
+                          {quote.slippage.toFixed(2)}%
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-400">Fee</span>
+                        <span className="text-white">{Number(quote.fee).toFixed(2)} tokens</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-400">Potential Return</span>
+                        <span className="text-xl font-bold text-green-400">
+                          {Number(quote.potentialPayout).toFixed(2)} tokens
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-red-400 text-sm">{quoteError}</p>
+                  )}
                 </div>
               )}
 
@@ -0,0 +1,315 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BookOpen, Loader2, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+
+interface OrderBookProps {
+  marketId: string;
+  isAuthenticated: boolean;
+}
+
+interface DepthLevel {
+  price: number; // Cents per share
+  shares: string; // Display units
+  orders: number;
+}
+
+interface OpenOrder {
+  id: string;
+  side: 'yes' | 'no';
+  price: number;
+  shares: string;
+  filledShares: string;
+  remainingShares: string;
+}
+
+// Price levels shown per side
+const DEPTH_LEVELS = 8;
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+function DepthSide({ side, levels }: { side: 'yes' | 'no'; levels: DepthLevel[] }) {
+  const maxShares = Math.max(...levels.map((level) => Number(level.shares)), 0);
+  const color = side === 'yes' ? 'bg-green-500/20' : 'bg-red-500/20';
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-2">
+        <span className={side === 'yes' ? 'text-green-400 font-semibold' : 'text-red-400 font-semibold'}>
+          Buy {side.toUpperCase()}
+        </span>
+        <span>Shares</span>
+      </div>
+      {levels.length === 0 ? (
+        <p className="text-sm text-gray-600 py-2">No orders</p>
+      ) : (
+        <div className="space-y-1">
+          {levels.slice(0, DEPTH_LEVELS).map((level) => (
+            <div key={level.price} className="relative flex justify-between text-sm px-2 py-1 rounded">
+              <div
+                className={`absolute inset-y-0 left-0 rounded ${color}`}
+                style={{ width: `${maxShares > 0 ? (Number(level.shares) / maxShares) * 100 : 0}%` }}
+              />
+              <span className="relative text-white">{level.price}¢</span>
+              <span className="relative text-gray-300">{Number(level.shares).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OrderBook({ marketId, isAuthenticated }: OrderBookProps) {
+  const router = useRouter();
+  const [depth, setDepth] = useState<{ yes: DepthLevel[]; no: DepthLevel[] }>({ yes: [], no: [] });
+  const [orders, setOrders] = useState<OpenOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [side, setSide] = useState<'yes' | 'no'>('yes');
+  const [price, setPrice] = useState('');
+  const [shares, setShares] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const fetchBook = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/markets/${marketId}/orders`, {
+        headers: await authHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch order book');
+      }
+      setDepth(data.depth);
+      setOrders(data.orders ?? []);
+    } catch (err) {
+      console.error('Order book error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [marketId]);
+
+  useEffect(() => {
+    fetchBook();
+  }, [fetchBook]);
+
+  const handlePlace = async () => {
+    const priceCents = Number(price);
+    if (!Number.isInteger(priceCents) || priceCents < 1 || priceCents > 99) {
+      setError('Price must be a whole number of cents from 1 to 99');
+      return;
+    }
+    const shareCount = parseFloat(shares);
+    if (isNaN(shareCount) || shareCount <= 0) {
+      setError('Please enter a valid number of shares');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch(`/api/markets/${marketId}/orders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ side, price: priceCents, shares: shareCount }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to place order');
+      }
+
+      const filled = Number(data.order.filledShares);
+      setNotice(
+        filled > 0
+          ? `Filled ${filled.toFixed(2)} of ${Number(data.order.shares).toFixed(2)} shares`
+          : 'Order placed in the book'
+      );
+      if (data.matchError) {
+        setError(data.matchError);
+      }
+      setPrice('');
+      setShares('');
+      await fetchBook();
+      if (filled > 0) {
+        router.refresh();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: string) => {
+    setCancelling(orderId);
+    setError('');
+    try {
+      const response = await fetch(
+        `/api/markets/${marketId}/orders?${new URLSearchParams({ orderId })}`,
+        { method: 'DELETE', headers: await authHeaders() }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to cancel order');
+      }
+      await fetchBook();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order');
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gray-800">
+            <BookOpen className="h-5 w-5 text-gray-400" />
+          </div>
+          <div>
+            <CardTitle className="text-white text-lg">Order Book</CardTitle>
+            <CardDescription className="text-gray-400">
+              YES and NO orders match when their prices add up to 100¢ or more
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-6">
+            <DepthSide side="yes" levels={depth.yes} />
+            <DepthSide side="no" levels={depth.no} />
+          </div>
+        )}
+
+        {isAuthenticated ? (
+          <div className="space-y-4 border-t border-gray-800 pt-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(['yes', 'no'] as const).map((option) => (
+                <Button
+                  key={option}
+                  variant="outline"
+                  onClick={() => setSide(option)}
+                  className={
+                    side === option
+                      ? option === 'yes'
+                        ? 'border-green-600 bg-green-600/20 text-green-400'
+                        : 'border-red-600 bg-red-600/20 text-red-400'
+                      : 'border-gray-700 text-gray-400'
+                  }
+                >
+                  Buy {option.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="order-price" className="text-white">Limit price (¢)</Label>
+                <Input
+                  id="order-price"
+                  type="number"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  className="bg-gray-950 border-gray-800 text-white"
+                  step="1"
+                  min="1"
+                  max="99"
+                  placeholder="35"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="order-shares" className="text-white">Shares</Label>
+                <Input
+                  id="order-shares"
+                  type="number"
+                  value={shares}
+                  onChange={(e) => setShares(e.target.value)}
+                  className="bg-gray-950 border-gray-800 text-white"
+                  step="0.01"
+                  min="0.01"
+                  placeholder="50"
+                />
+              </div>
+            </div>
+            {Number(price) > 0 && Number(shares) > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-400">Costs at most:</span>
+                <span className="text-white">{((Number(price) * Number(shares)) / 100).toFixed(2)}</span>
+              </div>
+            )}
+            {notice && <p className="text-sm text-green-400">{notice}</p>}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Button
+              onClick={handlePlace}
+              disabled={isSubmitting}
+              className="w-full bg-yellow-600 hover:bg-yellow-700"
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Placing order...
+                </>
+              ) : (
+                `Place ${side.toUpperCase()} order`
+              )}
+            </Button>
+
+            {orders.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-400">Your open orders</p>
+                {orders.map((order) => (
+                  <div
+                    key={order.id}
+                    className="flex items-center justify-between gap-4 p-2 rounded-lg bg-gray-800/50 text-sm"
+                  >
+                    <span className={order.side === 'yes' ? 'text-green-400' : 'text-red-400'}>
+                      {order.side.toUpperCase()} @ {order.price}¢
+                    </span>
+                    <span className="text-gray-300">
+                      {Number(order.remainingShares).toFixed(2)} of {Number(order.shares).toFixed(2)} left
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleCancel(order.id)}
+                      disabled={cancelling === order.id}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      {cancelling === order.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <X className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 border-t border-gray-800 pt-4">
+            Sign in to place limit orders
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Briefcase, Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+import { fromSmallestUnit, getAsset, isSupportedAsset } from '@/lib/yellow/assets';
+import type { UserPosition } from '@/lib/yellow/types';
+
+interface PositionListProps {
+  marketId?: string; // Only this market's position, e.g. on the market page
+}
+
+// One side of a position that still holds shares
+interface OpenHolding {
+  position: UserPosition;
+  side: 'yes' | 'no';
+  shares: string;
+  cost: string;
+  value: string;
+}
+
+function openHoldings(positions: UserPosition[]): OpenHolding[] {
+  return positions.flatMap((position) =>
+    (['yes', 'no'] as const)
+      .filter((side) => BigInt(position[`${side}_shares`]) > 0n)
+      .map((side) => ({
+        position,
+        side,
+        shares: position[`${side}_shares`],
+        cost: position[`${side}_cost`],
+        value: position[`${side}_value`],
+      }))
+  );
+}
+
+export function PositionList({ marketId }: PositionListProps) {
+  const router = useRouter();
+  const { address } = useAccount();
+  const [positions, setPositions] = useState<UserPosition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selling, setSelling] = useState<OpenHolding | null>(null);
+  const [sellShares, setSellShares] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchPositions = useCallback(async () => {
+    if (!address) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ address });
+      if (marketId) params.set('marketId', marketId);
+      const response = await fetch(`/api/markets/positions?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch positions');
+      }
+      setPositions(data.positions);
+    } catch (err) {
+      console.error('Positions error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, marketId]);
+
+  useEffect(() => {
+    fetchPositions();
+  }, [fetchPositions]);
+
+  const format = (amount: string, assetId: string) => {
+    const asset = getAsset(isSupportedAsset(assetId) ? assetId : undefined);
+    return `${Number(fromSmallestUnit(amount, asset.assetId)).toFixed(2)} ${asset.symbol}`;
+  };
+
+  const openCashOut = (holding: OpenHolding) => {
+    setSelling(holding);
+    setSellShares(fromSmallestUnit(holding.shares, holding.position.asset));
+    setError('');
+  };
+
+  const handleCashOut = async () => {
+    if (!selling) return;
+
+    const shares = parseFloat(sellShares);
+    if (isNaN(shares) || shares <= 0) {
+      setError('Please enter a valid number of shares');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Please sign in to cash out');
+      }
+      const allShares = sellShares === fromSmallestUnit(selling.shares, selling.position.asset);
+
+      const response = await fetch('/api/markets/sell', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          marketId: selling.position.market_id,
+          position: selling.side,
+          // Omitted sells every share held, without rounding
+          ...(!allShares && { shares }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to cash out');
+      }
+
+      setSelling(null);
+      await fetchPositions();
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cash out');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const holdings = openHoldings(positions);
+
+  if (!address || (!loading && holdings.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gray-800">
+            <Briefcase className="h-5 w-5 text-gray-400" />
+          </div>
+          <div>
+            <CardTitle className="text-white text-lg">Open Positions</CardTitle>
+            <CardDescription className="text-gray-400">
+              Cash out any time before the market resolves
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && holdings.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {holdings.map((holding) => {
+              const { position, side } = holding;
+              const unrealized = BigInt(holding.value) - BigInt(holding.cost);
+              return (
+                <div
+                  key={`${position.market_id}:${side}`}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-gray-800/50"
+                >
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className={side === 'yes' ? 'text-green-400 font-semibold' : 'text-red-400 font-semibold'}>
+                        {side.toUpperCase()}
+                      </span>
+                      {!marketId && (
+                        <Link href={`/market/${position.market_id}`} className="text-gray-400 hover:text-white">
+                          View market
+                        </Link>
+                      )}
+                    </div>
+                    <p className="text-gray-400">
+                      {Number(fromSmallestUnit(holding.shares, position.asset)).toFixed(2)} shares · cost{' '}
+                      {format(holding.cost, position.asset)}
+                    </p>
+                    <p className="text-gray-400">
+                      Value <span className="text-white">{format(holding.value, position.asset)}</span>{' '}
+                      <span className={unrealized >= 0n ? 'text-green-400' : 'text-red-400'}>
+                        ({unrealized >= 0n ? '+' : ''}{format(unrealized.toString(), position.asset)})
+                      </span>
+                    </p>
+                    {BigInt(position.realized_pnl) !== 0n && (
+                      <p className="text-gray-500">
+                        Realized {format(position.realized_pnl, position.asset)}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openCashOut(holding)}
+                    className="border-yellow-600 text-yellow-400 hover:bg-yellow-600/20"
+                  >
+                    Cash out
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selling} onOpenChange={(open) => !open && setSelling(null)}>
+        <DialogContent className="bg-gray-900 border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Cash out {selling?.side.toUpperCase()}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Sell shares back to the market at the current price
+            </DialogDescription>
+          </DialogHeader>
+          {selling && (
+            <div className="grid gap-4 py-2">
+              <div className="grid gap-2">
+                <Label htmlFor="sell-shares" className="text-white">
+                  Shares (of {Number(fromSmallestUnit(selling.shares, selling.position.asset)).toFixed(2)})
+                </Label>
+                <Input
+                  id="sell-shares"
+                  type="number"
+                  value={sellShares}
+                  onChange={(e) => setSellShares(e.target.value)}
+                  className="bg-gray-950 border-gray-800 text-white"
+                  step="0.01"
+                  min="0.01"
+                />
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-400">Selling all would pay:</span>
+                <span className="text-white">{format(selling.value, selling.position.asset)}</span>
+              </div>
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              onClick={handleCashOut}
+              disabled={isSubmitting}
+              className="w-full bg-yellow-600 hover:bg-yellow-700"
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Cashing out...
+                </>
+              ) : (
+                'Cash out'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
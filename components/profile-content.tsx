@@ -34,6 +34,9 @@ import { useRouter } from 'next/navigation';
 import { useAccount } from 'wagmi';
 import { format } from 'date-fns';
 import WalletConnect from './wallet-connect';
+import { SessionKeysCard } from './session-keys-card';
+import { PositionList } from './position-list';
+import { fromSmallestUnit, getAsset, toSmallestUnit } from '@/lib/yellow/assets';
 import Link from 'next/link';
 
 interface Profile {
@@ -81,8 +84,10 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
   const balance = profile?.balance ?? 0;
   const initials = profile?.username?.slice(0, 2).toUpperCase() || user?.email?.slice(0, 2).toUpperCase() || 'W';
 
-  // Get Yellow unified balance for ytest.usd
-  const ytestBalance = unifiedBalance?.balances.find(b => b.asset === 'ytest.usd')?.amount || '0';
+  // Get Yellow unified balance for the default asset
+  const yellowAsset = getAsset();
+  const yellowBalance = unifiedBalance?.balances.find(b => b.asset === yellowAsset.assetId)?.amount || '0';
+  const yellowBalanceDisplay = Number(fromSmallestUnit(yellowBalance, yellowAsset.assetId)).toFixed(2);
 
   const handleAvatarUpdate = async () => {
     if (!avatarUrl.trim() || !user) return;
@@ -204,14 +209,13 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
       return;
     }
 
-    // Convert to smallest unit (6 decimals for USDC)
-    const amountInSmallestUnit = Math.floor(amount * 1_000_000).toString();
+    const amountInSmallestUnit = toSmallestUnit(amount, yellowAsset.assetId).toString();
 
     setLoading(true);
     setError('');
 
     try {
-      // await client.depositToUnifiedBalance('ytest.usd', amountInSmallestUnit);
+      // await client.depositToUnifiedBalance(yellowAsset.assetId, amountInSmallestUnit);
       setYellowDepositAmount('');
       setIsDepositingYellow(false);
       await refreshBalance();
@@ -238,14 +242,13 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
       return;
     }
 
-    // Convert to smallest unit (6 decimals for USDC)
-    const amountInSmallestUnit = Math.floor(amount * 1_000_000).toString();
+    const amountInSmallestUnit = toSmallestUnit(amount, yellowAsset.assetId).toString();
 
     setLoading(true);
     setError('');
 
     try {
-      // await client.withdrawFromUnifiedBalance('ytest.usd', amountInSmallestUnit, address);
+      // await client.withdrawFromUnifiedBalance(yellowAsset.assetId, amountInSmallestUnit, address);
       setYellowWithdrawAmount('');
       setIsWithdrawingYellow(false);
       await refreshBalance();
@@ -597,9 +600,9 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
           <CardContent>
             <div className="flex items-baseline gap-2 mb-6">
               <span className="text-4xl font-bold text-white">
-                {(parseInt(ytestBalance) / 1_000_000).toFixed(2)}
+                {yellowBalanceDisplay}
               </span>
-              <span className="text-gray-400 text-lg">yUSD</span>
+              <span className="text-gray-400 text-lg">{yellowAsset.symbol}</span>
             </div>
 
             {state.status === 'authenticated' ? (
@@ -621,7 +624,7 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
                     <div className="space-y-4 pt-4">
                       <div className="space-y-2">
                         <Label htmlFor="yellow-deposit-amount" className="text-gray-300">
-                          Amount (yUSD)
+                          Amount ({yellowAsset.symbol})
                         </Label>
                         <Input
                           id="yellow-deposit-amount"
@@ -676,7 +679,7 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
                     <div className="space-y-4 pt-4">
                       <div className="space-y-2">
                         <Label htmlFor="yellow-withdraw-amount" className="text-gray-300">
-                          Amount (yUSD)
+                          Amount ({yellowAsset.symbol})
                         </Label>
                         <Input
                           id="yellow-withdraw-amount"
@@ -689,7 +692,7 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
                           className="bg-gray-800 border-gray-700 text-white"
                         />
                         <p className="text-xs text-gray-500">
-                          Available: {(parseInt(ytestBalance) / 1_000_000).toFixed(2)} yUSD
+                          Available: {yellowBalanceDisplay} {yellowAsset.symbol}
                         </p>
                       </div>
                       <div className="flex gap-2">
@@ -700,7 +703,7 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
                             size="sm"
                             onClick={() => setYellowWithdrawAmount(amount.toString())}
                             className="flex-1 border-gray-700 text-gray-300 hover:bg-gray-800"
-                            disabled={parseInt(ytestBalance) < amount * 1_000_000}
+                            disabled={BigInt(yellowBalance) < toSmallestUnit(amount, yellowAsset.assetId)}
                           >
                             {amount}
                           </Button>
@@ -766,6 +769,10 @@ export function ProfileContent({ user, profile, transactions }: ProfileContentPr
           </CardContent>
         </Card>
       )}
+
+      {address && <PositionList />}
+
+      {address && <SessionKeysCard />}
     </div>
   );
 }
@@ -9,7 +9,13 @@
 
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { useAccount, useWalletClient } from 'wagmi';
-import { YellowClient, type YellowClientState, type UnifiedBalance, ConnectionStatus } from '@/lib/yellow';
+import {
+  YellowClient,
+  type YellowClientState,
+  type UnifiedBalance,
+  ConnectionStatus,
+  createBrowserSessionKeyStore,
+} from '@/lib/yellow';
 
 interface YellowContextValue {
   client: YellowClient | null;
@@ -43,6 +49,7 @@ export function YellowProvider({ children }: { children: React.ReactNode }) {
     const yellowClient = new YellowClient({
       wsUrl: process.env.NEXT_PUBLIC_YELLOW_WS_URL,
       autoReconnect: true,
+      sessionKeyStore: createBrowserSessionKeyStore() ?? undefined,
     });
 
     // Listen to state changes
@@ -162,6 +169,24 @@ export function YellowProvider({ children }: { children: React.ReactNode }) {
     }
   }, [client, state.status, connect]);
 
+  // Restore the session from a stored session key without asking for a new signature
+  useEffect(() => {
+    if (!client || state.status !== ConnectionStatus.CONNECTED || !address || !walletClient) {
+      return;
+    }
+
+    let cancelled = false;
+    client.hasReusableSessionKey(address).then((reusable) => {
+      if (reusable && !cancelled) {
+        authenticate().catch(console.error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, state.status, address, walletClient, authenticate]);
+
   const value: YellowContextValue = {
     client,
     state,
@@ -0,0 +1,84 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+import { MARKET_TYPES, isMarketType } from '@/lib/yellow/market-types';
+import { verifyEvidence, type ResolutionEvidence as Evidence } from '@/lib/yellow/evidence';
+import type { Database } from '@/types/database';
+
+type MarketResolution = Database['public']['Tables']['market_resolutions']['Row'];
+
+interface ResolutionEvidenceProps {
+  resolution: MarketResolution;
+}
+
+export function ResolutionEvidence({ resolution }: ResolutionEvidenceProps) {
+  const typeInfo = isMarketType(resolution.market_type) ? MARKET_TYPES[resolution.market_type] : null;
+  const verified = verifyEvidence(resolution as unknown as Evidence, resolution.evidence_hash);
+  const target = resolution.target_category ?? resolution.target_value;
+
+  const rows: Array<[string, string]> = [
+    ['Metric', typeInfo?.label ?? resolution.twitch_metric],
+    [typeInfo?.targetLabel ?? 'Target', target == null ? '—' : String(target)],
+    ['Measured Value', resolution.actual_value == null ? 'No data' : String(resolution.actual_value)],
+    ['Samples', resolution.sample_ids.length > 0 ? String(resolution.sample_ids.length) : 'Read live at resolution'],
+    ['Resolved', format(new Date(resolution.resolved_at), 'PPpp')],
+    ['Oracle', resolution.oracle_address],
+  ];
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Resolution Evidence</h3>
+          <Badge
+            variant="outline"
+            className={
+              resolution.winner === 'yes'
+                ? 'border-green-500 text-green-400 bg-green-500/10'
+                : 'border-red-500 text-red-400 bg-red-500/10'
+            }
+          >
+            {resolution.winner.toUpperCase()} won
+          </Badge>
+        </div>
+
+        {typeInfo && <p className="text-sm text-gray-400">{typeInfo.description}</p>}
+
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {rows.map(([label, value]) => (
+            <div key={label} className="p-3 bg-gray-800 rounded-lg">
+              <dt className="text-xs text-gray-500 uppercase mb-1">{label}</dt>
+              <dd className="text-sm font-medium text-white break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="flex items-start gap-2 text-sm">
+          {verified ? (
+            <ShieldCheck className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+          ) : (
+            <ShieldAlert className="h-4 w-4 mt-0.5 text-orange-400 shrink-0" />
+          )}
+          <div className="min-w-0">
+            <p className={verified ? 'text-green-400' : 'text-orange-400'}>
+              {verified ? 'Evidence hash verified' : 'Evidence does not match its hash'}
+            </p>
+            <p className="font-mono text-xs text-gray-500 break-all">{resolution.evidence_hash}</p>
+          </div>
+        </div>
+
+        {resolution.raw_response != null && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-400 hover:text-white">
+              Raw Twitch response
+            </summary>
+            <pre className="mt-2 max-h-80 overflow-auto rounded-lg bg-gray-950 p-3 text-xs text-gray-300">
+              {JSON.stringify(resolution.raw_response, null, 2)}
+            </pre>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { KeyRound, Loader2, RefreshCw } from 'lucide-react';
+import type { Address } from 'viem';
+import { useYellow } from '@/components/providers/yellow-provider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { ActiveSessionKey } from '@/lib/yellow/types';
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function usagePercent(used: string, allowance: string): number {
+  const granted = parseFloat(allowance);
+  if (!granted) return 0;
+  return Math.min((parseFloat(used) / granted) * 100, 100);
+}
+
+/**
+ * Active Yellow session keys with allowance used vs. granted per asset
+ */
+export function SessionKeysCard() {
+  const { client, state } = useYellow();
+  const [sessionKeys, setSessionKeys] = useState<ActiveSessionKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAuthenticated = state.status === 'authenticated';
+
+  const loadSessionKeys = useCallback(async () => {
+    if (!client || !client.isAuthenticated()) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setSessionKeys(await client.getSessionKeys());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session keys');
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSessionKeys();
+    }
+  }, [isAuthenticated, state.sessionKey, loadSessionKeys]);
+
+  const handleRevoke = async (sessionKey: string) => {
+    if (!client) return;
+
+    try {
+      setRevoking(sessionKey);
+      setError(null);
+      await client.revokeSessionKey(sessionKey as Address);
+      if (client.isAuthenticated()) {
+        await loadSessionKeys();
+      } else {
+        setSessionKeys([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session key');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-yellow-600/20 rounded-lg">
+              <KeyRound className="h-5 w-5 text-yellow-400" />
+            </div>
+            <div>
+              <CardTitle className="text-white text-lg">Session Keys</CardTitle>
+              <CardDescription className="text-gray-400">
+                Keys allowed to spend from your Unified Balance
+              </CardDescription>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={loadSessionKeys}
+            disabled={loading}
+            className="text-gray-400 hover:text-white"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {!loading && sessionKeys.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-2">No active session keys</p>
+        )}
+
+        {sessionKeys.map((key) => {
+          const isCurrent = key.session_key.toLowerCase() === state.sessionKey?.toLowerCase();
+
+          return (
+            <div key={key.id} className="rounded-lg border border-gray-800 bg-gray-950 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-white">{shortAddress(key.session_key)}</span>
+                  {isCurrent && (
+                    <Badge variant="outline" className="border-green-500 text-green-400 bg-green-500/10">
+                      This device
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(key.session_key)}
+                  disabled={revoking !== null}
+                  className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                >
+                  {revoking === key.session_key ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                </Button>
+              </div>
+
+              <p className="text-xs text-gray-500" title={format(new Date(key.expires_at), 'PPpp')}>
+                {key.application} · expires {formatDistanceToNow(new Date(key.expires_at), { addSuffix: true })}
+              </p>
+
+              {key.allowances.map((allowance) => (
+                <div key={allowance.asset} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-400">{allowance.asset}</span>
+                    <span className="text-gray-300">
+                      {allowance.used} / {allowance.allowance} used
+                    </span>
+                  </div>
+                  <Progress value={usagePercent(allowance.used, allowance.allowance)} className="h-1.5" />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
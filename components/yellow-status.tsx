@@ -12,6 +12,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, WifiOff, Wifi, Shield, ShieldCheck } from 'lucide-react';
 import { useAccount } from 'wagmi';
+import { formatAssetAmount, isSupportedAsset } from '@/lib/yellow/assets';
 
 export function YellowStatus() {
   const { state, error, isAuthenticating } = useYellow();
@@ -35,6 +36,13 @@ export function YellowStatus() {
             Connecting...
           </Badge>
         );
+      case 'reconnecting':
+        return (
+          <Badge variant="outline" className="gap-2 bg-yellow-500/10 text-yellow-400 border-yellow-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Reconnecting...
+          </Badge>
+        );
       case 'connected':
         return (
           <Badge variant="outline" className="gap-2 bg-blue-500/10 text-blue-400 border-blue-500">
@@ -42,6 +50,13 @@ export function YellowStatus() {
             Connected
           </Badge>
         );
+      case 'authenticating':
+        return (
+          <Badge variant="outline" className="gap-2 bg-blue-500/10 text-blue-400 border-blue-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Authenticating...
+          </Badge>
+        );
       case 'authenticated':
         return (
           <Badge variant="outline" className="gap-2 bg-green-500/10 text-green-400 border-green-500">
@@ -62,12 +77,9 @@ export function YellowStatus() {
   };
 
   const formatBalance = (amount: string, asset: string) => {
-    const num = parseFloat(amount);
-    if (isNaN(num)) return '0.00';
-
-    // Assume 6 decimals for ytest.usd (USDC)
-    const formatted = (num / 1000000).toFixed(2);
-    return `${formatted} ${asset.toUpperCase()}`;
+    // Unknown decimals (asset missing from the registry) or non-integer amounts are shown raw
+    if (!isSupportedAsset(asset) || !/^\d+$/.test(amount)) return `${amount} ${asset.toUpperCase()}`;
+    return formatAssetAmount(amount, asset);
   };
 
   return (
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+
+// Quote returned by /api/markets/[id]/quote, amounts in display units
+export interface BetQuoteResult {
+  marketId: string;
+  side: 'yes' | 'no';
+  asset: string;
+  amount: string;
+  fee: string;
+  shares: string;
+  price: number;
+  averagePrice: number;
+  postPrice: number;
+  slippage: number;
+  potentialPayout: string;
+}
+
+interface UseBetQuoteResult {
+  quote: BetQuoteResult | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Wait for the user to stop typing before asking for a quote
+const QUOTE_DEBOUNCE = 300; // ms
+
+export function useBetQuote(
+  marketId: string,
+  side: 'yes' | 'no' | null,
+  amount: string
+): UseBetQuoteResult {
+  const [quote, setQuote] = useState<BetQuoteResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const value = parseFloat(amount);
+    if (!side || isNaN(value) || value <= 0) {
+      setQuote(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ side, amount: String(value) });
+        const response = await fetch(`/api/markets/${marketId}/quote?${params}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to fetch quote');
+        }
+        setQuote(data.quote);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setQuote(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, QUOTE_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [marketId, side, amount]);
+
+  return { quote, loading, error };
+}
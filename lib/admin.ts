@@ -0,0 +1,13 @@
+/**
+ * Admin API Access
+ *
+ * Admin routes (dispute decisions and other operator actions) require
+ * `Authorization: Bearer <ADMIN_API_SECRET>`. Unlike the oracle secret the
+ * check is not optional: without ADMIN_API_SECRET every admin request is
+ * refused.
+ */
+
+export function isAdminRequest(request: Request): boolean {
+  const secret = process.env.ADMIN_API_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -0,0 +1,231 @@
+/**
+ * Structured Logger
+ *
+ * Leveled logger shared by the Yellow client, the oracle and the API routes.
+ * Records carry a scope, an optional correlation id that ties together every
+ * line of one bet or market operation, and context that is redacted before
+ * it reaches a sink (signatures, private keys, JWTs, auth challenges).
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogRecord {
+  timestamp: string; // ISO 8601
+  level: LogLevel;
+  scope: string; // e.g. 'yellow', 'oracle', 'api/markets/bet'
+  message: string;
+  correlationId?: string;
+  context?: Record<string, unknown>;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+  /** Logger that adds bindings (e.g. correlationId, marketId) to every record */
+  child(bindings: LogBindings): Logger;
+}
+
+export interface LogBindings {
+  correlationId?: string;
+  [key: string]: unknown;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Keys whose values are secrets, wherever they appear in a payload
+const SENSITIVE_KEY_PATTERN = /^(sig|sigs|signatures?)$|signature|private_?key|secret|password|jwt|token|authorization|challenge/i;
+
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]{130}$/; // 65-byte ECDSA signature
+const JWT_PATTERN = /^eyJ[\w-]+\.[\w-]+\.[\w-]+$/;
+
+function redactString(value: string): string {
+  return SIGNATURE_PATTERN.test(value) || JWT_PATTERN.test(value) ? REDACTED : value;
+}
+
+/**
+ * Copy a value with secrets replaced. Numbers and booleans under sensitive
+ * keys are kept (e.g. a challenge period in seconds is not a secret).
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack && { stack: value.stack }),
+      ...(value.cause !== undefined && { cause: redact(value.cause, depth + 1) }),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Map) return redact(Object.fromEntries(value), depth);
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const keepPrimitive = typeof item === 'number' || typeof item === 'boolean' || item == null;
+    result[key] = SENSITIVE_KEY_PATTERN.test(key) && !keepPrimitive ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+const LEVEL_ICONS: Record<LogLevel, string> = { debug: '🐛', info: 'ℹ️', warn: '⚠️', error: '❌' };
+
+/**
+ * Human-readable output through console.debug/info/warn/error
+ */
+export function createConsoleSink(): LogSink {
+  return {
+    write(record) {
+      const prefix = `${LEVEL_ICONS[record.level]} [${record.scope}${record.correlationId ? ` ${record.correlationId}` : ''}]`;
+      const args: unknown[] = [`${prefix} ${record.message}`];
+      if (record.context && Object.keys(record.context).length > 0) {
+        args.push(record.context);
+      }
+      console[record.level](...args);
+    },
+  };
+}
+
+/**
+ * One JSON object per line, for log files and collectors. Pass any writable
+ * stream, e.g. process.stdout or fs.createWriteStream('logs/yellow.jsonl', { flags: 'a' }).
+ */
+export function createJsonLinesSink(stream: { write(chunk: string): unknown }): LogSink {
+  return {
+    write(record) {
+      stream.write(`${JSON.stringify(record)}\n`);
+    },
+  };
+}
+
+export interface MemorySink extends LogSink {
+  records: LogRecord[];
+  clear(): void;
+}
+
+/**
+ * Keeps records in memory so tests and scripts can assert on them
+ */
+export function createMemorySink(): MemorySink {
+  const records: LogRecord[] = [];
+  return {
+    records,
+    write(record) {
+      records.push(record);
+    },
+    clear() {
+      records.length = 0;
+    },
+  };
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function defaultLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL || process.env.NEXT_PUBLIC_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+function defaultSink(): LogSink {
+  // LOG_FORMAT=json switches server processes to JSON lines on stdout
+  if (process.env.LOG_FORMAT === 'json' && typeof process.stdout?.write === 'function') {
+    return createJsonLinesSink(process.stdout);
+  }
+  return createConsoleSink();
+}
+
+const loggerConfig: { level: LogLevel; sink: LogSink } = {
+  level: defaultLevel(),
+  sink: defaultSink(),
+};
+
+/**
+ * Change the minimum level or the sink for every logger
+ */
+export function configureLogger(options: { level?: LogLevel; sink?: LogSink }): void {
+  if (options.level) loggerConfig.level = options.level;
+  if (options.sink) loggerConfig.sink = options.sink;
+}
+
+/**
+ * Short random id tying together the log lines of one operation
+ */
+export function createCorrelationId(prefix = 'op'): string {
+  const random =
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID().slice(0, 8)
+      : Math.random().toString(16).slice(2, 10);
+  return `${prefix}_${random}`;
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+export function createLogger(scope: string, bindings: LogBindings = {}): Logger {
+  const { correlationId, ...boundContext } = bindings;
+
+  const write = (level: LogLevel, message: string, context?: Record<string, unknown>) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[loggerConfig.level]) return;
+
+    const merged = { ...boundContext, ...context };
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      scope,
+      message,
+      ...(correlationId && { correlationId }),
+      ...(Object.keys(merged).length > 0 && {
+        context: redact(merged) as Record<string, unknown>,
+      }),
+    };
+
+    try {
+      loggerConfig.sink.write(record);
+    } catch (error) {
+      // A broken sink must never break the operation being logged
+      console.error('Log sink failed:', error);
+    }
+  };
+
+  return {
+    debug: (message, context) => write('debug', message, context),
+    info: (message, context) => write('info', message, context),
+    warn: (message, context) => write('warn', message, context),
+    error: (message, context) => write('error', message, context),
+    child: (childBindings) =>
+      createLogger(scope, {
+        ...bindings,
+        ...childBindings,
+        correlationId: childBindings.correlationId ?? correlationId,
+      }),
+  };
+}
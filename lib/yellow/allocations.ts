@@ -0,0 +1,149 @@
+/**
+ * App Session Allocation Helpers
+ *
+ * Balance invariants for NitroRPC state updates, and the allocation
+ * snapshot every submitted state keeps in its session_data. Allocations
+ * are compared per asset, amounts in smallest units.
+ */
+
+import { RPCAppStateIntent } from '@erc7824/nitrolite';
+import type { Allocation } from './types';
+
+/**
+ * Total allocated amount per asset
+ */
+export function sumByAsset(allocations: Allocation[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const alloc of allocations) {
+    totals.set(alloc.asset, (totals.get(alloc.asset) ?? 0n) + BigInt(alloc.amount || '0'));
+  }
+  return totals;
+}
+
+function amountOf(allocations: Allocation[], participant: string, asset: string): bigint {
+  return allocations
+    .filter(
+      (alloc) =>
+        alloc.participant.toLowerCase() === participant.toLowerCase() && alloc.asset === asset
+    )
+    .reduce((sum, alloc) => sum + BigInt(alloc.amount || '0'), 0n);
+}
+
+/**
+ * Check that a state update respects the rules of its intent:
+ * - OPERATE redistributes funds, so every asset total stays constant
+ * - DEPOSIT only adds funds, so no allocation decreases and the total grows
+ * - WITHDRAW only removes funds, so no allocation increases and the total shrinks
+ *
+ * Throws with a description of the first violated rule.
+ */
+export function assertAllocationInvariants(
+  intent: RPCAppStateIntent,
+  current: Allocation[],
+  next: Allocation[]
+): void {
+  for (const alloc of next) {
+    if (BigInt(alloc.amount || '0') < 0n) {
+      throw new Error(`Negative allocation for ${alloc.participant}: ${alloc.amount}`);
+    }
+  }
+
+  const currentTotals = sumByAsset(current);
+  const nextTotals = sumByAsset(next);
+  const assets = new Set([...currentTotals.keys(), ...nextTotals.keys()]);
+
+  if (intent === RPCAppStateIntent.Operate) {
+    for (const asset of assets) {
+      const delta = (nextTotals.get(asset) ?? 0n) - (currentTotals.get(asset) ?? 0n);
+      if (delta !== 0n) {
+        throw new Error(`Invalid allocation delta for OPERATE on ${asset}: ${delta} (should be 0)`);
+      }
+    }
+    return;
+  }
+
+  const direction = intent === RPCAppStateIntent.Deposit ? 1n : -1n;
+  let totalDelta = 0n;
+
+  for (const alloc of [...current, ...next]) {
+    const delta =
+      amountOf(next, alloc.participant, alloc.asset) -
+      amountOf(current, alloc.participant, alloc.asset);
+    if (delta * direction < 0n) {
+      throw new Error(
+        `Invalid ${intent.toUpperCase()}: allocation for ${alloc.participant} moved by ${delta}`
+      );
+    }
+  }
+
+  for (const asset of assets) {
+    totalDelta += (nextTotals.get(asset) ?? 0n) - (currentTotals.get(asset) ?? 0n);
+  }
+
+  if (totalDelta * direction <= 0n) {
+    throw new Error(`Invalid ${intent.toUpperCase()}: total delta must be ${direction > 0n ? 'positive' : 'negative'} but got ${totalDelta}`);
+  }
+}
+
+// ============================================================================
+// Allocation Snapshot
+// ============================================================================
+
+function parseSessionData(sessionData: string | undefined): Record<string, unknown> {
+  if (!sessionData) {
+    return {};
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(sessionData);
+  } catch {
+    throw new Error('App session data is not JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('App session data is not a JSON object');
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * session_data with the allocations of the state it is submitted with,
+ * keeping its other fields (e.g. the stake ledger). get_app_definition and
+ * get_app_sessions do not return allocations, so every state this app
+ * submits carries them for whoever reads the session next.
+ */
+export function withAllocationSnapshot(
+  sessionData: string | undefined,
+  allocations: Allocation[]
+): string {
+  return JSON.stringify({
+    ...parseSessionData(sessionData),
+    allocations: allocations.map(({ participant, asset, amount }) => ({ participant, asset, amount })),
+  });
+}
+
+/**
+ * Allocations recorded in session_data by withAllocationSnapshot, or null
+ * when it has none
+ */
+export function readAllocationSnapshot(sessionData: string | undefined): Allocation[] | null {
+  let data: Record<string, unknown>;
+  try {
+    data = parseSessionData(sessionData);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(data.allocations)) {
+    return null;
+  }
+
+  const isAllocation = (alloc: unknown): alloc is Allocation => {
+    const { participant, asset, amount } = (alloc ?? {}) as Record<string, unknown>;
+    return (
+      typeof participant === 'string' &&
+      typeof asset === 'string' &&
+      typeof amount === 'string' &&
+      /^\d+$/.test(amount)
+    );
+  };
+  return data.allocations.every(isAllocation) ? data.allocations : null;
+}
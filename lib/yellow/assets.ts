@@ -0,0 +1,88 @@
+/**
+ * Yellow Network Asset Registry
+ *
+ * Assets a market can be denominated in. Every conversion between display
+ * amounts and ClearNode smallest units goes through this registry, so
+ * decimals are never hardcoded at call sites.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+
+export interface AssetInfo {
+  symbol: string; // Short ticker shown in the UI
+  assetId: string; // ClearNode asset identifier used in allocations
+  decimals: number;
+  displayName: string;
+  sessionAllowance: string; // Spending allowance requested for session keys
+}
+
+export const ASSET_REGISTRY: Record<string, AssetInfo> = {
+  'ytest.usd': {
+    symbol: 'yUSD',
+    assetId: 'ytest.usd',
+    decimals: 6,
+    displayName: 'Yellow Test USD',
+    sessionAllowance: '10000000',
+  },
+  usdc: {
+    symbol: 'USDC',
+    assetId: 'usdc',
+    decimals: 6,
+    displayName: 'USD Coin',
+    sessionAllowance: '10000',
+  },
+};
+
+// Sandbox markets are denominated in test USD unless another asset is picked
+export const DEFAULT_ASSET_ID = process.env.NEXT_PUBLIC_YELLOW_DEFAULT_ASSET || 'ytest.usd';
+
+export function isSupportedAsset(assetId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ASSET_REGISTRY, assetId);
+}
+
+/**
+ * Look up an asset by its ClearNode id. Throws for unknown assets so a
+ * typo never silently falls back to the wrong decimals.
+ */
+export function getAsset(assetId: string = DEFAULT_ASSET_ID): AssetInfo {
+  if (!isSupportedAsset(assetId)) {
+    throw new Error(`Unsupported asset: ${assetId}`);
+  }
+  return ASSET_REGISTRY[assetId];
+}
+
+export function listAssets(): AssetInfo[] {
+  return Object.values(ASSET_REGISTRY);
+}
+
+/**
+ * Convert a display amount (e.g. 12.5) into smallest units for allocations
+ */
+export function toSmallestUnit(amount: number | string, assetId: string = DEFAULT_ASSET_ID): bigint {
+  const { decimals } = getAsset(assetId);
+  const value = typeof amount === 'number' ? amount.toFixed(decimals) : amount.trim();
+  return parseUnits(value, decimals);
+}
+
+/**
+ * Convert smallest units into a decimal display amount string
+ */
+export function fromSmallestUnit(
+  amount: bigint | string,
+  assetId: string = DEFAULT_ASSET_ID
+): string {
+  const { decimals } = getAsset(assetId);
+  return formatUnits(BigInt(amount || '0'), decimals);
+}
+
+/**
+ * Format smallest units for display, e.g. "12.50 yUSD"
+ */
+export function formatAssetAmount(
+  amount: bigint | string,
+  assetId: string = DEFAULT_ASSET_ID,
+  fractionDigits = 2
+): string {
+  const value = Number(fromSmallestUnit(amount, assetId)).toFixed(fractionDigits);
+  return `${value} ${getAsset(assetId).symbol}`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Market Cancellation
+ *
+ * A market that cannot be resolved fairly (the streamer never went live,
+ * the Twitch account is gone, the oracle cannot get the data, or an admin
+ * steps in) is cancelled instead: it stops taking bets at once and the
+ * oracle closes its app session with the pot in its own allocation, then
+ * transfers every bettor their stake back (see market-payouts.ts).
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/logger';
+import { MARKET_TYPES } from './market-types';
+import { OracleState, type CancelReason, type MarketType } from './types';
+import type { MetricSnapshot } from './sampler';
+import type { Database } from '@/types/database';
+
+type MarketUpdate = Database['public']['Tables']['markets']['Update'];
+type MarketRow = Database['public']['Tables']['markets']['Row'];
+
+const log = createLogger('cancellation');
+
+// Oracle states a market can still be cancelled from: nothing has been paid out yet
+const CANCELLABLE_STATES = [
+  OracleState.CLOSING,
+  OracleState.RESOLVING,
+  OracleState.RESOLUTION_REVIEW,
+  OracleState.RESOLVED_PENDING_SETTLEMENT,
+];
+
+/**
+ * Raised while resolving a market that has to be cancelled instead
+ */
+export class MarketCancellationError extends Error {
+  readonly reason: CancelReason;
+
+  constructor(reason: CancelReason, message: string) {
+    super(message);
+    this.name = 'MarketCancellationError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Why a market cannot be resolved from the samples of its window, or null
+ * when it can
+ */
+export function cancellationReason(
+  marketType: MarketType,
+  snapshots: MetricSnapshot[]
+): CancelReason | null {
+  if (MARKET_TYPES[marketType].requiresLive && !snapshots.some((snapshot) => snapshot.live)) {
+    return 'streamer_never_live';
+  }
+  return null;
+}
+
+/**
+ * Market columns that cancel it; the oracle refunds it on its next run
+ */
+export function cancellationUpdate(reason: CancelReason, note: string | null = null): MarketUpdate {
+  return {
+    status: 'cancelled',
+    cancel_reason: reason,
+    cancel_note: note,
+    cancelled_at: new Date().toISOString(),
+    oracle_state: OracleState.CANCELLING,
+    oracle_attempts: 0,
+    oracle_last_error: null,
+    oracle_next_attempt_at: null,
+  };
+}
+
+/**
+ * Cancel a market that has not been settled. Refused while an oracle run
+ * holds its lease, so a market is never cancelled in the middle of a step.
+ */
+export async function cancelMarket(
+  marketId: string,
+  reason: CancelReason,
+  note: string | null = null
+): Promise<MarketRow> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await createServiceClient()
+    .from('markets')
+    .update(cancellationUpdate(reason, note))
+    .eq('id', marketId)
+    .in('status', ['active', 'closed', 'proposed'])
+    .or(`oracle_state.is.null,oracle_state.in.(${CANCELLABLE_STATES.join(',')})`)
+    .or(`oracle_lease_expires_at.is.null,oracle_lease_expires_at.lt.${now}`)
+    .select();
+
+  if (error) {
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Market cannot be cancelled: it is settled, already cancelled or being processed');
+  }
+
+  log.info('Market cancelled', { marketId, reason });
+  return data[0];
+}
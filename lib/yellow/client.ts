@@ -11,15 +11,18 @@ import {
   RPCResponse,
   createAuthRequestMessage,
   createAuthVerifyMessage,
+  createAuthVerifyMessageWithJWT,
   createEIP712AuthMessageSigner,
   createGetLedgerBalancesMessage,
   createGetSessionKeysMessage,
+  createRevokeSessionKeyMessage,
   createECDSAMessageSigner,
   createAppSessionMessage,
   createSubmitAppStateMessage,
   createCloseAppSessionMessage,
   createGetAppSessionsMessage,
   createGetAppDefinitionMessage,
+  createTransferMessage,
   RPCAppStateIntent,
 } from '@erc7824/nitrolite';
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
@@ -32,36 +35,159 @@ import type {
   Listener,
   ActiveSessionKey,
   AppSessionRequest,
+  AppSessionState,
   Allocation,
+  BetReceipt,
+  OperationOptions,
+  RequestOptions,
 } from './types';
 import { ConnectionStatus } from './types';
 import { YELLOW_CONFIG } from './config';
+import { DEFAULT_ASSET_ID } from './assets';
+import {
+  YellowRpcError,
+  YellowStaleStateError,
+  YellowTimeoutError,
+  isVersionConflict,
+  type RequestId,
+} from './errors';
+import {
+  assertAllocationInvariants,
+  readAllocationSnapshot,
+  sumByAsset,
+  withAllocationSnapshot,
+} from './allocations';
+import { getSessionPools, type MarketOutcome } from './pools';
+import { appendStake, parseStakes, sessionPrices, type MarketStake } from './payouts';
+import type { MarketPrices } from './lmsr';
+import type { SessionKeyStore } from './session-store';
+import { createCorrelationId, createLogger, type Logger } from '@/lib/logger';
+import {
+  decodeRpcResponse,
+  getRequestId,
+  type AppSessionSummary,
+  type AppSessionUpdate,
+  type DecodableMethod,
+  type RpcResult,
+} from './rpc';
 
 export { ConnectionStatus } from './types';
 
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Minimal view of the websocket-ts socket that yellow-ts keeps in its private `ws`
+interface ManagedSocket {
+  addEventListener(type: 'close', listener: () => void): void;
+  close(): void;
+}
+
+function getSocket(client: Client): ManagedSocket | null {
+  return (client as unknown as { ws: ManagedSocket | null }).ws ?? null;
+}
+
+/**
+ * Allocations with `changes` applied to the given participants' balance of
+ * `asset`. Throws when a participant is missing or would go negative.
+ */
+function adjustAllocations(
+  allocations: Allocation[],
+  asset: string,
+  changes: Array<[string, bigint]>
+): Allocation[] {
+  const byParticipant = new Map<string, bigint>();
+  for (const [participant, amount] of changes) {
+    const key = participant.toLowerCase();
+    byParticipant.set(key, (byParticipant.get(key) ?? 0n) + amount);
+  }
+
+  for (const [participant, amount] of byParticipant) {
+    const allocation = allocations.find(
+      (alloc) => alloc.participant.toLowerCase() === participant && alloc.asset === asset
+    );
+    if (!allocation) {
+      throw new Error(`${participant} holds no ${asset} in this market`);
+    }
+    const balance = BigInt(allocation.amount || '0');
+    if (balance + amount < 0n) {
+      throw new Error(`Insufficient balance for ${participant}: ${balance} < ${-amount}`);
+    }
+  }
+
+  return allocations.map((alloc) => {
+    const amount = alloc.asset === asset ? byParticipant.get(alloc.participant.toLowerCase()) ?? 0n : 0n;
+    return { ...alloc, amount: (BigInt(alloc.amount || '0') + amount).toString() };
+  });
+}
+
+// Next state built by submitAppStateWithRetry callers; session_data is kept
+// as is when omitted
+interface AppStateUpdate {
+  allocations: Allocation[];
+  sessionData?: string;
+}
+
 export class YellowClient {
   private client: Client;
+  private config: Required<Omit<YellowClientConfig, 'sessionKeyStore'>>;
+  private sessionKeyStore?: SessionKeyStore;
   private state: YellowClientState;
   private listeners: Map<string, Set<Listener>>;
 
+  // Reconnection
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempt = 0;
+  private manualDisconnect = false;
+  private restoreAuthOnReconnect = false;
+
   // Authentication
   private mainAddress?: `0x${string}`;
   private mainWalletSigner?: any; // EIP-712 signer for main wallet
   private sessionPrivateKey?: `0x${string}`;
   private sessionSigner?: any; // ECDSA signer for session key
   private sessionAddress?: `0x${string}`;
+  private sessionKeyExpiresAt?: number; // Unix timestamp in seconds
+  private jwtToken?: string; // Issued by auth_verify, allows re-auth without signing
+  private renewalTimer?: ReturnType<typeof setTimeout>;
   private authResolve?: (value: void) => void;
   private authReject?: (reason?: any) => void;
+  private reauthentication?: Promise<void>; // Renewal or post-reconnect restore in flight
+
+  // Latest app session updates pushed by the ClearNode, keyed by session id
+  private appSessionUpdates: Map<string, AppSessionUpdate>;
+
+  // Rejectors for RPC requests still waiting on a reply
+  private pendingRequests = new Set<(reason: string) => void>();
+
+  private log: Logger = createLogger('yellow');
 
   constructor(config: YellowClientConfig = {}) {
-    const wsUrl = config.wsUrl || YELLOW_CONFIG.CLEARNODE_WS_URL;
+    this.config = {
+      wsUrl: config.wsUrl || YELLOW_CONFIG.CLEARNODE_WS_URL,
+      autoReconnect: config.autoReconnect ?? false,
+      reconnectAttempts: config.reconnectAttempts ?? YELLOW_CONFIG.RECONNECT.MAX_ATTEMPTS,
+      reconnectInterval: config.reconnectInterval ?? YELLOW_CONFIG.RECONNECT.BASE_INTERVAL,
+      requestTimeout: config.requestTimeout ?? YELLOW_CONFIG.REQUEST_TIMEOUT,
+    };
+    this.sessionKeyStore = config.sessionKeyStore;
 
-    this.client = new Client({ url: wsUrl });
     this.state = { status: ConnectionStatus.DISCONNECTED };
     this.listeners = new Map();
+    this.appSessionUpdates = new Map();
+    this.client = this.createClient();
+  }
 
-    // Setup message listener
-    this.client.listen(this.handleMessage.bind(this));
+  /**
+   * Create a yellow-ts client with our message listener attached.
+   * A fresh client is used for every reconnect, so its listener is
+   * re-registered here rather than in the constructor.
+   */
+  private createClient(): Client {
+    const client = new Client({
+      url: this.config.wsUrl,
+      requestTimeoutMs: this.config.requestTimeout,
+    });
+    client.listen(this.handleMessage.bind(this));
+    return client;
   }
 
   // ============================================================================
@@ -69,13 +195,13 @@ export class YellowClient {
   // ============================================================================
 
   async connect(): Promise<void> {
+    this.manualDisconnect = false;
+    this.clearReconnectTimer();
+
     try {
-      this.updateState({ status: ConnectionStatus.CONNECTING });
-      await this.client.connect();
-      this.updateState({ status: ConnectionStatus.CONNECTED });
-      console.log('✅ Connected to Yellow Network ClearNode');
+      await this.openConnection();
     } catch (error) {
-      console.error('Failed to connect to Yellow Network:', error);
+      this.log.error('Failed to connect to Yellow Network', { error });
       this.updateState({
         status: ConnectionStatus.ERROR,
         error: error instanceof Error ? error.message : 'Connection failed',
@@ -86,18 +212,199 @@ export class YellowClient {
 
   async disconnect(): Promise<void> {
     try {
+      this.manualDisconnect = true;
+      this.restoreAuthOnReconnect = false;
+      this.reconnectAttempt = 0;
+      this.clearReconnectTimer();
+      this.clearRenewalTimer();
+      this.rejectPendingRequests('client disconnected');
       await this.client.disconnect();
       this.updateState({ status: ConnectionStatus.DISCONNECTED });
-      console.log('✅ Disconnected from Yellow Network');
+      this.log.info('Disconnected from Yellow Network');
+    } catch (error) {
+      this.log.error('Error disconnecting', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Open the websocket and watch it for drops
+   */
+  private async openConnection(): Promise<void> {
+    const client = this.client;
+    this.updateState({ status: ConnectionStatus.CONNECTING, error: undefined });
+
+    try {
+      await client.connect();
     } catch (error) {
-      console.error('Error disconnecting:', error);
+      // Stop websocket-ts from retrying in the background; retries are ours
+      getSocket(client)?.close();
       throw error;
     }
+
+    // yellow-ts does not surface socket closes, and websocket-ts silently
+    // reopens the socket without re-authenticating, so take over recovery
+    const socket = getSocket(client);
+    socket?.addEventListener('close', () => this.handleConnectionLost(client, socket));
+
+    this.updateState({ status: ConnectionStatus.CONNECTED });
+    this.log.info('Connected to Yellow Network ClearNode', { url: this.config.wsUrl });
+  }
+
+  private handleConnectionLost(client: Client, socket: ManagedSocket): void {
+    // Ignore closes from clients we already replaced or shut down on purpose
+    if (client !== this.client || this.manualDisconnect) {
+      return;
+    }
+
+    socket.close();
+    this.log.warn('Lost connection to Yellow Network ClearNode');
+    this.rejectPendingRequests('connection lost');
+
+    // Updates pushed while disconnected are lost; refreshAppSessions re-reads them
+    this.appSessionUpdates.clear();
+
+    if (
+      this.state.status === ConnectionStatus.AUTHENTICATED ||
+      this.state.status === ConnectionStatus.AUTHENTICATING
+    ) {
+      this.restoreAuthOnReconnect = true;
+    }
+
+    if (!this.config.autoReconnect) {
+      this.updateState({ status: ConnectionStatus.DISCONNECTED });
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= this.config.reconnectAttempts) {
+      this.log.error('Giving up reconnecting', { attempts: this.reconnectAttempt });
+      this.reconnectAttempt = 0;
+      this.updateState({
+        status: ConnectionStatus.ERROR,
+        error: 'Connection lost - reconnect attempts exhausted',
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.reconnectInterval * 2 ** this.reconnectAttempt,
+      YELLOW_CONFIG.RECONNECT.MAX_INTERVAL
+    );
+    this.reconnectAttempt++;
+
+    this.log.info('Reconnecting', {
+      delayMs: delay,
+      attempt: this.reconnectAttempt,
+      maxAttempts: this.config.reconnectAttempts,
+    });
+    this.updateState({ status: ConnectionStatus.RECONNECTING });
+    this.reconnectTimer = setTimeout(() => void this.reconnect(), delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    this.reconnectTimer = undefined;
+    this.client = this.createClient();
+
+    try {
+      await this.openConnection();
+    } catch (error) {
+      this.log.warn('Reconnect attempt failed', { error });
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.reconnectAttempt = 0;
+
+    if (this.restoreAuthOnReconnect) {
+      await this.restoreSession();
+    }
+
+    this.emit('reconnected', this.state);
+  }
+
+  /**
+   * Re-authenticate after a reconnect with the existing session key, then
+   * refresh the state the ClearNode pushed while we were authenticated
+   */
+  private async restoreSession(): Promise<void> {
+    this.restoreAuthOnReconnect = false;
+
+    if (!this.mainAddress || !this.canReuseSessionKey(this.mainAddress)) {
+      this.log.warn('Session key expired while disconnected, please authenticate again');
+      this.clearSessionKey();
+      this.updateState({ error: 'Session key expired - please authenticate again' });
+      return;
+    }
+
+    try {
+      await this.reauthenticate();
+    } catch (error) {
+      this.log.error('Failed to restore session after reconnect', { error });
+      this.updateState({
+        status: ConnectionStatus.CONNECTED,
+        error: 'Reconnected, but re-authentication failed - please authenticate again',
+      });
+      return;
+    }
+
+    // Balance and app session updates are only pushed while authenticated;
+    // catch up on any we missed
+    if (this.state.unifiedBalance) {
+      await this.fetchUnifiedBalance().catch((error) => {
+        this.log.error('Failed to refresh balance after reconnect', { error });
+      });
+    }
+    await this.refreshAppSessions().catch((error) => {
+      this.log.error('Failed to refresh app sessions after reconnect', { error });
+    });
+  }
+
+  /**
+   * Re-read the allocations of this wallet's open app sessions, replacing
+   * the app session updates cached before the connection dropped
+   */
+  private async refreshAppSessions(): Promise<void> {
+    if (!this.mainAddress) {
+      return;
+    }
+
+    const sessions = await this.getAppSessions(this.mainAddress, 'open');
+    for (const session of sessions) {
+      const key = session.appSessionId.toLowerCase();
+      try {
+        const allocations = await this.readSessionAllocations(session, {});
+        // An asu pushed while we were reading is at least as recent
+        if ((this.appSessionUpdates.get(key)?.version ?? -1) < session.version) {
+          this.appSessionUpdates.set(key, {
+            ...session,
+            participantAllocations: allocations.map((alloc) => ({
+              ...alloc,
+              participant: alloc.participant as Address,
+            })),
+          });
+        }
+      } catch (error) {
+        this.log.warn('Could not refresh app session', { appSessionId: session.appSessionId, error });
+      }
+    }
+    this.log.debug('Refreshed app sessions', { count: sessions.length });
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
   }
 
   isConnected(): boolean {
     return (
       this.state.status === ConnectionStatus.CONNECTED ||
+      this.state.status === ConnectionStatus.AUTHENTICATING ||
       this.state.status === ConnectionStatus.AUTHENTICATED
     );
   }
@@ -107,7 +414,7 @@ export class YellowClient {
     const hasSigner = !!this.sessionSigner;
 
     if (isAuth && !hasSigner) {
-      console.error('⚠️ WARNING: Authenticated but no session signer!');
+      this.log.error('Authenticated but no session signer');
     }
 
     return isAuth && hasSigner;
@@ -143,16 +450,50 @@ export class YellowClient {
 
   /**
    * Authenticate with Yellow Network using EIP-712 signatures
-   * Creates a session key for gasless operations
+   * Reuses the stored session key for this wallet when it is still valid,
+   * otherwise creates a new one for gasless operations
    */
   async authenticate(
     walletAddress: `0x${string}`,
     walletSigner: any // Should be from wagmi/viem
+  ): Promise<void> {
+    // A renewal or restore for this wallet is already running; share its outcome
+    if (this.reauthentication && this.mainAddress?.toLowerCase() === walletAddress.toLowerCase()) {
+      await this.reauthentication;
+      if (this.isAuthenticated()) {
+        return;
+      }
+    }
+
+    if (!this.canReuseSessionKey(walletAddress)) {
+      await this.loadStoredSessionKey(walletAddress);
+    }
+
+    const viaJwt = this.canReuseSessionKey(walletAddress) && !!this.jwtToken;
+    try {
+      await this.runAuthFlow(walletAddress, walletSigner);
+    } catch (error) {
+      if (!viaJwt) {
+        throw error;
+      }
+      // The ClearNode may reject a JWT it issued before a restart; sign a fresh challenge
+      this.log.warn('JWT re-authentication failed, signing a new challenge', { error });
+      this.jwtToken = undefined;
+      await this.runAuthFlow(walletAddress, walletSigner);
+    }
+
+    await this.persistSessionKey();
+    this.scheduleRenewal();
+  }
+
+  private async runAuthFlow(
+    walletAddress: `0x${string}`,
+    walletSigner: any
   ): Promise<void> {
     return new Promise(async (resolve, reject) => {
       // Add authentication timeout
       const authTimeout = setTimeout(() => {
-        console.error('❌ Authentication timeout - no auth_verify response received');
+        this.log.error('Authentication timeout - no auth_verify response received');
         this.authResolve = undefined;
         this.authReject = undefined;
         this.updateState({
@@ -168,7 +509,7 @@ export class YellowClient {
           throw new Error('Not connected to Yellow Network');
         }
 
-        console.log('🔐 Starting authentication...');
+        this.log.info('Starting authentication', { wallet: walletAddress });
 
         // Store promise handlers with timeout cleanup
         const originalResolve = resolve;
@@ -183,32 +524,45 @@ export class YellowClient {
           originalReject(error);
         };
 
+        const reuseSessionKey = this.canReuseSessionKey(walletAddress);
+
         // Store main wallet info
         this.mainAddress = walletAddress;
         this.mainWalletSigner = walletSigner;
 
-        // Generate session key
-        this.sessionPrivateKey = generatePrivateKey();
-        console.log('🔑 Generated session private key');
+        if (reuseSessionKey) {
+          this.log.debug('Reusing unexpired session key', { sessionKey: this.sessionAddress });
+        } else {
+          // Generate session key
+          this.sessionPrivateKey = generatePrivateKey();
+          this.sessionKeyExpiresAt = Math.floor(Date.now() / 1000) + YELLOW_CONFIG.SESSION_KEY_EXPIRY;
+          this.jwtToken = undefined;
 
-        // Create ECDSA signer for the session key
-        this.sessionSigner = createECDSAMessageSigner(this.sessionPrivateKey);
-        console.log('✅ Created ECDSA message signer');
+          // Create ECDSA signer for the session key
+          this.sessionSigner = createECDSAMessageSigner(this.sessionPrivateKey);
 
-        const sessionAccount = privateKeyToAccount(this.sessionPrivateKey);
-        this.sessionAddress = sessionAccount.address;
+          const sessionAccount = privateKeyToAccount(this.sessionPrivateKey);
+          this.sessionAddress = sessionAccount.address;
 
-        console.log('📝 Session key generated:', this.sessionAddress);
-        console.log('  - Session signer ready:', !!this.sessionSigner);
+          this.log.debug('Session key generated', { sessionKey: this.sessionAddress });
+        }
+
+        // A JWT from a previous auth_verify skips the challenge signature
+        if (reuseSessionKey && this.jwtToken) {
+          const jwtVerifyMsg = await createAuthVerifyMessageWithJWT(this.jwtToken);
+          await this.client.sendMessage(JSON.parse(jwtVerifyMsg));
+          this.log.debug('Sent auth_verify with JWT');
+          return;
+        }
 
         // Create session key configuration
         const allowances: Array<{ asset: string; amount: string }> = [...YELLOW_CONFIG.DEFAULT_ALLOWANCES];
-        const expiresAt = Math.floor(Date.now() / 1000) + YELLOW_CONFIG.SESSION_KEY_EXPIRY;
+        const expiresAt = this.sessionKeyExpiresAt!;
 
         // Step 1: Send auth_request
         const authRequestMsg = await createAuthRequestMessage({
           address: this.mainAddress,
-          session_key: this.sessionAddress,
+          session_key: this.sessionAddress!,
           application: YELLOW_CONFIG.APPLICATION_NAME,
           allowances,
           scope: YELLOW_CONFIG.SESSION_KEY_SCOPE,
@@ -221,13 +575,13 @@ export class YellowClient {
           : authRequestMsg;
 
         await this.client.sendMessage(msgToSend);
-        console.log('📤 Sent auth_request');
+        this.log.debug('Sent auth_request');
 
         // Step 2: Wait for auth_challenge
         // This is handled in handleMessage() which will call handleAuthChallenge()
       } catch (error) {
         clearTimeout(authTimeout); // Clear timeout on error
-        console.error('Authentication failed:', error);
+        this.log.error('Authentication failed', { error });
         this.updateState({
           status: ConnectionStatus.ERROR,
           error: error instanceof Error ? error.message : 'Authentication failed',
@@ -239,16 +593,144 @@ export class YellowClient {
     });
   }
 
+  /**
+   * A session key can be reused for the same wallet until shortly before it expires
+   */
+  private canReuseSessionKey(walletAddress: string): boolean {
+    if (!this.sessionPrivateKey || !this.sessionKeyExpiresAt) {
+      return false;
+    }
+
+    const remaining = this.sessionKeyExpiresAt - Math.floor(Date.now() / 1000);
+    return (
+      this.mainAddress?.toLowerCase() === walletAddress.toLowerCase() &&
+      remaining > YELLOW_CONFIG.SESSION_KEY_RENEW_BEFORE
+    );
+  }
+
+  /**
+   * Adopt the stored session key for this wallet, if any
+   */
+  private async loadStoredSessionKey(walletAddress: `0x${string}`): Promise<void> {
+    const stored = await this.sessionKeyStore?.load(walletAddress).catch((error) => {
+      this.log.warn('Failed to load stored session key', { error });
+      return null;
+    });
+    if (!stored) {
+      return;
+    }
+
+    this.log.debug('Loaded stored session key', { sessionKey: stored.address });
+    this.mainAddress = walletAddress;
+    this.sessionPrivateKey = stored.privateKey;
+    this.sessionSigner = createECDSAMessageSigner(stored.privateKey);
+    this.sessionAddress = stored.address;
+    this.sessionKeyExpiresAt = stored.expiresAt;
+    this.jwtToken = stored.jwtToken;
+  }
+
+  private async persistSessionKey(): Promise<void> {
+    if (
+      !this.sessionKeyStore ||
+      !this.mainAddress ||
+      !this.sessionPrivateKey ||
+      !this.sessionAddress ||
+      !this.sessionKeyExpiresAt
+    ) {
+      return;
+    }
+
+    await this.sessionKeyStore
+      .save(this.mainAddress, {
+        privateKey: this.sessionPrivateKey,
+        address: this.sessionAddress,
+        expiresAt: this.sessionKeyExpiresAt,
+        jwtToken: this.jwtToken,
+      })
+      .catch((error) => this.log.warn('Failed to store session key', { error }));
+  }
+
+  /**
+   * True when a stored session key can authenticate this wallet without
+   * a new signature, so callers can restore the session on page load
+   */
+  async hasReusableSessionKey(walletAddress: `0x${string}`): Promise<boolean> {
+    const stored = await this.sessionKeyStore?.load(walletAddress).catch(() => null);
+    const remaining = (stored?.expiresAt ?? 0) - Math.floor(Date.now() / 1000);
+    return !!stored?.jwtToken && remaining > YELLOW_CONFIG.SESSION_KEY_RENEW_BEFORE;
+  }
+
+  /**
+   * Renew the session key shortly before it expires so operations never
+   * run with an expired key
+   */
+  private scheduleRenewal(): void {
+    this.clearRenewalTimer();
+    if (!this.sessionKeyExpiresAt) {
+      return;
+    }
+
+    const renewAt = (this.sessionKeyExpiresAt - YELLOW_CONFIG.SESSION_KEY_RENEW_BEFORE) * 1000;
+    this.renewalTimer = setTimeout(() => void this.renewSessionKey(), Math.max(renewAt - Date.now(), 0));
+  }
+
+  private async renewSessionKey(): Promise<void> {
+    this.renewalTimer = undefined;
+    if (!this.isAuthenticated() || !this.mainAddress) {
+      return;
+    }
+
+    this.log.info('Renewing session key before expiry');
+    try {
+      // The current key is within the renewal window, so a new one is generated
+      await this.reauthenticate();
+      this.log.info('Session key renewed', { sessionKey: this.sessionAddress });
+    } catch (error) {
+      this.log.error('Failed to renew session key', { error });
+      this.updateState({ error: 'Session key renewal failed - please authenticate again' });
+    }
+  }
+
+  /**
+   * Authenticate the current wallet again, in the AUTHENTICATING state so
+   * nothing is signed with a session key the ClearNode has not verified
+   * yet. Operations started meanwhile see isAuthenticated() false, and
+   * authenticate() calls for the same wallet wait for this one.
+   */
+  private reauthenticate(): Promise<void> {
+    this.updateState({ status: ConnectionStatus.AUTHENTICATING });
+    this.reauthentication ??= this.authenticate(this.mainAddress!, this.mainWalletSigner).finally(() => {
+      this.reauthentication = undefined;
+    });
+    return this.reauthentication;
+  }
+
+  private clearRenewalTimer(): void {
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+      this.renewalTimer = undefined;
+    }
+  }
+
+  private clearSessionKey(): void {
+    this.sessionPrivateKey = undefined;
+    this.sessionSigner = undefined;
+    this.sessionAddress = undefined;
+    this.sessionKeyExpiresAt = undefined;
+    this.jwtToken = undefined;
+    this.updateState({ sessionKey: undefined });
+  }
+
   private async handleAuthChallenge(message: RPCResponse): Promise<void> {
     try {
       if (!this.mainWalletSigner || !this.mainAddress) {
         throw new Error('Main wallet not initialized');
       }
 
-      console.log('🔑 Received auth_challenge');
+      this.log.debug('Received auth_challenge');
 
-      // Sign challenge with main wallet using EIP-712
-      const expiresAt = Math.floor(Date.now() / 1000) + YELLOW_CONFIG.SESSION_KEY_EXPIRY;
+      // Sign challenge with main wallet using EIP-712; expiry must match the auth_request
+      const expiresAt = this.sessionKeyExpiresAt!;
       const authParamsForSigner = {
         scope: YELLOW_CONFIG.SESSION_KEY_SCOPE,
         application: YELLOW_CONFIG.APPLICATION_NAME, // Must match what was sent in auth_request
@@ -275,15 +757,13 @@ export class YellowClient {
 
       await this.client.sendMessage(msgToSend);
 
-      console.log('📤 Sent auth_verify');
-
       // IMPORTANT: Don't mark as authenticated yet - wait for server confirmation
       // The server will either send an auth_verify success or an error response
-      console.log('⏳ Waiting for server authentication confirmation...');
+      this.log.debug('Sent auth_verify, waiting for server confirmation');
 
       // Don't resolve the promise here - wait for handleAuthVerify or error handler
     } catch (error) {
-      console.error('Failed to handle auth challenge:', error);
+      this.log.error('Failed to handle auth challenge', { error });
 
       // Reject the authentication promise
       if (this.authReject) {
@@ -301,22 +781,27 @@ export class YellowClient {
     }
   }
 
-  private async handleAuthVerify(): Promise<void> {
+  private async handleAuthVerify(message: RPCResponse): Promise<void> {
     try {
-      console.log('✅ Handling auth verify - setting status to AUTHENTICATED');
-      console.log('  - Main address:', this.mainAddress);
-      console.log('  - Session address:', this.sessionAddress);
-      console.log('  - Session signer exists:', !!this.sessionSigner);
+      const jwtToken = (message.params as { jwtToken?: string } | undefined)?.jwtToken;
+      if (jwtToken) {
+        this.jwtToken = jwtToken;
+      }
+
+      this.log.info('Authenticated', {
+        wallet: this.mainAddress,
+        sessionKey: this.sessionAddress,
+      });
 
       this.updateState({
         status: ConnectionStatus.AUTHENTICATED,
         address: this.mainAddress,
         sessionKey: this.sessionAddress,
+        error: undefined,
       });
 
       // Resolve the authentication promise
       if (this.authResolve) {
-        console.log('✅ Resolving authentication promise');
         this.authResolve();
         this.authResolve = undefined;
         this.authReject = undefined;
@@ -324,16 +809,114 @@ export class YellowClient {
 
       // Don't fetch balance here - let the page do it explicitly
     } catch (error) {
-      console.error('Failed to complete authentication:', error);
+      this.log.error('Failed to complete authentication', { error });
       throw error;
     }
   }
 
+  // ============================================================================
+  // RPC Requests
+  // ============================================================================
+
+  /**
+   * Send a signed RPC message and decode the ClearNode reply for `method`
+   */
+  private async sendRequest<M extends DecodableMethod>(
+    method: M,
+    message: string | object,
+    options: RequestOptions = {}
+  ): Promise<RpcResult<M>> {
+    const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
+    const requestId = getRequestId(msgToSend);
+    this.log.debug('Sending RPC request', { method, requestId });
+
+    let response: unknown;
+    try {
+      response = await this.awaitResponse(
+        method,
+        requestId,
+        () => this.client.sendMessage(msgToSend),
+        options
+      );
+    } catch (error) {
+      // yellow-ts rejects with the parsed response when the server flags an error
+      if (error instanceof Error) {
+        throw error;
+      }
+      response = error;
+    }
+
+    return decodeRpcResponse(method, response, requestId);
+  }
+
+  /**
+   * Wait for a reply with a timeout and abort signal. The request is tracked
+   * until it settles so a disconnect can reject it instead of leaving it hanging.
+   */
+  private awaitResponse<T>(
+    method: string,
+    requestId: RequestId | undefined,
+    send: () => Promise<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    // yellow-ts rejects on its own after the client-wide timeout, so that is the upper bound
+    const timeout = Math.min(options.timeout ?? this.config.requestTimeout, this.config.requestTimeout);
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(
+        new YellowRpcError(method, 'request aborted', { requestId, cause: signal.reason })
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(fail);
+      };
+      const fail = (reason: string, cause?: unknown) => {
+        settle();
+        reject(new YellowRpcError(method, reason, { requestId, cause }));
+      };
+      const onAbort = () => fail('request aborted', signal?.reason);
+
+      const timer = setTimeout(() => {
+        settle();
+        reject(new YellowTimeoutError(method, timeout, { requestId }));
+      }, timeout);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingRequests.add(fail);
+
+      send().then(
+        (response) => {
+          settle();
+          resolve(response);
+        },
+        (error) => {
+          settle();
+          // yellow-ts' own timeout fires first when the timeouts are equal
+          if (error instanceof Error && error.message === 'Request timed out') {
+            reject(new YellowTimeoutError(method, timeout, { requestId, cause: error }));
+          } else {
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  private rejectPendingRequests(reason: string): void {
+    for (const fail of [...this.pendingRequests]) {
+      fail(reason);
+    }
+  }
+
   // ============================================================================
   // Unified Balance
   // ============================================================================
 
-  async fetchUnifiedBalance(): Promise<UnifiedBalance> {
+  async fetchUnifiedBalance(options: RequestOptions = {}): Promise<UnifiedBalance> {
     try {
       if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
         throw new Error('Not authenticated');
@@ -346,20 +929,21 @@ export class YellowClient {
         accountToQuery
       );
 
-      const response = await this.client.sendMessage(balanceMsg);
-
-      // The response comes back with balances in params.ledgerBalances
-      const balances = (response as any).params?.ledgerBalances || [];
+      const { ledgerBalances } = await this.sendRequest(
+        RPCMethod.GetLedgerBalances,
+        balanceMsg,
+        options
+      );
 
       const unifiedBalance: UnifiedBalance = {
-        balances,
+        balances: ledgerBalances,
         updated_at: new Date().toISOString(),
       };
 
       this.updateState({ unifiedBalance });
       return unifiedBalance;
     } catch (error) {
-      console.error('Failed to fetch unified balance:', error);
+      this.log.error('Failed to fetch unified balance', { error });
       throw error;
     }
   }
@@ -374,6 +958,39 @@ export class YellowClient {
     return this.state.walletBalances || [];
   }
 
+  /**
+   * Move `amount` of `asset` from this wallet's unified balance to another
+   * wallet's. Returns the id of the ledger transaction.
+   */
+  async transfer(
+    destination: Address,
+    asset: string,
+    amount: string,
+    options: OperationOptions = {}
+  ): Promise<string> {
+    const log = this.operationLog('transfer', options, { destination });
+
+    try {
+      if (!this.isAuthenticated() || !this.sessionSigner) {
+        throw new Error('Not authenticated');
+      }
+
+      log.info('Transferring', { asset, amount });
+      const message = await createTransferMessage(this.sessionSigner, {
+        destination,
+        allocations: [{ asset, amount }],
+      });
+      const { transactions } = await this.sendRequest(RPCMethod.Transfer, message, options);
+
+      const transactionId = String(transactions[0].id);
+      log.info('Transfer completed', { transactionId });
+      return transactionId;
+    } catch (error) {
+      log.error('Failed to transfer', { error });
+      throw error;
+    }
+  }
+
   /**
    * Get the actual ledger balance (which is the same as wallet balance)
    */
@@ -390,19 +1007,53 @@ export class YellowClient {
   // Session Keys Management
   // ============================================================================
 
-  async getSessionKeys(): Promise<ActiveSessionKey[]> {
+  async getSessionKeys(options: RequestOptions = {}): Promise<ActiveSessionKey[]> {
     try {
       if (!this.isAuthenticated() || !this.sessionSigner) {
         throw new Error('Not authenticated');
       }
 
       const msg = await createGetSessionKeysMessage(this.sessionSigner);
-      const response = await this.client.sendMessage(msg);
+      const { sessionKeys } = await this.sendRequest(RPCMethod.GetSessionKeys, msg, options);
+
+      return sessionKeys.map((key) => ({
+        id: key.id,
+        session_key: key.sessionKey,
+        application: key.application,
+        allowances: key.allowances,
+        scope: key.scope ?? '',
+        expires_at: key.expiresAt.toISOString(),
+        created_at: key.createdAt.toISOString(),
+      }));
+    } catch (error) {
+      this.log.error('Failed to fetch session keys', { error });
+      throw error;
+    }
+  }
 
-      const sessionKeys = (response as any).res?.[2]?.session_keys || [];
-      return sessionKeys;
+  /**
+   * Revoke a session key (the current one by default). Revoking the current
+   * key drops it from the local store and leaves the client unauthenticated.
+   */
+  async revokeSessionKey(sessionKey?: Address, options: RequestOptions = {}): Promise<void> {
+    try {
+      if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
+        throw new Error('Not authenticated');
+      }
+
+      const target = sessionKey ?? this.sessionAddress!;
+      const msg = await createRevokeSessionKeyMessage(this.sessionSigner, target);
+      await this.sendRequest(RPCMethod.RevokeSessionKey, msg, options);
+      this.log.info('Revoked session key', { sessionKey: target });
+
+      if (target.toLowerCase() === this.sessionAddress?.toLowerCase()) {
+        await this.sessionKeyStore?.remove(this.mainAddress);
+        this.clearRenewalTimer();
+        this.clearSessionKey();
+        this.updateState({ status: ConnectionStatus.CONNECTED });
+      }
     } catch (error) {
-      console.error('Failed to fetch session keys:', error);
+      this.log.error('Failed to revoke session key', { error });
       throw error;
     }
   }
@@ -413,57 +1064,49 @@ export class YellowClient {
 
   private async handleMessage(message: RPCResponse): Promise<void> {
     try {
-      // Log all messages for debugging
-      console.log('📨 Received message:', {
+      // Params are redacted by the logger, so auth payloads never reach the sink in clear
+      this.log.debug('Received message', {
         method: message.method,
-        hasParams: !!message.params,
-        hasError: !!(message.params as any)?.error,
-        timestamp: new Date().toISOString()
+        requestId: message.requestId,
+        params: message.params,
       });
 
-      // Log full details for important messages
-      if (message.method &&
-          (message.method === RPCMethod.AuthChallenge ||
-           message.method === RPCMethod.AuthVerify ||
-           message.method === RPCMethod.Error)) {
-        console.log('📨 Full message:', JSON.stringify(message, null, 2));
-      }
-
-      // Log the actual method value for debugging
-      if (typeof message.method === 'string') {
-        console.log(`📥 Method value: "${message.method}"`);
-      }
-
-      switch (message.method) {
+      // asu is not part of the SDK's RPCResponse union, so widen to RPCMethod
+      switch (message.method as RPCMethod) {
         case RPCMethod.AuthChallenge:
         case 'auth_challenge': // Handle both cases explicitly
-          console.log('🔑 Processing auth_challenge');
           await this.handleAuthChallenge(message);
           break;
 
         case RPCMethod.AuthVerify:
         case 'auth_verify': // Handle both cases explicitly
-          console.log('✅ Received auth_verify response - authentication successful!');
-          await this.handleAuthVerify();
+          await this.handleAuthVerify(message);
           break;
 
         case RPCMethod.BalanceUpdate:
-          console.log('💰 Wallet balance update:', message.params);
+          this.log.debug('Wallet balance update', { params: message.params });
           // Store wallet balance separately
           const walletBalances = (message.params as any)?.balanceUpdates || [];
           this.updateState({ walletBalances });
           this.emit('balance_update', message);
           break;
 
+        case RPCMethod.AppSessionUpdate:
+          // Keep the latest known allocations per session; get_app_definition
+          // only returns the definition, not the current state
+          try {
+            const update = decodeRpcResponse(RPCMethod.AppSessionUpdate, message);
+            this.appSessionUpdates.set(update.appSessionId.toLowerCase(), update);
+          } catch (error) {
+            this.log.warn('Ignoring malformed app session update', { error });
+          }
+          this.emit(RPCMethod.AppSessionUpdate, message);
+          break;
+
         case RPCMethod.Error:
         case 'error': // Handle both cases
           const errorMsg = (message.params as any)?.error || 'Unknown error';
-          console.error('❌ Yellow Network error:', errorMsg);
-
-          // Log request ID to trace which request failed
-          if (message.requestId) {
-            console.error(`   Request ID that failed: ${message.requestId}`);
-          }
+          this.log.error('Yellow Network error', { error: errorMsg, requestId: message.requestId });
 
           this.emit('error', message);
 
@@ -471,11 +1114,12 @@ export class YellowClient {
           const isAuthError = errorMsg.includes('authentication') ||
                              errorMsg.includes('challenge') ||
                              errorMsg.includes('signature') ||
-                             errorMsg.includes('auth');
+                             errorMsg.includes('auth') ||
+                             errorMsg.toLowerCase().includes('jwt');
 
           // If we're waiting for auth and get an error, fail the auth
           if (this.authReject && isAuthError) {
-            console.error('🚫 Authentication error detected, failing auth flow');
+            this.log.error('Authentication error detected, failing auth flow');
             this.updateState({
               status: ConnectionStatus.ERROR,
               error: errorMsg,
@@ -493,7 +1137,7 @@ export class YellowClient {
 
           // During authentication, log non-auth messages but don't process them as auth success
           if (this.authResolve && message.method) {
-            console.log(`📝 Received ${message.method} message during authentication flow`);
+            this.log.debug('Received message during authentication flow', { method: message.method });
           }
 
           // Always emit to registered listeners for non-auth messages
@@ -503,7 +1147,7 @@ export class YellowClient {
           break;
       }
     } catch (error) {
-      console.error('Error handling message:', error);
+      this.log.error('Error handling message', { error });
     }
   }
 
@@ -530,7 +1174,7 @@ export class YellowClient {
         try {
           listener(data);
         } catch (error) {
-          console.error(`Error in listener for ${event}:`, error);
+          this.log.error('Error in listener', { event, error });
         }
       });
     }
@@ -608,17 +1252,30 @@ export class YellowClient {
    */
   async ensureAuthenticated(): Promise<void> {
     if (!this.isAuthenticated() || !this.sessionSigner) {
-      console.log('⚠️ Not authenticated or session signer missing, need to authenticate first');
+      this.log.warn('Not authenticated or session signer missing, need to authenticate first');
       throw new Error('Not authenticated. Please authenticate first before creating app sessions.');
     }
 
     // Double-check that all required auth components are present
     if (!this.mainAddress || !this.sessionAddress) {
-      console.error('Authentication incomplete - missing addresses');
+      this.log.error('Authentication incomplete - missing addresses');
       throw new Error('Authentication incomplete - missing wallet or session addresses');
     }
+  }
 
-    console.log('✅ Authentication verified');
+  /**
+   * Logger for one bet/market operation, tagged with the caller's
+   * correlation id (or a fresh one) so nested calls share it
+   */
+  private operationLog(
+    prefix: string,
+    options: OperationOptions,
+    bindings: Record<string, unknown> = {}
+  ): Logger {
+    return this.log.child({
+      correlationId: options.correlationId ?? createCorrelationId(prefix),
+      ...bindings,
+    });
   }
 
   /**
@@ -626,20 +1283,20 @@ export class YellowClient {
    * Create an App Session for a prediction market
    * Returns the app_session_id
    */
-  async createAppSession(request: AppSessionRequest): Promise<string> {
-    try {
-      // More detailed authentication check
-      console.log('🔍 Authentication check before createAppSession:');
-      console.log('  - Connection status:', this.state.status);
-      console.log('  - isAuthenticated():', this.isAuthenticated());
-      console.log('  - Session signer exists:', !!this.sessionSigner);
-      console.log('  - Main address:', this.mainAddress);
-      console.log('  - Session address:', this.sessionAddress);
+  async createAppSession(
+    request: AppSessionRequest,
+    options: OperationOptions = {}
+  ): Promise<string> {
+    const log = this.operationLog('market', options);
 
+    try {
       // Ensure we're authenticated
       await this.ensureAuthenticated();
 
-      console.log('🎲 Creating App Session for market...');
+      log.info('Creating App Session for market', {
+        participants: request.definition.participants,
+        allocations: request.allocations,
+      });
 
       // Create request with application field
       const rpcRequest = {
@@ -648,43 +1305,16 @@ export class YellowClient {
           ...request.definition,
           application: YELLOW_CONFIG.APPLICATION_NAME,
         },
+        session_data: withAllocationSnapshot(undefined, request.allocations),
       };
 
-      console.log('📝 Creating app session message with session signer...');
       const message = await createAppSessionMessage(this.sessionSigner, rpcRequest as any);
 
-      // Parse if it's a string (like in the SDK examples)
-      const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
-
-      // Log the message structure to check signatures
-      console.log('📤 Sending app session message:');
-      console.log('  - Method:', msgToSend.method);
-      console.log('  - Has signatures:', !!msgToSend.signatures);
-      console.log('  - Signatures count:', msgToSend.signatures?.length || 0);
-      console.log('  - Full message:', JSON.stringify(msgToSend, null, 2));
-
-      const response = await this.client.sendMessage(msgToSend);
-      console.log('📥 App session response:', response);
-
-      // The response format from the SDK examples shows it comes back directly in params
-      if ((response as any).params?.appSessionId) {
-        const appSessionId = (response as any).params.appSessionId;
-        console.log('✅ App Session created:', appSessionId);
-        return appSessionId;
-      }
-
-      // Try alternative response format
-      const result = (response as any).res?.[2]?.[0];
-      if (result?.app_session_id) {
-        console.log('✅ App Session created:', result.app_session_id);
-        return result.app_session_id;
-      }
-
-      // If neither format works, log the full response for debugging
-      console.error('Unexpected response format:', JSON.stringify(response, null, 2));
-      throw new Error('Failed to create app session - no session ID returned');
+      const { appSessionId } = await this.sendRequest(RPCMethod.CreateAppSession, message, options);
+      log.info('App Session created', { appSessionId });
+      return appSessionId;
     } catch (error) {
-      console.error('Failed to create app session:', error);
+      log.error('Failed to create app session', { error });
       throw error;
     }
   }
@@ -695,462 +1325,581 @@ export class YellowClient {
   async joinMarket(
     appSessionId: Hex,
     initialAmount: string,
-    asset: string = 'ytest.usd'
+    asset: string = DEFAULT_ASSET_ID,
+    options: OperationOptions = {}
   ): Promise<void> {
+    const log = this.operationLog('join', options, { appSessionId });
+
     try {
       if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
         throw new Error('Not authenticated');
       }
 
-      console.log(`🎯 Joining market with ${initialAmount} ${asset}...`);
+      const userAddress = this.mainAddress;
+      log.info('Joining market', { amount: initialAmount, asset });
 
-      // Fetch current state
-      const appState = await this.getAppDefinition(appSessionId);
+      // DEPOSIT intent: preserve all existing allocations exactly and only add new funds
+      const result = await this.submitAppStateWithRetry(
+        appSessionId,
+        RPCAppStateIntent.Deposit,
+        (appState) => {
+          log.debug('Current app state before joining', {
+            version: appState.version,
+            allocationsCount: appState.allocations.length,
+            participants: appState.participants,
+          });
 
-      console.log('📊 Current app state before joining:', {
-        allocationsCount: appState.allocations.length,
-        allocations: appState.allocations,
-        participants: appState.participants
-      });
+          if (appState.status !== 'open') {
+            throw new Error(`Cannot join ${appState.status} market`);
+          }
 
-      if (appState.status !== 'open') {
-        throw new Error(`Cannot join ${appState.status} market`);
-      }
+          // Check if user already has an allocation (is a participant)
+          const existingUserAllocation = appState.allocations.find(
+            alloc => alloc.participant.toLowerCase() === userAddress.toLowerCase()
+          );
 
-      // Check if user already has an allocation (is a participant)
-      const existingUserAllocation = appState.allocations.find(
-        alloc => alloc.participant.toLowerCase() === this.mainAddress?.toLowerCase()
-      );
+          if (existingUserAllocation) {
+            log.info('User is already a participant', { allocation: existingUserAllocation });
+            return null;
+          }
 
-      if (existingUserAllocation) {
-        console.log('✅ User is already a participant with allocation:', existingUserAllocation);
-        // If user already has allocation, we can just return (they don't need to join again)
-        return;
-      }
+          let newAllocations: Allocation[];
+
+          if (appState.allocations.length === 0) {
+            log.debug('Initializing empty session with user allocation');
+            if (appState.participants.length === 0) {
+              throw new Error(`App session ${appSessionId} has no participants`);
+            }
+
+            // Create initial allocations for all participants
+            newAllocations = appState.participants.map(p => ({
+              participant: p,
+              amount: '0',
+              asset: asset
+            }));
+          } else {
+            newAllocations = appState.allocations.map(alloc => ({
+              ...alloc,
+              amount: alloc.amount || '0',
+              asset: alloc.asset || asset
+            }));
+          }
 
-      // For DEPOSIT intent, we must ensure all existing allocations are preserved
-      // and only add new funds (never decrease existing amounts)
-      let newAllocations;
-
-      if (appState.allocations.length === 0) {
-        console.log('📝 Initializing empty session with user allocation');
-        // Create initial allocations for all participants
-        const participants = appState.participants || [
-          '0x0000000000000000000000000000000000000001',
-          '0x0000000000000000000000000000000000000002',
-          '0x31889e28db474a43572e4f2cf235D657EEa9D88B'
-        ];
-
-        newAllocations = participants.map(p => ({
-          participant: p,
-          amount: '0',
-          asset: asset
-        }));
-
-        // Add user with initial deposit
-        newAllocations.push({
-          participant: this.mainAddress,
-          amount: initialAmount,
-          asset: asset
-        });
-      } else {
-        // IMPORTANT: Preserve all existing allocations exactly as they are
-        // DEPOSIT intent requires that no allocation decreases
-        newAllocations = appState.allocations.map(alloc => ({
-          ...alloc,
-          // Ensure we keep the exact same amount (never decrease)
-          amount: alloc.amount || '0',
-          asset: alloc.asset || asset
-        }));
-
-        // Add user allocation with the deposit amount
-        newAllocations.push({
-          participant: this.mainAddress,
-          amount: initialAmount,
-          asset: asset
-        });
-      }
+          // Add user allocation with the deposit amount
+          newAllocations.push({
+            participant: userAddress,
+            amount: initialAmount,
+            asset: asset
+          });
 
-      // Use DEPOSIT intent to add funds from unified balance
-      const nextVersion = appState.version + 1;
-
-      // Calculate total delta to verify it's positive
-      const oldTotal = appState.allocations.reduce((sum, alloc) =>
-        sum + BigInt(alloc.amount || '0'), BigInt(0));
-      const newTotal = newAllocations.reduce((sum, alloc) =>
-        sum + BigInt(alloc.amount || '0'), BigInt(0));
-      const delta = newTotal - oldTotal;
-
-      console.log('💰 Deposit calculations:', {
-        oldTotal: oldTotal.toString(),
-        newTotal: newTotal.toString(),
-        delta: delta.toString(),
-        isPositiveDelta: delta > BigInt(0)
-      });
+          return { allocations: newAllocations };
+        },
+        log,
+        options
+      );
 
-      if (delta <= BigInt(0)) {
-        throw new Error(`Invalid deposit: delta must be positive but got ${delta}`);
+      if (result) {
+        log.info('Joined market with initial deposit', { version: result.version });
       }
+    } catch (error) {
+      log.error('Failed to join market', { error });
+      throw error;
+    }
+  }
 
-      const message = await createSubmitAppStateMessage(this.sessionSigner, {
-        app_session_id: appSessionId,
-        intent: RPCAppStateIntent.Deposit,
-        version: nextVersion,
-        allocations: newAllocations as any,
-      });
+  /**
+   * Add stakes paid to this wallet by transfer to a market: DEPOSIT
+   * `deposit` from its unified balance into its own allocation, then
+   * OPERATE each stake from that allocation to the pool of its outcome and
+   * record it in the stake ledger. Bettors are not session participants,
+   * so this is submitted from the oracle wallet, which holds the quorum.
+   * When the OPERATE fails the deposit is withdrawn again, so the funds are
+   * back in the unified balance to be refunded. Returns the version of the
+   * OPERATE update.
+   */
+  async submitStakes(
+    appSessionId: Hex,
+    asset: string,
+    deposit: string,
+    stakes: MarketStake[],
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const correlationId = options.correlationId ?? createCorrelationId('stake');
+    const log = this.operationLog('stake', { correlationId }, { appSessionId });
 
-      const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
+    try {
+      if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
+        throw new Error('Not authenticated');
+      }
 
-      console.log('Sending DEPOSIT message to join market:', {
-        version: nextVersion,
-        userAmount: initialAmount,
-        newParticipants: newAllocations.map(a => a.participant),
-        allocations: newAllocations
-      });
+      const oracleAddress = this.mainAddress;
+      const staked = stakes.reduce((sum, stake) => sum + BigInt(stake.amount), 0n);
+      if (staked > BigInt(deposit)) {
+        throw new Error(`Stakes exceed the deposit: ${staked} > ${deposit}`);
+      }
+      log.info('Submitting stakes', { asset, deposit, stakes });
 
-      const response = await this.client.sendMessage(msgToSend);
+      await this.submitAppStateWithRetry(
+        appSessionId,
+        RPCAppStateIntent.Deposit,
+        (appState) => {
+          if (appState.status !== 'open') {
+            throw new Error(`Cannot bet on ${appState.status} market`);
+          }
+          return {
+            allocations: adjustAllocations(appState.allocations, asset, [[oracleAddress, BigInt(deposit)]]),
+          };
+        },
+        log,
+        options
+      );
 
-      if ((response as any)?.params?.error) {
-        throw new Error(`Failed to join market: ${(response as any).params.error}`);
+      let result: RpcResult<RPCMethod.SubmitAppState> | null;
+      try {
+        result = await this.submitAppStateWithRetry(
+          appSessionId,
+          RPCAppStateIntent.Operate,
+          (appState) => {
+            const pools = getSessionPools(appState.participants);
+            if (!pools) {
+              throw new Error('App session has no market pools');
+            }
+
+            const changes: Array<[string, bigint]> = stakes.flatMap((stake) => [
+              [oracleAddress, -BigInt(stake.amount)],
+              [pools[stake.outcome], BigInt(stake.amount)],
+            ]);
+            const sessionData = stakes.reduce<string | undefined>(
+              (data, stake) => appendStake(data, stake),
+              appState.session_data
+            );
+
+            return { allocations: adjustAllocations(appState.allocations, asset, changes), sessionData };
+          },
+          log,
+          options
+        );
+      } catch (error) {
+        await this.withdrawFromSession(appSessionId, asset, deposit, log, options).catch(
+          (withdrawError) => {
+            log.error('Failed to withdraw the deposit of rejected stakes', { error: withdrawError });
+          }
+        );
+        throw error;
+      }
+
+      if (!result) {
+        throw new Error('Stakes were not submitted');
       }
 
-      console.log('✅ Successfully joined market with initial deposit');
+      log.info('Stakes submitted', { version: result.version });
+      return result.version;
     } catch (error) {
-      console.error('Failed to join market:', error);
+      log.error('Failed to submit stakes', { error });
       throw error;
     }
   }
 
   /**
-   * Submit bet to App Session using OPERATE intent
+   * WITHDRAW `amount` from this wallet's allocation back to its unified
+   * balance
    */
-  async submitBet(
+  private async withdrawFromSession(
     appSessionId: Hex,
-    poolAddress: Address,
     asset: string,
-    amount: string
-  ): Promise<void> {
-    try {
-      if (!this.isAuthenticated() || !this.sessionSigner) {
-        console.error('Authentication check failed:', {
-          isAuthenticated: this.isAuthenticated(),
-          hasSessionSigner: !!this.sessionSigner,
-          state: this.state
-        });
-        throw new Error('Not authenticated');
-      }
-
-      console.log(`🎯 Submitting bet: ${amount} ${asset} to ${poolAddress}...`);
-
-      // Fetch current state from server to get accurate version and allocations
-      console.log('Fetching current app state...');
-      const appState = await this.getAppDefinition(appSessionId);
-      let currentAllocations = appState.allocations;
-      let currentVersion = appState.version;
+    amount: string,
+    log: Logger,
+    options: RequestOptions = {}
+  ): Promise<number> {
+    const walletAddress = this.mainAddress!;
+    const result = await this.submitAppStateWithRetry(
+      appSessionId,
+      RPCAppStateIntent.Withdraw,
+      (appState) => ({
+        allocations: adjustAllocations(appState.allocations, asset, [[walletAddress, -BigInt(amount)]]),
+      }),
+      log,
+      options
+    );
+    if (!result) {
+      throw new Error('Withdrawal was not submitted');
+    }
+    log.info('Withdrew from app session', { amount, version: result.version });
+    return result.version;
+  }
 
-      console.log('Current server state:', {
-        version: currentVersion,
-        allocationsCount: currentAllocations.length,
-        status: appState.status
-      });
+  /**
+   * Cash out shares a bettor sold back to a market using OPERATE intent:
+   * `proceeds` move from the pool of `outcome` to this wallet's allocation,
+   * and the stake ledger records the sale as a negative stake of `seller`.
+   * Sellers are not session participants, so this is submitted from the
+   * oracle wallet, which holds the quorum; it then withdraws what the
+   * seller is paid and transfers it (see withdraw). Returns the version of
+   * the state update.
+   */
+  async submitCashOut(
+    appSessionId: Hex,
+    asset: string,
+    seller: Address,
+    outcome: MarketOutcome,
+    proceeds: string,
+    shares: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const correlationId = options.correlationId ?? createCorrelationId('sale');
+    const log = this.operationLog('sale', { correlationId }, { appSessionId });
 
-      if (appState.status !== 'open') {
-        throw new Error(`Cannot bet on ${appState.status} market`);
+    try {
+      if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
+        throw new Error('Not authenticated');
       }
 
-      console.log('User address:', this.mainAddress);
-      console.log('Session signer state:', {
-        hasSessionSigner: !!this.sessionSigner,
-        sessionAddress: this.sessionAddress,
-        authStatus: this.state.status
-      });
-
-      // For OPERATE intent: move funds from user to pool (sum must stay constant)
-      // Check if user has an allocation
-      let userAllocation = currentAllocations.find(
-        alloc => alloc.participant.toLowerCase() === this.mainAddress?.toLowerCase()
-      );
+      const oracleAddress = this.mainAddress;
+      log.info('Submitting sale', { seller, outcome, proceeds, shares, asset });
 
-      // If user doesn't have an allocation, we need to join the market first
-      if (!userAllocation) {
-        console.log('🔄 User not in market, joining first with initial deposit...');
+      const result = await this.submitAppStateWithRetry(
+        appSessionId,
+        RPCAppStateIntent.Operate,
+        (appState) => {
+          if (appState.status !== 'open') {
+            throw new Error(`Cannot cash out of ${appState.status} market`);
+          }
 
-        // Join the market with a DEPOSIT intent to add user as participant
-        await this.joinMarket(appSessionId, amount, asset);
+          const pools = getSessionPools(appState.participants);
+          if (!pools) {
+            throw new Error('App session has no market pools');
+          }
 
-        // Re-fetch state after joining
-        console.log('Re-fetching app state after joining...');
-        const newAppState = await this.getAppDefinition(appSessionId);
-        currentAllocations = newAppState.allocations;
-        currentVersion = newAppState.version;
+          const hasStake = parseStakes(appState.session_data).some(
+            (stake) =>
+              stake.bettor.toLowerCase() === seller.toLowerCase() && stake.outcome === outcome
+          );
+          if (!hasStake) {
+            throw new Error(`No ${outcome.toUpperCase()} position to cash out`);
+          }
 
-        // Now check again for user allocation
-        userAllocation = currentAllocations.find(
-          alloc => alloc.participant.toLowerCase() === this.mainAddress?.toLowerCase()
-        );
+          const poolBalance = appState.allocations
+            .filter((alloc) => alloc.participant.toLowerCase() === pools[outcome].toLowerCase())
+            .reduce((sum, alloc) => sum + BigInt(alloc.amount || '0'), 0n);
+          if (poolBalance < BigInt(proceeds)) {
+            throw new Error(`Pool cannot cover the sale: ${poolBalance} < ${proceeds}`);
+          }
 
-        if (!userAllocation) {
-          throw new Error('Failed to add user to market participants');
-        }
+          const allocations = adjustAllocations(appState.allocations, asset, [
+            [pools[outcome], -BigInt(proceeds)],
+            [oracleAddress, BigInt(proceeds)],
+          ]);
+          const sessionData = appendStake(appState.session_data, {
+            bettor: seller,
+            outcome,
+            amount: `-${proceeds}`,
+            shares,
+          });
 
-        // Now we can place the bet
-        console.log('✅ User successfully joined market, now placing bet...');
-      }
+          return { allocations, sessionData };
+        },
+        log,
+        options
+      );
 
-      const userBalance = BigInt(userAllocation.amount || '0');
-      if (userBalance < BigInt(amount)) {
-        throw new Error(`Insufficient balance: ${userBalance} < ${amount}`);
+      if (!result) {
+        throw new Error('Sale was not submitted');
       }
 
-      // Update allocations: move funds from user to pool
-      // IMPORTANT: Preserve all fields including 'asset'
-      const newAllocations = currentAllocations.map((alloc) => {
-        // Ensure asset field is present
-        const allocWithAsset = {
-          ...alloc,
-          asset: alloc.asset || asset // Use provided asset if allocation doesn't have one
-        };
-
-        if (alloc.participant.toLowerCase() === poolAddress.toLowerCase()) {
-          // Increase pool amount
-          const oldAmount = BigInt(alloc.amount || '0');
-          const newAmount = oldAmount + BigInt(amount);
-          console.log(`Pool ${poolAddress}: ${oldAmount} -> ${newAmount}`);
-          return {
-            ...allocWithAsset,
-            amount: newAmount.toString(),
-          };
-        } else if (alloc.participant.toLowerCase() === this.mainAddress?.toLowerCase()) {
-          // Decrease user amount
-          const newAmount = userBalance - BigInt(amount);
-          console.log(`User ${this.mainAddress}: ${userBalance} -> ${newAmount}`);
-          return {
-            ...allocWithAsset,
-            amount: newAmount.toString(),
-          };
-        }
-        console.log(`Unchanged participant ${alloc.participant}: ${alloc.amount}`);
-        return allocWithAsset;
-      });
+      log.info('Sale submitted', { version: result.version });
+      return result.version;
+    } catch (error) {
+      log.error('Failed to submit sale', { error });
+      throw error;
+    }
+  }
 
-      console.log('New allocations after bet:', newAllocations);
+  /**
+   * Undo a cash-out that was never paid, using OPERATE intent: `proceeds`
+   * move back from this wallet's allocation to the pool of `outcome`, and
+   * the stake ledger buys the sold shares back for them, so the seller's
+   * net stake and shares are what they were before the sale. Returns the
+   * version of the state update.
+   */
+  async revertCashOut(
+    appSessionId: Hex,
+    asset: string,
+    seller: Address,
+    outcome: MarketOutcome,
+    proceeds: string,
+    shares: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const correlationId = options.correlationId ?? createCorrelationId('sale');
+    const log = this.operationLog('sale', { correlationId }, { appSessionId });
 
-      // Log each allocation for debugging
-      newAllocations.forEach((alloc, i) => {
-        console.log(`  Allocation ${i}: ${alloc.participant} = ${alloc.amount} ${alloc.asset || 'ytest.usd'}`);
-      });
+    try {
+      if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
+        throw new Error('Not authenticated');
+      }
 
-      // Verify total remains constant for OPERATE (per asset)
-      const assetToCheck = asset;
-      const oldTotal = currentAllocations
-        .filter(alloc => (alloc.asset || assetToCheck) === assetToCheck)
-        .reduce((sum, alloc) => sum + BigInt(alloc.amount || '0'), 0n);
+      const oracleAddress = this.mainAddress;
+      log.info('Reverting sale', { seller, outcome, proceeds, shares, asset });
 
-      const newTotal = newAllocations
-        .filter(alloc => (alloc.asset || assetToCheck) === assetToCheck)
-        .reduce((sum, alloc) => sum + BigInt(alloc.amount || '0'), 0n);
+      const result = await this.submitAppStateWithRetry(
+        appSessionId,
+        RPCAppStateIntent.Operate,
+        (appState) => {
+          const pools = getSessionPools(appState.participants);
+          if (!pools) {
+            throw new Error('App session has no market pools');
+          }
 
-      const delta = newTotal - oldTotal;
+          const allocations = adjustAllocations(appState.allocations, asset, [
+            [oracleAddress, -BigInt(proceeds)],
+            [pools[outcome], BigInt(proceeds)],
+          ]);
+          const sessionData = appendStake(appState.session_data, {
+            bettor: seller,
+            outcome,
+            amount: proceeds,
+            shares,
+          });
 
-      console.log(`Old total for ${assetToCheck}: ${oldTotal}`);
-      console.log(`New total for ${assetToCheck}: ${newTotal}`);
-      console.log(`Delta: ${delta}`);
+          return { allocations, sessionData };
+        },
+        log,
+        options
+      );
 
-      if (delta !== 0n) {
-        throw new Error(`Invalid allocation delta for OPERATE: ${delta} (should be 0)`);
+      if (!result) {
+        throw new Error('Sale reversal was not submitted');
       }
 
-      console.log(`✅ Allocation delta: ${delta} (correct for OPERATE intent)`);
+      log.info('Sale reverted', { version: result.version });
+      return result.version;
+    } catch (error) {
+      log.error('Failed to revert sale', { error });
+      throw error;
+    }
+  }
 
-      // Increment version from current state
-      const nextVersion = currentVersion + 1;
+  /**
+   * WITHDRAW `amount` from this wallet's allocation in an app session back
+   * to its unified balance, e.g. the proceeds of a cash-out before they are
+   * transferred to the seller. Returns the version of the state update.
+   */
+  async withdraw(
+    appSessionId: Hex,
+    asset: string,
+    amount: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const log = this.operationLog('withdraw', options, { appSessionId });
 
-      // Try OPERATE intent - it seems to work without special signatures
-      console.log('Creating OPERATE message with:', {
-        appSessionId,
-        intent: 'OPERATE',
-        currentVersion,
-        nextVersion,
-        hasSessionSigner: !!this.sessionSigner,
-        sessionAddress: this.sessionAddress
-      });
+    if (!this.isAuthenticated() || !this.sessionSigner || !this.mainAddress) {
+      throw new Error('Not authenticated');
+    }
+    return this.withdrawFromSession(appSessionId, asset, amount, log, options);
+  }
 
-      // Ensure session signer is still valid
-      if (!this.sessionSigner) {
-        throw new Error('Session signer lost - need to re-authenticate');
-      }
+  /**
+   * Build and submit a state update from the latest app state.
+   *
+   * If another update lands first the ClearNode rejects ours for a stale
+   * version; the state is then refetched, the allocations rebuilt and the
+   * invariants re-checked before resubmitting, with jittered exponential
+   * backoff between attempts. `buildUpdate` returns null when there
+   * is nothing to submit (e.g. the user already joined). An aborted
+   * `options.signal` stops further attempts.
+   */
+  private async submitAppStateWithRetry(
+    appSessionId: Hex,
+    intent: RPCAppStateIntent,
+    buildUpdate: (appState: AppSessionState) => AppStateUpdate | null,
+    log: Logger = this.log,
+    options: RequestOptions = {}
+  ): Promise<RpcResult<RPCMethod.SubmitAppState> | null> {
+    const { STATE_UPDATE_ATTEMPTS, RETRY_BASE_DELAY } = YELLOW_CONFIG.APP_SESSION;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const appState = await this.getAppDefinition(appSessionId, options);
+        const update = buildUpdate(appState);
+        if (!update) {
+          return null;
+        }
 
-      const message = await createSubmitAppStateMessage(this.sessionSigner, {
-        app_session_id: appSessionId,
-        intent: RPCAppStateIntent.Operate,
-        version: nextVersion,
-        allocations: newAllocations as any, // Type cast since our Allocation type uses string for participant
-      });
+        assertAllocationInvariants(intent, appState.allocations, update.allocations);
 
-      // Parse if it's a string
-      const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
+        // Ensure session signer is still valid
+        if (!this.sessionSigner) {
+          throw new Error('Session signer lost - need to re-authenticate');
+        }
 
-      console.log('Sending OPERATE message:', {
-        hasSignatures: !!(msgToSend.signatures && msgToSend.signatures.length > 0),
-        signatureCount: msgToSend.signatures?.length || 0,
-        method: msgToSend.method,
-        requestId: msgToSend.requestId
-      });
+        const nextVersion = appState.version + 1;
+        const message = await createSubmitAppStateMessage(this.sessionSigner, {
+          app_session_id: appSessionId,
+          intent,
+          version: nextVersion,
+          allocations: update.allocations as any, // Our Allocation type uses string for participant
+          session_data: withAllocationSnapshot(
+            update.sessionData ?? appState.session_data,
+            update.allocations
+          ),
+        });
 
-      try {
-        const response = await this.client.sendMessage(msgToSend);
-        console.log('✅ Bet message sent');
-        console.log('OPERATE response:', response);
+        log.debug('Submitting app state', {
+          intent,
+          version: nextVersion,
+          attempt,
+          allocations: update.allocations,
+        });
 
-        // Check if response indicates success
-        if ((response as any)?.params?.error) {
-          throw new Error(`Server error: ${(response as any).params.error}`);
+        return await this.sendRequest(RPCMethod.SubmitAppState, message, options);
+      } catch (error) {
+        if (!isVersionConflict(error) || attempt >= STATE_UPDATE_ATTEMPTS || options.signal?.aborted) {
+          throw error;
         }
 
-        console.log('✅ Bet submitted successfully');
-      } catch (sendError) {
-        console.error('Failed to send OPERATE message:', sendError);
-        throw sendError;
+        const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY;
+        log.warn('Version conflict, retrying', {
+          appSessionId,
+          attempt,
+          maxAttempts: STATE_UPDATE_ATTEMPTS,
+          delayMs: Math.round(delay),
+        });
+        await sleep(delay);
       }
-    } catch (error) {
-      console.error('Failed to submit bet:', error);
-      throw error;
     }
   }
 
   /**
    * Get App Session definition (to read current allocations and version)
+   *
+   * get_app_definition only returns the definition, so the version and
+   * status are read from get_app_sessions. The allocations come from the
+   * latest app session update pushed for that version when there is one;
+   * asu only reaches participants that were connected at the time, so
+   * otherwise they are read from the session (see readSessionAllocations).
    */
-  async getAppDefinition(appSessionId: Hex): Promise<{
-    allocations: Allocation[];
-    version: number;
-    status: string;
-    participants?: string[];
-    weights?: number[];
-    quorum?: number;
-  }> {
+  async getAppDefinition(
+    appSessionId: Hex,
+    options: RequestOptions = {}
+  ): Promise<AppSessionState> {
     try {
       if (!this.isAuthenticated() || !this.sessionSigner) {
         throw new Error('Not authenticated');
       }
 
-      const message = await createGetAppDefinitionMessage(
+      const definitionMsg = await createGetAppDefinitionMessage(
         this.sessionSigner,
         appSessionId
       );
+      const definition = await this.sendRequest(
+        RPCMethod.GetAppDefinition,
+        definitionMsg,
+        options
+      );
 
-      // Parse if it's a string
-      const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
-      console.log('📤 Sending get_app_definition message:', msgToSend);
-
-      const response = await this.client.sendMessage(msgToSend);
-      console.log('📄 App definition raw response:', JSON.stringify(response, null, 2));
-
-      // Parse response and extract allocations with version
-      let allocations: Allocation[] = [];
-      let version = 1;
-      let status = 'open';
-      let participants: string[] = [];
-      let weights: number[] = [];
-      let quorum = 100;
-
-      // Try different response formats and extract data
-      const responseData = (response as any).params ||
-                          (response as any).res?.[2] ||
-                          (response as any).result ||
-                          response;
-
-      // Extract allocations from various possible locations
-      if (responseData?.state?.allocations) {
-        allocations = responseData.state.allocations;
-        version = responseData.state.version || 1;
-      } else if (responseData?.allocations) {
-        allocations = responseData.allocations;
-        version = responseData.version || 1;
-      } else if (responseData?.current_state?.allocations) {
-        allocations = responseData.current_state.allocations;
-        version = responseData.current_state.version || 1;
-      } else if (Array.isArray(responseData) && responseData.length > 0) {
-        const firstItem = responseData[0];
-        if (firstItem?.state?.allocations) {
-          allocations = firstItem.state.allocations;
-          version = firstItem.state.version || 1;
-        } else if (firstItem?.allocations) {
-          allocations = firstItem.allocations;
-          version = firstItem.version || 1;
-        }
-      }
+      // Any participant works as the lookup key; the definition guarantees one
+      const sessionsMsg = await createGetAppSessionsMessage(
+        this.sessionSigner,
+        definition.participants[0]
+      );
+      const { appSessions } = await this.sendRequest(
+        RPCMethod.GetAppSessions,
+        sessionsMsg,
+        options
+      );
 
-      // Extract other metadata
-      if (responseData?.status) {
-        status = responseData.status;
-      }
-      if (responseData?.participants) {
-        participants = responseData.participants;
-      }
-      if (responseData?.weights) {
-        weights = responseData.weights;
-      }
-      if (responseData?.quorum !== undefined) {
-        quorum = responseData.quorum;
+      const session = appSessions.find(
+        (s) => s.appSessionId.toLowerCase() === appSessionId.toLowerCase()
+      );
+      if (!session) {
+        throw new YellowRpcError(
+          RPCMethod.GetAppSessions,
+          `app session ${appSessionId} not listed for participant ${definition.participants[0]}`
+        );
       }
 
-      console.log('📊 Parsed app definition:', {
-        allocationsCount: allocations.length,
-        version,
-        status,
-        participantsCount: participants.length
-      });
+      const update = this.appSessionUpdates.get(appSessionId.toLowerCase());
+      const allocations =
+        update && update.version === session.version
+          ? update.participantAllocations
+          : await this.readSessionAllocations(session, options);
 
-      return {
+      const appState: AppSessionState = {
+        app_session_id: session.appSessionId,
+        status: session.status,
+        version: session.version,
         allocations,
-        version,
-        status,
-        participants,
-        weights,
-        quorum
+        participants: definition.participants,
+        weights: definition.weights,
+        quorum: definition.quorum,
+        session_data: session.sessionData,
       };
+
+      this.log.debug('App definition', {
+        appSessionId,
+        allocationsCount: appState.allocations.length,
+        version: appState.version,
+        status: appState.status,
+        participantsCount: appState.participants.length,
+      });
+
+      return appState;
     } catch (error) {
-      console.error('Failed to get app definition:', error);
+      this.log.error('Failed to get app definition', { appSessionId, error });
       throw error;
     }
   }
 
   /**
-   * Get current app state including version
+   * Allocations of a session's current version from the snapshot its
+   * session_data carries, checked against what get_ledger_balances reports
+   * the session holds. Throws YellowStaleStateError when there is no
+   * snapshot or it does not add up.
    */
-  async getAppState(appSessionId: Hex): Promise<{ version: number; allocations: Allocation[] }> {
-    try {
-      if (!this.isAuthenticated() || !this.sessionSigner) {
-        throw new Error('Not authenticated');
-      }
-
-      // Use the SDK method to get app definition which includes state
-      const message = await createGetAppDefinitionMessage(
-        this.sessionSigner,
-        appSessionId
-      );
-
-      // Send the message as-is from the SDK (don't convert the format)
-      const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
+  private async readSessionAllocations(
+    session: AppSessionSummary,
+    options: RequestOptions
+  ): Promise<Allocation[]> {
+    const stale = () =>
+      new YellowStaleStateError(RPCMethod.GetAppDefinition, session.appSessionId, session.version);
+
+    const snapshot = readAllocationSnapshot(session.sessionData);
+    if (!snapshot) {
+      throw stale();
+    }
 
-      const response = await this.client.sendMessage(msgToSend);
-      console.log('📊 Current app state response:', response);
+    // A closed session holds nothing any more; its snapshot is the final split
+    if (session.status === 'open') {
+      const message = await createGetLedgerBalancesMessage(this.sessionSigner, session.appSessionId);
+      const { ledgerBalances } = await this.sendRequest(RPCMethod.GetLedgerBalances, message, options);
+
+      const held = new Map(ledgerBalances.map(({ asset, amount }) => [asset, BigInt(amount)]));
+      const allocated = sumByAsset(snapshot);
+      for (const asset of new Set([...held.keys(), ...allocated.keys()])) {
+        if ((held.get(asset) ?? 0n) !== (allocated.get(asset) ?? 0n)) {
+          this.log.warn('Allocation snapshot does not match session balance', {
+            appSessionId: session.appSessionId,
+            asset,
+            held: held.get(asset) ?? 0n,
+            allocated: allocated.get(asset) ?? 0n,
+          });
+          throw stale();
+        }
+      }
+    }
 
-      // Extract version and allocations from response
-      const result = (response as any).result || (response as any).params || {};
-      const allocations = result.allocations || result.state?.allocations || [];
-      const version = result.version || result.state?.version || 1;
+    return snapshot;
+  }
 
-      return {
-        version,
-        allocations
-      };
-    } catch (error) {
-      console.error('Failed to get app state:', error);
-      // Return default values if state fetch fails
-      return { version: 1, allocations: [] };
-    }
+  /**
+   * Get current app state including version
+   */
+  async getAppState(
+    appSessionId: Hex,
+    options: RequestOptions = {}
+  ): Promise<{ version: number; allocations: Allocation[] }> {
+    const { version, allocations } = await this.getAppDefinition(appSessionId, options);
+    return { version, allocations };
   }
 
   /**
@@ -1158,8 +1907,9 @@ export class YellowClient {
    */
   async getAppSessions(
     participant: Address,
-    status?: 'open' | 'closed'
-  ): Promise<any[]> {
+    status?: 'open' | 'closed',
+    options: RequestOptions = {}
+  ): Promise<AppSessionSummary[]> {
     try {
       if (!this.isAuthenticated() || !this.sessionSigner) {
         throw new Error('Not authenticated');
@@ -1171,22 +1921,12 @@ export class YellowClient {
         status as any // Type cast for channel status
       );
 
-      console.log('🔍 Fetching app sessions for participant:', participant, 'status:', status);
-      const response = await this.client.sendMessage(message);
-      console.log('📊 App sessions response:', response);
-
-      // Try different response formats
-      if ((response as any).params?.appSessions) {
-        return (response as any).params.appSessions;
-      }
-
-      if ((response as any).result) {
-        return (response as any).result;
-      }
+      this.log.debug('Fetching app sessions', { participant, status });
+      const { appSessions } = await this.sendRequest(RPCMethod.GetAppSessions, message, options);
 
-      return (response as any).res?.[2] || [];
+      return appSessions;
     } catch (error) {
-      console.error('Failed to get app sessions:', error);
+      this.log.error('Failed to get app sessions', { participant, error });
       throw error;
     }
   }
@@ -1196,35 +1936,38 @@ export class YellowClient {
    */
   async closeAppSession(
     appSessionId: Hex,
-    finalAllocations: Allocation[]
+    finalAllocations: Allocation[],
+    options: OperationOptions = {}
   ): Promise<void> {
+    const log = this.operationLog('close', options, { appSessionId });
+
     try {
       if (!this.isAuthenticated() || !this.sessionSigner) {
         throw new Error('Not authenticated or session signer missing. Please authenticate first.');
       }
 
-      console.log('🏁 Closing App Session:', appSessionId);
-      console.log('Session signer available:', !!this.sessionSigner);
-      console.log('Final allocations:', finalAllocations);
+      log.info('Closing App Session', { allocations: finalAllocations });
 
       // Calculate total amount in allocations
       const totalAmount = finalAllocations.reduce((sum, alloc) => {
         return sum + BigInt(alloc.amount);
       }, BigInt(0));
 
-      console.log('Total amount to redistribute:', totalAmount.toString());
+      log.debug('Total amount to redistribute', { totalAmount });
 
       // Try to get current app state but don't fail if it doesn't work
       let adjustedAllocations = [...finalAllocations];
       let isEmptySession = false;
+      let sessionData: string | undefined;
 
       try {
-        const currentState = await this.getAppState(appSessionId);
-        console.log('Current app state:', currentState);
+        const currentState = await this.getAppDefinition(appSessionId, options);
+        log.debug('Current app state', { version: currentState.version, allocations: currentState.allocations });
+        sessionData = currentState.session_data;
 
         // Check if session has any allocations at all
         if (!currentState.allocations || currentState.allocations.length === 0) {
-          console.log('📭 Session is empty (no allocations)');
+          log.info('Session is empty (no allocations)');
           isEmptySession = true;
           // For empty sessions, we still need to provide an allocation with 0 amount
           // Keep the original allocation structure but ensure amount is "0"
@@ -1236,97 +1979,90 @@ export class YellowClient {
             return sum + BigInt(alloc.amount);
           }, BigInt(0));
 
-          console.log('Current total in app state:', currentTotal.toString());
+          log.debug('Current total in app state', { currentTotal });
 
           // If trying to close with 0 but there's funds in the session, redistribute properly
           if (totalAmount === BigInt(0) && currentTotal > BigInt(0)) {
-            console.log('⚠️ Adjusting allocations to redistribute all funds');
+            log.warn('Adjusting allocations to redistribute all funds', { currentTotal });
             adjustedAllocations[0].amount = currentTotal.toString();
           }
         }
       } catch (stateError) {
-        console.log('⚠️ Could not fetch current state, proceeding with provided allocations');
+        log.warn('Could not fetch current state, proceeding with provided allocations', {
+          error: stateError,
+        });
         // Keep the allocations as provided - they already have amount "0" for empty sessions
       }
 
       const message = await createCloseAppSessionMessage(this.sessionSigner, {
         app_session_id: appSessionId,
         allocations: adjustedAllocations as any,
+        session_data: withAllocationSnapshot(sessionData, adjustedAllocations),
       });
 
-      console.log('Raw message from createCloseAppSessionMessage:', message);
-      console.log('Message type:', typeof message);
-
       // The nitrolite SDK returns messages in a special format that should be sent as-is
       // Just parse if it's a string, but don't convert the format
       const msgToSend = typeof message === 'string' ? JSON.parse(message) : message;
 
-      // Log what we're actually sending
-      console.log('Sending close message (raw format):', JSON.stringify(msgToSend, null, 2));
-
-      const response = await this.client.sendMessage(msgToSend);
-      console.log('Close session response:', response);
+      try {
+        await this.sendRequest(RPCMethod.CloseAppSession, msgToSend, options);
+      } catch (closeError) {
+        if (!(closeError instanceof YellowRpcError) || !closeError.serverError) {
+          throw closeError;
+        }
 
-      // Check for errors in response
-      if ((response as any)?.params?.error) {
-        const errorMsg = (response as any).params.error;
+        const rpcError = closeError;
+        const errorMsg = rpcError.serverError!;
+        const fail = (message: string) =>
+          new YellowRpcError(RPCMethod.CloseAppSession, message, {
+            requestId: rpcError.requestId,
+            serverError: errorMsg,
+            cause: rpcError,
+          });
 
         // Provide helpful context for specific errors
         if (errorMsg === 'authentication required') {
-          console.error('Authentication lost - session key may have expired');
-          throw new Error('Authentication required. Please re-authenticate to close the session.');
+          log.error('Authentication lost - session key may have expired');
+          throw fail('Authentication required. Please re-authenticate to close the session.');
         }
 
         if (errorMsg.includes('not fully redistributed')) {
-          console.error('Asset redistribution error:', {
+          log.error('Asset redistribution error', {
             providedAllocations: adjustedAllocations,
-            totalAmount: totalAmount.toString(),
+            totalAmount,
             isEmptySession
           });
 
           if (isEmptySession) {
-            throw new Error('Cannot close empty session. Please make a deposit/bet first before closing.');
+            throw fail('Cannot close empty session. Please make a deposit/bet first before closing.');
           }
 
-          throw new Error(`Asset redistribution error: ${errorMsg}. Check that all funds are properly allocated.`);
+          throw fail(`Asset redistribution error: ${errorMsg}. Check that all funds are properly allocated.`);
         }
 
         if (errorMsg.includes('missing required parameters')) {
-          console.error('Missing parameters error:', {
+          log.error('Missing parameters error', {
             providedAllocations: adjustedAllocations,
             errorMsg
           });
-          throw new Error(`Invalid close request: ${errorMsg}. The session may need deposits before it can be closed.`);
+          throw fail(`Invalid close request: ${errorMsg}. The session may need deposits before it can be closed.`);
         }
 
-        throw new Error(`Failed to close session: ${errorMsg}`);
+        throw closeError;
       }
 
-      console.log('✅ App Session closed successfully');
+      log.info('App Session closed');
     } catch (error) {
-      console.error('Failed to close app session:', error);
+      log.error('Failed to close app session', { error });
       throw error;
     }
   }
 
   /**
-   * Calculate market odds from App Session allocations
+   * Calculate market odds of an App Session: its stake ledger replayed
+   * through the LMSR market maker with liquidity b (smallest units)
    */
-  calculateOdds(allocations: Allocation[]): {
-    yesPrice: number;
-    noPrice: number;
-  } {
-    const yesAmount = BigInt(allocations[0]?.amount || '0');
-    const noAmount = BigInt(allocations[1]?.amount || '0');
-    const total = yesAmount + noAmount;
-
-    if (total === BigInt(0)) {
-      return { yesPrice: 50, noPrice: 50 };
-    }
-
-    const yesPrice = (Number(yesAmount) / Number(total)) * 100;
-    const noPrice = (Number(noAmount) / Number(total)) * 100;
-
-    return { yesPrice, noPrice };
+  calculateOdds(state: Pick<AppSessionState, 'session_data'>, liquidity: bigint): MarketPrices {
+    return sessionPrices(state.session_data, liquidity);
   }
 }
@@ -5,6 +5,8 @@
  * and managing prediction markets via app sessions.
  */
 
+import { listAssets } from './assets';
+
 export const YELLOW_CONFIG = {
   // WebSocket endpoints
   CLEARNODE_WS_URL: process.env.NEXT_PUBLIC_YELLOW_WS_URL || 'wss://clearnet-sandbox.yellow.com/ws',
@@ -15,41 +17,63 @@ export const YELLOW_CONFIG = {
   // Session key configuration
   SESSION_KEY_EXPIRY: 3600, // 1 hour in seconds
   SESSION_KEY_SCOPE: 'app.create',
+  SESSION_KEY_RENEW_BEFORE: 5 * 60, // Renew (and stop reusing) keys this many seconds before expiry
+
+  // Reconnect policy (used when the client is created with autoReconnect)
+  RECONNECT: {
+    MAX_ATTEMPTS: 10,
+    BASE_INTERVAL: 1000, // ms, doubled per attempt
+    MAX_INTERVAL: 30 * 1000, // ms
+  },
 
-  // Default allowances for session keys
-  DEFAULT_ALLOWANCES: [
-    { asset: 'ytest.usd', amount: '10000000' }, // 10M test USDC (6 decimals) - increased for larger deposits
-  ],
+  // ClearNode requests without a reply reject with YellowTimeoutError after this
+  REQUEST_TIMEOUT: 30 * 1000, // ms
+
+  // Default allowances for session keys, one per registered asset
+  DEFAULT_ALLOWANCES: listAssets().map((asset) => ({
+    asset: asset.assetId,
+    amount: asset.sessionAllowance,
+  })),
 
   // App Session configuration for prediction markets
   APP_SESSION: {
     PROTOCOL: 'NitroRPC/0.4' as const,
     CHALLENGE_PERIOD: 3600, // 1 hour in seconds
     QUORUM: 100, // Oracle has full control
+    STATE_UPDATE_ATTEMPTS: 4, // Submissions per bet/deposit before giving up on version conflicts
+    RETRY_BASE_DELAY: 250, // ms, doubled per attempt plus random jitter
   },
 
   // Market configuration
   MARKET: {
-    MIN_BET_AMOUNT: '1', // 1 USDC minimum bet
-    MAX_BET_AMOUNT: '10000', // 10K USDC maximum bet
+    MIN_BET_AMOUNT: '1', // In display units of the market asset
+    MAX_BET_AMOUNT: '10000', // In display units of the market asset
     DEFAULT_DURATION: 7 * 24 * 60 * 60, // 7 days in seconds
-    // Pool addresses for YES and NO outcomes
-    POOL_YES_ADDRESS: '0x0000000000000000000000000000000000000001' as const,
-    POOL_NO_ADDRESS: '0x0000000000000000000000000000000000000002' as const,
+    // LMSR liquidity parameter b of new markets, in display units of the
+    // market asset: higher means prices move less per bet (see lmsr.ts)
+    LIQUIDITY: '100',
+    FEE_BPS: 0, // Trading fee in basis points of each stake, kept by the oracle in its allocation of the market session
   },
 
   // Oracle configuration
   ORACLE: {
     CHECK_INTERVAL: 60 * 1000, // Check every minute
     RESOLUTION_DELAY: 5 * 60 * 1000, // Wait 5 minutes before resolving
+    SAMPLE_INTERVAL: 60 * 1000, // Record streamer metrics every minute
+    // How long bettors can dispute a proposed outcome before it is settled
+    DISPUTE_WINDOW: Number(process.env.ORACLE_DISPUTE_WINDOW_MS) || 24 * 60 * 60 * 1000,
+    LEASE_DURATION: 5 * 60 * 1000, // A run holds a market this long before another may take it over
+    MAX_ATTEMPTS: 5, // Failed settlements before a market is left in settlement_failed
+    RETRY_BASE_DELAY: 60 * 1000, // Backoff after a failed step, doubled per attempt
+    RETRY_MAX_DELAY: 60 * 60 * 1000,
+    // Closing reading at resolution: direct readings of the streamer taken
+    // CONSENSUS_INTERVAL apart, which must agree within CONSENSUS_TOLERANCE
+    CONSENSUS_READINGS: 3,
+    CONSENSUS_INTERVAL: 10 * 1000,
+    CONSENSUS_TOLERANCE: 0.05, // Max relative distance of a numeric reading from the median
   },
 } as const;
 
-// Asset identifiers
-export const ASSETS = {
-  USDC: 'ytest.usd', // Sandbox test USDC
-} as const;
-
 // Supported networks (for future multi-chain support)
 export const SUPPORTED_CHAINS = {
   SEPOLIA: 11155111,
@@ -0,0 +1,116 @@
+/**
+ * Reading Consensus
+ *
+ * The closing reading the oracle checks the Twitch data with, and resolves
+ * with when a market window has no samples, is not a single Twitch API
+ * call: it takes ORACLE.CONSENSUS_READINGS direct readings of the streamer,
+ * ORACLE.CONSENSUS_INTERVAL apart, and only accepts them when they agree.
+ * Numeric readings must all lie within ORACLE.CONSENSUS_TOLERANCE of their
+ * median, category readings must be the same category, and every reading
+ * must agree on whether the streamer is live. The median reading is used.
+ */
+
+import { YELLOW_CONFIG } from './config';
+import { getMetricResolver, type MetricValue } from './resolvers';
+import { takeSnapshot, type MetricSnapshot } from './sampler';
+import type { MarketType } from './types';
+
+export interface ConsensusReading {
+  snapshot: MetricSnapshot; // Median reading, resolved with when the window has no samples
+  readings: MetricSnapshot[]; // Every reading taken, oldest first
+  value: MetricValue; // The market type's metric in the median reading
+}
+
+/**
+ * Raised when the readings of a closing reading disagree. The market stays
+ * unresolved and is retried on a later run, then left for an admin to
+ * review after ORACLE.MAX_ATTEMPTS.
+ */
+export class ReadingsDisagreeError extends Error {
+  readonly values: MetricValue[];
+
+  constructor(message: string, values: MetricValue[]) {
+    super(`Readings disagree: ${message} (${values.map(String).join(', ')})`);
+    this.name = 'ReadingsDisagreeError';
+    this.values = values;
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function normalize(value: MetricValue): MetricValue {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+/**
+ * Index of the median reading: the lower middle one for an even count, so
+ * it is always an actual reading
+ */
+function medianIndex(values: number[]): number {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  return order[Math.floor((order.length - 1) / 2)].index;
+}
+
+/**
+ * Pick the reading to resolve with, or throw ReadingsDisagreeError
+ */
+export function findConsensus(
+  marketType: MarketType,
+  readings: MetricSnapshot[],
+  tolerance: number = YELLOW_CONFIG.ORACLE.CONSENSUS_TOLERANCE
+): ConsensusReading {
+  if (readings.length === 0) {
+    throw new Error('No readings to find consensus in');
+  }
+
+  const resolver = getMetricResolver(marketType);
+  const values = readings.map((reading) => resolver.read(reading));
+
+  if (readings.some((reading) => reading.live !== readings[0].live)) {
+    throw new ReadingsDisagreeError(
+      'streamer went live or offline between readings',
+      readings.map((reading) => (reading.live ? 'live' : 'offline'))
+    );
+  }
+
+  if (values.every((value) => typeof value === 'number')) {
+    const numbers = values as number[];
+    const index = medianIndex(numbers);
+    const median = numbers[index];
+    const outlier = numbers.find((value) => Math.abs(value - median) > tolerance * Math.abs(median));
+    if (outlier !== undefined) {
+      throw new ReadingsDisagreeError(
+        `${outlier} is more than ${tolerance * 100}% from the median ${median}`,
+        values
+      );
+    }
+    return { snapshot: readings[index], readings, value: median };
+  }
+
+  if (values.some((value) => normalize(value) !== normalize(values[0]))) {
+    throw new ReadingsDisagreeError('readings are not the same category', values);
+  }
+  const latest = readings.length - 1;
+  return { snapshot: readings[latest], readings, value: values[latest] };
+}
+
+/**
+ * Take the closing readings of a streamer (Twitch login) and agree on one.
+ * A failed Twitch API call fails the whole reading.
+ */
+export async function takeConsensusReading(
+  login: string,
+  marketType: MarketType
+): Promise<ConsensusReading> {
+  const { CONSENSUS_READINGS, CONSENSUS_INTERVAL } = YELLOW_CONFIG.ORACLE;
+  const readings: MetricSnapshot[] = [];
+
+  for (let i = 0; i < CONSENSUS_READINGS; i++) {
+    if (i > 0) {
+      await sleep(CONSENSUS_INTERVAL);
+    }
+    readings.push(await takeSnapshot(login));
+  }
+
+  return findConsensus(marketType, readings);
+}
@@ -0,0 +1,170 @@
+/**
+ * Market Disputes
+ *
+ * A resolved market first sits in 'proposed' for ORACLE.DISPUTE_WINDOW.
+ * Bettors can dispute the proposed outcome during the window and an admin
+ * either rejects the dispute or upholds it, which flips the outcome as a
+ * new proposal with a fresh window. The oracle only settles a proposal once
+ * its window has passed with no open or upheld dispute against it.
+ */
+
+import { getAddress, type Address } from 'viem';
+import { createServiceClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/logger';
+import { YELLOW_CONFIG } from './config';
+import { hashEvidence, type ResolutionEvidence } from './evidence';
+import type { Database, Json } from '@/types/database';
+
+type Tables = Database['public']['Tables'];
+export type MarketResolutionRow = Tables['market_resolutions']['Row'];
+export type MarketDisputeRow = Tables['market_disputes']['Row'];
+
+export type DisputeStatus = 'open' | 'upheld' | 'rejected';
+export type DisputeDecision = 'uphold' | 'reject';
+
+const log = createLogger('disputes');
+
+/**
+ * End of the dispute window for a proposal made at `proposedAt`
+ */
+export function disputeWindowEnd(proposedAt: Date = new Date()): string {
+  return new Date(proposedAt.getTime() + YELLOW_CONFIG.ORACLE.DISPUTE_WINDOW).toISOString();
+}
+
+/**
+ * Latest proposal for a market, the one disputes are filed against
+ */
+export async function getCurrentResolution(marketId: string): Promise<MarketResolutionRow | null> {
+  const { data, error } = await createServiceClient()
+    .from('market_resolutions')
+    .select('*')
+    .eq('market_id', marketId)
+    .order('resolved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Wallet a user bet on the market with, from their own bets rows. Null
+ * when they have no bet in it.
+ */
+export async function getBettorWallet(marketId: string, userId: string): Promise<Address | null> {
+  const { data, error } = await createServiceClient()
+    .from('bets')
+    .select('wallet_address')
+    .eq('market_id', marketId)
+    .eq('user_id', userId)
+    .eq('status', 'confirmed')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data ? getAddress(data.wallet_address) : null;
+}
+
+/**
+ * Disputes that keep a proposal from being settled: open ones still wait
+ * for an admin, upheld ones mean the proposal was overturned
+ */
+export async function getBlockingDisputes(resolutionId: string): Promise<MarketDisputeRow[]> {
+  const { data, error } = await createServiceClient()
+    .from('market_disputes')
+    .select('*')
+    .eq('resolution_id', resolutionId)
+    .in('status', ['open', 'upheld']);
+
+  if (error) {
+    throw error;
+  }
+  return data ?? [];
+}
+
+/**
+ * Record an admin decision on an open dispute. Upholding it flips the
+ * outcome: the market gets a new proposal (with its own evidence hash and
+ * dispute window) and the other open disputes against the overturned
+ * proposal are upheld with it. The checks and writes run in one
+ * transaction (decide_dispute), so a decision is never half recorded.
+ */
+export async function decideDispute(
+  disputeId: string,
+  decision: DisputeDecision,
+  note: string | null
+): Promise<MarketDisputeRow> {
+  const db = createServiceClient();
+  const decidedAt = new Date();
+
+  const { data: dispute, error } = await db
+    .from('market_disputes')
+    .select('*')
+    .eq('id', disputeId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!dispute) {
+    throw new Error('Dispute not found');
+  }
+  if (dispute.status !== 'open') {
+    throw new Error(`Dispute is already ${dispute.status}`);
+  }
+
+  // The new proposal is built here, where its evidence is hashed;
+  // decide_dispute checks it still overturns the current one
+  let resolution: (ResolutionEvidence & { evidence_hash: string }) | null = null;
+  if (decision === 'uphold') {
+    const current = await getCurrentResolution(dispute.market_id);
+    if (!current || current.id !== dispute.resolution_id) {
+      throw new Error('Dispute is against a proposal that has been superseded');
+    }
+
+    const evidence: ResolutionEvidence = {
+      market_id: current.market_id,
+      market_type: current.market_type as ResolutionEvidence['market_type'],
+      twitch_metric: current.twitch_metric,
+      target_value: current.target_value,
+      target_category: current.target_category,
+      actual_value: current.actual_value as ResolutionEvidence['actual_value'],
+      winner: current.winner === 'yes' ? 'no' : 'yes',
+      resolved_at: decidedAt.toISOString(),
+      sample_ids: current.sample_ids,
+      raw_response: current.raw_response,
+      oracle_address: current.oracle_address,
+      overturns_dispute_id: dispute.id,
+    };
+    resolution = { ...evidence, evidence_hash: hashEvidence(evidence) };
+  }
+
+  const { data: decided, error: decideError } = await db.rpc('decide_dispute', {
+    p_dispute_id: disputeId,
+    p_decision: decision,
+    p_note: note,
+    p_decided_at: decidedAt.toISOString(),
+    p_resolution: resolution as Json | null,
+    p_dispute_ends_at: resolution ? disputeWindowEnd(decidedAt) : null,
+  });
+
+  if (decideError) {
+    throw new Error(decideError.message);
+  }
+
+  if (resolution) {
+    log.info('Dispute upheld, outcome overturned', {
+      marketId: dispute.market_id,
+      disputeId,
+      winner: resolution.winner,
+    });
+  } else {
+    log.info('Dispute rejected', { marketId: dispute.market_id, disputeId });
+  }
+  return decided;
+}
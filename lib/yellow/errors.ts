@@ -0,0 +1,79 @@
+/**
+ * Yellow Network Errors
+ *
+ * Typed errors raised by the Yellow client when a ClearNode request
+ * fails or returns a response that cannot be decoded.
+ */
+
+export type RequestId = number | string;
+
+export interface YellowRpcErrorOptions {
+  requestId?: RequestId;
+  serverError?: string; // Error text returned by the ClearNode, if any
+  cause?: unknown;
+}
+
+/**
+ * Raised when a ClearNode RPC call is rejected by the server or its
+ * response does not match the shape expected for the method
+ */
+export class YellowRpcError extends Error {
+  readonly method: string;
+  readonly requestId?: RequestId;
+  readonly serverError?: string;
+
+  constructor(method: string, message: string, options: YellowRpcErrorOptions = {}) {
+    super(`${method} failed: ${message}`, { cause: options.cause });
+    this.name = 'YellowRpcError';
+    this.method = method;
+    this.requestId = options.requestId;
+    this.serverError = options.serverError;
+  }
+}
+
+/**
+ * Raised when the allocations of an app session's current version cannot
+ * be established: no asu push for it arrived and its session_data snapshot
+ * is missing or does not match what the session holds
+ */
+export class YellowStaleStateError extends YellowRpcError {
+  readonly appSessionId: string;
+  readonly version: number;
+
+  constructor(method: string, appSessionId: string, version: number) {
+    super(method, `allocations of ${appSessionId} at version ${version} are not known`);
+    this.name = 'YellowStaleStateError';
+    this.appSessionId = appSessionId;
+    this.version = version;
+  }
+}
+
+/**
+ * Raised when the ClearNode does not answer a request in time. The request
+ * may still have been applied, so re-read state before retrying writes.
+ */
+export class YellowTimeoutError extends YellowRpcError {
+  readonly timeout: number; // ms
+
+  constructor(method: string, timeout: number, options: YellowRpcErrorOptions = {}) {
+    super(method, `no response within ${timeout}ms`, options);
+    this.name = 'YellowTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+// ClearNode rejections for a submitted version that is no longer current
+const VERSION_CONFLICT_PATTERN = /(incorrect|invalid|stale|expected|mismatch\w*)[^.]*version|version[^.]*(mismatch|conflict|expected|must be)/i;
+
+/**
+ * True when a state update failed because another update landed first,
+ * so it can be rebuilt from the latest state and resubmitted
+ */
+export function isVersionConflict(error: unknown): boolean {
+  if (error instanceof YellowStaleStateError) return true;
+  return (
+    error instanceof YellowRpcError &&
+    error.serverError !== undefined &&
+    VERSION_CONFLICT_PATTERN.test(error.serverError)
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Resolution Evidence
+ *
+ * What the oracle saw when it resolved a market, stored in
+ * market_resolutions. The evidence hash is keccak256 over the canonical
+ * JSON of the record (keys sorted), so anyone holding the row can recompute
+ * it and check nothing was edited after resolution.
+ */
+
+import { keccak256, stringToHex, type Hex } from 'viem';
+import type { Json } from '@/types/database';
+import type { OracleResolutionData } from './types';
+
+export interface ResolutionEvidence extends Omit<OracleResolutionData, 'evidence_hash'> {
+  sample_ids: string[]; // metric_samples rows aggregated; empty when read live
+  raw_response: Json | null; // Raw Twitch response of the latest sample used
+  oracle_address: string;
+  overturns_dispute_id?: string | null; // Set when an admin upheld a dispute and flipped the outcome
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal records always
+ * serialize (and hash) the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+}
+
+/**
+ * Hash of the evidence fields only, so a stored row (with its id and
+ * timestamps) hashes the same as the record it was built from. Values
+ * Postgres may reformat (numerics, timestamps, address case) are normalized.
+ */
+export function hashEvidence(evidence: ResolutionEvidence): Hex {
+  const record = {
+    market_id: evidence.market_id,
+    market_type: evidence.market_type,
+    twitch_metric: evidence.twitch_metric,
+    target_value: evidence.target_value == null ? null : Number(evidence.target_value),
+    target_category: evidence.target_category,
+    actual_value: evidence.actual_value,
+    winner: evidence.winner,
+    resolved_at: new Date(evidence.resolved_at).toISOString(),
+    sample_ids: evidence.sample_ids,
+    raw_response: evidence.raw_response,
+    oracle_address: evidence.oracle_address.toLowerCase(),
+    overturns_dispute_id: evidence.overturns_dispute_id ?? undefined,
+  };
+  return keccak256(stringToHex(canonicalJson(record)));
+}
+
+/**
+ * True when a stored resolution still matches its evidence hash
+ */
+export function verifyEvidence(evidence: ResolutionEvidence, evidenceHash: string): boolean {
+  return hashEvidence(evidence).toLowerCase() === evidenceHash.toLowerCase();
+}
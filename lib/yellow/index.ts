@@ -7,3 +7,12 @@
 export * from './client';
 export * from './types';
 export * from './config';
+export * from './assets';
+export * from './errors';
+export * from './rpc';
+export * from './allocations';
+export * from './pools';
+export * from './payouts';
+export * from './evidence';
+export * from './market-types';
+export * from './session-store';
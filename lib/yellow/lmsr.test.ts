@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NO_SHARES,
+  betFee,
+  lmsrPrices,
+  netOfFee,
+  payoutIfWins,
+  quoteSale,
+  quoteShares,
+  replayStakes,
+} from './lmsr';
+import { quoteBet } from './quote';
+
+// b = 100 display units of a 6-decimal asset
+const LIQUIDITY = 100_000_000n;
+const STAKE = 10_000_000n;
+
+describe('lmsrPrices', () => {
+  it('starts at 50/50', () => {
+    assert.deepEqual(lmsrPrices(NO_SHARES, LIQUIDITY), { yesPrice: 50, noPrice: 50 });
+  });
+
+  it('always sums to 100', () => {
+    const { yesPrice, noPrice } = lmsrPrices({ yes: 37_000_000n, no: 5_000_000n }, LIQUIDITY);
+    assert.equal(yesPrice + noPrice, 100);
+    assert.ok(yesPrice > noPrice);
+  });
+});
+
+describe('quoteShares', () => {
+  it('buys more shares than units staked below a price of 100%', () => {
+    const quote = quoteShares(NO_SHARES, LIQUIDITY, 'yes', STAKE);
+    assert.ok(quote.shares > STAKE);
+    assert.ok(quote.averagePrice > 50 && quote.averagePrice < quote.yesPrice);
+  });
+
+  it('moves the price of the side bought up', () => {
+    const quote = quoteShares(NO_SHARES, LIQUIDITY, 'no', STAKE);
+    assert.ok(quote.noPrice > 50);
+    assert.equal(quote.yesPrice + quote.noPrice, 100);
+  });
+
+  it('refuses stakes too small to buy a share', () => {
+    assert.throws(() => quoteShares(NO_SHARES, LIQUIDITY, 'yes', 0n), /positive/);
+  });
+
+  it('never pays more for shares sold straight back than they cost', () => {
+    const bought = quoteShares(NO_SHARES, LIQUIDITY, 'yes', STAKE);
+    const sold = quoteSale({ yes: bought.shares, no: 0n }, LIQUIDITY, 'yes', bought.shares);
+    assert.ok(sold.proceeds <= STAKE);
+    assert.ok(STAKE - sold.proceeds <= 1n);
+    assert.deepEqual({ yesPrice: sold.yesPrice, noPrice: sold.noPrice }, { yesPrice: 50, noPrice: 50 });
+  });
+});
+
+describe('netOfFee', () => {
+  it('splits an amount into its fee and the rest', () => {
+    for (const amount of [0n, 1n, 9_999n, STAKE]) {
+      assert.equal(netOfFee(amount) + betFee(amount), amount);
+    }
+  });
+});
+
+describe('payoutIfWins', () => {
+  it('pays a unit per share, capped pro rata by the pot', () => {
+    assert.equal(payoutIfWins(40n, 100n, 150n), 40n);
+    assert.equal(payoutIfWins(40n, 200n, 150n), 30n);
+    assert.equal(payoutIfWins(0n, 200n, 150n), 0n);
+  });
+});
+
+describe('replayStakes', () => {
+  const bettor = '0x0000000000000000000000000000000000000001';
+
+  it('buys the shares a quote of the same stake buys', () => {
+    const market = {
+      asset: 'usdc',
+      liquidity: 100,
+      yes_shares: '0',
+      no_shares: '0',
+      yes_amount: '0',
+      no_amount: '0',
+    };
+    const quote = quoteBet(market, 'yes', STAKE);
+    const poolStake = quote.stake - quote.fee;
+    const replayed = replayStakes([{ outcome: 'yes', amount: poolStake.toString() }], LIQUIDITY);
+    assert.deepEqual(replayed, { yes: quote.shares, no: 0n });
+  });
+
+  it('takes recorded shares as they are', () => {
+    const replayed = replayStakes(
+      [
+        { outcome: 'yes', amount: STAKE.toString(), shares: '123' },
+        { outcome: 'no', amount: STAKE.toString(), shares: '456' },
+      ],
+      LIQUIDITY
+    );
+    assert.deepEqual(replayed, { yes: 123n, no: 456n });
+  });
+
+  it('gives back the shares of a sale', () => {
+    const stakes = [
+      { bettor, outcome: 'yes' as const, amount: STAKE.toString(), shares: '20000000' },
+      { bettor, outcome: 'yes' as const, amount: '-5000000', shares: '8000000' },
+    ];
+    assert.deepEqual(replayStakes(stakes, LIQUIDITY), { yes: 12_000_000n, no: 0n });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * LMSR Market Maker
+ *
+ * Prices come from Hanson's logarithmic market scoring rule instead of the
+ * ratio of the two pools. A market has outstanding YES and NO shares q and
+ * a liquidity parameter b; the cost of reaching q is
+ *
+ *   C(q) = b * ln(e^(q_yes / b) + e^(q_no / b))
+ *
+ * A stake buys the shares that raise C by exactly the stake, and selling
+ * shares back pays out what C drops by. The price of a side is the
+ * derivative of C along it, so prices always sum to 100% and start at
+ * 50/50. A larger b moves prices less per bet.
+ *
+ * Shares and b are in the market asset's smallest units (one share is
+ * worth one unit if its side wins). Prices are percentages, like the
+ * yes_price and no_price columns. Settlement pays every winning share its
+ * unit from the pot (see payouts.ts).
+ */
+
+import { YELLOW_CONFIG } from './config';
+import { toSmallestUnit } from './assets';
+import type { MarketStake } from './payouts';
+import type { MarketOutcome } from './pools';
+
+export interface OutstandingShares {
+  yes: bigint;
+  no: bigint;
+}
+
+export interface MarketPrices {
+  yesPrice: number; // Percent, two decimals
+  noPrice: number;
+}
+
+export interface ShareQuote extends MarketPrices {
+  outcome: MarketOutcome;
+  stake: bigint; // Smallest units
+  shares: bigint; // Shares the stake buys, floored
+  averagePrice: number; // Percent paid per share
+}
+
+export interface SaleQuote extends MarketPrices {
+  outcome: MarketOutcome;
+  shares: bigint; // Shares sold
+  proceeds: bigint; // Smallest units paid for them, floored
+  averagePrice: number; // Percent received per share
+}
+
+export const NO_SHARES: OutstandingShares = { yes: 0n, no: 0n };
+
+// ln(1 + e^x) without overflowing for large x
+function softplus(x: number): number {
+  return x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x));
+}
+
+// ln(e^a + e^b) without overflowing
+function logSumExp(a: number, b: number): number {
+  return Math.max(a, b) + softplus(-Math.abs(a - b));
+}
+
+function opposite(outcome: MarketOutcome): MarketOutcome {
+  return outcome === 'yes' ? 'no' : 'yes';
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Liquidity parameter b of a market, in smallest units. `liquidity` is in
+ * display units, as stored on the market.
+ */
+export function marketLiquidity(
+  liquidity: number | string | null | undefined,
+  assetId: string
+): bigint {
+  const b = toSmallestUnit(String(liquidity ?? YELLOW_CONFIG.MARKET.LIQUIDITY), assetId);
+  if (b <= 0n) {
+    throw new Error(`Invalid market liquidity: ${liquidity}`);
+  }
+  return b;
+}
+
+/**
+ * Fee taken from a stake, or from what a sale pays out
+ */
+export function betFee(amount: bigint): bigint {
+  return (amount * BigInt(YELLOW_CONFIG.MARKET.FEE_BPS)) / 10_000n;
+}
+
+/**
+ * `amount` with its fee taken: what a stake buys shares with, or what a
+ * sale pays out
+ */
+export function netOfFee(amount: bigint): bigint {
+  return amount - betFee(amount);
+}
+
+/**
+ * Outstanding shares stored on a market row
+ */
+export function marketShares(market: {
+  yes_shares?: string | null;
+  no_shares?: string | null;
+}): OutstandingShares {
+  return { yes: BigInt(market.yes_shares || '0'), no: BigInt(market.no_shares || '0') };
+}
+
+/**
+ * Current prices of both sides
+ */
+export function lmsrPrices(shares: OutstandingShares, liquidity: bigint): MarketPrices {
+  const b = Number(liquidity);
+  const yes = 1 / (1 + Math.exp((Number(shares.no) - Number(shares.yes)) / b));
+  const yesPrice = roundPrice(yes * 100);
+  return { yesPrice, noPrice: roundPrice(100 - yesPrice) };
+}
+
+/**
+ * Shares `stake` buys on `outcome`, and the prices once it is bought.
+ * Throws when the stake is too small to buy a single share.
+ */
+export function quoteShares(
+  shares: OutstandingShares,
+  liquidity: bigint,
+  outcome: MarketOutcome,
+  stake: bigint
+): ShareQuote {
+  if (liquidity <= 0n) {
+    throw new Error('Market liquidity must be positive');
+  }
+  if (stake <= 0n) {
+    throw new Error('Stake must be positive');
+  }
+
+  const b = Number(liquidity);
+  const own = Number(shares[outcome]) / b;
+  const other = Number(shares[opposite(outcome)]) / b;
+
+  // Solve C(q + shares) = C(q) + stake for the new own shares, in units of b:
+  // own' = other + ln(e^h - 1), with h = C(q)/b - other + stake/b > 0
+  const h = softplus(own - other) + Number(stake) / b;
+  const ownAfter = other + h + Math.log(-Math.expm1(-h));
+  const bought = BigInt(Math.max(0, Math.floor(b * (ownAfter - own))));
+
+  if (bought === 0n) {
+    throw new Error('Stake is too small to buy any shares');
+  }
+
+  const after = { ...shares, [outcome]: shares[outcome] + bought };
+  return {
+    outcome,
+    stake,
+    shares: bought,
+    averagePrice: roundPrice((Number(stake) / Number(bought)) * 100),
+    ...lmsrPrices(after, liquidity),
+  };
+}
+
+/**
+ * What selling `sold` shares of `outcome` back pays, and the prices once
+ * they are sold. Throws when more shares are sold than are outstanding.
+ */
+export function quoteSale(
+  shares: OutstandingShares,
+  liquidity: bigint,
+  outcome: MarketOutcome,
+  sold: bigint
+): SaleQuote {
+  if (liquidity <= 0n) {
+    throw new Error('Market liquidity must be positive');
+  }
+  if (sold <= 0n) {
+    throw new Error('Shares to sell must be positive');
+  }
+  if (sold > shares[outcome]) {
+    throw new Error(`Only ${shares[outcome]} ${outcome.toUpperCase()} shares are outstanding`);
+  }
+
+  const b = Number(liquidity);
+  const own = Number(shares[outcome]) / b;
+  const other = Number(shares[opposite(outcome)]) / b;
+
+  // C(q) - C(q - sold), in units of b
+  const drop = logSumExp(own, other) - logSumExp(own - Number(sold) / b, other);
+  const proceeds = BigInt(Math.max(0, Math.floor(b * drop)));
+
+  const after = { ...shares, [outcome]: shares[outcome] - sold };
+  return {
+    outcome,
+    shares: sold,
+    proceeds,
+    averagePrice: roundPrice((Number(proceeds) / Number(sold)) * 100),
+    ...lmsrPrices(after, liquidity),
+  };
+}
+
+/**
+ * What `shares` of an outcome with `outstanding` shares are paid if it
+ * wins, out of `pot`: a unit each, or their pro-rata part of a pot short
+ * of every outstanding share (see settleMarket)
+ */
+export function payoutIfWins(shares: bigint, outstanding: bigint, pot: bigint): bigint {
+  if (shares <= 0n) {
+    return 0n;
+  }
+  return outstanding > pot ? (pot * shares) / outstanding : shares;
+}
+
+/**
+ * Shares each ledger entry adds, replayed in order: bets and order fills
+ * add the shares recorded with them, sales (negative amounts) take away the
+ * shares they sold. Stakes recorded without their shares buy them as a bet
+ * would; a stake in the ledger is already net of its fee.
+ */
+export function ledgerShares(
+  stakes: Pick<MarketStake, 'outcome' | 'amount' | 'shares'>[],
+  liquidity: bigint
+): bigint[] {
+  let outstanding = NO_SHARES;
+  return stakes.map((stake) => {
+    const amount = BigInt(stake.amount);
+    let added: bigint;
+    if (amount < 0n) {
+      added = -BigInt(stake.shares ?? '0');
+    } else if (stake.shares !== undefined) {
+      added = BigInt(stake.shares);
+    } else {
+      added = amount === 0n ? 0n : quoteShares(outstanding, liquidity, stake.outcome, amount).shares;
+    }
+    outstanding = { ...outstanding, [stake.outcome]: outstanding[stake.outcome] + added };
+    return added;
+  });
+}
+
+/**
+ * Outstanding shares after replaying every ledger entry in order (see
+ * ledgerShares)
+ */
+export function replayStakes(
+  stakes: Pick<MarketStake, 'outcome' | 'amount' | 'shares'>[],
+  liquidity: bigint
+): OutstandingShares {
+  const added = ledgerShares(stakes, liquidity);
+  return stakes.reduce(
+    (shares, stake, i) => ({ ...shares, [stake.outcome]: shares[stake.outcome] + added[i] }),
+    NO_SHARES
+  );
+}
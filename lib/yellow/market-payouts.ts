@@ -0,0 +1,169 @@
+/**
+ * Market Payouts
+ *
+ * A settled or refunded market's session closes with the pot in the
+ * oracle's allocation (see payouts.ts); the oracle then transfers each
+ * bettor their payout. Payouts are recorded in market_payouts before the
+ * close and move through
+ *
+ *   pending -> paying -> paid
+ *                   \-> failed, when the transfer was rejected or never sent
+ *
+ * so a failed run is retried without paying anyone twice. A payout is
+ * claimed (pending or failed -> paying) with a conditional update before
+ * its transfer is sent; one left in paying got no answer and is not
+ * retried, since the transfer may have gone through.
+ */
+
+import { getAddress, type Address } from 'viem';
+import { createServiceClient } from '@/lib/supabase/server';
+import { YellowRpcError } from './errors';
+import type { Logger } from '@/lib/logger';
+import type { MarketSettlement } from './payouts';
+import type { OperationOptions } from './types';
+
+export type PayoutKind = 'winnings' | 'refund';
+
+// What pays the payouts: the oracle's client or service
+export interface PayoutSender {
+  transfer(
+    destination: Address,
+    asset: string,
+    amount: string,
+    options?: OperationOptions
+  ): Promise<string>;
+}
+
+/**
+ * Record the payouts of a settlement before its session is closed,
+ * replacing the ones an earlier attempt recorded. Nothing has been paid
+ * before the close, so only pending payouts are replaced.
+ */
+export async function recordPayouts(
+  marketId: string,
+  asset: string,
+  settlement: MarketSettlement,
+  kind: PayoutKind
+): Promise<void> {
+  const db = createServiceClient();
+
+  const { error: deleteError } = await db
+    .from('market_payouts')
+    .delete()
+    .eq('market_id', marketId)
+    .eq('status', 'pending');
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  const rows = settlement.payouts
+    .filter(({ payout }) => payout > 0n)
+    .map(({ bettor, stake, payout }) => ({
+      market_id: marketId,
+      wallet_address: getAddress(bettor),
+      asset,
+      stake: stake.toString(),
+      amount: payout.toString(),
+      kind,
+    }));
+  if (rows.length === 0) {
+    return;
+  }
+
+  const { error } = await db.from('market_payouts').insert(rows);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Transfer every payout of a closed market that is pending or failed.
+ * Throws when any of them is still unpaid afterwards, so the step is
+ * retried.
+ */
+export async function payOutstanding(
+  marketId: string,
+  sender: PayoutSender,
+  correlationId: string,
+  log: Logger
+): Promise<void> {
+  const db = createServiceClient();
+  const { data: payouts, error } = await db
+    .from('market_payouts')
+    .select('*')
+    .eq('market_id', marketId)
+    .in('status', ['pending', 'failed', 'paying']);
+  if (error) {
+    throw error;
+  }
+
+  let unpaid = 0;
+  for (const payout of payouts ?? []) {
+    if (payout.status === 'paying') {
+      log.error('Payout was sent without a recorded outcome, check it by hand', {
+        payoutId: payout.id,
+        bettor: payout.wallet_address,
+      });
+      unpaid++;
+      continue;
+    }
+
+    const { data: claimed, error: claimError } = await db
+      .from('market_payouts')
+      .update({ status: 'paying', error: null })
+      .eq('id', payout.id)
+      .eq('status', payout.status)
+      .select('id');
+    if (claimError) {
+      throw claimError;
+    }
+    if (!claimed || claimed.length === 0) {
+      continue; // Another run claimed it
+    }
+
+    let transactionId: string;
+    try {
+      transactionId = await sender.transfer(
+        getAddress(payout.wallet_address),
+        payout.asset,
+        payout.amount,
+        { correlationId }
+      );
+    } catch (transferError) {
+      unpaid++;
+      // Errors before sending and rejections are known not to have moved the
+      // funds; a lost or timed out request may have
+      if (!(transferError instanceof YellowRpcError) || transferError.serverError) {
+        log.warn('Payout transfer failed', { payoutId: payout.id, error: transferError });
+        const message = transferError instanceof Error ? transferError.message : String(transferError);
+        const { error: failError } = await db
+          .from('market_payouts')
+          .update({ status: 'failed', error: message })
+          .eq('id', payout.id);
+        if (failError) {
+          log.error('Failed to record failed payout', { payoutId: payout.id, error: failError });
+        }
+      } else {
+        log.error('Payout transfer outcome unknown, check it by hand', {
+          payoutId: payout.id,
+          error: transferError,
+        });
+      }
+      continue;
+    }
+
+    const { error: paidError } = await db
+      .from('market_payouts')
+      .update({ status: 'paid', yellow_tx_id: transactionId, paid_at: new Date().toISOString() })
+      .eq('id', payout.id);
+    if (paidError) {
+      log.error('Payout sent but failed to record it', { payoutId: payout.id, transactionId, error: paidError });
+      throw paidError;
+    }
+    log.info('Payout sent', { bettor: payout.wallet_address, amount: payout.amount, transactionId });
+  }
+
+  if (unpaid > 0) {
+    throw new Error(`${unpaid} payouts of market ${marketId} are not paid yet`);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Market Types
+ *
+ * What each MarketType measures and what kind of target it needs. Safe to
+ * import from client components; how each type is resolved from the sampled
+ * metrics lives in resolvers.ts.
+ */
+
+import { MarketType, type CancelReason } from './types';
+
+export type MarketTargetKind = 'number' | 'category';
+
+export interface MarketTypeInfo {
+  type: MarketType;
+  metric: string; // Stored in markets.twitch_metric
+  label: string;
+  description: string; // When YES wins
+  target: MarketTargetKind; // number -> target_value, category -> target_category
+  targetLabel: string;
+  requiresLive: boolean; // Cancelled when the streamer is never live during the market
+}
+
+export const MARKET_TYPES: Record<MarketType, MarketTypeInfo> = {
+  [MarketType.REACH_FOLLOWER_COUNT]: {
+    type: MarketType.REACH_FOLLOWER_COUNT,
+    metric: 'followers_count',
+    label: 'Follower Count (total followers)',
+    description: 'YES wins if the follower count reaches the target by the resolution date',
+    target: 'number',
+    targetLabel: 'Target Followers',
+    requiresLive: false,
+  },
+  [MarketType.REACH_VIEWER_COUNT]: {
+    type: MarketType.REACH_VIEWER_COUNT,
+    metric: 'viewer_count',
+    label: 'Viewer Count (live viewers)',
+    description: 'YES wins if the live viewer count is at or above the target at resolution',
+    target: 'number',
+    targetLabel: 'Target Viewers',
+    requiresLive: true,
+  },
+  [MarketType.PEAK_VIEWERS]: {
+    type: MarketType.PEAK_VIEWERS,
+    metric: 'peak_viewers',
+    label: 'Peak Viewers (highest live viewers)',
+    description: 'YES wins if the viewer count reaches the target at any point before resolution',
+    target: 'number',
+    targetLabel: 'Target Peak Viewers',
+    requiresLive: true,
+  },
+  [MarketType.STREAM_HOURS]: {
+    type: MarketType.STREAM_HOURS,
+    metric: 'stream_hours',
+    label: 'Stream Hours (time live)',
+    description: 'YES wins if the streamer is live for at least the target number of hours',
+    target: 'number',
+    targetLabel: 'Target Hours',
+    requiresLive: true,
+  },
+  [MarketType.CHANGE_CATEGORY]: {
+    type: MarketType.CHANGE_CATEGORY,
+    metric: 'category',
+    label: 'Change Category',
+    description: 'YES wins if the streamer switches away from their current category',
+    target: 'category',
+    targetLabel: 'Current Category (leave empty to use the live category)',
+    requiresLive: true,
+  },
+  [MarketType.PLAY_SPECIFIC_GAME]: {
+    type: MarketType.PLAY_SPECIFIC_GAME,
+    metric: 'game',
+    label: 'Play Specific Game',
+    description: 'YES wins if the streamer goes live in the target game or category',
+    target: 'category',
+    targetLabel: 'Game or Category',
+    requiresLive: true,
+  },
+};
+
+export const CANCEL_REASONS: Record<CancelReason, string> = {
+  streamer_never_live: 'The streamer never went live during the market',
+  twitch_account_missing: 'The Twitch account no longer exists',
+  oracle_data_unavailable: 'The oracle could not get the data to resolve it',
+  admin: 'Cancelled by an admin',
+};
+
+export function isCancelReason(value: unknown): value is CancelReason {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANCEL_REASONS, value);
+}
+
+export function isMarketType(value: unknown): value is MarketType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MARKET_TYPES, value);
+}
+
+export function listMarketTypes(): MarketTypeInfo[] {
+  return Object.values(MARKET_TYPES);
+}
+
+/**
+ * Market type of a market row. Rows created before market_type existed
+ * only have twitch_metric, which maps back to its type.
+ */
+export function getMarketType(market: {
+  market_type?: string | null;
+  twitch_metric?: string | null;
+}): MarketType {
+  if (isMarketType(market.market_type)) {
+    return market.market_type;
+  }
+
+  const legacy = listMarketTypes().find((info) => info.metric === market.twitch_metric);
+  if (!legacy) {
+    throw new Error(`Unknown market type: ${market.market_type ?? market.twitch_metric}`);
+  }
+  return legacy.type;
+}
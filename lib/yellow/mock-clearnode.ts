@@ -0,0 +1,942 @@
+/**
+ * Mock ClearNode
+ *
+ * Local NitroRPC websocket server implementing the subset of the ClearNode
+ * API this app uses, so the market flow runs offline. Signatures, state
+ * versions and allocation sums are checked the way the real ClearNode does.
+ * Node only: start it from scripts, never import it from client code.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import {
+  EIP712AuthTypes,
+  RPCAppStateIntent,
+  RPCMethod,
+  RPCProtocolVersion,
+} from '@erc7824/nitrolite';
+import {
+  getAddress,
+  isAddress,
+  keccak256,
+  recoverAddress,
+  toHex,
+  verifyTypedData,
+  type Address,
+  type Hex,
+} from 'viem';
+import { assertAllocationInvariants, sumByAsset } from './allocations';
+import { isSupportedAsset, listAssets, toSmallestUnit } from './assets';
+import { decodeRpcRequest, type RpcParams } from './rpc';
+import type { Allocation } from './types';
+
+export interface MockClearNodeOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  initialBalance?: number; // Display units of every asset credited to new wallets
+  jwtSecret?: string;
+  quiet?: boolean;
+}
+
+type RpcPayload = [number, string, unknown, number];
+
+interface RpcReply {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+interface SessionKeyRecord {
+  id: number;
+  wallet: Address;
+  sessionKey: Address;
+  application: string;
+  scope: string;
+  allowances: Array<{ asset: string; amount: string }>;
+  used: Map<string, bigint>;
+  expiresAt: number; // Unix timestamp in seconds
+  createdAt: Date;
+}
+
+interface PendingAuth {
+  wallet: Address;
+  sessionKey: Address;
+  application: string;
+  scope: string;
+  allowances: Array<{ asset: string; amount: string }>;
+  expiresAt: number;
+  challenge: string;
+}
+
+interface Connection {
+  socket: WebSocket;
+  wallet?: Address;
+  sessionKey?: Address;
+  pendingAuth?: PendingAuth;
+}
+
+interface AppSessionRecord {
+  appSessionId: Hex;
+  application: string;
+  protocol: RPCProtocolVersion;
+  participants: Address[];
+  weights: number[];
+  quorum: number;
+  challenge: number;
+  nonce: number;
+  status: 'open' | 'closed';
+  version: number;
+  allocations: Allocation[];
+  sessionData?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DEFAULT_OPTIONS: Required<MockClearNodeOptions> = {
+  port: 8546,
+  host: '127.0.0.1',
+  initialBalance: 1000,
+  jwtSecret: 'mock-clearnode-secret',
+  quiet: false,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function requireAddress(value: unknown, field: string): Address {
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+    throw new Error(`invalid ${field}: ${String(value)}`);
+  }
+  return getAddress(value);
+}
+
+function encodeJwtPart(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(claims: Record<string, unknown>, secret: string): string {
+  const body = `${encodeJwtPart({ alg: 'HS256', typ: 'JWT' })}.${encodeJwtPart(claims)}`;
+  return `${body}.${createHmac('sha256', secret).update(body).digest('base64url')}`;
+}
+
+function verifyJwt(token: string, secret: string): Record<string, any> | null {
+  const [header, claims, signature] = token.split('.');
+  if (!header || !claims || !signature) return null;
+
+  const expected = createHmac('sha256', secret).update(`${header}.${claims}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(claims, 'base64url').toString());
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class MockClearNode {
+  private options: Required<MockClearNodeOptions>;
+  private server?: WebSocketServer;
+  private connections = new Set<Connection>();
+  private ledgers = new Map<string, Map<string, bigint>>();
+  private sessionKeys = new Map<string, SessionKeyRecord>();
+  private appSessions = new Map<string, AppSessionRecord>();
+  private nextSessionKeyId = 1;
+  private nextTransactionId = 1;
+
+  constructor(options: MockClearNodeOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start listening. Resolves with the websocket URL to use as
+   * NEXT_PUBLIC_YELLOW_WS_URL.
+   */
+  async start(): Promise<string> {
+    const server = new WebSocketServer({ port: this.options.port, host: this.options.host });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    server.on('connection', (socket) => {
+      const connection: Connection = { socket };
+      this.connections.add(connection);
+      socket.on('message', (data) => this.handleMessage(connection, data));
+      socket.on('close', () => this.connections.delete(connection));
+    });
+
+    const url = this.url;
+    this.log(`🟡 Mock ClearNode listening on ${url}`);
+    return url;
+  }
+
+  get url(): string {
+    const address = this.server?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `ws://${this.options.host}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    for (const { socket } of this.connections) {
+      socket.terminate();
+    }
+    this.connections.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Credit a wallet's unified balance (smallest units), like a faucet
+   */
+  credit(wallet: string, asset: string, amount: bigint): void {
+    const ledger = this.getLedger(requireAddress(wallet, 'wallet'));
+    ledger.set(asset, (ledger.get(asset) ?? 0n) + amount);
+    this.notifyBalance(getAddress(wallet));
+  }
+
+  // ==========================================================================
+  // Transport
+  // ==========================================================================
+
+  private async handleMessage(connection: Connection, data: RawData): Promise<void> {
+    let requestId = 0;
+    try {
+      const message = JSON.parse(data.toString());
+      const req = message?.req;
+      if (!Array.isArray(req) || req.length !== 4) {
+        throw new Error('invalid request: expected req [id, method, params, timestamp]');
+      }
+
+      requestId = typeof req[0] === 'number' ? req[0] : 0;
+      const signatures: Hex[] = Array.isArray(message.sig) ? message.sig : [];
+      const reply = await this.dispatch(connection, req as RpcPayload, signatures);
+      this.send(connection.socket, requestId, reply.method, reply.params);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.log(`❌ Request ${requestId} rejected: ${reason}`);
+      this.send(connection.socket, requestId, RPCMethod.Error, { error: reason });
+    }
+  }
+
+  private send(socket: WebSocket, requestId: number, method: string, params: unknown): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ res: [requestId, method, params, Date.now()], sig: [] }));
+  }
+
+  private dispatch(connection: Connection, req: RpcPayload, signatures: Hex[]): Promise<RpcReply> {
+    const [, method, params = {}] = req;
+
+    switch (method) {
+      case RPCMethod.AuthRequest:
+        return this.handleAuthRequest(connection, decodeRpcRequest(method, params));
+      case RPCMethod.AuthVerify:
+        return this.handleAuthVerify(connection, decodeRpcRequest(method, params), signatures);
+      case RPCMethod.Ping:
+        return Promise.resolve({ method: RPCMethod.Pong, params: {} });
+      // Public queries, answered without authentication like the real ClearNode
+      case RPCMethod.GetAppDefinition:
+        return this.handleGetAppDefinition(decodeRpcRequest(method, params));
+      case RPCMethod.GetAppSessions:
+        return this.handleGetAppSessions(decodeRpcRequest(method, params));
+    }
+
+    return this.dispatchAuthenticated(connection, req, signatures);
+  }
+
+  private async dispatchAuthenticated(
+    connection: Connection,
+    req: RpcPayload,
+    signatures: Hex[]
+  ): Promise<RpcReply> {
+    const [, method, params = {}] = req;
+    const signers = await this.recoverSigners(connection, req, signatures);
+
+    switch (method) {
+      case RPCMethod.GetLedgerBalances:
+        return this.handleGetLedgerBalances(connection, decodeRpcRequest(method, params));
+      case RPCMethod.GetSessionKeys:
+        return this.handleGetSessionKeys(connection);
+      case RPCMethod.RevokeSessionKey:
+        return this.handleRevokeSessionKey(connection, decodeRpcRequest(method, params));
+      case RPCMethod.Transfer:
+        return this.handleTransfer(connection, decodeRpcRequest(method, params));
+      case RPCMethod.CreateAppSession:
+        return this.handleCreateAppSession(connection, decodeRpcRequest(method, params), signers);
+      case RPCMethod.SubmitAppState:
+        return this.handleSubmitAppState(connection, decodeRpcRequest(method, params), signers);
+      case RPCMethod.CloseAppSession:
+        return this.handleCloseAppSession(connection, decodeRpcRequest(method, params), signers);
+      default:
+        throw new Error(`unsupported method: ${method}`);
+    }
+  }
+
+  /**
+   * Recover the wallets that signed a request. Session key signatures count
+   * for the wallet that authorized the key. The authenticated session key
+   * itself must be among the signers.
+   */
+  private async recoverSigners(
+    connection: Connection,
+    req: RpcPayload,
+    signatures: Hex[]
+  ): Promise<Set<string>> {
+    if (!connection.wallet || !connection.sessionKey) {
+      throw new Error('authentication required');
+    }
+    if (!this.getActiveSessionKey(connection.sessionKey)) {
+      connection.wallet = undefined;
+      connection.sessionKey = undefined;
+      throw new Error('session key expired or revoked, authentication required');
+    }
+    if (signatures.length === 0) {
+      throw new Error('invalid signature: request is not signed');
+    }
+
+    const hash = keccak256(toHex(JSON.stringify(req)));
+    const signers = new Set<string>();
+    let signedBySession = false;
+
+    for (const signature of signatures) {
+      let signer: Address;
+      try {
+        signer = await recoverAddress({ hash, signature });
+      } catch {
+        throw new Error('invalid signature: cannot recover signer');
+      }
+
+      if (sameAddress(signer, connection.sessionKey)) {
+        signedBySession = true;
+      }
+      const wallet = this.getActiveSessionKey(signer)?.wallet ?? signer;
+      signers.add(wallet.toLowerCase());
+    }
+
+    if (!signedBySession) {
+      throw new Error('invalid signature: request not signed by the authenticated session key');
+    }
+    return signers;
+  }
+
+  // ==========================================================================
+  // Authentication
+  // ==========================================================================
+
+  private async handleAuthRequest(
+    connection: Connection,
+    params: RpcParams<RPCMethod.AuthRequest>
+  ): Promise<RpcReply> {
+    const expiresAt = params.expires_at;
+    if (expiresAt <= Math.floor(Date.now() / 1000)) {
+      throw new Error('invalid expires_at: session key must expire in the future');
+    }
+
+    const challenge = randomUUID();
+    connection.pendingAuth = {
+      wallet: getAddress(params.address),
+      sessionKey: getAddress(params.session_key),
+      application: params.application,
+      scope: params.scope,
+      allowances: params.allowances,
+      expiresAt,
+      challenge,
+    };
+
+    return { method: RPCMethod.AuthChallenge, params: { challenge_message: challenge } };
+  }
+
+  private async handleAuthVerify(
+    connection: Connection,
+    params: RpcParams<RPCMethod.AuthVerify>,
+    signatures: Hex[]
+  ): Promise<RpcReply> {
+    if (params.jwt !== undefined) {
+      return this.verifyWithJwt(connection, params.jwt);
+    }
+
+    const pending = connection.pendingAuth;
+    if (!pending || params.challenge !== pending.challenge) {
+      throw new Error('authentication failed: unknown or expired challenge');
+    }
+    connection.pendingAuth = undefined;
+
+    const valid = await verifyTypedData({
+      address: pending.wallet,
+      domain: { name: pending.application },
+      types: EIP712AuthTypes,
+      primaryType: 'Policy',
+      message: {
+        challenge: pending.challenge,
+        scope: pending.scope,
+        wallet: pending.wallet,
+        session_key: pending.sessionKey,
+        expires_at: BigInt(pending.expiresAt),
+        allowances: pending.allowances,
+      },
+      signature: signatures[0] ?? '0x',
+    }).catch(() => false);
+
+    if (!valid) {
+      throw new Error('authentication failed: invalid EIP-712 signature');
+    }
+
+    this.sessionKeys.set(pending.sessionKey.toLowerCase(), {
+      id: this.nextSessionKeyId++,
+      wallet: pending.wallet,
+      sessionKey: pending.sessionKey,
+      application: pending.application,
+      scope: pending.scope,
+      allowances: pending.allowances,
+      used: new Map(),
+      expiresAt: pending.expiresAt,
+      createdAt: new Date(),
+    });
+    connection.wallet = pending.wallet;
+    connection.sessionKey = pending.sessionKey;
+    this.getLedger(pending.wallet);
+
+    const jwtToken = signJwt(
+      { wallet: pending.wallet, session_key: pending.sessionKey, exp: pending.expiresAt },
+      this.options.jwtSecret
+    );
+
+    this.log(`🔐 ${pending.wallet} authenticated with session key ${pending.sessionKey}`);
+    return {
+      method: RPCMethod.AuthVerify,
+      params: {
+        address: pending.wallet,
+        session_key: pending.sessionKey,
+        jwt_token: jwtToken,
+        success: true,
+      },
+    };
+  }
+
+  private async verifyWithJwt(connection: Connection, token: string): Promise<RpcReply> {
+    const claims = verifyJwt(token, this.options.jwtSecret);
+    const record = claims ? this.getActiveSessionKey(String(claims.session_key)) : undefined;
+
+    if (!claims || !record || !sameAddress(record.wallet, String(claims.wallet))) {
+      throw new Error('authentication failed: invalid or expired jwt');
+    }
+
+    connection.wallet = record.wallet;
+    connection.sessionKey = record.sessionKey;
+
+    this.log(`🔐 ${record.wallet} re-authenticated with jwt`);
+    return {
+      method: RPCMethod.AuthVerify,
+      params: { address: record.wallet, session_key: record.sessionKey, success: true },
+    };
+  }
+
+  private getActiveSessionKey(sessionKey: string): SessionKeyRecord | undefined {
+    const record = this.sessionKeys.get(sessionKey.toLowerCase());
+    if (!record) return undefined;
+
+    if (record.expiresAt <= Math.floor(Date.now() / 1000)) {
+      this.sessionKeys.delete(sessionKey.toLowerCase());
+      return undefined;
+    }
+    return record;
+  }
+
+  // ==========================================================================
+  // Ledger & Session Keys
+  // ==========================================================================
+
+  private getLedger(wallet: Address): Map<string, bigint> {
+    let ledger = this.ledgers.get(wallet.toLowerCase());
+    if (!ledger) {
+      ledger = new Map(
+        listAssets().map((asset) => [
+          asset.assetId,
+          toSmallestUnit(this.options.initialBalance, asset.assetId),
+        ])
+      );
+      this.ledgers.set(wallet.toLowerCase(), ledger);
+    }
+    return ledger;
+  }
+
+  /**
+   * Unified balance of a wallet (the caller's by default), or what an app
+   * session holds when `account_id` is its id
+   */
+  private async handleGetLedgerBalances(
+    connection: Connection,
+    params: RpcParams<RPCMethod.GetLedgerBalances>
+  ): Promise<RpcReply> {
+    const accountId = params.account_id ?? connection.wallet!;
+    const session = this.appSessions.get(accountId.toLowerCase());
+
+    const balances = session
+      ? session.status === 'open' ? sumByAsset(session.allocations) : new Map<string, bigint>()
+      : this.getLedger(getAddress(accountId));
+    const ledgerBalances = Array.from(balances, ([asset, amount]) => ({
+      asset,
+      amount: amount.toString(),
+    }));
+
+    return { method: RPCMethod.GetLedgerBalances, params: { ledger_balances: ledgerBalances } };
+  }
+
+  private async handleGetSessionKeys(connection: Connection): Promise<RpcReply> {
+    const sessionKeys = Array.from(this.sessionKeys.values())
+      .filter((record) => sameAddress(record.wallet, connection.wallet!))
+      .filter((record) => this.getActiveSessionKey(record.sessionKey))
+      .map((record) => ({
+        id: record.id,
+        session_key: record.sessionKey,
+        application: record.application,
+        allowances: record.allowances.map(({ asset, amount }) => ({
+          asset,
+          allowance: amount,
+          used: (record.used.get(asset) ?? 0n).toString(),
+        })),
+        scope: record.scope,
+        expires_at: new Date(record.expiresAt * 1000).toISOString(),
+        created_at: record.createdAt.toISOString(),
+      }));
+
+    return { method: RPCMethod.GetSessionKeys, params: { session_keys: sessionKeys } };
+  }
+
+  private async handleRevokeSessionKey(
+    connection: Connection,
+    params: RpcParams<RPCMethod.RevokeSessionKey>
+  ): Promise<RpcReply> {
+    const sessionKey = getAddress(params.session_key);
+    const record = this.getActiveSessionKey(sessionKey);
+    if (!record || !sameAddress(record.wallet, connection.wallet!)) {
+      throw new Error(`session key not found: ${sessionKey}`);
+    }
+
+    this.sessionKeys.delete(sessionKey.toLowerCase());
+    for (const other of this.connections) {
+      if (other.sessionKey && sameAddress(other.sessionKey, sessionKey)) {
+        other.wallet = undefined;
+        other.sessionKey = undefined;
+      }
+    }
+
+    this.log(`🗑️ Revoked session key ${sessionKey}`);
+    return { method: RPCMethod.RevokeSessionKey, params: { session_key: sessionKey } };
+  }
+
+  /**
+   * Move funds from the caller's unified balance to another wallet's
+   */
+  private async handleTransfer(
+    connection: Connection,
+    params: RpcParams<RPCMethod.Transfer>
+  ): Promise<RpcReply> {
+    const sender = connection.wallet!;
+    const destination = getAddress(params.destination);
+    if (sameAddress(sender, destination)) {
+      throw new Error('invalid destination: cannot transfer to yourself');
+    }
+
+    const deltas: Allocation[] = params.allocations.flatMap(({ asset, amount }) => {
+      if (!isSupportedAsset(asset)) {
+        throw new Error(`unsupported asset: ${asset}`);
+      }
+      if (BigInt(amount) <= 0n) {
+        throw new Error(`invalid amount for ${asset}: ${amount}`);
+      }
+      return [
+        { participant: sender, asset, amount: `-${amount}` },
+        { participant: destination, asset, amount },
+      ];
+    });
+    this.applyLedgerDeltas(deltas, connection.sessionKey);
+
+    const createdAt = new Date().toISOString();
+    const transactions = params.allocations.map(({ asset, amount }) => ({
+      id: this.nextTransactionId++,
+      tx_type: 'transfer',
+      from_account: sender,
+      to_account: destination,
+      asset,
+      amount,
+      created_at: createdAt,
+    }));
+
+    this.log(`💸 ${sender} transferred to ${destination}`);
+    this.notifyBalance(sender);
+    this.notifyBalance(destination);
+
+    return { method: RPCMethod.Transfer, params: { transactions } };
+  }
+
+  /**
+   * Move funds between a wallet's unified balance and an app session.
+   * Negative deltas lock funds, positive deltas release them.
+   */
+  private applyLedgerDeltas(deltas: Allocation[], spender?: Address): void {
+    for (const delta of deltas) {
+      const ledger = this.getLedger(requireAddress(delta.participant, 'participant'));
+      const balance = ledger.get(delta.asset) ?? 0n;
+      if (balance + BigInt(delta.amount) < 0n) {
+        throw new Error(
+          `insufficient funds: ${delta.participant} has ${balance} ${delta.asset}, needs ${-BigInt(delta.amount)}`
+        );
+      }
+    }
+
+    for (const delta of deltas) {
+      const wallet = getAddress(delta.participant);
+      const ledger = this.getLedger(wallet);
+      ledger.set(delta.asset, (ledger.get(delta.asset) ?? 0n) + BigInt(delta.amount));
+
+      const sessionKey = spender ? this.getActiveSessionKey(spender) : undefined;
+      if (sessionKey && sameAddress(sessionKey.wallet, wallet) && BigInt(delta.amount) < 0n) {
+        sessionKey.used.set(
+          delta.asset,
+          (sessionKey.used.get(delta.asset) ?? 0n) - BigInt(delta.amount)
+        );
+      }
+    }
+  }
+
+  // ==========================================================================
+  // App Sessions
+  // ==========================================================================
+
+  /**
+   * Allocations of a request, checked against the session: only its
+   * participants can hold funds in it
+   */
+  private parseAllocations(
+    session: Pick<AppSessionRecord, 'participants'>,
+    allocations: Allocation[]
+  ): Allocation[] {
+    return allocations.map((alloc) => {
+      const participant = getAddress(alloc.participant);
+      if (!session.participants.some((p) => sameAddress(p, participant))) {
+        throw new Error(`allocation participant ${participant} is not in the app session`);
+      }
+      if (!isSupportedAsset(alloc.asset)) {
+        throw new Error(`unsupported asset: ${alloc.asset}`);
+      }
+      return { participant, asset: alloc.asset, amount: alloc.amount };
+    });
+  }
+
+  /**
+   * Per participant and asset change between two allocation sets
+   */
+  private allocationDeltas(current: Allocation[], next: Allocation[]): Allocation[] {
+    const deltas = new Map<string, Allocation>();
+    const add = (alloc: Allocation, sign: bigint) => {
+      const key = `${alloc.participant.toLowerCase()}:${alloc.asset}`;
+      const existing = deltas.get(key) ?? { participant: alloc.participant, asset: alloc.asset, amount: '0' };
+      existing.amount = (BigInt(existing.amount) + sign * BigInt(alloc.amount)).toString();
+      deltas.set(key, existing);
+    };
+
+    current.forEach((alloc) => add(alloc, -1n));
+    next.forEach((alloc) => add(alloc, 1n));
+    return Array.from(deltas.values()).filter((delta) => delta.amount !== '0');
+  }
+
+  private assertQuorum(session: AppSessionRecord, signers: Set<string>): void {
+    const weight = session.participants.reduce(
+      (sum, participant, index) =>
+        signers.has(participant.toLowerCase()) ? sum + (session.weights[index] ?? 0) : sum,
+      0
+    );
+    if (weight < session.quorum) {
+      throw new Error(`quorum not reached: signatures carry weight ${weight} of required ${session.quorum}`);
+    }
+  }
+
+  private assertSignedBy(wallets: string[], signers: Set<string>, reason: string): void {
+    const missing = wallets.find((wallet) => !signers.has(wallet.toLowerCase()));
+    if (missing) {
+      throw new Error(`missing signature from ${missing} (${reason})`);
+    }
+  }
+
+  private getOpenSession(appSessionId: Hex): AppSessionRecord {
+    const session = this.appSessions.get(appSessionId.toLowerCase());
+    if (!session) {
+      throw new Error(`app session not found: ${appSessionId}`);
+    }
+    if (session.status !== 'open') {
+      throw new Error(`app session ${appSessionId} is ${session.status}`);
+    }
+    return session;
+  }
+
+  private async handleCreateAppSession(
+    connection: Connection,
+    params: RpcParams<RPCMethod.CreateAppSession>,
+    signers: Set<string>
+  ): Promise<RpcReply> {
+    const { definition } = params;
+    const participants = definition.participants.map((p) => getAddress(p));
+    const { weights } = definition;
+
+    if (weights.length !== participants.length) {
+      throw new Error('invalid definition: weights must match participants');
+    }
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (definition.quorum > totalWeight) {
+      throw new Error('invalid definition: quorum exceeds total weight');
+    }
+
+    const nonce = definition.nonce ?? Date.now();
+    const appSessionId = keccak256(
+      toHex(JSON.stringify({ ...definition, participants, nonce }))
+    );
+    if (this.appSessions.has(appSessionId.toLowerCase())) {
+      throw new Error(`app session already exists: ${appSessionId}`);
+    }
+
+    const allocations = this.parseAllocations({ participants }, params.allocations);
+    const funders = allocations.filter((alloc) => BigInt(alloc.amount) > 0n);
+    this.assertSignedBy(
+      funders.map((alloc) => alloc.participant),
+      signers,
+      'participants funding the session must sign'
+    );
+    this.applyLedgerDeltas(
+      funders.map((alloc) => ({ ...alloc, amount: (-BigInt(alloc.amount)).toString() })),
+      connection.sessionKey
+    );
+
+    const now = new Date();
+    const session: AppSessionRecord = {
+      appSessionId,
+      application: definition.application,
+      protocol: definition.protocol,
+      participants,
+      weights,
+      quorum: definition.quorum,
+      challenge: definition.challenge,
+      nonce,
+      status: 'open',
+      version: 1,
+      allocations,
+      sessionData: params.session_data,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.appSessions.set(appSessionId.toLowerCase(), session);
+
+    this.log(`🎲 App session ${appSessionId} created`);
+    this.notifySession(session, connection);
+    funders.forEach((alloc) => this.notifyBalance(getAddress(alloc.participant)));
+
+    return { method: RPCMethod.CreateAppSession, params: this.sessionAck(session) };
+  }
+
+  private async handleSubmitAppState(
+    connection: Connection,
+    params: RpcParams<RPCMethod.SubmitAppState>,
+    signers: Set<string>
+  ): Promise<RpcReply> {
+    const session = this.getOpenSession(params.app_session_id);
+    const isV04 = session.protocol === RPCProtocolVersion.NitroRPC_0_4;
+    const intent = isV04 ? params.intent : RPCAppStateIntent.Operate;
+
+    if (!intent) {
+      throw new Error('invalid intent: required by NitroRPC/0.4');
+    }
+    if (isV04 && params.version !== session.version + 1) {
+      throw new Error(
+        `incorrect version: expected ${session.version + 1}, got ${params.version}`
+      );
+    }
+
+    const allocations = this.parseAllocations(session, params.allocations);
+    assertAllocationInvariants(intent, session.allocations, allocations);
+    this.assertQuorum(session, signers);
+
+    const deltas = this.allocationDeltas(session.allocations, allocations);
+    if (intent === RPCAppStateIntent.Deposit) {
+      this.assertSignedBy(
+        deltas.map((delta) => delta.participant),
+        signers,
+        'depositors must sign'
+      );
+    }
+    if (intent !== RPCAppStateIntent.Operate) {
+      // Deposits lock funds from the unified balance, withdrawals release them
+      this.applyLedgerDeltas(
+        deltas.map((delta) => ({ ...delta, amount: (-BigInt(delta.amount)).toString() })),
+        connection.sessionKey
+      );
+    }
+
+    session.allocations = allocations;
+    session.version += 1;
+    session.sessionData = params.session_data ?? session.sessionData;
+    session.updatedAt = new Date();
+
+    this.log(`📝 App session ${session.appSessionId} ${intent} → v${session.version}`);
+    this.notifySession(session, connection);
+    if (intent !== RPCAppStateIntent.Operate) {
+      deltas.forEach((delta) => this.notifyBalance(getAddress(delta.participant)));
+    }
+
+    return { method: RPCMethod.SubmitAppState, params: this.sessionAck(session) };
+  }
+
+  private async handleCloseAppSession(
+    connection: Connection,
+    params: RpcParams<RPCMethod.CloseAppSession>,
+    signers: Set<string>
+  ): Promise<RpcReply> {
+    const session = this.getOpenSession(params.app_session_id);
+    const allocations = this.parseAllocations(session, params.allocations);
+
+    const currentTotals = sumByAsset(session.allocations);
+    const finalTotals = sumByAsset(allocations);
+    for (const asset of new Set([...currentTotals.keys(), ...finalTotals.keys()])) {
+      if ((currentTotals.get(asset) ?? 0n) !== (finalTotals.get(asset) ?? 0n)) {
+        throw new Error(
+          `invalid final allocations for ${asset}: total ${finalTotals.get(asset) ?? 0n} does not match locked ${currentTotals.get(asset) ?? 0n}`
+        );
+      }
+    }
+    this.assertQuorum(session, signers);
+
+    this.applyLedgerDeltas(allocations.filter((alloc) => BigInt(alloc.amount) > 0n));
+
+    session.allocations = allocations;
+    session.status = 'closed';
+    session.version += 1;
+    session.sessionData = params.session_data ?? session.sessionData;
+    session.updatedAt = new Date();
+
+    this.log(`🏁 App session ${session.appSessionId} closed at v${session.version}`);
+    this.notifySession(session, connection);
+    allocations.forEach((alloc) => this.notifyBalance(getAddress(alloc.participant)));
+
+    return { method: RPCMethod.CloseAppSession, params: this.sessionAck(session) };
+  }
+
+  private async handleGetAppDefinition(
+    params: RpcParams<RPCMethod.GetAppDefinition>
+  ): Promise<RpcReply> {
+    const session = this.appSessions.get(params.app_session_id.toLowerCase());
+    if (!session) {
+      throw new Error(`app session not found: ${params.app_session_id}`);
+    }
+
+    return {
+      method: RPCMethod.GetAppDefinition,
+      params: {
+        protocol: session.protocol,
+        participants: session.participants,
+        weights: session.weights,
+        quorum: session.quorum,
+        challenge: session.challenge,
+        nonce: session.nonce,
+      },
+    };
+  }
+
+  private async handleGetAppSessions(
+    params: RpcParams<RPCMethod.GetAppSessions>
+  ): Promise<RpcReply> {
+    const { participant } = params;
+
+    const appSessions = Array.from(this.appSessions.values())
+      .filter((session) => !participant || session.participants.some((p) => sameAddress(p, participant)))
+      .filter((session) => !params.status || session.status === params.status)
+      .map((session) => this.serializeSession(session));
+
+    return { method: RPCMethod.GetAppSessions, params: { app_sessions: appSessions } };
+  }
+
+  // ==========================================================================
+  // Serialization & Notifications
+  // ==========================================================================
+
+  private sessionAck(session: AppSessionRecord) {
+    return {
+      app_session_id: session.appSessionId,
+      version: session.version,
+      status: session.status,
+    };
+  }
+
+  private serializeSession(session: AppSessionRecord) {
+    return {
+      app_session_id: session.appSessionId,
+      application: session.application,
+      status: session.status,
+      participants: session.participants,
+      protocol: session.protocol,
+      challenge: session.challenge,
+      weights: session.weights,
+      quorum: session.quorum,
+      version: session.version,
+      nonce: session.nonce,
+      created_at: session.createdAt.toISOString(),
+      updated_at: session.updatedAt.toISOString(),
+      ...(session.sessionData !== undefined && { session_data: session.sessionData }),
+    };
+  }
+
+  /**
+   * Push the new session state (asu) to every participant and the requester
+   */
+  private notifySession(session: AppSessionRecord, requester: Connection): void {
+    const params = {
+      app_session: this.serializeSession(session),
+      participant_allocations: session.allocations,
+    };
+
+    for (const connection of this.connections) {
+      const isParticipant =
+        connection.wallet &&
+        session.participants.some((p) => sameAddress(p, connection.wallet!));
+      if (isParticipant || connection === requester) {
+        this.send(connection.socket, 0, RPCMethod.AppSessionUpdate, params);
+      }
+    }
+  }
+
+  /**
+   * Push the unified balance (bu) to every connection of a wallet
+   */
+  private notifyBalance(wallet: Address): void {
+    const balanceUpdates = Array.from(this.getLedger(wallet), ([asset, amount]) => ({
+      asset,
+      amount: amount.toString(),
+    }));
+
+    for (const connection of this.connections) {
+      if (connection.wallet && sameAddress(connection.wallet, wallet)) {
+        this.send(connection.socket, 0, RPCMethod.BalanceUpdate, {
+          balance_updates: balanceUpdates,
+        });
+      }
+    }
+  }
+
+  private log(message: string): void {
+    if (!this.options.quiet) {
+      console.log(message);
+    }
+  }
+}
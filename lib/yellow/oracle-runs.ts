@@ -0,0 +1,68 @@
+/**
+ * Oracle Runs
+ *
+ * Outcome of every oracle cycle, recorded in oracle_runs: what started it,
+ * how many markets each step completed and why the cycle failed, if it did.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export type OracleRunRow = Database['public']['Tables']['oracle_runs']['Row'];
+export type OracleRunTrigger = 'worker' | 'api';
+
+// Markets each step of a cycle completed; `failed` steps are retried later
+export interface OracleCycleResult {
+  closed: number;
+  proposed: number;
+  cancelled: number;
+  settled: number;
+  refunded: number;
+  failed: number;
+}
+
+export function emptyCycleResult(): OracleCycleResult {
+  return { closed: 0, proposed: 0, cancelled: 0, settled: 0, refunded: 0, failed: 0 };
+}
+
+/**
+ * Record the start of a cycle and return its run id
+ */
+export async function startOracleRun(
+  trigger: OracleRunTrigger,
+  oracleAddress: string
+): Promise<string> {
+  const { data, error } = await createServiceClient()
+    .from('oracle_runs')
+    .insert({ trigger, oracle_address: oracleAddress })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data.id;
+}
+
+/**
+ * Record how a cycle ended: its step counts, and its error when it failed
+ */
+export async function finishOracleRun(
+  runId: string,
+  result: OracleCycleResult,
+  error?: unknown
+): Promise<void> {
+  const { error: updateError } = await createServiceClient()
+    .from('oracle_runs')
+    .update({
+      ...result,
+      status: error === undefined ? 'succeeded' : 'failed',
+      error: error === undefined ? null : error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+
+  if (updateError) {
+    throw updateError;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Oracle State Machine
+ *
+ * Persisted progress of the oracle on each market (markets.oracle_state):
+ *
+ *   closing -> resolving -> resolved_pending_settlement -> settled
+ *                   |                  \-> settlement_failed (after ORACLE.MAX_ATTEMPTS)
+ *                   \-> resolution_review (readings still disagree after ORACLE.MAX_ATTEMPTS)
+ *
+ *   (any unsettled state) -> cancelling -> cancelled (see cancellation.ts)
+ *
+ * A run must hold a market's lease before working on it. Leases are taken
+ * with a conditional update, so two runs can never hold the same market;
+ * a crashed run's lease expires after ORACLE.LEASE_DURATION. Failed steps
+ * record the error and are not retried before their backoff has passed.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { YELLOW_CONFIG } from './config';
+import { OracleState } from './types';
+import type { Database } from '@/types/database';
+
+type MarketUpdate = Database['public']['Tables']['markets']['Update'];
+
+export interface MarketLease {
+  marketId: string;
+  owner: string;
+}
+
+/**
+ * Delay before retrying a step that has failed `attempts` times
+ */
+export function retryDelay(attempts: number): number {
+  const { RETRY_BASE_DELAY, RETRY_MAX_DELAY } = YELLOW_CONFIG.ORACLE;
+  return Math.min(RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY);
+}
+
+/**
+ * Filter for markets whose backoff has passed, as a PostgREST `or` expression
+ */
+export function dueFilter(now: string = new Date().toISOString()): string {
+  return `oracle_next_attempt_at.is.null,oracle_next_attempt_at.lte.${now}`;
+}
+
+/**
+ * Take the lease on a market in `state`. Returns null when the market is no
+ * longer in that state, is backing off, or another run holds a live lease.
+ */
+export async function acquireLease(
+  marketId: string,
+  owner: string,
+  state: OracleState | null,
+  update: MarketUpdate = {}
+): Promise<MarketLease | null> {
+  const now = new Date();
+  const query = createServiceClient()
+    .from('markets')
+    .update({
+      ...update,
+      oracle_lease_owner: owner,
+      oracle_lease_expires_at: new Date(now.getTime() + YELLOW_CONFIG.ORACLE.LEASE_DURATION).toISOString(),
+    })
+    .eq('id', marketId)
+    .or(`oracle_lease_expires_at.is.null,oracle_lease_expires_at.lt.${now.toISOString()}`)
+    .or(dueFilter(now.toISOString()));
+
+  const { data, error } = await (state === null ? query.is('oracle_state', null) : query.eq('oracle_state', state))
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return data && data.length > 0 ? { marketId, owner } : null;
+}
+
+/**
+ * Apply `update` only while `lease` is still held, then release it.
+ * Returns false when the lease was lost (expired and taken over).
+ */
+async function updateHeld(lease: MarketLease, update: MarketUpdate): Promise<boolean> {
+  const { data, error } = await createServiceClient()
+    .from('markets')
+    .update({ ...update, oracle_lease_owner: null, oracle_lease_expires_at: null })
+    .eq('id', lease.marketId)
+    .eq('oracle_lease_owner', lease.owner)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return !!data && data.length > 0;
+}
+
+/**
+ * Move a leased market to its next state, resetting the retry bookkeeping
+ */
+export function completeStep(
+  lease: MarketLease,
+  nextState: OracleState,
+  update: MarketUpdate = {}
+): Promise<boolean> {
+  return updateHeld(lease, {
+    ...update,
+    oracle_state: nextState,
+    oracle_attempts: 0,
+    oracle_last_error: null,
+    oracle_next_attempt_at: null,
+  });
+}
+
+/**
+ * Release a lease without changing anything (e.g. settlement held by a dispute)
+ */
+export function releaseLease(lease: MarketLease): Promise<boolean> {
+  return updateHeld(lease, {});
+}
+
+/**
+ * Record a failed attempt and back off. With `failedState`, the market moves
+ * there (applying `failedUpdate`) once it has failed ORACLE.MAX_ATTEMPTS times.
+ */
+export async function failStep(
+  lease: MarketLease,
+  attempts: number,
+  error: unknown,
+  failedState?: OracleState,
+  failedUpdate: MarketUpdate = {}
+): Promise<{ attempts: number; gaveUp: boolean }> {
+  const next = attempts + 1;
+  const gaveUp = !!failedState && next >= YELLOW_CONFIG.ORACLE.MAX_ATTEMPTS;
+
+  await updateHeld(lease, {
+    oracle_attempts: next,
+    oracle_last_error: error instanceof Error ? error.message : String(error),
+    oracle_next_attempt_at: gaveUp ? null : new Date(Date.now() + retryDelay(next)).toISOString(),
+    ...(gaveUp && { ...failedUpdate, oracle_state: failedState }),
+  });
+
+  return { attempts: next, gaveUp };
+}
@@ -4,15 +4,109 @@
  * Resolves prediction markets by verifying Twitch API metrics
  */
 
-import { getUserByLogin, getFollowerCount, getLiveStreams } from '@/lib/twitch/client';
 import { supabase } from '@/lib/supabase/client';
+import { createServiceClient } from '@/lib/supabase/server';
+import { createCorrelationId, createLogger, type Logger } from '@/lib/logger';
 import { YellowClient } from './client';
+import { getAsset } from './assets';
+import { refundMarket, settleMarket, type MarketSettlement } from './payouts';
+import { marketLiquidity } from './lmsr';
+import { payOutstanding, recordPayouts, type PayoutKind } from './market-payouts';
+import { refundOrders } from './orders';
+import { getMarketType } from './market-types';
+import { resolveMetric } from './resolvers';
+import { loadSnapshots, recordSnapshots } from './sampler';
+import { ReadingsDisagreeError, takeConsensusReading } from './consensus';
+import { hashEvidence, type ResolutionEvidence } from './evidence';
+import { disputeWindowEnd, getBlockingDisputes, getCurrentResolution } from './disputes';
+import { MarketCancellationError, cancellationReason, cancellationUpdate } from './cancellation';
+import { getUserByLogin } from '@/lib/twitch';
+import {
+  acquireLease,
+  completeStep,
+  dueFilter,
+  failStep,
+  releaseLease,
+  type MarketLease,
+} from './oracle-state';
+import {
+  emptyCycleResult,
+  finishOracleRun,
+  startOracleRun,
+  type OracleCycleResult,
+  type OracleRunTrigger,
+} from './oracle-runs';
+import { YELLOW_CONFIG } from './config';
+import { OracleState } from './types';
 import type { Address, Hex } from 'viem';
-import type { PredictionMarket, MarketType, OracleResolutionData } from './types';
+import type { ConsensusReading } from './consensus';
+import type { MetricValue } from './resolvers';
+import type { MetricSnapshot } from './sampler';
+import type {
+  Allocation,
+  AppSessionState,
+  CancelReason,
+  MarketType,
+  OracleResolutionData,
+  OperationOptions,
+} from './types';
+import type { Database } from '@/types/database';
+
+type MarketRow = Database['public']['Tables']['markets']['Row'];
+type ClosedMarket = MarketRow & { streamers: { id: string; name: string; slug: string } };
+type SessionMarket = Pick<MarketRow, 'id' | 'app_session_id' | 'asset'>;
+
+interface OutcomeReading {
+  marketType: MarketType;
+  windowSamples: MetricSnapshot[]; // Recorded by the sampler in the market window
+  consensus: ConsensusReading | null; // Closing reading when the window is empty, not recorded yet
+  value: MetricValue;
+  samples: number;
+  winner: 'yes' | 'no';
+}
+
+export type OracleStep = 'close' | 'resolve' | 'settle' | 'refund';
+
+/**
+ * What a cycle would do to one due market, from a dry run
+ */
+export interface MarketPreview {
+  marketId: string;
+  question: string;
+  step: OracleStep;
+  reading?: { value: MetricValue; samples: number; afterWindow: boolean }; // resolve, from stored samples
+  winner?: 'yes' | 'no'; // resolve and settle
+  cancelReason?: CancelReason; // resolve: the market would be cancelled instead
+  blockingDisputes?: string[]; // settle: held by these disputes, nothing submitted
+  allocations?: Allocation[]; // Final allocations submitted to close the App Session
+  payouts?: { bettor: Address; amount: string }[]; // Transferred by the oracle after the close
+  error?: string; // The step would fail and be retried
+}
+
+export interface OracleRunOptions {
+  dryRun?: boolean; // Report what the cycle would do without changing any state
+}
+
+export interface OracleRunResult extends OracleCycleResult {
+  previews?: MarketPreview[]; // Dry runs only
+}
+
+/**
+ * Fill in what closing a market's session would submit and pay out
+ */
+function previewSettlement(preview: MarketPreview, settlement: MarketSettlement | null): void {
+  preview.allocations = settlement?.allocations;
+  preview.payouts = settlement?.payouts.map(({ bettor, payout }) => ({
+    bettor,
+    amount: payout.toString(),
+  }));
+}
 
 export class TwitchOracle {
   private yellowClient: YellowClient;
   private oracleAddress: Address;
+  private log: Logger = createLogger('oracle');
+  private runId = createCorrelationId('oracle'); // Lease owner for the markets this instance works on
 
   constructor(yellowClient: YellowClient, oracleAddress: Address) {
     this.yellowClient = yellowClient;
@@ -20,306 +114,919 @@ export class TwitchOracle {
   }
 
   /**
-   * Get current value of Twitch metric for a streamer
+   * Resolve a single market from its sampled metrics and propose the
+   * outcome; it is settled once the dispute window passes. With a `lease`
+   * the proposal is only recorded while the lease is still held.
    */
-  private async getTwitchMetric(
-    twitchUsername: string,
-    metric: string
-  ): Promise<number> {
+  async resolveMarket(
+    marketId: string,
+    options: OperationOptions = {},
+    lease?: MarketLease
+  ): Promise<OracleResolutionData> {
+    const log = this.marketLog(marketId, options);
+
     try {
-      const userData = await getUserByLogin(twitchUsername);
+      log.info('Resolving market');
 
-      if (!userData) {
-        throw new Error(`Twitch user not found: ${twitchUsername}`);
-      }
+      const market = await this.loadClosedMarket(marketId);
+      const { marketType, windowSamples, consensus, value: actualValue, winner } =
+        await this.readOutcome(market, log);
 
-      switch (metric) {
-        case 'followers_count':
-          const followers = await getFollowerCount(userData.id);
-          return followers;
+      // Keep the closing readings so the evidence can point at them
+      const readings = consensus ? await recordSnapshots(market.streamers.id, consensus.readings) : [];
+      const latest = consensus
+        ? readings[consensus.readings.indexOf(consensus.snapshot)]
+        : windowSamples[windowSamples.length - 1];
 
-        case 'viewer_count':
-          const streams = await getLiveStreams();
-          const stream = streams.find((s) => s.user_login === twitchUsername);
-          return stream?.viewer_count || 0;
+      const resolution: Omit<OracleResolutionData, 'evidence_hash'> = {
+        market_id: marketId,
+        market_type: marketType,
+        twitch_metric: market.twitch_metric ?? '',
+        target_value: market.target_value,
+        target_category: market.target_category,
+        actual_value: actualValue,
+        winner,
+        resolved_at: new Date().toISOString(),
+      };
 
-        default:
-          throw new Error(`Unknown metric: ${metric}`);
+      // Keep what the outcome was decided from, hashed so it can be checked later
+      const evidence: ResolutionEvidence = {
+        ...resolution,
+        sample_ids: [...windowSamples, ...readings].flatMap((snapshot) => (snapshot.id ? [snapshot.id] : [])),
+        raw_response: latest.raw ?? null,
+        oracle_address: this.oracleAddress,
+      };
+      const evidenceHash = hashEvidence(evidence);
+
+      const db = createServiceClient();
+      const { error: evidenceError } = await db
+        .from('market_resolutions')
+        .insert({ ...evidence, evidence_hash: evidenceHash });
+      if (evidenceError) {
+        throw evidenceError;
       }
+
+      const proposal = {
+        status: 'proposed',
+        winner,
+        dispute_ends_at: disputeWindowEnd(new Date(resolution.resolved_at)),
+      };
+      if (lease) {
+        if (!(await completeStep(lease, OracleState.RESOLVED_PENDING_SETTLEMENT, proposal))) {
+          throw new Error('Lease lost before recording the proposal');
+        }
+      } else {
+        const { error: updateError } = await db
+          .from('markets')
+          .update({ ...proposal, oracle_state: OracleState.RESOLVED_PENDING_SETTLEMENT })
+          .eq('id', marketId);
+        if (updateError) {
+          throw updateError;
+        }
+      }
+
+      const resolutionData: OracleResolutionData = { ...resolution, evidence_hash: evidenceHash };
+      log.info('Market outcome proposed', { resolution: resolutionData, samples: evidence.sample_ids.length });
+
+      return resolutionData;
     } catch (error) {
-      console.error('Failed to fetch Twitch metric:', error);
+      log.error('Failed to resolve market', { error });
       throw error;
     }
   }
 
   /**
-   * Resolve a single market by checking Twitch API
+   * A closed market with its streamer, ready to be resolved
    */
-  async resolveMarket(marketId: string): Promise<OracleResolutionData> {
-    try {
-      console.log(`🔮 Oracle resolving market ${marketId}...`);
-
-      // Fetch market from database
-      const { data: market, error } = await supabase
-        .from('markets')
-        .select(
-          `
-          *,
-          streamers (
-            id,
-            name,
-            slug
-          )
+  private async loadClosedMarket(marketId: string): Promise<ClosedMarket> {
+    const { data: market, error } = await supabase
+      .from('markets')
+      .select(
         `
+        *,
+        streamers (
+          id,
+          name,
+          slug
         )
-        .eq('id', marketId)
-        .single();
+      `
+      )
+      .eq('id', marketId)
+      .single();
+
+    if (error || !market) {
+      throw new Error('Market not found');
+    }
 
-      if (error || !market) {
-        throw new Error('Market not found');
+    if (market.status !== 'closed') {
+      throw new Error('Market is not closed yet');
+    }
+
+    if (!market.streamers) {
+      throw new Error('Market has no associated streamer');
+    }
+
+    return { ...market, streamers: market.streamers };
+  }
+
+  /**
+   * Samples the sampler recorded in a closed market's window. Throws
+   * MarketCancellationError when they show it has to be cancelled.
+   */
+  private async loadWindow(
+    market: ClosedMarket,
+    log: Logger
+  ): Promise<{ marketType: MarketType; windowEnd: string; windowSamples: MetricSnapshot[] }> {
+    const marketType = getMarketType(market);
+    const windowEnd = market.end_date ?? new Date().toISOString();
+    const windowSamples = await loadSnapshots(market.streamers.id, market.created_at, windowEnd);
+    if (windowSamples.length === 0) {
+      // The sampler was not running; the closing reading alone decides
+      log.warn('No metric samples in market window, resolving from the closing reading', {
+        streamer: market.streamers.slug,
+      });
+    } else {
+      const reason = cancellationReason(marketType, windowSamples);
+      if (reason) {
+        throw new MarketCancellationError(
+          reason,
+          `${windowSamples.length} samples in the market window, none of them live`
+        );
       }
+    }
+    return { marketType, windowEnd, windowSamples };
+  }
 
-      if (market.status !== 'closed') {
-        throw new Error('Market is not closed yet');
+  /**
+   * Read the outcome of a closed market without recording anything: the
+   * samples of its window aggregated by its market type. Only a window with
+   * no samples calls Twitch, for an agreed closing reading that decides the
+   * outcome instead. Throws MarketCancellationError when it has to be
+   * cancelled.
+   */
+  private async readOutcome(market: ClosedMarket, log: Logger): Promise<OutcomeReading> {
+    const { marketType, windowSamples } = await this.loadWindow(market, log);
+
+    let consensus: ConsensusReading | null = null;
+    if (windowSamples.length === 0) {
+      if (!(await getUserByLogin(market.streamers.slug))) {
+        throw new MarketCancellationError(
+          'twitch_account_missing',
+          `Twitch user not found: ${market.streamers.slug}`
+        );
       }
 
-      if (!market.streamers) {
-        throw new Error('Market has no associated streamer');
+      // Several direct readings that must agree, so one bad API response
+      // cannot decide the outcome when there is nothing else to go on
+      consensus = await takeConsensusReading(market.streamers.slug, marketType);
+      log.debug('Closing readings agree', {
+        readings: consensus.readings.length,
+        value: consensus.value,
+      });
+    }
+
+    const { value, samples, yes } = resolveMetric(
+      marketType,
+      consensus ? [consensus.snapshot] : windowSamples,
+      market
+    );
+    log.debug('Aggregated market metric', { marketType, samples, actualValue: value });
+
+    return { marketType, windowSamples, consensus, value, samples, winner: yes ? 'yes' : 'no' };
+  }
+
+  /**
+   * The outcome readOutcome would most likely read, from stored samples
+   * only, so previews make no Twitch calls. A market whose window has no
+   * samples is previewed from the latest sample since the window, standing
+   * in for the closing reading.
+   */
+  private async previewOutcome(
+    market: ClosedMarket,
+    log: Logger
+  ): Promise<NonNullable<MarketPreview['reading']> & { winner: 'yes' | 'no' }> {
+    const { marketType, windowEnd, windowSamples } = await this.loadWindow(market, log);
+
+    let snapshots = windowSamples;
+    if (snapshots.length === 0) {
+      const since = await loadSnapshots(market.streamers.id, windowEnd, new Date().toISOString());
+      if (since.length === 0) {
+        throw new Error('No stored samples to preview from, the closing reading will decide');
       }
+      snapshots = since.slice(-1);
+    }
 
-      // Get current Twitch metric value
-      // Type cast needed because database types haven't been regenerated yet
-      const marketWithYellowFields = market as any;
-      const actualValue = await this.getTwitchMetric(
-        market.streamers.slug,
-        marketWithYellowFields.twitch_metric
-      );
+    const { value, samples, yes } = resolveMetric(marketType, snapshots, market);
+    return { value, samples, afterWindow: windowSamples.length === 0, winner: yes ? 'yes' : 'no' };
+  }
 
-      // Determine winner based on target value
-      const winner: 'yes' | 'no' =
-        actualValue >= marketWithYellowFields.target_value ? 'yes' : 'no';
+  /**
+   * Distribute winnings: close the App Session with the pot in the oracle's
+   * allocation, then transfer each winning bettor a unit per winning share,
+   * capped by the pot
+   */
+  async distributeWinnings(
+    market: SessionMarket & Pick<MarketRow, 'winner' | 'liquidity'>,
+    options: OperationOptions = {}
+  ): Promise<void> {
+    const correlationId = options.correlationId ?? createCorrelationId('market');
+    const log = this.marketLog(market.id, { correlationId });
 
-      const resolutionData: OracleResolutionData = {
-        market_id: marketId,
-        twitch_metric: marketWithYellowFields.twitch_metric,
-        target_value: marketWithYellowFields.target_value,
-        actual_value: actualValue,
-        winner,
-        resolved_at: new Date().toISOString(),
-      };
+    try {
+      log.info('Distributing winnings', { appSessionId: market.app_session_id });
 
-      console.log('✅ Oracle resolution:', resolutionData);
+      const winner = market.winner;
+      if (winner !== 'yes' && winner !== 'no') {
+        throw new Error('Market has no winner');
+      }
 
-      // Update market in database
-      await supabase
-        .from('markets')
-        .update({
-          status: 'resolved',
-          winner,
-          resolved_at: resolutionData.resolved_at,
-        })
-        .eq('id', marketId);
+      // Pay every winning share its unit from the pot
+      const settlement = await this.closeMarketSession(
+        market,
+        (appDef, assetId) =>
+          settleMarket(appDef, winner, assetId, marketLiquidity(market.liquidity, assetId)),
+        'winnings',
+        correlationId
+      );
 
-      return resolutionData;
+      if (settlement) {
+        log.info('Winnings distributed', {
+          winner,
+          pot: settlement.pot,
+          winners: settlement.payouts.length,
+        });
+      }
     } catch (error) {
-      console.error('Failed to resolve market:', error);
+      log.error('Failed to distribute winnings', { error });
       throw error;
     }
   }
 
   /**
-   * Distribute winnings by closing App Session
+   * Refund a cancelled market: close the App Session with the pot in the
+   * oracle's allocation, then transfer every bettor's exact stake back
    */
-  async distributeWinnings(market: PredictionMarket): Promise<void> {
-    try {
-      if (!market.app_session_id) {
-        throw new Error('Market has no app_session_id');
-      }
+  async refundStakes(market: SessionMarket, options: OperationOptions = {}): Promise<void> {
+    const correlationId = options.correlationId ?? createCorrelationId('market');
+    const log = this.marketLog(market.id, { correlationId });
 
-      console.log(`💰 Distributing winnings for market ${market.id}...`);
+    try {
+      log.info('Refunding stakes', { appSessionId: market.app_session_id });
 
-      // Get current allocations from App Session
-      const appDef = await this.yellowClient.getAppDefinition(
-        market.app_session_id as Hex
+      const settlement = await this.closeMarketSession(
+        market,
+        (appDef, assetId) => refundMarket(appDef, assetId),
+        'refund',
+        correlationId
       );
 
-      const yesPoolAddress = market.pool_yes_address as Address;
-      const noPoolAddress = market.pool_no_address as Address;
-      const totalYes = BigInt(market.yes_amount);
-      const totalNo = BigInt(market.no_amount);
-      const totalVolume = totalYes + totalNo;
-
-      // Determine final allocations based on winner
-      const finalAllocations =
-        market.winner === 'yes'
-          ? [
-              // All funds go to YES pool (winners)
-              {
-                participant: yesPoolAddress,
-                asset: 'ytest.usd',
-                amount: totalVolume.toString(),
-              },
-              // NO pool gets 0
-              {
-                participant: noPoolAddress,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-              // Oracle gets 0
-              {
-                participant: this.oracleAddress,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-            ]
-          : [
-              // YES pool gets 0
-              {
-                participant: yesPoolAddress,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-              // All funds go to NO pool (winners)
-              {
-                participant: noPoolAddress,
-                asset: 'ytest.usd',
-                amount: totalVolume.toString(),
-              },
-              // Oracle gets 0
-              {
-                participant: this.oracleAddress,
-                asset: 'ytest.usd',
-                amount: '0',
-              },
-            ];
+      if (settlement) {
+        log.info('Stakes refunded', {
+          pot: settlement.pot,
+          bettors: settlement.payouts.length,
+        });
+      }
+    } catch (error) {
+      log.error('Failed to refund stakes', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a market's App Session with the allocations `settle` computes from
+   * its current state, then transfer the payouts it recorded and refund the
+   * escrow its orders did not spend. Returns null when an earlier attempt
+   * already closed it; the payouts and refunds that attempt left unpaid are
+   * transferred all the same.
+   */
+  private async closeMarketSession(
+    market: SessionMarket,
+    settle: (appDef: AppSessionState, assetId: string) => MarketSettlement,
+    kind: PayoutKind,
+    correlationId: string
+  ): Promise<MarketSettlement | null> {
+    const settlement = await this.computeSettlement(market, settle, correlationId);
+
+    if (settlement) {
+      // Recorded first, so a close followed by a crash still pays everyone
+      await recordPayouts(market.id, getAsset(market.asset).assetId, settlement, kind);
 
       // Close App Session with final distribution
       await this.yellowClient.closeAppSession(
         market.app_session_id as Hex,
-        finalAllocations
+        settlement.allocations,
+        { correlationId }
       );
+    }
 
-      console.log('✅ Winnings distributed successfully');
-    } catch (error) {
-      console.error('Failed to distribute winnings:', error);
-      throw error;
+    await payOutstanding(
+      market.id,
+      this.yellowClient,
+      correlationId,
+      this.marketLog(market.id, { correlationId })
+    );
+    await refundOrders(
+      market.id,
+      this.yellowClient,
+      correlationId,
+      this.marketLog(market.id, { correlationId })
+    );
+
+    return settlement;
+  }
+
+  /**
+   * The settlement `settle` computes from a market's current App Session
+   * state, without submitting it. Null when the session is already closed.
+   */
+  private async computeSettlement(
+    market: SessionMarket,
+    settle: (appDef: AppSessionState, assetId: string) => MarketSettlement,
+    correlationId: string
+  ): Promise<MarketSettlement | null> {
+    const log = this.marketLog(market.id, { correlationId });
+
+    if (!market.app_session_id) {
+      throw new Error('Market has no app_session_id');
+    }
+
+    // Get current allocations from App Session
+    const appDef = await this.yellowClient.getAppDefinition(market.app_session_id as Hex);
+
+    // An earlier attempt may have closed it before failing to record that
+    if (appDef.status === 'closed') {
+      log.info('App Session already closed, only unpaid payouts are left');
+      return null;
     }
+
+    const { assetId } = getAsset(market.asset);
+    const settlement = settle(appDef, assetId);
+
+    log.debug('Settlement computed', {
+      pot: settlement.pot,
+      dust: settlement.dust,
+      refunded: settlement.refunded,
+      payouts: settlement.payouts,
+    });
+
+    return settlement;
   }
 
   /**
-   * Check all closed markets that need resolution
+   * Propose an outcome for every closed market that is due (state resolving)
+   * and ended at least ORACLE.RESOLUTION_DELAY ago.
+   * A failed attempt is retried on a later run after its backoff; a market
+   * that cannot be resolved, or still fails after ORACLE.MAX_ATTEMPTS, is
+   * cancelled and refunded instead. One whose closing readings still
+   * disagree is left in resolution_review for an admin.
    */
-  async processClosedMarkets(): Promise<void> {
+  async processClosedMarkets(
+    result: OracleCycleResult = emptyCycleResult()
+  ): Promise<OracleCycleResult> {
     try {
-      console.log('🔍 Checking for markets to resolve...');
-
-      const { data: markets, error } = await supabase
-        .from('markets')
-        .select(
-          `
-          *,
-          streamers (
-            id,
-            name,
-            slug
-          )
-        `
-        )
-        .eq('status', 'closed')
-        .order('created_at', { ascending: true });
+      this.log.info('Checking for markets to resolve');
 
-      if (error) {
-        throw error;
+      const markets = await this.findMarketsToResolve();
+      if (markets.length === 0) {
+        this.log.info('No closed markets to resolve');
+        return result;
       }
 
-      if (!markets || markets.length === 0) {
-        console.log('No closed markets to resolve');
-        return;
+      this.log.info('Found closed markets to resolve', { count: markets.length });
+
+      for (const market of markets) {
+        const correlationId = createCorrelationId('market');
+        const log = this.marketLog(market.id, { correlationId });
+
+        const lease = await acquireLease(market.id, this.runId, OracleState.RESOLVING);
+        if (!lease) {
+          log.debug('Market is leased by another run');
+          continue;
+        }
+
+        try {
+          await this.resolveMarket(market.id, { correlationId }, lease);
+          result.proposed++;
+        } catch (error) {
+          if (error instanceof MarketCancellationError) {
+            await completeStep(
+              lease,
+              OracleState.CANCELLING,
+              cancellationUpdate(error.reason, error.message)
+            );
+            log.warn('Market cannot be resolved, cancelled', { reason: error.reason, error });
+            result.cancelled++;
+            continue;
+          }
+
+          // Readings that keep disagreeing are for an admin to decide, not a reason to cancel
+          const disagree = error instanceof ReadingsDisagreeError;
+          const message = error instanceof Error ? error.message : String(error);
+          const { attempts, gaveUp } = disagree
+            ? await failStep(lease, market.oracle_attempts, error, OracleState.RESOLUTION_REVIEW)
+            : await failStep(
+                lease,
+                market.oracle_attempts,
+                error,
+                OracleState.CANCELLING,
+                cancellationUpdate('oracle_data_unavailable', message)
+              );
+          result.failed++;
+          if (disagree) {
+            log.error(
+              gaveUp
+                ? 'Closing readings still disagree, market left for review'
+                : 'Closing readings disagree, market left unresolved',
+              { values: error.values, attempts }
+            );
+          } else if (gaveUp) {
+            log.error('Failed to resolve market, cancelled', { error, attempts });
+          } else {
+            log.error('Failed to resolve market, will retry', { error, attempts });
+          }
+        }
       }
 
-      console.log(`Found ${markets.length} closed markets to resolve`);
+      return result;
+    } catch (error) {
+      this.log.error('Failed to process closed markets', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Settle proposed markets whose dispute window has passed: close the App
+   * Session with the payouts and mark the market resolved. A proposal with
+   * an open dispute waits for the admin decision; a failed close is retried
+   * with backoff until ORACLE.MAX_ATTEMPTS, then left in settlement_failed.
+   */
+  async settleProposedMarkets(
+    result: OracleCycleResult = emptyCycleResult()
+  ): Promise<OracleCycleResult> {
+    try {
+      this.log.info('Checking for proposed markets to settle');
+
+      const markets = await this.findMarketsToSettle();
+      if (markets.length === 0) {
+        this.log.info('No proposed markets past their dispute window');
+        return result;
+      }
 
       for (const market of markets) {
+        const correlationId = createCorrelationId('market');
+        const log = this.marketLog(market.id, { correlationId });
+
+        const lease = await acquireLease(
+          market.id,
+          this.runId,
+          OracleState.RESOLVED_PENDING_SETTLEMENT
+        );
+        if (!lease) {
+          log.debug('Market is leased by another run');
+          continue;
+        }
+
         try {
-          // Resolve market
-          const resolution = await this.resolveMarket(market.id);
+          const resolution = await getCurrentResolution(market.id);
+          if (!resolution) {
+            throw new Error('Proposed market has no resolution');
+          }
+
+          const disputes = await getBlockingDisputes(resolution.id);
+          if (disputes.length > 0) {
+            log.info('Settlement held by disputes', {
+              disputes: disputes.map((dispute) => ({ id: dispute.id, status: dispute.status })),
+            });
+            await releaseLease(lease);
+            continue;
+          }
+
+          await this.distributeWinnings({ ...market, winner: resolution.winner }, { correlationId });
 
-          // Distribute winnings
-          await this.distributeWinnings(market as any);
+          const settled = await completeStep(lease, OracleState.SETTLED, {
+            status: 'resolved',
+            resolved_at: new Date().toISOString(),
+          });
+          if (!settled) {
+            // The session is closed; the next holder sees that and only records it
+            log.warn('Lease lost before recording settlement');
+            continue;
+          }
 
-          console.log(`✅ Market ${market.id} resolved and distributed`);
+          result.settled++;
+          log.info('Market settled', { winner: resolution.winner });
         } catch (error) {
-          console.error(`Failed to process market ${market.id}:`, error);
-          // Continue with next market
+          const { attempts, gaveUp } = await failStep(
+            lease,
+            market.oracle_attempts,
+            error,
+            OracleState.SETTLEMENT_FAILED
+          );
+          result.failed++;
+          if (gaveUp) {
+            log.error('Settlement failed, giving up', { error, attempts });
+          } else {
+            log.error('Failed to settle market, will retry', { error, attempts });
+          }
         }
       }
+
+      return result;
     } catch (error) {
-      console.error('Failed to process closed markets:', error);
+      this.log.error('Failed to settle proposed markets', { error });
       throw error;
     }
   }
 
   /**
-   * Close markets that have reached their end date
+   * Refund cancelled markets: close the App Session, transfer every stake
+   * back and mark the market cancelled. A failed close or transfer is
+   * retried with backoff until ORACLE.MAX_ATTEMPTS, then left in
+   * settlement_failed.
    */
-  async closeExpiredMarkets(): Promise<void> {
+  async refundCancelledMarkets(
+    result: OracleCycleResult = emptyCycleResult()
+  ): Promise<OracleCycleResult> {
     try {
-      console.log('⏰ Checking for expired markets...');
+      this.log.info('Checking for cancelled markets to refund');
+
+      const markets = await this.findMarketsToRefund();
+      if (markets.length === 0) {
+        this.log.info('No cancelled markets to refund');
+        return result;
+      }
 
-      const now = new Date().toISOString();
+      for (const market of markets) {
+        const correlationId = createCorrelationId('market');
+        const log = this.marketLog(market.id, { correlationId });
+
+        const lease = await acquireLease(market.id, this.runId, OracleState.CANCELLING);
+        if (!lease) {
+          log.debug('Market is leased by another run');
+          continue;
+        }
+
+        try {
+          // Markets cancelled before their session was created hold nothing
+          if (market.app_session_id) {
+            await this.refundStakes(market, { correlationId });
+          }
 
-      const { data: markets, error } = await supabase
-        .from('markets')
-        .select('*')
-        .eq('status', 'active')
-        .lte('end_date', now);
+          if (!(await completeStep(lease, OracleState.CANCELLED))) {
+            log.warn('Lease lost before recording refund');
+            continue;
+          }
 
-      if (error) {
-        throw error;
+          result.refunded++;
+          log.info('Market refunded', { reason: market.cancel_reason });
+        } catch (error) {
+          const { attempts, gaveUp } = await failStep(
+            lease,
+            market.oracle_attempts,
+            error,
+            OracleState.SETTLEMENT_FAILED
+          );
+          result.failed++;
+          if (gaveUp) {
+            log.error('Refund failed, giving up', { error, attempts });
+          } else {
+            log.error('Failed to refund market, will retry', { error, attempts });
+          }
+        }
       }
 
-      if (!markets || markets.length === 0) {
-        console.log('No expired markets to close');
-        return;
+      return result;
+    } catch (error) {
+      this.log.error('Failed to refund cancelled markets', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Close markets that have reached their end date. Markets a crashed run
+   * left in closing are picked up again once their lease expires.
+   */
+  async closeExpiredMarkets(
+    result: OracleCycleResult = emptyCycleResult()
+  ): Promise<OracleCycleResult> {
+    try {
+      this.log.info('Checking for expired markets');
+
+      const markets = await this.findExpiredMarkets();
+      if (markets.length === 0) {
+        this.log.info('No expired markets to close');
+        return result;
       }
 
-      console.log(`Found ${markets.length} expired markets`);
+      this.log.info('Found expired markets', { count: markets.length });
 
       for (const market of markets) {
-        try {
-          await supabase
-            .from('markets')
-            .update({ status: 'closed' })
-            .eq('id', market.id);
+        const lease = await acquireLease(
+          market.id,
+          this.runId,
+          market.oracle_state as OracleState | null,
+          { oracle_state: OracleState.CLOSING }
+        );
+        if (!lease) {
+          continue;
+        }
 
-          console.log(`✅ Closed expired market ${market.id}`);
+        try {
+          await completeStep(lease, OracleState.RESOLVING, { status: 'closed' });
+          result.closed++;
+          this.log.info('Closed expired market', { marketId: market.id });
         } catch (error) {
-          console.error(`Failed to close market ${market.id}:`, error);
+          await failStep(lease, market.oracle_attempts, error);
+          result.failed++;
+          this.log.error('Failed to close market', { marketId: market.id, error });
         }
       }
+
+      return result;
     } catch (error) {
-      console.error('Failed to close expired markets:', error);
+      this.log.error('Failed to close expired markets', { error });
       throw error;
     }
   }
 
   /**
-   * Run complete oracle cycle: close expired → resolve closed → distribute
+   * Run complete oracle cycle: close expired → propose outcomes → settle
+   * the ones past their dispute window → refund cancelled markets. The
+   * outcome is recorded in oracle_runs. A dry run only reports what the
+   * cycle would do (see preview) and records nothing.
    */
-  async run(): Promise<void> {
-    console.log('🔮 Oracle starting...');
+  async run(
+    trigger: OracleRunTrigger = 'api',
+    options: OracleRunOptions = {}
+  ): Promise<OracleRunResult> {
+    if (options.dryRun) {
+      return this.dryRun();
+    }
+
+    this.log.info('Oracle starting', { trigger });
+
+    const result = emptyCycleResult();
+    const runId = await startOracleRun(trigger, this.oracleAddress);
 
     try {
       // Step 1: Close expired markets
-      await this.closeExpiredMarkets();
+      await this.closeExpiredMarkets(result);
 
-      // Step 2: Resolve closed markets and distribute winnings
-      await this.processClosedMarkets();
+      // Step 2: Resolve closed markets and propose their outcome
+      await this.processClosedMarkets(result);
 
-      console.log('✅ Oracle cycle completed');
+      // Step 3: Distribute winnings of undisputed proposals
+      await this.settleProposedMarkets(result);
+
+      // Step 4: Return every stake of cancelled markets
+      await this.refundCancelledMarkets(result);
     } catch (error) {
-      console.error('Oracle cycle failed:', error);
+      this.log.error('Oracle cycle failed', { runId, error });
+      await finishOracleRun(runId, result, error).catch((recordError) =>
+        this.log.error('Failed to record oracle run', { runId, error: recordError })
+      );
       throw error;
     }
+
+    await finishOracleRun(runId, result);
+    this.log.info('Oracle cycle completed', { runId, ...result });
+    return result;
+  }
+
+  // ==========================================================================
+  // Dry Run
+  // ==========================================================================
+
+  /**
+   * What the next cycle would do to every due market: the reading and
+   * winner of markets to resolve, and the final allocations that would close
+   * each App Session. Reads Supabase and the ClearNode, never Twitch (see
+   * previewOutcome); writes nothing.
+   */
+  async preview(): Promise<MarketPreview[]> {
+    const previews: MarketPreview[] = [];
+
+    for (const market of await this.findExpiredMarkets()) {
+      previews.push({ marketId: market.id, question: market.question, step: 'close' });
+    }
+
+    for (const market of await this.findMarketsToResolve()) {
+      previews.push(
+        await this.previewMarket(market, 'resolve', async (preview, correlationId, log) => {
+          const closed = await this.loadClosedMarket(market.id);
+          try {
+            const { winner, ...reading } = await this.previewOutcome(closed, log);
+            preview.reading = reading;
+            preview.winner = winner;
+            // Submitted once the dispute window passes, if nothing changes until then
+            const settlement = await this.computeSettlement(
+              closed,
+              (appDef, assetId) =>
+                settleMarket(appDef, winner, assetId, marketLiquidity(closed.liquidity, assetId)),
+              correlationId
+            );
+            previewSettlement(preview, settlement);
+          } catch (error) {
+            if (!(error instanceof MarketCancellationError)) {
+              throw error;
+            }
+            preview.cancelReason = error.reason;
+            previewSettlement(preview, await this.previewRefund(closed, correlationId));
+          }
+        })
+      );
+    }
+
+    for (const market of await this.findMarketsToSettle()) {
+      previews.push(
+        await this.previewMarket(market, 'settle', async (preview, correlationId) => {
+          const resolution = await getCurrentResolution(market.id);
+          if (!resolution) {
+            throw new Error('Proposed market has no resolution');
+          }
+          const winner = resolution.winner as 'yes' | 'no';
+          preview.winner = winner;
+
+          const disputes = await getBlockingDisputes(resolution.id);
+          if (disputes.length > 0) {
+            preview.blockingDisputes = disputes.map((dispute) => dispute.id);
+            return;
+          }
+
+          const settlement = await this.computeSettlement(
+            market,
+            (appDef, assetId) =>
+              settleMarket(appDef, winner, assetId, marketLiquidity(market.liquidity, assetId)),
+            correlationId
+          );
+          previewSettlement(preview, settlement);
+        })
+      );
+    }
+
+    for (const market of await this.findMarketsToRefund()) {
+      previews.push(
+        await this.previewMarket(market, 'refund', async (preview, correlationId) => {
+          previewSettlement(preview, await this.previewRefund(market, correlationId));
+        })
+      );
+    }
+
+    return previews;
+  }
+
+  /**
+   * Preview of the whole cycle with the counts a real run would record
+   */
+  private async dryRun(): Promise<OracleRunResult> {
+    this.log.info('Oracle dry run starting');
+
+    const previews = await this.preview();
+    const result = emptyCycleResult();
+    for (const preview of previews) {
+      if (preview.error) {
+        result.failed++;
+      } else if (preview.step === 'close') {
+        result.closed++;
+      } else if (preview.step === 'resolve') {
+        result[preview.cancelReason ? 'cancelled' : 'proposed']++;
+      } else if (preview.step === 'settle') {
+        result.settled += preview.blockingDisputes ? 0 : 1;
+      } else {
+        result.refunded++;
+      }
+    }
+
+    this.log.info('Oracle dry run completed', { ...result });
+    return { ...result, previews };
+  }
+
+  /**
+   * Preview of one market's step; an error becomes part of the preview
+   */
+  private async previewMarket(
+    market: { id: string; question: string },
+    step: OracleStep,
+    fill: (preview: MarketPreview, correlationId: string, log: Logger) => Promise<void>
+  ): Promise<MarketPreview> {
+    const correlationId = createCorrelationId('preview');
+    const preview: MarketPreview = { marketId: market.id, question: market.question, step };
+
+    try {
+      await fill(preview, correlationId, this.marketLog(market.id, { correlationId }));
+    } catch (error) {
+      preview.error = error instanceof Error ? error.message : String(error);
+    }
+    return preview;
+  }
+
+  /**
+   * Settlement that would refund a cancelled market; none when it has no
+   * App Session (nothing to refund) or the session is already closed
+   */
+  private async previewRefund(
+    market: SessionMarket,
+    correlationId: string
+  ): Promise<MarketSettlement | null> {
+    if (!market.app_session_id) {
+      return null;
+    }
+    return this.computeSettlement(
+      market,
+      (appDef, assetId) => refundMarket(appDef, assetId),
+      correlationId
+    );
+  }
+
+  // ==========================================================================
+  // Due Markets
+  // ==========================================================================
+
+  /**
+   * Active markets past their end date, including ones a crashed run left in closing
+   */
+  private async findExpiredMarkets() {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('markets')
+      .select('id, question, oracle_state, oracle_attempts')
+      .eq('status', 'active')
+      .lte('end_date', now)
+      .or(`oracle_state.is.null,oracle_state.eq.${OracleState.CLOSING}`)
+      .or(dueFilter(now));
+
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }
+
+  /**
+   * Closed markets waiting for an outcome that ended at least
+   * ORACLE.RESOLUTION_DELAY ago
+   */
+  private async findMarketsToResolve() {
+    // Give the sampler and the Twitch API time to catch up with the end of the window
+    const endedBefore = new Date(Date.now() - YELLOW_CONFIG.ORACLE.RESOLUTION_DELAY).toISOString();
+    const { data, error } = await supabase
+      .from('markets')
+      .select('id, question, oracle_attempts')
+      .eq('status', 'closed')
+      .eq('oracle_state', OracleState.RESOLVING)
+      .lte('end_date', endedBefore)
+      .or(dueFilter())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }
+
+  /**
+   * Proposed markets whose dispute window has passed
+   */
+  private async findMarketsToSettle() {
+    const { data, error } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('status', 'proposed')
+      .eq('oracle_state', OracleState.RESOLVED_PENDING_SETTLEMENT)
+      .lte('dispute_ends_at', new Date().toISOString())
+      .or(dueFilter())
+      .order('dispute_ends_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }
+
+  /**
+   * Cancelled markets whose stakes have not been refunded yet
+   */
+  private async findMarketsToRefund() {
+    const { data, error } = await supabase
+      .from('markets')
+      .select('*')
+      .eq('status', 'cancelled')
+      .eq('oracle_state', OracleState.CANCELLING)
+      .or(dueFilter())
+      .order('cancelled_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return data ?? [];
+  }
+
+  /**
+   * Logger for one market, tagged with the caller's correlation id or a fresh one
+   */
+  private marketLog(marketId: string, options: OperationOptions): Logger {
+    return this.log.child({
+      correlationId: options.correlationId ?? createCorrelationId('market'),
+      marketId,
+    });
   }
 }
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  bookDepth,
+  crosses,
+  fillStakes,
+  isValidOrderPrice,
+  matchOrder,
+  orderCost,
+  unspentEscrow,
+  type BookOrder,
+} from './order-book';
+
+const ALICE = '0x0000000000000000000000000000000000000001';
+const BOB = '0x0000000000000000000000000000000000000002';
+
+function order(fields: Partial<BookOrder> & Pick<BookOrder, 'id' | 'side' | 'price'>): BookOrder {
+  return {
+    user_id: null,
+    wallet_address: BOB,
+    shares: '100',
+    filled_shares: '0',
+    escrow: '100',
+    spent: '0',
+    status: 'open',
+    created_at: '2026-10-19T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+describe('isValidOrderPrice', () => {
+  it('takes whole cents from 1 to 99', () => {
+    assert.ok(isValidOrderPrice(1) && isValidOrderPrice(99));
+    for (const price of [0, 100, 50.5, '50']) {
+      assert.equal(isValidOrderPrice(price), false);
+    }
+  });
+});
+
+describe('orderCost', () => {
+  it('rounds up, so the escrow covers a full fill', () => {
+    assert.equal(orderCost(3n, 50), 2n);
+    assert.equal(orderCost(100n, 60), 60n);
+  });
+});
+
+describe('fillStakes', () => {
+  it('adds up to the shares filled, rounding on NO', () => {
+    assert.deepEqual(fillStakes(3n, 50), { yes: 1n, no: 2n });
+    assert.deepEqual(fillStakes(100n, 60), { yes: 60n, no: 40n });
+  });
+});
+
+describe('unspentEscrow', () => {
+  it('is the escrow fills have not taken', () => {
+    assert.equal(unspentEscrow({ escrow: '60', spent: '24' }), 36n);
+  });
+});
+
+describe('crosses', () => {
+  const taker = order({ id: 'taker', side: 'yes', price: 60, wallet_address: ALICE, user_id: 'alice' });
+
+  it('matches opposite sides whose prices reach 100', () => {
+    assert.ok(crosses(taker, order({ id: 'maker', side: 'no', price: 40 })));
+    assert.equal(crosses(taker, order({ id: 'maker', side: 'no', price: 39 })), false);
+    assert.equal(crosses(taker, order({ id: 'maker', side: 'yes', price: 60 })), false);
+  });
+
+  it('never matches orders of the same user', () => {
+    assert.equal(crosses(taker, order({ id: 'maker', side: 'no', price: 40, user_id: 'alice' })), false);
+  });
+
+  it('matches orders of different users paid from the same wallet', () => {
+    assert.ok(crosses(taker, order({ id: 'maker', side: 'no', price: 40, user_id: 'bob', wallet_address: ALICE })));
+  });
+
+  it('skips resting orders that are no longer open', () => {
+    assert.equal(crosses(taker, order({ id: 'maker', side: 'no', price: 40, status: 'cancelled' })), false);
+  });
+});
+
+describe('matchOrder', () => {
+  it('fills the best price first, then the oldest, at the maker price', () => {
+    const taker = order({ id: 'taker', side: 'yes', price: 60, shares: '150', wallet_address: ALICE });
+    const book = [
+      order({ id: 'late', side: 'no', price: 45, created_at: '2026-10-19T00:00:02.000Z' }),
+      order({ id: 'early', side: 'no', price: 45, created_at: '2026-10-19T00:00:01.000Z' }),
+      order({ id: 'best', side: 'no', price: 50, shares: '20' }),
+      order({ id: 'too-low', side: 'no', price: 30 }),
+    ];
+
+    assert.deepEqual(matchOrder(taker, book), [
+      { makerOrderId: 'best', shares: 20n, yesPrice: 50 },
+      { makerOrderId: 'early', shares: 100n, yesPrice: 55 },
+      { makerOrderId: 'late', shares: 30n, yesPrice: 55 },
+    ]);
+  });
+
+  it('leaves the rest of a partly filled order to rest', () => {
+    const taker = order({ id: 'taker', side: 'no', price: 50, shares: '100', wallet_address: ALICE });
+    const maker = order({ id: 'maker', side: 'yes', price: 50, shares: '100', filled_shares: '60' });
+    assert.deepEqual(matchOrder(taker, [maker]), [{ makerOrderId: 'maker', shares: 40n, yesPrice: 50 }]);
+  });
+});
+
+describe('bookDepth', () => {
+  it('sums open shares per price, best first', () => {
+    const depth = bookDepth([
+      order({ id: 'a', side: 'yes', price: 40, shares: '10' }),
+      order({ id: 'b', side: 'yes', price: 45, shares: '10', filled_shares: '4' }),
+      order({ id: 'c', side: 'yes', price: 40, shares: '5' }),
+      order({ id: 'd', side: 'no', price: 50, shares: '10', status: 'filled' }),
+    ]);
+    assert.deepEqual(depth, {
+      yes: [
+        { price: 45, shares: '6', orders: 1 },
+        { price: 40, shares: '15', orders: 2 },
+      ],
+      no: [],
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Limit Order Book
+ *
+ * Next to the LMSR pool, bettors can rest limit orders that buy YES or NO
+ * shares at a price in cents. Every order buys: a YES order at p and a NO
+ * order at q cross when p + q >= 100, since one YES and one NO share are
+ * together worth one unit however the market resolves. A fill of n shares
+ * stakes n units in total, split at the resting (maker) order's price: the
+ * maker pays its limit, the incoming (taker) order the rest of 100 cents,
+ * which is never more than its own limit.
+ *
+ * Matching is price-time priority: the highest-priced opposite order
+ * first, the oldest first among equal prices. Orders of the same user
+ * never match each other; orders of different users do even when they
+ * are paid from the same wallet, as every order is while bets go through
+ * the server-held demo wallet. An order's escrow (see orders.ts) pays its
+ * side of each fill. A fill adds n shares to both sides, which raises the
+ * LMSR cost by exactly the n units it stakes, so the pool's prices stay
+ * where they are (see lmsr.ts).
+ */
+
+import type { MarketOutcome } from './pools';
+import type { DepthLevel, Order, OrderBookDepth } from './types';
+
+// Order fields matching reads
+export type BookOrder = Pick<
+  Order,
+  | 'id'
+  | 'user_id'
+  | 'wallet_address'
+  | 'side'
+  | 'price'
+  | 'shares'
+  | 'filled_shares'
+  | 'escrow'
+  | 'spent'
+  | 'status'
+  | 'created_at'
+>;
+
+export interface PlannedFill {
+  makerOrderId: string;
+  shares: bigint; // Smallest units
+  yesPrice: number; // Cents per YES share, set by the maker
+}
+
+export interface FillStakes {
+  yes: bigint; // Paid by the YES order, smallest units
+  no: bigint;
+}
+
+export const MIN_ORDER_PRICE = 1;
+export const MAX_ORDER_PRICE = 99;
+
+/**
+ * Whether `price` is a whole number of cents an order can rest at
+ */
+export function isValidOrderPrice(price: unknown): price is number {
+  return (
+    typeof price === 'number' &&
+    Number.isInteger(price) &&
+    price >= MIN_ORDER_PRICE &&
+    price <= MAX_ORDER_PRICE
+  );
+}
+
+/**
+ * Shares of an order not yet filled (or reserved by a fill)
+ */
+export function remainingShares(order: Pick<BookOrder, 'shares' | 'filled_shares'>): bigint {
+  return BigInt(order.shares) - BigInt(order.filled_shares);
+}
+
+/**
+ * Escrow of an order that fills have not taken yet
+ */
+export function unspentEscrow(order: Pick<BookOrder, 'escrow' | 'spent'>): bigint {
+  return BigInt(order.escrow) - BigInt(order.spent);
+}
+
+/**
+ * Most an order can cost if it fills completely, in smallest units: the
+ * escrow it is placed with. Fills at a better price cost less.
+ */
+export function orderCost(shares: bigint, price: number): bigint {
+  return (shares * BigInt(price) + 99n) / 100n;
+}
+
+/**
+ * Stakes a fill of `shares` takes from each side at `yesPrice`. They add up
+ * to `shares`; the YES stake is floored, so any rounding falls on NO.
+ */
+export function fillStakes(shares: bigint, yesPrice: number): FillStakes {
+  const yes = (shares * BigInt(yesPrice)) / 100n;
+  return { yes, no: shares - yes };
+}
+
+/**
+ * Whether a resting order fills an incoming one
+ */
+export function crosses(taker: BookOrder, maker: BookOrder): boolean {
+  return (
+    maker.side !== taker.side &&
+    maker.status === 'open' &&
+    taker.price + maker.price >= 100 &&
+    !(taker.user_id && taker.user_id === maker.user_id)
+  );
+}
+
+/**
+ * Resting orders of one side in price-time priority
+ */
+export function sortByPriority<T extends Pick<BookOrder, 'price' | 'created_at'>>(orders: T[]): T[] {
+  return [...orders].sort((a, b) =>
+    a.price !== b.price ? b.price - a.price : a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * Fills of an incoming order against the resting orders in `book`, best
+ * price first, until it is filled or nothing crosses. Partial fills leave
+ * the rest of the incoming order to rest in the book.
+ */
+export function matchOrder(taker: BookOrder, book: BookOrder[]): PlannedFill[] {
+  const fills: PlannedFill[] = [];
+  let remaining = remainingShares(taker);
+
+  for (const maker of sortByPriority(book.filter((order) => crosses(taker, order)))) {
+    if (remaining <= 0n) {
+      break;
+    }
+    const shares = remainingShares(maker) < remaining ? remainingShares(maker) : remaining;
+    if (shares <= 0n) {
+      continue;
+    }
+    fills.push({
+      makerOrderId: maker.id,
+      shares,
+      yesPrice: maker.side === 'yes' ? maker.price : 100 - maker.price,
+    });
+    remaining -= shares;
+  }
+
+  return fills;
+}
+
+/**
+ * Resting shares per price on each side, best price first
+ */
+export function bookDepth(
+  orders: Pick<BookOrder, 'side' | 'price' | 'shares' | 'filled_shares' | 'status'>[]
+): OrderBookDepth {
+  const levels = (side: MarketOutcome): DepthLevel[] => {
+    const byPrice = new Map<number, { shares: bigint; orders: number }>();
+    for (const order of orders) {
+      const remaining = remainingShares(order);
+      if (order.side !== side || order.status !== 'open' || remaining <= 0n) {
+        continue;
+      }
+      const level = byPrice.get(order.price) ?? { shares: 0n, orders: 0 };
+      byPrice.set(order.price, { shares: level.shares + remaining, orders: level.orders + 1 });
+    }
+    return [...byPrice]
+      .sort(([a], [b]) => b - a)
+      .map(([price, level]) => ({ price, shares: level.shares.toString(), orders: level.orders }));
+  };
+
+  return { yes: levels('yes'), no: levels('no') };
+}
@@ -0,0 +1,335 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { NextRequest } from 'next/server';
+import { generatePrivateKey } from 'viem/accounts';
+import { WebSocket } from 'ws';
+import { MockClearNode } from './mock-clearnode';
+import type { MarketStake } from './payouts';
+
+type Row = Record<string, unknown>;
+type OrdersRoute = typeof import('@/app/api/markets/[id]/orders/route');
+
+const SUPABASE_URL = 'http://supabase.test';
+const ASSET = 'ytest.usd';
+const MARKET_ID = randomUUID();
+
+// Access token -> id of the signed-in user it belongs to
+const USERS: Record<string, string> = {
+  alice: randomUUID(),
+  bob: randomUUID(),
+};
+
+class RpcError extends Error {
+  constructor(
+    message: string,
+    readonly code = 'P0001'
+  ) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * In-memory stand-in for the Supabase auth and REST endpoints the orders
+ * route calls, with the order book functions of the migrations
+ */
+class FakeSupabase {
+  tables: Record<string, Row[]> = { markets: [], orders: [], order_fills: [], bets: [] };
+
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+
+    if (url.pathname === '/auth/v1/user') {
+      const token = request.headers.get('authorization')?.replace(/^Bearer /, '') ?? '';
+      return USERS[token] ? json({ id: USERS[token], aud: 'authenticated' }) : json({ message: 'Invalid token' }, 401);
+    }
+
+    const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/(\w+)$/);
+    if (rpc) {
+      try {
+        return json(this.rpc(rpc[1], await request.json()) ?? null);
+      } catch (error) {
+        const { message, code } = error as RpcError;
+        return json({ message, code, details: null, hint: null }, 400);
+      }
+    }
+
+    const table = url.pathname.match(/^\/rest\/v1\/(\w+)$/)?.[1];
+    if (!table || !this.tables[table]) {
+      return json({ message: `Unknown path ${url.pathname}` }, 404);
+    }
+
+    let rows: Row[];
+    if (request.method === 'POST') {
+      const body = await request.json();
+      rows = (Array.isArray(body) ? body : [body]).map((row) => this.insert(table, row));
+    } else {
+      rows = this.tables[table].filter((row) => this.matches(row, url.searchParams));
+      if (request.method === 'PATCH') {
+        const update = await request.json();
+        rows.forEach((row) => Object.assign(row, update));
+      }
+    }
+
+    if (request.method !== 'GET' && !request.headers.get('prefer')?.includes('return=representation')) {
+      return new Response(null, { status: 204 });
+    }
+    if (request.headers.get('accept')?.includes('vnd.pgrst.object')) {
+      return rows.length === 1
+        ? json(rows[0])
+        : json({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }, 406);
+    }
+    return json(rows);
+  };
+
+  private matches(row: Row, params: URLSearchParams): boolean {
+    for (const [column, filter] of params) {
+      if (['select', 'order', 'limit', 'columns'].includes(column)) {
+        continue;
+      }
+      const [op, value] = [filter.slice(0, filter.indexOf('.')), filter.slice(filter.indexOf('.') + 1)];
+      const cell = row[column];
+      const ok =
+        op === 'eq' ? String(cell) === value :
+        op === 'neq' ? String(cell) !== value :
+        op === 'gte' ? Number(cell) >= Number(value) :
+        op === 'is' ? cell === null && value === 'null' :
+        false;
+      if (!ok) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private insert(table: string, values: Row): Row {
+    const now = new Date().toISOString();
+    const defaults: Row =
+      table === 'orders'
+        ? {
+            filled_shares: '0',
+            status: 'open',
+            updated_at: now,
+            cancelled_at: null,
+            escrow: '0',
+            spent: '0',
+            escrow_tx_id: null,
+            refund: null,
+            refund_status: null,
+            refund_tx_id: null,
+            refund_error: null,
+          }
+        : table === 'order_fills'
+          ? { status: 'pending', app_session_version: null, error: null, settled_at: null }
+          : {};
+    const row = { id: randomUUID(), created_at: now, ...defaults, ...values };
+    this.tables[table].push(row);
+    return row;
+  }
+
+  private order(id: unknown): Row {
+    const order = this.tables.orders.find((row) => row.id === id);
+    if (!order) {
+      throw new RpcError(`Order not found: ${id}`);
+    }
+    return order;
+  }
+
+  private fill(id: unknown): Row {
+    const fill = this.tables.order_fills.find((row) => row.id === id && row.status === 'pending');
+    if (!fill) {
+      throw new RpcError(`Fill is not pending: ${id}`);
+    }
+    return fill;
+  }
+
+  private rpc(name: string, args: Row): unknown {
+    const big = (value: unknown) => BigInt(String(value));
+    const stakeOf = (order: Row, fill: Row) => big(order.side === 'yes' ? fill.yes_stake : fill.no_stake);
+
+    switch (name) {
+      case 'reserve_fill': {
+        const taker = this.order(args.p_taker_order_id);
+        const maker = this.order(args.p_maker_order_id);
+        const shares = big(args.p_shares);
+        const stakes = { yes_stake: args.p_yes_stake, no_stake: args.p_no_stake };
+        if (
+          taker.status !== 'open' ||
+          maker.status !== 'open' ||
+          taker.market_id !== maker.market_id ||
+          taker.side === maker.side ||
+          (taker.user_id !== null && taker.user_id === maker.user_id) ||
+          Number(taker.price) + Number(maker.price) < 100 ||
+          [taker, maker].some(
+            (order) =>
+              big(order.shares) - big(order.filled_shares) < shares ||
+              big(order.escrow) - big(order.spent) < stakeOf(order, stakes)
+          )
+        ) {
+          throw new RpcError('Orders no longer match', '40001');
+        }
+
+        for (const order of [taker, maker]) {
+          order.filled_shares = (big(order.filled_shares) + shares).toString();
+          order.spent = (big(order.spent) + stakeOf(order, stakes)).toString();
+          order.status = big(order.filled_shares) >= big(order.shares) ? 'filled' : 'open';
+        }
+        return this.insert('order_fills', {
+          market_id: maker.market_id,
+          taker_order_id: taker.id,
+          maker_order_id: maker.id,
+          shares: args.p_shares,
+          yes_price: maker.side === 'yes' ? maker.price : 100 - Number(maker.price),
+          ...stakes,
+        }).id;
+      }
+
+      case 'settle_fill': {
+        const fill = this.fill(args.p_fill_id);
+        for (const order of [this.order(fill.taker_order_id), this.order(fill.maker_order_id)]) {
+          this.insert('bets', {
+            user_id: order.user_id,
+            wallet_address: order.wallet_address,
+            market_id: fill.market_id,
+            side: order.side,
+            amount: stakeOf(order, fill).toString(),
+            shares: fill.shares,
+            app_session_version: args.p_app_session_version,
+            order_id: order.id,
+          });
+        }
+        Object.assign(fill, { status: 'settled', app_session_version: args.p_app_session_version });
+        return null;
+      }
+
+      case 'release_fill': {
+        const fill = this.fill(args.p_fill_id);
+        for (const order of [this.order(fill.taker_order_id), this.order(fill.maker_order_id)]) {
+          order.filled_shares = (big(order.filled_shares) - big(fill.shares)).toString();
+          order.spent = (big(order.spent) - stakeOf(order, fill)).toString();
+          order.status = order.status === 'filled' ? 'open' : order.status;
+        }
+        Object.assign(fill, { status: 'failed', error: args.p_error });
+        return null;
+      }
+
+      case 'claim_order_refund': {
+        const order = this.order(args.p_order_id);
+        const unspent = big(order.escrow) - big(order.spent);
+        const pending = this.tables.order_fills.some(
+          (fill) => fill.status === 'pending' && [fill.taker_order_id, fill.maker_order_id].includes(order.id)
+        );
+        if (order.status === 'open' || order.refund_status === 'paying' || order.refund_status === 'paid' || pending || unspent <= 0n) {
+          return null;
+        }
+        Object.assign(order, { refund: unspent.toString(), refund_status: 'paying', refund_error: null });
+        return unspent.toString();
+      }
+
+      default:
+        throw new RpcError(`Unknown function ${name}`);
+    }
+  }
+}
+
+describe('POST /api/markets/[id]/orders', () => {
+  const db = new FakeSupabase();
+  const clearNode = new MockClearNode({ port: 0, initialBalance: 1000, quiet: true });
+  let route: OrdersRoute;
+  let shutdown: () => Promise<void>;
+  let sessionStakes: () => Promise<MarketStake[]>;
+
+  before(async () => {
+    const wsUrl = await clearNode.start();
+    Object.assign(process.env, {
+      NEXT_PUBLIC_SUPABASE_URL: SUPABASE_URL,
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+      SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+      NEXT_PUBLIC_YELLOW_WS_URL: wsUrl,
+      YELLOW_USER_PRIVATE_KEY: generatePrivateKey(),
+      YELLOW_ORACLE_PRIVATE_KEY: generatePrivateKey(),
+    });
+    // Supabase clients take the global fetch (and a WebSocket, which Node 20
+    // lacks) when they are created, and the Yellow config reads its ClearNode
+    // URL on import, so both come after this
+    globalThis.fetch = db.fetch;
+    globalThis.WebSocket ??= WebSocket as unknown as typeof globalThis.WebSocket;
+
+    route = await import('@/app/api/markets/[id]/orders/route');
+    const { getOracleService, getYellowService } = await import('./service');
+    const { parseStakes } = await import('./payouts');
+
+    const oracle = getOracleService();
+    const { appSessionId } = await oracle.createMarketSession({
+      marketId: MARKET_ID,
+      question: 'Crossing orders',
+      asset: ASSET,
+    });
+    db.tables.markets.push({ id: MARKET_ID, asset: ASSET, status: 'active', app_session_id: appSessionId });
+
+    sessionStakes = async () => parseStakes((await oracle.getSessionState(appSessionId)).session_data);
+    shutdown = async () => {
+      await getYellowService(process.env.YELLOW_USER_PRIVATE_KEY as `0x${string}`).shutdown();
+      await oracle.shutdown();
+    };
+  });
+
+  after(async () => {
+    await shutdown?.();
+    await clearNode.close();
+  });
+
+  async function postOrder(token: string, side: 'yes' | 'no', price: number, shares: number) {
+    const request = new NextRequest(`http://localhost/api/markets/${MARKET_ID}/orders`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ side, price, shares }),
+    });
+    const response = await route.POST(request, { params: Promise.resolve({ id: MARKET_ID }) });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('fills crossing orders of two users paid from the same wallet', async () => {
+    const maker = await postOrder('alice', 'yes', 60, 10);
+    assert.equal(maker.status, 200);
+    assert.deepEqual(maker.body.fills, []);
+
+    const taker = await postOrder('bob', 'no', 40, 10);
+    assert.equal(taker.status, 200, JSON.stringify(taker.body));
+    assert.equal(taker.body.matchError, undefined);
+    assert.equal(taker.body.order.status, 'filled');
+    assert.deepEqual(
+      taker.body.fills.map(({ makerOrderId, shares, price }: Row) => ({ makerOrderId, shares, price })),
+      [{ makerOrderId: maker.body.order.id, shares: '10', price: 40 }]
+    );
+
+    assert.equal(db.tables.orders.find((order) => order.id === maker.body.order.id)?.status, 'filled');
+    assert.deepEqual(
+      db.tables.bets.map((bet) => [bet.user_id, bet.side]).sort(),
+      [[USERS.alice, 'yes'], [USERS.bob, 'no']].sort()
+    );
+    const stakes = await sessionStakes();
+    assert.deepEqual(
+      stakes.map(({ outcome, amount }) => [outcome, amount]),
+      [['yes', '6000000'], ['no', '4000000']]
+    );
+  });
+
+  it('leaves crossing orders of the same user resting', async () => {
+    const first = await postOrder('alice', 'yes', 55, 5);
+    const second = await postOrder('alice', 'no', 45, 5);
+
+    assert.equal(second.status, 200);
+    assert.deepEqual(second.body.fills, []);
+    assert.equal(second.body.order.status, 'open');
+    assert.equal(db.tables.orders.find((order) => order.id === first.body.order.id)?.status, 'open');
+  });
+});
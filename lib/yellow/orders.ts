@@ -0,0 +1,470 @@
+/**
+ * Limit Orders
+ *
+ * Placing, matching and cancelling orders of the order book (see
+ * order-book.ts for the matching rules). Bettors are not app session
+ * participants, so an order is paid like a bet: placing it transfers its
+ * cost to the oracle as escrow, and the oracle puts each fill's stakes
+ * into the pools from the escrow of its two orders (addStakes). The
+ * oracle signs fills alone, as it does bets, and a fill only moves the
+ * stakes reserve_fill took from the escrow of the orders it fills. Each
+ * fill goes through three steps so two matchers can never fill the same
+ * shares, or spend the same escrow, twice:
+ *
+ *   reserve_fill -> DEPOSIT + OPERATE (oracle wallet) -> settle_fill
+ *                                 \-> release_fill, if the update failed
+ *
+ * Reserving locks both orders and checks they still cross, have the shares
+ * left and the escrow to pay for them; a stale book raises
+ * serialization_failure, and matching reloads the book and carries on.
+ * Once an order is filled or cancelled, the escrow its fills did not spend
+ * (fills at a better price than its limit) is transferred back. Rounding
+ * can leave an order a unit short of its last fill; a resting order is
+ * then cancelled and refunded.
+ */
+
+import { getAddress, type Hex } from 'viem';
+import { createServiceClient } from '@/lib/supabase/server';
+import { fromSmallestUnit } from './assets';
+import { YellowRpcError } from './errors';
+import {
+  fillStakes,
+  matchOrder,
+  remainingShares,
+  unspentEscrow,
+  type PlannedFill,
+} from './order-book';
+import { getOracleService } from './service';
+import type { Logger } from '@/lib/logger';
+import type { PayoutSender } from './market-payouts';
+import type { MarketOutcome } from './pools';
+import type { Order, OrderStatus } from './types';
+import type { Database } from '@/types/database';
+
+type OrderRow = Database['public']['Tables']['orders']['Row'];
+
+// Market columns matching needs
+export interface OrderMarket {
+  id: string;
+  asset: string;
+  app_session_id: string;
+}
+
+export interface SettledFill {
+  id: string;
+  makerOrderId: string;
+  shares: string; // Smallest units
+  yesPrice: number; // Cents per YES share
+  yesStake: string;
+  noStake: string;
+  appSessionVersion: number;
+}
+
+export interface MatchResult {
+  order: Order; // The incoming order after matching
+  fills: SettledFill[];
+  error?: string; // Why matching stopped early, if it did
+}
+
+// Most fills (or book reloads) one incoming order goes through, so a book of
+// dust cannot keep a request busy
+const MAX_ROUNDS = 50;
+
+// serialization_failure, raised by reserve_fill when the book moved
+const BOOK_CHANGED = '40001';
+
+/**
+ * Order from its row in the orders table
+ */
+export function toOrder(row: OrderRow): Order {
+  if (row.side !== 'yes' && row.side !== 'no') {
+    throw new Error(`Invalid order side: ${row.side}`);
+  }
+  if (!['open', 'filled', 'cancelled'].includes(row.status)) {
+    throw new Error(`Invalid order status: ${row.status}`);
+  }
+  return { ...row, side: row.side, status: row.status as OrderStatus };
+}
+
+async function loadOrder(orderId: string): Promise<Order> {
+  const { data, error } = await createServiceClient()
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return toOrder(data);
+}
+
+/**
+ * Open orders resting on the other side of `order`
+ */
+async function loadBook(order: Order): Promise<Order[]> {
+  const { data, error } = await createServiceClient()
+    .from('orders')
+    .select('*')
+    .eq('market_id', order.market_id)
+    .eq('side', order.side === 'yes' ? 'no' : 'yes')
+    .eq('status', 'open')
+    .gte('price', 100 - order.price);
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map(toOrder);
+}
+
+/**
+ * Cancel a resting order whose escrow can no longer pay its side of a fill
+ */
+async function cancelUnfunded(order: Order, log: Logger): Promise<void> {
+  log.warn('Cancelling unfunded order', { orderId: order.id, escrow: unspentEscrow(order) });
+  const now = new Date().toISOString();
+  const { error } = await createServiceClient()
+    .from('orders')
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('id', order.id)
+    .eq('status', 'open');
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Reserve, settle and record one fill. Returns null when the book moved
+ * under it and nothing was filled.
+ */
+async function executeFill(
+  market: OrderMarket,
+  taker: Order,
+  maker: Order,
+  planned: PlannedFill,
+  correlationId: string,
+  log: Logger
+): Promise<SettledFill | null> {
+  const service = createServiceClient();
+  const stakes = fillStakes(planned.shares, planned.yesPrice);
+  const { data: fillId, error: reserveError } = await service.rpc('reserve_fill', {
+    p_taker_order_id: taker.id,
+    p_maker_order_id: maker.id,
+    p_shares: planned.shares.toString(),
+    p_yes_stake: stakes.yes.toString(),
+    p_no_stake: stakes.no.toString(),
+  });
+  if (reserveError) {
+    if (reserveError.code === BOOK_CHANGED) {
+      log.info('Book changed while reserving, reloading', { makerOrderId: maker.id });
+      return null;
+    }
+    throw reserveError;
+  }
+
+  const [yesOrder, noOrder] = taker.side === 'yes' ? [taker, maker] : [maker, taker];
+
+  // Both stakes come out of the escrow the oracle holds
+  let version: number;
+  try {
+    version = await getOracleService().addStakes(
+      market.app_session_id as Hex,
+      market.asset,
+      (stakes.yes + stakes.no).toString(),
+      [
+        {
+          bettor: getAddress(yesOrder.wallet_address),
+          outcome: 'yes',
+          amount: stakes.yes.toString(),
+          shares: planned.shares.toString(),
+        },
+        {
+          bettor: getAddress(noOrder.wallet_address),
+          outcome: 'no',
+          amount: stakes.no.toString(),
+          shares: planned.shares.toString(),
+        },
+      ],
+      { correlationId }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const { error: releaseError } = await service.rpc('release_fill', {
+      p_fill_id: fillId,
+      p_error: message,
+    });
+    if (releaseError) {
+      log.error('Failed to release fill', { fillId, error: releaseError });
+    }
+    throw error;
+  }
+
+  // The stakes have moved; a fill left pending here needs to be recorded by hand
+  const { error: settleError } = await service.rpc('settle_fill', {
+    p_fill_id: fillId,
+    p_volume: Number(fromSmallestUnit(planned.shares, market.asset)),
+    p_app_session_id: market.app_session_id,
+    p_app_session_version: version,
+  });
+  if (settleError) {
+    log.error('Fill settled but failed to record it', { fillId, version, error: settleError });
+    throw settleError;
+  }
+
+  return {
+    id: fillId,
+    makerOrderId: maker.id,
+    shares: planned.shares.toString(),
+    yesPrice: planned.yesPrice,
+    yesStake: stakes.yes.toString(),
+    noStake: stakes.no.toString(),
+    appSessionVersion: version,
+  };
+}
+
+/**
+ * Rest a new order in the book, once its escrow was transferred to the
+ * oracle. Match it right after with matchIncomingOrder.
+ */
+export async function placeOrder(order: {
+  marketId: string;
+  userId: string;
+  walletAddress: string;
+  side: MarketOutcome;
+  price: number;
+  shares: bigint;
+  escrow: bigint;
+  escrowTxId: string;
+}): Promise<Order> {
+  const { data, error } = await createServiceClient()
+    .from('orders')
+    .insert({
+      market_id: order.marketId,
+      user_id: order.userId,
+      wallet_address: getAddress(order.walletAddress),
+      side: order.side,
+      price: order.price,
+      shares: order.shares.toString(),
+      escrow: order.escrow.toString(),
+      escrow_tx_id: order.escrowTxId,
+    })
+    .select()
+    .single();
+  if (error) {
+    throw error;
+  }
+  return toOrder(data);
+}
+
+/**
+ * Match a newly placed order against the book, one fill at a time, until
+ * it is filled or nothing crosses. Resting orders whose escrow cannot pay
+ * their side of a fill are cancelled; when the incoming order's cannot,
+ * matching stops and the rest of the order stays in the book. Orders that
+ * matching filled or cancelled get their unspent escrow back.
+ */
+export async function matchIncomingOrder(
+  market: OrderMarket,
+  orderId: string,
+  correlationId: string,
+  log: Logger
+): Promise<MatchResult> {
+  const fills: SettledFill[] = [];
+  const touched = new Set<string>([orderId]);
+  let taker = await loadOrder(orderId);
+  let matchError: string | undefined;
+
+  for (
+    let round = 0;
+    round < MAX_ROUNDS && taker.status === 'open' && remainingShares(taker) > 0n;
+    round++
+  ) {
+    const book = await loadBook(taker);
+    const [planned] = matchOrder(taker, book);
+    if (!planned) {
+      break;
+    }
+    const maker = book.find((order) => order.id === planned.makerOrderId);
+    if (!maker) {
+      break;
+    }
+
+    const stakes = fillStakes(planned.shares, planned.yesPrice);
+    if (unspentEscrow(taker) < stakes[taker.side]) {
+      matchError = `Insufficient escrow to fill: ${unspentEscrow(taker)} < ${stakes[taker.side]}`;
+      break;
+    }
+    if (unspentEscrow(maker) < stakes[maker.side]) {
+      await cancelUnfunded(maker, log);
+      touched.add(maker.id);
+      continue;
+    }
+
+    try {
+      const fill = await executeFill(market, taker, maker, planned, correlationId, log);
+      if (fill) {
+        fills.push(fill);
+        touched.add(maker.id);
+        log.info('Order filled', { fillId: fill.id, makerOrderId: maker.id, shares: fill.shares });
+      }
+    } catch (error) {
+      matchError = error instanceof Error ? error.message : 'Failed to fill order';
+      break;
+    }
+    taker = await loadOrder(orderId);
+  }
+
+  const oracle = getOracleService();
+  for (const id of touched) {
+    await refundOrder(id, oracle, correlationId, log);
+  }
+
+  return { order: await loadOrder(orderId), fills, ...(matchError && { error: matchError }) };
+}
+
+/**
+ * Transfer the escrow an order that is no longer open did not spend back
+ * to its wallet. Returns false when it is still owed afterwards: the
+ * transfer failed, or one sent earlier got no answer and has to be checked
+ * by hand. Orders with nothing to refund, or a fill still pending, are
+ * left alone.
+ */
+export async function refundOrder(
+  orderId: string,
+  sender: PayoutSender,
+  correlationId: string,
+  log: Logger
+): Promise<boolean> {
+  const service = createServiceClient();
+  const { data: amount, error: claimError } = await service.rpc('claim_order_refund', {
+    p_order_id: orderId,
+  });
+  if (claimError) {
+    throw claimError;
+  }
+  if (!amount) {
+    return true;
+  }
+
+  const order = await loadOrder(orderId);
+  const { data: market, error: marketError } = await service
+    .from('markets')
+    .select('asset')
+    .eq('id', order.market_id)
+    .single();
+  if (marketError) {
+    throw marketError;
+  }
+
+  let transactionId: string;
+  try {
+    transactionId = await sender.transfer(getAddress(order.wallet_address), market.asset, amount, {
+      correlationId,
+    });
+  } catch (transferError) {
+    // Errors before sending and rejections are known not to have moved the
+    // funds; a lost or timed out request may have, so it stays paying
+    if (!(transferError instanceof YellowRpcError) || transferError.serverError) {
+      log.warn('Order refund failed', { orderId, error: transferError });
+      const message = transferError instanceof Error ? transferError.message : String(transferError);
+      const { error: failError } = await service
+        .from('orders')
+        .update({ refund_status: 'failed', refund_error: message })
+        .eq('id', orderId);
+      if (failError) {
+        log.error('Failed to record failed order refund', { orderId, error: failError });
+      }
+    } else {
+      log.error('Order refund outcome unknown, check it by hand', { orderId, error: transferError });
+    }
+    return false;
+  }
+
+  const { error: paidError } = await service
+    .from('orders')
+    .update({ refund_status: 'paid', refund_tx_id: transactionId })
+    .eq('id', orderId);
+  if (paidError) {
+    log.error('Order refund sent but failed to record it', { orderId, transactionId, error: paidError });
+    throw paidError;
+  }
+  log.info('Order escrow refunded', { orderId, amount, transactionId });
+  return true;
+}
+
+/**
+ * Cancel every order still open in a closed market and refund the escrow
+ * of each order its fills did not spend. Throws when any refund is still
+ * owed afterwards, so the step is retried.
+ */
+export async function refundOrders(
+  marketId: string,
+  sender: PayoutSender,
+  correlationId: string,
+  log: Logger
+): Promise<void> {
+  const service = createServiceClient();
+  const now = new Date().toISOString();
+  const { error: cancelError } = await service
+    .from('orders')
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('market_id', marketId)
+    .eq('status', 'open');
+  if (cancelError) {
+    throw cancelError;
+  }
+
+  const { data: orders, error } = await service
+    .from('orders')
+    .select('id, escrow, spent, refund_status')
+    .eq('market_id', marketId)
+    .or('refund_status.is.null,refund_status.neq.paid');
+  if (error) {
+    throw error;
+  }
+
+  let unpaid = 0;
+  for (const order of orders ?? []) {
+    if (unspentEscrow(order) <= 0n) {
+      continue;
+    }
+    if (order.refund_status === 'paying') {
+      log.error('Order refund was sent without a recorded outcome, check it by hand', {
+        orderId: order.id,
+      });
+      unpaid++;
+      continue;
+    }
+    if (!(await refundOrder(order.id, sender, correlationId, log))) {
+      unpaid++;
+    }
+  }
+
+  if (unpaid > 0) {
+    throw new Error(`${unpaid} order refunds of market ${marketId} are not paid yet`);
+  }
+}
+
+/**
+ * Cancel the unfilled rest of a user's open order. Shares already filled,
+ * or reserved by a fill being settled, stay filled. Returns null when the
+ * order is not theirs or no longer open.
+ */
+export async function cancelOrder(
+  marketId: string,
+  orderId: string,
+  userId: string
+): Promise<Order | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await createServiceClient()
+    .from('orders')
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('id', orderId)
+    .eq('market_id', marketId)
+    .eq('user_id', userId)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? toOrder(data) : null;
+}
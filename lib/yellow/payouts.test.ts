@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Address } from 'viem';
+import { NO_SHARES, quoteShares } from './lmsr';
+import { refundMarket, settleMarket, type MarketStake } from './payouts';
+import type { Allocation } from './types';
+
+const ASSET = 'usdc';
+const YES_POOL = '0x00000000000000000000000000000000000000a1';
+const NO_POOL = '0x00000000000000000000000000000000000000a2';
+const ORACLE = '0x00000000000000000000000000000000000000a3';
+const ALICE = '0x0000000000000000000000000000000000000001' as Address;
+const BOB = '0x0000000000000000000000000000000000000002' as Address;
+const CAROL = '0x0000000000000000000000000000000000000003' as Address;
+const LIQUIDITY = 100_000_000n;
+
+/**
+ * Session state whose pools hold exactly the stakes in `stakes`, and whose
+ * oracle holds `oracleBalance` of its own (fees)
+ */
+function sessionState(stakes: MarketStake[], oracleBalance = 0n) {
+  const pool = (outcome: 'yes' | 'no') =>
+    stakes
+      .filter((stake) => stake.outcome === outcome)
+      .reduce((sum, stake) => sum + BigInt(stake.amount), 0n)
+      .toString();
+  const allocations: Allocation[] = [
+    { participant: YES_POOL, asset: ASSET, amount: pool('yes') },
+    { participant: NO_POOL, asset: ASSET, amount: pool('no') },
+    { participant: ORACLE, asset: ASSET, amount: oracleBalance.toString() },
+  ];
+  return {
+    participants: [YES_POOL, NO_POOL, ORACLE],
+    allocations,
+    session_data: JSON.stringify({ stakes }),
+  };
+}
+
+function payoutsOf(settlement: ReturnType<typeof settleMarket>): Record<string, bigint> {
+  return Object.fromEntries(settlement.payouts.map(({ bettor, payout }) => [bettor, payout]));
+}
+
+describe('settleMarket', () => {
+  it('pays one unit per winning share and leaves the rest of the pot to the oracle', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '300', shares: '450' },
+        { bettor: CAROL, outcome: 'yes', amount: '100', shares: '120' },
+        { bettor: BOB, outcome: 'no', amount: '400', shares: '500' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    assert.equal(settlement.pot, 800n);
+    assert.equal(settlement.kept, 230n);
+    assert.equal(settlement.refunded, false);
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 450n, [CAROL]: 120n });
+  });
+
+  it('pays a dear share the same as a cheap one', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '50', shares: '100' },
+        { bettor: CAROL, outcome: 'yes', amount: '80', shares: '100' },
+        { bettor: BOB, outcome: 'no', amount: '100', shares: '150' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 100n, [CAROL]: 100n });
+  });
+
+  it('splits a pot short of the winning shares pro rata to them, dust to the lowest address', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: CAROL, outcome: 'yes', amount: '1', shares: '5' },
+        { bettor: ALICE, outcome: 'yes', amount: '1', shares: '5' },
+        { bettor: BOB, outcome: 'yes', amount: '1', shares: '5' },
+        { bettor: BOB, outcome: 'no', amount: '7', shares: '9' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    assert.equal(settlement.kept, 0n);
+    assert.equal(settlement.dust, 1n);
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 4n, [BOB]: 3n, [CAROL]: 3n });
+    const paid = settlement.payouts.reduce((sum, { payout }) => sum + payout, 0n);
+    assert.equal(paid, settlement.pot);
+  });
+
+  it('moves the pot to the oracle, next to what it already holds', () => {
+    const settlement = settleMarket(
+      sessionState(
+        [
+          { bettor: ALICE, outcome: 'yes', amount: '50', shares: '70' },
+          { bettor: BOB, outcome: 'no', amount: '30', shares: '60' },
+        ],
+        5n
+      ),
+      'no',
+      ASSET,
+      LIQUIDITY
+    );
+
+    const amounts = Object.fromEntries(settlement.allocations.map((a) => [a.participant, a.amount]));
+    assert.deepEqual(amounts, { [YES_POOL]: '0', [NO_POOL]: '0', [ORACLE]: '85' });
+    assert.deepEqual(payoutsOf(settlement), { [BOB]: 60n });
+  });
+
+  it('returns every stake when nobody holds a winning share', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'no', amount: '20', shares: '25' },
+        { bettor: BOB, outcome: 'no', amount: '30', shares: '35' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    assert.equal(settlement.refunded, true);
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 20n, [BOB]: 30n });
+  });
+
+  it('pays winners on the shares they still hold after cash-outs', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '100', shares: '150' },
+        { bettor: ALICE, outcome: 'yes', amount: '-60', shares: '100' },
+        { bettor: CAROL, outcome: 'yes', amount: '50', shares: '70' },
+        { bettor: BOB, outcome: 'no', amount: '100', shares: '120' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 50n, [CAROL]: 70n });
+    assert.equal(settlement.kept, 70n);
+  });
+
+  it('replays stakes recorded without their shares', () => {
+    const settlement = settleMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '30' },
+        { bettor: BOB, outcome: 'no', amount: '1000' },
+      ]),
+      'yes',
+      ASSET,
+      LIQUIDITY
+    );
+
+    const { shares } = quoteShares(NO_SHARES, LIQUIDITY, 'yes', 30n);
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: shares });
+  });
+
+  it('refuses a ledger that does not add up to the pools', () => {
+    const state = sessionState([{ bettor: ALICE, outcome: 'yes', amount: '100', shares: '150' }]);
+    state.allocations[0].amount = '90';
+    assert.throws(() => settleMarket(state, 'yes', ASSET, LIQUIDITY), /does not match the YES pool/);
+  });
+});
+
+describe('refundMarket', () => {
+  it('gives every bettor back their net stake on both sides', () => {
+    const settlement = refundMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '20' },
+        { bettor: BOB, outcome: 'no', amount: '50' },
+        { bettor: BOB, outcome: 'yes', amount: '10' },
+        { bettor: BOB, outcome: 'no', amount: '-20', shares: '25' },
+      ]),
+      ASSET
+    );
+
+    assert.equal(settlement.refunded, true);
+    assert.equal(settlement.pot, 60n);
+    assert.deepEqual(payoutsOf(settlement), { [ALICE]: 20n, [BOB]: 40n });
+  });
+
+  it('splits a pot short of the stakes pro rata to them', () => {
+    // Alice cashed out for more than they staked, so the pot is 10 short
+    const settlement = refundMarket(
+      sessionState([
+        { bettor: ALICE, outcome: 'yes', amount: '30', shares: '40' },
+        { bettor: ALICE, outcome: 'yes', amount: '-40', shares: '40' },
+        { bettor: BOB, outcome: 'yes', amount: '60', shares: '60' },
+        { bettor: CAROL, outcome: 'no', amount: '40', shares: '50' },
+      ]),
+      ASSET
+    );
+
+    assert.equal(settlement.pot, 90n);
+    assert.deepEqual(payoutsOf(settlement), { [BOB]: 54n, [CAROL]: 36n });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Market Settlement
+ *
+ * Bettor stakes are recorded in the app session's session_data, one entry
+ * per bet, so the session carries the ledger its pool balances come from.
+ * A cash-out is an entry with a negative amount: what the pool paid the
+ * bettor for the shares they sold. At close every LMSR share on the winning
+ * outcome is paid one unit from the pot (both pool balances), as the
+ * prices and cash-outs assume (see lmsr.ts). When the pot is short of the
+ * winning shares it is split pro rata to them instead; what is left once
+ * they are paid stays with the oracle, like the fees. A cancelled market
+ * returns each bettor's net stake instead; bettors whose net stake is not
+ * positive (they cashed out everything, or more than they put in) get
+ * nothing more.
+ *
+ * Only participants can hold funds in an app session and bettors are not
+ * among them, so the session closes with the pools at zero and the pot in
+ * the oracle's allocation; the oracle then transfers each payout to its
+ * bettor (see market-payouts.ts).
+ */
+
+import { getAddress, type Address } from 'viem';
+import { sumByAsset } from './allocations';
+import { ledgerShares, lmsrPrices, replayStakes, type MarketPrices } from './lmsr';
+import { getSessionOracle, getSessionPools, type MarketOutcome, type MarketPools } from './pools';
+import type { Allocation, AppSessionState } from './types';
+
+export interface MarketStake {
+  bettor: Address;
+  outcome: MarketOutcome;
+  amount: string; // Smallest units, negative for a cash-out
+  shares?: string; // Shares bought, on bets and order fills; shares sold, on cash-outs
+}
+
+export interface BettorPayout {
+  bettor: Address;
+  stake: bigint; // What the payout is computed from: winning shares held, or the net stake refunded
+  payout: bigint; // Share of the pot, dust included
+}
+
+export interface MarketSettlement {
+  allocations: Allocation[]; // Final allocations for close_app_session: the pot moved to the oracle
+  payouts: BettorPayout[]; // Transferred by the oracle once the session is closed
+  pot: bigint;
+  dust: bigint; // Units left over by flooring the pro-rata shares
+  kept: bigint; // Pot left once every winning share is paid, kept by the oracle
+  refunded: boolean; // Cancelled or nobody backed the winner, so every stake was returned
+}
+
+interface StakeLedger {
+  stakes: MarketStake[];
+}
+
+type SettlementState = Pick<AppSessionState, 'allocations' | 'participants' | 'session_data'>;
+
+// ============================================================================
+// Stake Ledger
+// ============================================================================
+
+/**
+ * Stakes recorded in an app session's session_data
+ */
+export function parseStakes(sessionData: string | undefined): MarketStake[] {
+  if (!sessionData) {
+    return [];
+  }
+
+  let ledger: Partial<StakeLedger>;
+  try {
+    ledger = JSON.parse(sessionData);
+  } catch {
+    throw new Error('App session data is not a stake ledger');
+  }
+
+  return (ledger.stakes ?? []).map((stake) => {
+    if (stake.outcome !== 'yes' && stake.outcome !== 'no') {
+      throw new Error(`Invalid stake outcome: ${stake.outcome}`);
+    }
+    if (typeof stake.amount !== 'string' || !/^-?\d+$/.test(stake.amount)) {
+      throw new Error(`Invalid stake amount for ${stake.bettor}: ${stake.amount}`);
+    }
+    if (stake.amount.startsWith('-') || stake.shares !== undefined) {
+      if (typeof stake.shares !== 'string' || !/^\d+$/.test(stake.shares)) {
+        throw new Error(`Invalid shares for ${stake.bettor}: ${stake.shares}`);
+      }
+      return {
+        bettor: getAddress(stake.bettor),
+        outcome: stake.outcome,
+        amount: stake.amount,
+        shares: stake.shares,
+      };
+    }
+    return { bettor: getAddress(stake.bettor), outcome: stake.outcome, amount: stake.amount };
+  });
+}
+
+/**
+ * session_data with one more stake appended
+ */
+export function appendStake(sessionData: string | undefined, stake: MarketStake): string {
+  const ledger: StakeLedger = { stakes: [...parseStakes(sessionData), stake] };
+  return JSON.stringify(ledger);
+}
+
+/**
+ * Prices of an app session, replayed from the stake ledger in its
+ * session_data. Sessions without a ledger price at 50/50.
+ */
+export function sessionPrices(sessionData: string | undefined, liquidity: bigint): MarketPrices {
+  let stakes: MarketStake[];
+  try {
+    stakes = parseStakes(sessionData);
+  } catch {
+    stakes = [];
+  }
+  return lmsrPrices(replayStakes(stakes, liquidity), liquidity);
+}
+
+// ============================================================================
+// Settlement
+// ============================================================================
+
+function amountOf(allocations: Allocation[], participant: string, asset: string): bigint {
+  return allocations
+    .filter((a) => a.participant.toLowerCase() === participant.toLowerCase() && a.asset === asset)
+    .reduce((sum, a) => sum + BigInt(a.amount || '0'), 0n);
+}
+
+function totalStakes(stakes: MarketStake[], outcome: MarketOutcome): bigint {
+  return stakes
+    .filter((stake) => stake.outcome === outcome)
+    .reduce((sum, stake) => sum + BigInt(stake.amount), 0n);
+}
+
+/**
+ * Net stakes on the given outcomes summed per bettor, leaving out bettors
+ * whose net stake is not positive
+ */
+function stakesByBettor(stakes: MarketStake[], outcomes: MarketOutcome[]): Map<Address, bigint> {
+  const byBettor = new Map<Address, bigint>();
+  for (const stake of stakes) {
+    if (outcomes.includes(stake.outcome)) {
+      byBettor.set(stake.bettor, (byBettor.get(stake.bettor) ?? 0n) + BigInt(stake.amount));
+    }
+  }
+  for (const [bettor, amount] of byBettor) {
+    if (amount <= 0n) {
+      byBettor.delete(bettor);
+    }
+  }
+  return byBettor;
+}
+
+/**
+ * Shares each bettor holds on `outcome` once the ledger is replayed with
+ * liquidity b, leaving out bettors who hold none
+ */
+function sharesByBettor(
+  stakes: MarketStake[],
+  outcome: MarketOutcome,
+  liquidity: bigint
+): Map<Address, bigint> {
+  const added = ledgerShares(stakes, liquidity);
+  const byBettor = new Map<Address, bigint>();
+  stakes.forEach((stake, i) => {
+    if (stake.outcome === outcome) {
+      byBettor.set(stake.bettor, (byBettor.get(stake.bettor) ?? 0n) + added[i]);
+    }
+  });
+  for (const [bettor, shares] of byBettor) {
+    if (shares <= 0n) {
+      byBettor.delete(bettor);
+    }
+  }
+  return byBettor;
+}
+
+/**
+ * Split `pot` pro rata to `shares`. Shares are floored; the dust left over
+ * goes one unit at a time to the largest fractional remainders, ties broken
+ * by lowest address, so the split is the same on every run.
+ */
+function splitProRata(
+  pot: bigint,
+  shares: Map<Address, bigint>
+): { payouts: BettorPayout[]; dust: bigint } {
+  const total = [...shares.values()].reduce((sum, share) => sum + share, 0n);
+
+  const payouts = [...shares].map(([bettor, stake]) => ({
+    bettor,
+    stake,
+    payout: (pot * stake) / total,
+    remainder: (pot * stake) % total,
+  }));
+
+  const dust = pot - payouts.reduce((sum, p) => sum + p.payout, 0n);
+  const byRemainder = [...payouts].sort((a, b) =>
+    a.remainder !== b.remainder
+      ? a.remainder > b.remainder ? -1 : 1
+      : a.bettor.toLowerCase().localeCompare(b.bettor.toLowerCase())
+  );
+  // dust < number of bettors, since each floored share loses less than one unit
+  for (let i = 0n; i < dust; i++) {
+    byRemainder[Number(i)].payout += 1n;
+  }
+
+  return {
+    payouts: payouts.map(({ bettor, stake, payout }) => ({ bettor, stake, payout })),
+    dust,
+  };
+}
+
+/**
+ * Every bettor's net stake on both outcomes, paid back as it was. When
+ * someone cashed out for more than they staked the pot is short of the
+ * stakes, and it is split pro rata to them instead.
+ */
+function refundStakes(
+  stakes: MarketStake[],
+  pot: bigint
+): { payouts: BettorPayout[]; dust: bigint } {
+  const allStakes = stakesByBettor(stakes, ['yes', 'no']);
+  const total = [...allStakes.values()].reduce((sum, stake) => sum + stake, 0n);
+  if (total === pot || total === 0n) {
+    return {
+      payouts: [...allStakes].map(([bettor, stake]) => ({ bettor, stake, payout: stake })),
+      dust: 0n,
+    };
+  }
+  return splitProRata(pot, allStakes);
+}
+
+/**
+ * Pools and stakes of a session, checked against each other: the stake
+ * ledger must add up to each pool's balance
+ */
+function loadLedger(
+  state: SettlementState,
+  asset: string
+): { pools: MarketPools; stakes: MarketStake[]; pot: bigint } {
+  const pools = getSessionPools(state.participants);
+  if (!pools) {
+    throw new Error('App session has no market pools');
+  }
+
+  const stakes = parseStakes(state.session_data);
+  for (const outcome of ['yes', 'no'] as const) {
+    const poolBalance = amountOf(state.allocations, pools[outcome], asset);
+    const staked = totalStakes(stakes, outcome);
+    if (poolBalance !== staked) {
+      throw new Error(
+        `Stake ledger does not match the ${outcome.toUpperCase()} pool: ${staked} staked, ${poolBalance} in pool`
+      );
+    }
+  }
+
+  const pot = amountOf(state.allocations, pools.yes, asset) + amountOf(state.allocations, pools.no, asset);
+  return { pools, stakes, pot };
+}
+
+/**
+ * Final allocations of a market: the pools empty out into the oracle's
+ * allocation, which pays the bettors from it, and every other participant
+ * keeps its balance. Throws when they do not add up to what the session
+ * holds.
+ */
+function finalAllocations(
+  state: SettlementState,
+  pools: MarketPools,
+  asset: string,
+  pot: bigint
+): Allocation[] {
+  const oracle = getSessionOracle(state.participants);
+  if (!oracle) {
+    throw new Error('App session has no oracle participant');
+  }
+
+  const isPool = (participant: string) =>
+    [pools.yes, pools.no].some((pool) => pool.toLowerCase() === participant.toLowerCase());
+  const allocations: Allocation[] = state.allocations.map((alloc) => ({
+    ...alloc,
+    amount: alloc.asset === asset && isPool(alloc.participant) ? '0' : alloc.amount,
+  }));
+
+  const oracleAllocation = allocations.find(
+    (alloc) => alloc.participant.toLowerCase() === oracle.toLowerCase() && alloc.asset === asset
+  );
+  if (oracleAllocation) {
+    oracleAllocation.amount = (BigInt(oracleAllocation.amount || '0') + pot).toString();
+  } else {
+    allocations.push({ participant: oracle, asset, amount: pot.toString() });
+  }
+
+  const before = sumByAsset(state.allocations);
+  const after = sumByAsset(allocations);
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    if ((before.get(id) ?? 0n) !== (after.get(id) ?? 0n)) {
+      throw new Error(
+        `Settlement does not add up for ${id}: ${after.get(id) ?? 0n} allocated, ${before.get(id) ?? 0n} held`
+      );
+    }
+  }
+
+  return allocations;
+}
+
+/**
+ * One unit per winning share, or the pot split pro rata to the shares when
+ * it cannot pay them all
+ */
+function payShares(
+  pot: bigint,
+  shares: Map<Address, bigint>
+): { payouts: BettorPayout[]; dust: bigint; kept: bigint } {
+  const total = [...shares.values()].reduce((sum, held) => sum + held, 0n);
+  if (total > pot) {
+    return { ...splitProRata(pot, shares), kept: 0n };
+  }
+  return {
+    payouts: [...shares].map(([bettor, held]) => ({ bettor, stake: held, payout: held })),
+    dust: 0n,
+    kept: pot - total,
+  };
+}
+
+/**
+ * Settlement of a resolved market: every share on the winner is paid one
+ * unit from the pot, capped by the pot, by the oracle after the session
+ * closes with the pools at zero. Shares are replayed from the stake ledger
+ * with the market's liquidity b (smallest units), which only matters for
+ * stakes recorded without their shares. If nobody holds a winning share,
+ * every bettor gets their stakes back.
+ *
+ * Throws when the stake ledger does not add up to the pool balances, or
+ * when the final allocations do not add up to what the session holds.
+ */
+export function settleMarket(
+  state: SettlementState,
+  winner: MarketOutcome,
+  asset: string,
+  liquidity: bigint
+): MarketSettlement {
+  const { pools, stakes, pot } = loadLedger(state, asset);
+  const winningShares = sharesByBettor(stakes, winner, liquidity);
+  const refunded = winningShares.size === 0;
+
+  const { payouts, dust, kept } = refunded
+    ? { ...refundStakes(stakes, pot), kept: 0n }
+    : payShares(pot, winningShares);
+
+  const allocations = finalAllocations(state, pools, asset, pot);
+  return { allocations, payouts, pot, dust, kept, refunded };
+}
+
+/**
+ * Settlement of a cancelled market: every bettor gets back exactly what
+ * they staked on either outcome, net of what they cashed out. Same checks
+ * as settleMarket.
+ */
+export function refundMarket(state: SettlementState, asset: string): MarketSettlement {
+  const { pools, stakes, pot } = loadLedger(state, asset);
+  const { payouts, dust } = refundStakes(stakes, pot);
+
+  const allocations = finalAllocations(state, pools, asset, pot);
+  return { allocations, payouts, pot, dust, kept: 0n, refunded: true };
+}
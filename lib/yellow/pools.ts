@@ -0,0 +1,79 @@
+/**
+ * Market Pool Participants
+ *
+ * Every market gets its own YES and NO pool participants, derived from
+ * the market id so they are unique per market and can be recomputed.
+ * App session participants are always ordered [YES pool, NO pool, oracle].
+ */
+
+import { getAddress, keccak256, slice, stringToHex, type Address } from 'viem';
+import { YELLOW_CONFIG } from './config';
+import type { PredictionMarket } from './types';
+
+export type MarketOutcome = 'yes' | 'no';
+
+export interface MarketPools {
+  yes: Address;
+  no: Address;
+}
+
+// Pool columns of a market row; older rows may not have them filled in
+type MarketPoolFields = Pick<PredictionMarket, 'id'> & {
+  pool_yes_address?: string | null;
+  pool_no_address?: string | null;
+};
+
+/**
+ * Deterministic pool address for one outcome of a market: the last
+ * 20 bytes of keccak256("<application>:<marketId>:<outcome>")
+ */
+export function derivePoolAddress(marketId: string, outcome: MarketOutcome): Address {
+  const hash = keccak256(stringToHex(`${YELLOW_CONFIG.APPLICATION_NAME}:${marketId}:${outcome}`));
+  return getAddress(slice(hash, 12));
+}
+
+export function derivePoolAddresses(marketId: string): MarketPools {
+  return {
+    yes: derivePoolAddress(marketId, 'yes'),
+    no: derivePoolAddress(marketId, 'no'),
+  };
+}
+
+/**
+ * Pool addresses stored on a market row, derived from its id when missing
+ */
+export function getMarketPools(market: MarketPoolFields): MarketPools {
+  const derived = derivePoolAddresses(market.id);
+  return {
+    yes: market.pool_yes_address ? getAddress(market.pool_yes_address) : derived.yes,
+    no: market.pool_no_address ? getAddress(market.pool_no_address) : derived.no,
+  };
+}
+
+/**
+ * App session participants for a market, in the order the oracle-weighted
+ * definition expects
+ */
+export function buildMarketParticipants(pools: MarketPools, oracleAddress: Address): Address[] {
+  return [pools.yes, pools.no, oracleAddress];
+}
+
+/**
+ * Read the oracle back from an app session's participant list
+ */
+export function getSessionOracle(participants: string[] | undefined): Address | null {
+  if (!participants || participants.length < 3) {
+    return null;
+  }
+  return getAddress(participants[2]);
+}
+
+/**
+ * Read the pools back from an app session's participant list
+ */
+export function getSessionPools(participants: string[] | undefined): MarketPools | null {
+  if (!participants || participants.length < 2) {
+    return null;
+  }
+  return { yes: getAddress(participants[0]), no: getAddress(participants[1]) };
+}
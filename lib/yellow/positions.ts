@@ -0,0 +1,173 @@
+/**
+ * User Positions
+ *
+ * A position is what one wallet has staked in one market and the shares it
+ * holds, summed over its rows in the bets table (sales are negative rows),
+ * with what cashing out would pay now and what it would be paid if either
+ * outcome won now (a unit per share, capped by the pot, as settleMarket
+ * pays out). Shares held carry an average-cost basis, which sales are measured
+ * against for their realized PnL.
+ */
+
+import { getAddress } from 'viem';
+import { supabase } from '@/lib/supabase/client';
+import { DEFAULT_ASSET_ID } from './assets';
+import { marketLiquidity, marketShares, netOfFee, payoutIfWins, quoteSale } from './lmsr';
+import type { MarketOutcome } from './pools';
+import type { UserPosition } from './types';
+import type { Database } from '@/types/database';
+
+type BetRow = Database['public']['Tables']['bets']['Row'];
+
+// Market columns a position is valued from
+export interface PositionMarket {
+  asset: string;
+  liquidity: number | null;
+  yes_amount: string | null;
+  no_amount: string | null;
+  yes_shares: string | null;
+  no_shares: string | null;
+}
+
+export interface PositionFilter {
+  walletAddress?: string;
+  userId?: string;
+  marketId?: string;
+}
+
+// One side of a position while its bets are replayed
+interface SideHolding {
+  stake: bigint; // Net of cash-outs
+  shares: bigint;
+  cost: bigint; // Cost basis of `shares`
+}
+
+const EMPTY_HOLDING: SideHolding = { stake: 0n, shares: 0n, cost: 0n };
+
+/**
+ * Cost basis of `sold` of the shares in a holding, at average cost
+ */
+export function costOfShares(holding: { shares: bigint; cost: bigint }, sold: bigint): bigint {
+  return holding.shares > 0n ? (holding.cost * sold) / holding.shares : 0n;
+}
+
+/**
+ * A holding after one more bet, or sale (negative amount and shares). A
+ * bet's fee is part of what its shares cost but never reached the pool.
+ */
+function applyBet(holding: SideHolding, amount: bigint, fee: bigint, shares: bigint): SideHolding {
+  const cost = shares >= 0n ? amount + fee : -costOfShares(holding, -shares);
+  return {
+    stake: holding.stake + amount,
+    shares: holding.shares + shares,
+    cost: holding.cost + cost,
+  };
+}
+
+/**
+ * What selling `shares` of `outcome` back to the market pays now, fee taken
+ */
+function cashOutValue(market: PositionMarket, outcome: MarketOutcome, shares: bigint): bigint {
+  if (shares <= 0n) {
+    return 0n;
+  }
+  const liquidity = marketLiquidity(market.liquidity, market.asset);
+  const { proceeds } = quoteSale(marketShares(market), liquidity, outcome, shares);
+  return netOfFee(proceeds);
+}
+
+/**
+ * Sum bets into one position per wallet and market
+ */
+export function aggregatePositions(
+  bets: BetRow[],
+  markets: Map<string, PositionMarket>
+): UserPosition[] {
+  const positions = new Map<
+    string,
+    { rows: BetRow[]; yes: SideHolding; no: SideHolding; realized: bigint }
+  >();
+
+  const chronological = [...bets].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const bet of chronological) {
+    const key = `${bet.market_id}:${bet.wallet_address.toLowerCase()}`;
+    const position = positions.get(key) ?? {
+      rows: [],
+      yes: EMPTY_HOLDING,
+      no: EMPTY_HOLDING,
+      realized: 0n,
+    };
+    const side: MarketOutcome = bet.side === 'yes' ? 'yes' : 'no';
+    position.rows.push(bet);
+    position[side] = applyBet(position[side], BigInt(bet.amount), BigInt(bet.fee), BigInt(bet.shares));
+    position.realized += BigInt(bet.realized_pnl ?? '0');
+    positions.set(key, position);
+  }
+
+  return [...positions.values()].map(({ rows, yes, no, realized }) => {
+    const first = rows[0];
+    const market = markets.get(first.market_id);
+    const pot = BigInt(market?.yes_amount || '0') + BigInt(market?.no_amount || '0');
+    const outstanding = market ? marketShares(market) : { yes: 0n, no: 0n };
+
+    return {
+      market_id: first.market_id,
+      wallet_address: first.wallet_address,
+      user_id: rows.find((row) => row.user_id)?.user_id ?? null,
+      asset: market?.asset ?? DEFAULT_ASSET_ID,
+      yes_amount: yes.stake.toString(),
+      no_amount: no.stake.toString(),
+      yes_shares: yes.shares.toString(),
+      no_shares: no.shares.toString(),
+      yes_cost: yes.cost.toString(),
+      no_cost: no.cost.toString(),
+      yes_value: (market ? cashOutValue(market, 'yes', yes.shares) : 0n).toString(),
+      no_value: (market ? cashOutValue(market, 'no', no.shares) : 0n).toString(),
+      realized_pnl: realized.toString(),
+      bets: rows.length,
+      payout_if_yes: payoutIfWins(yes.shares, outstanding.yes, pot).toString(),
+      payout_if_no: payoutIfWins(no.shares, outstanding.no, pot).toString(),
+      first_bet_at: first.created_at,
+      last_bet_at: rows[rows.length - 1].created_at,
+    };
+  });
+}
+
+/**
+ * Positions matching `filter`, from the confirmed bets
+ */
+export async function getPositions(filter: PositionFilter): Promise<UserPosition[]> {
+  let query = supabase
+    .from('bets')
+    .select('*')
+    .eq('status', 'confirmed')
+    .order('created_at', { ascending: true });
+  if (filter.walletAddress) {
+    query = query.eq('wallet_address', getAddress(filter.walletAddress));
+  }
+  if (filter.userId) {
+    query = query.eq('user_id', filter.userId);
+  }
+  if (filter.marketId) {
+    query = query.eq('market_id', filter.marketId);
+  }
+
+  const { data: bets, error } = await query;
+  if (error) {
+    throw error;
+  }
+  if (!bets || bets.length === 0) {
+    return [];
+  }
+
+  const { data: markets, error: marketsError } = await supabase
+    .from('markets')
+    .select('id, asset, liquidity, yes_amount, no_amount, yes_shares, no_shares')
+    .in('id', [...new Set(bets.map((bet) => bet.market_id))]);
+  if (marketsError) {
+    throw marketsError;
+  }
+
+  const byId = new Map((markets ?? []).map((market) => [market.id, market]));
+  return aggregatePositions(bets, byId);
+}
@@ -0,0 +1,74 @@
+/**
+ * Bet Quotes
+ *
+ * What a stake would get before it is placed: the LMSR shares it buys, the
+ * average and post-trade price, the fee, how far the bet moves the price
+ * against itself (slippage) and what settlement would pay it if its side
+ * won at the current pool sizes. The bet route prices with the same
+ * functions, so a quote matches the bet as long as no other bet lands in
+ * between.
+ */
+
+import {
+  betFee,
+  marketLiquidity,
+  marketShares,
+  netOfFee,
+  payoutIfWins,
+  quoteShares,
+  lmsrPrices,
+} from './lmsr';
+import type { MarketOutcome } from './pools';
+
+// Market columns a quote is computed from
+export interface QuotableMarket {
+  asset: string;
+  liquidity: number | null;
+  yes_shares: string | null;
+  no_shares: string | null;
+  yes_amount: string | null;
+  no_amount: string | null;
+}
+
+export interface BetQuote {
+  outcome: MarketOutcome;
+  stake: bigint; // Smallest units, fee included
+  fee: bigint; // Kept by the oracle; the rest of the stake goes to the pool
+  shares: bigint;
+  price: number; // Percent, the side's price before the bet
+  averagePrice: number; // Percent paid per share, fee excluded
+  postPrice: number; // Percent, the side's price after the bet
+  slippage: number; // Percent the average price is above `price`
+  payout: bigint; // What the shares are paid if the side wins now, a unit each capped by the pot
+}
+
+/**
+ * Quote a stake on `outcome`. Throws when it is too small to buy a share.
+ */
+export function quoteBet(market: QuotableMarket, outcome: MarketOutcome, stake: bigint): BetQuote {
+  const liquidity = marketLiquidity(market.liquidity, market.asset);
+  const shares = marketShares(market);
+  const fee = betFee(stake);
+
+  const poolStake = netOfFee(stake);
+
+  const price = lmsrPrices(shares, liquidity)[outcome === 'yes' ? 'yesPrice' : 'noPrice'];
+  const quote = quoteShares(shares, liquidity, outcome, poolStake);
+  const postPrice = outcome === 'yes' ? quote.yesPrice : quote.noPrice;
+
+  // Settlement pays each winning share a unit from the pools, which never hold the fees
+  const pot = BigInt(market.yes_amount || '0') + BigInt(market.no_amount || '0') + poolStake;
+  const outstanding = shares[outcome] + quote.shares;
+
+  return {
+    outcome,
+    stake,
+    fee,
+    shares: quote.shares,
+    price,
+    averagePrice: quote.averagePrice,
+    postPrice,
+    slippage: price > 0 ? Math.round(((quote.averagePrice - price) / price) * 10_000) / 100 : 0,
+    payout: payoutIfWins(quote.shares, outstanding, pot),
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveMetric } from './resolvers';
+import { MarketType } from './types';
+import type { MetricSnapshot } from './sampler';
+
+const STREAM = '2026-10-19T10:00:00.000Z';
+
+function snapshot(sampledAt: string, fields: Partial<MetricSnapshot> = {}): MetricSnapshot {
+  return {
+    sampledAt,
+    live: true,
+    viewerCount: 0,
+    followerCount: 0,
+    gameName: 'Just Chatting',
+    title: null,
+    streamStartedAt: STREAM,
+    ...fields,
+  };
+}
+
+describe('REACH_FOLLOWER_COUNT', () => {
+  it('counts a target reached once, even if followers drop after', () => {
+    const result = resolveMetric(
+      MarketType.REACH_FOLLOWER_COUNT,
+      [
+        snapshot('2026-10-19T11:00:00.000Z', { followerCount: 990 }),
+        snapshot('2026-10-19T12:00:00.000Z', { followerCount: 1_000 }),
+        snapshot('2026-10-19T13:00:00.000Z', { followerCount: 995 }),
+      ],
+      { target_value: 1_000 }
+    );
+    assert.deepEqual(result, { value: 1_000, samples: 3, yes: true });
+  });
+});
+
+describe('REACH_VIEWER_COUNT', () => {
+  it('decides on the latest sample, whatever order they come in', () => {
+    const result = resolveMetric(
+      MarketType.REACH_VIEWER_COUNT,
+      [
+        snapshot('2026-10-19T12:00:00.000Z', { viewerCount: 400 }),
+        snapshot('2026-10-19T11:00:00.000Z', { viewerCount: 900 }),
+      ],
+      { target_value: 500 }
+    );
+    assert.equal(result.value, 400);
+    assert.equal(result.yes, false);
+  });
+});
+
+describe('PEAK_VIEWERS', () => {
+  it('takes the highest viewer count of the window', () => {
+    const result = resolveMetric(
+      MarketType.PEAK_VIEWERS,
+      [
+        snapshot('2026-10-19T11:00:00.000Z', { viewerCount: 900 }),
+        snapshot('2026-10-19T12:00:00.000Z', { viewerCount: 400 }),
+      ],
+      { target_value: 500 }
+    );
+    assert.deepEqual(result, { value: 900, samples: 2, yes: true });
+  });
+
+  it('is NO without a target or without samples', () => {
+    const samples = [snapshot('2026-10-19T11:00:00.000Z', { viewerCount: 900 })];
+    assert.equal(resolveMetric(MarketType.PEAK_VIEWERS, samples, {}).yes, false);
+    assert.deepEqual(resolveMetric(MarketType.PEAK_VIEWERS, [], { target_value: 1 }), {
+      value: null,
+      samples: 0,
+      yes: false,
+    });
+  });
+});
+
+describe('STREAM_HOURS', () => {
+  it('sums the uptime of every stream seen, offline samples aside', () => {
+    const later = '2026-10-19T20:00:00.000Z';
+    const result = resolveMetric(
+      MarketType.STREAM_HOURS,
+      [
+        snapshot('2026-10-19T11:00:00.000Z'),
+        snapshot('2026-10-19T12:30:00.000Z'),
+        snapshot('2026-10-19T14:00:00.000Z', { live: false, streamStartedAt: null }),
+        snapshot('2026-10-19T21:00:00.000Z', { streamStartedAt: later }),
+      ],
+      { target_value: 3.5 }
+    );
+    assert.deepEqual(result, { value: 3.5, samples: 4, yes: true });
+  });
+});
+
+describe('CHANGE_CATEGORY', () => {
+  it('is YES on the first category other than the starting one', () => {
+    const result = resolveMetric(
+      MarketType.CHANGE_CATEGORY,
+      [
+        snapshot('2026-10-19T11:00:00.000Z', { gameName: 'Just Chatting' }),
+        snapshot('2026-10-19T12:00:00.000Z', { gameName: 'Chess' }),
+        snapshot('2026-10-19T13:00:00.000Z', { gameName: 'just chatting ' }),
+      ],
+      { target_category: 'Just Chatting' }
+    );
+    assert.deepEqual(result, { value: 'Chess', samples: 3, yes: true });
+  });
+
+  it('is NO when the category never changes, ignoring case and spaces', () => {
+    const result = resolveMetric(
+      MarketType.CHANGE_CATEGORY,
+      [snapshot('2026-10-19T11:00:00.000Z', { gameName: ' JUST CHATTING' })],
+      { target_category: 'Just Chatting' }
+    );
+    assert.equal(result.yes, false);
+  });
+});
+
+describe('PLAY_SPECIFIC_GAME', () => {
+  it('only counts the game while live', () => {
+    const target = { target_category: 'Chess' };
+    const offline = snapshot('2026-10-19T11:00:00.000Z', { live: false, gameName: 'Chess' });
+    const live = snapshot('2026-10-19T12:00:00.000Z', { gameName: 'Just Chatting' });
+
+    assert.deepEqual(resolveMetric(MarketType.PLAY_SPECIFIC_GAME, [offline, live], target), {
+      value: 'Just Chatting',
+      samples: 2,
+      yes: false,
+    });
+    assert.equal(
+      resolveMetric(
+        MarketType.PLAY_SPECIFIC_GAME,
+        [offline, live, snapshot('2026-10-19T13:00:00.000Z', { gameName: 'chess' })],
+        target
+      ).yes,
+      true
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Metric Resolvers
+ *
+ * How the oracle decides each MarketType: a resolver reads its metric from
+ * the streamer snapshots recorded by the sampler, aggregates the samples
+ * taken over the market window into a single value and compares that value
+ * to the market's target. Resolvers for every MarketType are registered
+ * below; registerMetricResolver replaces one (e.g. with a fake in scripts).
+ */
+
+import { MarketType } from './types';
+import type { MetricSnapshot } from './sampler';
+
+export type MetricValue = number | string | null;
+
+export interface MetricSample {
+  observedAt: string; // ISO 8601
+  live: boolean;
+  value: MetricValue; // Count or hours for numeric types, category name for category types
+  streamStartedAt?: string | null; // Identifies the stream a live sample belongs to
+}
+
+// Target fields of a market row
+export interface MetricTarget {
+  target_value?: number | null;
+  target_category?: string | null;
+}
+
+export interface MetricResolver {
+  type: MarketType;
+  /** This market type's metric in one streamer snapshot */
+  read(snapshot: MetricSnapshot): MetricValue;
+  /** Combine the samples taken over the market window into one value */
+  aggregate(samples: MetricSample[], target: MetricTarget): MetricValue;
+  /** True when the aggregated value means YES */
+  compare(value: MetricValue, target: MetricTarget): boolean;
+}
+
+const registry = new Map<MarketType, MetricResolver>();
+
+export function registerMetricResolver(resolver: MetricResolver): void {
+  registry.set(resolver.type, resolver);
+}
+
+export function getMetricResolver(type: MarketType): MetricResolver {
+  const resolver = registry.get(type);
+  if (!resolver) {
+    throw new Error(`No metric resolver registered for market type: ${type}`);
+  }
+  return resolver;
+}
+
+/**
+ * Aggregate a series of snapshots with the resolver for `type` and decide
+ * the outcome against the market's target
+ */
+export function resolveMetric(
+  type: MarketType,
+  snapshots: MetricSnapshot[],
+  target: MetricTarget
+): { value: MetricValue; samples: number; yes: boolean } {
+  const resolver = getMetricResolver(type);
+  const samples = snapshots.map((snapshot) => ({
+    observedAt: snapshot.sampledAt,
+    live: snapshot.live,
+    value: resolver.read(snapshot),
+    streamStartedAt: snapshot.streamStartedAt,
+  }));
+
+  const value = resolver.aggregate(samples, target);
+  return { value, samples: samples.length, yes: resolver.compare(value, target) };
+}
+
+// ============================================================================
+// Aggregation Helpers
+// ============================================================================
+
+function numbers(samples: MetricSample[]): number[] {
+  return samples.flatMap((s) => (typeof s.value === 'number' ? [s.value] : []));
+}
+
+function byTime(samples: MetricSample[]): MetricSample[] {
+  return [...samples].sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+}
+
+function latestNumber(samples: MetricSample[]): number | null {
+  const values = numbers(byTime(samples));
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
+function maxNumber(samples: MetricSample[]): number | null {
+  const values = numbers(samples);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+function normalizeCategory(value: MetricValue | undefined): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
+
+function reachesTarget(value: MetricValue, target: MetricTarget): boolean {
+  if (typeof value !== 'number' || target.target_value == null) {
+    return false;
+  }
+  return value >= target.target_value;
+}
+
+// ============================================================================
+// Resolvers
+// ============================================================================
+
+registerMetricResolver({
+  type: MarketType.REACH_FOLLOWER_COUNT,
+  read: (snapshot) => snapshot.followerCount,
+  // Followers only matter once reached, so a later unfollow does not flip the outcome
+  aggregate: (samples) => maxNumber(samples),
+  compare: reachesTarget,
+});
+
+registerMetricResolver({
+  type: MarketType.REACH_VIEWER_COUNT,
+  read: (snapshot) => snapshot.viewerCount,
+  aggregate: (samples) => latestNumber(samples),
+  compare: reachesTarget,
+});
+
+registerMetricResolver({
+  type: MarketType.PEAK_VIEWERS,
+  read: (snapshot) => snapshot.viewerCount,
+  aggregate: (samples) => maxNumber(samples),
+  compare: reachesTarget,
+});
+
+registerMetricResolver({
+  type: MarketType.STREAM_HOURS,
+  // Uptime of the stream when the snapshot was taken
+  read: (snapshot) =>
+    snapshot.live && snapshot.streamStartedAt
+      ? (Date.parse(snapshot.sampledAt) - Date.parse(snapshot.streamStartedAt)) / 3_600_000
+      : 0,
+  // Uptime of each stream seen, summed across streams
+  aggregate(samples) {
+    const uptimeByStream = new Map<string, number>();
+    for (const sample of samples) {
+      if (!sample.live || !sample.streamStartedAt || typeof sample.value !== 'number') continue;
+      const seen = uptimeByStream.get(sample.streamStartedAt) ?? 0;
+      uptimeByStream.set(sample.streamStartedAt, Math.max(seen, sample.value));
+    }
+    const total = [...uptimeByStream.values()].reduce((sum, hours) => sum + hours, 0);
+    return Math.round(total * 100) / 100;
+  },
+  compare: reachesTarget,
+});
+
+registerMetricResolver({
+  type: MarketType.CHANGE_CATEGORY,
+  read: (snapshot) => snapshot.gameName,
+  // First category that differs from the one the market was created in,
+  // otherwise the latest one seen
+  aggregate(samples, target) {
+    const from = normalizeCategory(target.target_category);
+    const seen = byTime(samples).filter((s) => normalizeCategory(s.value));
+    const changed = seen.find((s) => normalizeCategory(s.value) !== from);
+    return (changed ?? seen[seen.length - 1])?.value ?? null;
+  },
+  compare(value, target) {
+    const category = normalizeCategory(value);
+    return category !== null && category !== normalizeCategory(target.target_category);
+  },
+});
+
+registerMetricResolver({
+  type: MarketType.PLAY_SPECIFIC_GAME,
+  read: (snapshot) => snapshot.gameName,
+  // Only live samples count as playing; the target game if it was ever live,
+  // otherwise the latest live category
+  aggregate(samples, target) {
+    const game = normalizeCategory(target.target_category);
+    const live = byTime(samples).filter((s) => s.live && normalizeCategory(s.value));
+    const played = live.find((s) => normalizeCategory(s.value) === game);
+    return (played ?? live[live.length - 1])?.value ?? null;
+  },
+  compare(value, target) {
+    const game = normalizeCategory(target.target_category);
+    return game !== null && normalizeCategory(value) === game;
+  },
+});
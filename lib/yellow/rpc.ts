@@ -0,0 +1,286 @@
+/**
+ * Yellow Network RPC Decoders
+ *
+ * Zod schemas for the NitroRPC responses used by the Yellow client.
+ * Every ClearNode reply is decoded into a typed result, or rejected
+ * with a YellowRpcError carrying the method, request id and server error.
+ * Request params are decoded the same way on the serving side (the mock
+ * ClearNode).
+ */
+
+import { z } from 'zod';
+import { RPCAppStateIntent, RPCMethod, RPCProtocolVersion } from '@erc7824/nitrolite';
+import type { Address, Hex } from 'viem';
+import { YellowRpcError, type RequestId } from './errors';
+
+// ============================================================================
+// Shared Schemas
+// ============================================================================
+
+const addressSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{40}$/, 'Must be a 0x-prefixed EVM address')
+  .transform((value) => value as Address);
+
+const hexSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]+$/, 'Must be a 0x-prefixed hex string')
+  .transform((value) => value as Hex);
+
+const dateSchema = z.union([z.string(), z.date()]).transform((value) => new Date(value));
+
+const statusSchema = z.enum(['open', 'closed', 'resizing', 'challenged']);
+
+const amountSchema = z.string().regex(/^\d+$/, 'Must be an integer amount in smallest units');
+
+const allocationSchema = z.object({
+  participant: addressSchema,
+  asset: z.string().min(1),
+  amount: amountSchema,
+});
+
+const appSessionSchema = z.object({
+  appSessionId: hexSchema,
+  application: z.string(),
+  status: statusSchema,
+  participants: z.array(addressSchema),
+  protocol: z.string(),
+  challenge: z.number(),
+  weights: z.array(z.number()),
+  quorum: z.number(),
+  version: z.number().int().positive(),
+  nonce: z.number(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+  sessionData: z.string().optional(),
+});
+
+// create_app_session, submit_app_state and close_app_session all
+// acknowledge with the resulting session version and status
+const appSessionAckSchema = z.object({
+  appSessionId: hexSchema,
+  version: z.number().int().positive(),
+  status: statusSchema,
+});
+
+// ============================================================================
+// Method Schemas
+// ============================================================================
+
+const RESPONSE_SCHEMAS = {
+  [RPCMethod.GetLedgerBalances]: z.object({
+    ledgerBalances: z.array(
+      z.object({
+        asset: z.string(),
+        amount: z.string(),
+      })
+    ),
+  }),
+  [RPCMethod.GetSessionKeys]: z.object({
+    sessionKeys: z.array(
+      z.object({
+        id: z.number(),
+        sessionKey: addressSchema,
+        application: z.string(),
+        allowances: z.array(
+          z.object({
+            asset: z.string(),
+            allowance: z.string(),
+            used: z.string(),
+          })
+        ),
+        scope: z.string().optional(),
+        expiresAt: dateSchema,
+        createdAt: dateSchema,
+      })
+    ),
+  }),
+  [RPCMethod.RevokeSessionKey]: z.object({
+    sessionKey: addressSchema,
+  }),
+  [RPCMethod.CreateAppSession]: appSessionAckSchema,
+  [RPCMethod.SubmitAppState]: appSessionAckSchema,
+  [RPCMethod.CloseAppSession]: appSessionAckSchema,
+  [RPCMethod.GetAppDefinition]: z.object({
+    protocol: z.string(),
+    participants: z.array(addressSchema).min(1),
+    weights: z.array(z.number()),
+    quorum: z.number(),
+    challenge: z.number(),
+    nonce: z.number(),
+  }),
+  [RPCMethod.GetAppSessions]: z.object({
+    appSessions: z.array(appSessionSchema),
+  }),
+  [RPCMethod.AppSessionUpdate]: appSessionSchema.extend({
+    participantAllocations: z.array(allocationSchema),
+  }),
+  [RPCMethod.Transfer]: z.object({
+    transactions: z
+      .array(
+        z.object({
+          id: z.number(),
+          txType: z.string(),
+          fromAccount: z.string(),
+          toAccount: z.string(),
+          asset: z.string(),
+          amount: z.string(),
+          createdAt: dateSchema,
+        })
+      )
+      .min(1),
+  }),
+} as const;
+
+// ============================================================================
+// Request Schemas
+// ============================================================================
+
+const REQUEST_SCHEMAS = {
+  [RPCMethod.AuthRequest]: z.object({
+    address: addressSchema,
+    session_key: addressSchema,
+    application: z.string().default(''),
+    scope: z.string().default(''),
+    allowances: z.array(z.object({ asset: z.string(), amount: z.string() })).default([]),
+    expires_at: z.coerce.number().int(),
+  }),
+  [RPCMethod.AuthVerify]: z.object({
+    challenge: z.string().optional(),
+    jwt: z.string().optional(),
+  }),
+  [RPCMethod.GetLedgerBalances]: z.object({
+    account_id: z.union([addressSchema, hexSchema.refine((id) => id.length === 66)]).optional(),
+  }),
+  [RPCMethod.GetSessionKeys]: z.object({}),
+  [RPCMethod.RevokeSessionKey]: z.object({
+    session_key: addressSchema,
+  }),
+  [RPCMethod.CreateAppSession]: z.object({
+    definition: z.object({
+      protocol: z.nativeEnum(RPCProtocolVersion),
+      application: z.string().default(''),
+      participants: z.array(addressSchema).min(1, 'at least one participant is required'),
+      weights: z.array(z.number()),
+      quorum: z.number(),
+      challenge: z.coerce.number().default(0),
+      nonce: z.coerce.number().optional(),
+    }),
+    allocations: z.array(allocationSchema),
+    session_data: z.string().optional(),
+  }),
+  [RPCMethod.SubmitAppState]: z.object({
+    app_session_id: hexSchema,
+    intent: z.nativeEnum(RPCAppStateIntent).optional(), // NitroRPC/0.4 only
+    version: z.number().int().optional(), // NitroRPC/0.4 only
+    allocations: z.array(allocationSchema),
+    session_data: z.string().optional(),
+  }),
+  [RPCMethod.CloseAppSession]: z.object({
+    app_session_id: hexSchema,
+    allocations: z.array(allocationSchema),
+    session_data: z.string().optional(),
+  }),
+  [RPCMethod.GetAppDefinition]: z.object({
+    app_session_id: hexSchema,
+  }),
+  [RPCMethod.GetAppSessions]: z.object({
+    participant: addressSchema.optional(),
+    status: statusSchema.optional(),
+  }),
+  [RPCMethod.Transfer]: z.object({
+    destination: addressSchema,
+    allocations: z.array(z.object({ asset: z.string().min(1), amount: amountSchema })).min(1),
+  }),
+} as const;
+
+export type ServedMethod = keyof typeof REQUEST_SCHEMAS;
+
+export type RpcParams<M extends ServedMethod> = z.output<(typeof REQUEST_SCHEMAS)[M]>;
+
+const envelopeSchema = z.object({
+  method: z.string(),
+  requestId: z.union([z.number(), z.string()]).optional(),
+  params: z.unknown(),
+});
+
+const errorParamsSchema = z.object({ error: z.string() });
+
+export type DecodableMethod = keyof typeof RESPONSE_SCHEMAS;
+
+export type RpcResult<M extends DecodableMethod> = z.output<(typeof RESPONSE_SCHEMAS)[M]>;
+
+export type AppSessionSummary = RpcResult<RPCMethod.GetAppSessions>['appSessions'][number];
+
+export type AppSessionUpdate = RpcResult<RPCMethod.AppSessionUpdate>;
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode a parsed ClearNode response for the given method.
+ * Throws YellowRpcError for server errors, mismatched methods
+ * and params that do not match the method schema.
+ */
+export function decodeRpcResponse<M extends DecodableMethod>(
+  method: M,
+  response: unknown,
+  fallbackRequestId?: RequestId
+): RpcResult<M> {
+  const envelope = envelopeSchema.safeParse(response);
+  if (!envelope.success) {
+    throw new YellowRpcError(method, 'response is not an RPC message', {
+      requestId: fallbackRequestId,
+    });
+  }
+
+  const requestId = envelope.data.requestId ?? fallbackRequestId;
+
+  if (envelope.data.method === RPCMethod.Error) {
+    const errorParams = errorParamsSchema.safeParse(envelope.data.params);
+    const serverError = errorParams.success ? errorParams.data.error : 'Unknown error';
+    throw new YellowRpcError(method, serverError, { requestId, serverError });
+  }
+
+  if (envelope.data.method !== method) {
+    throw new YellowRpcError(method, `unexpected response method "${envelope.data.method}"`, {
+      requestId,
+    });
+  }
+
+  const params = RESPONSE_SCHEMAS[method].safeParse(envelope.data.params);
+  if (!params.success) {
+    const issue = params.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'params';
+    throw new YellowRpcError(method, `malformed response at ${path}: ${issue.message}`, {
+      requestId,
+      cause: params.error,
+    });
+  }
+
+  return params.data as RpcResult<M>;
+}
+
+/**
+ * Decode the params of an incoming request for the given method. Throws
+ * an Error naming the first invalid field.
+ */
+export function decodeRpcRequest<M extends ServedMethod>(method: M, params: unknown): RpcParams<M> {
+  const parsed = REQUEST_SCHEMAS[method].safeParse(params ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'params';
+    throw new Error(`invalid ${path}: ${issue.message}`);
+  }
+  return parsed.data as RpcParams<M>;
+}
+
+/**
+ * Read the request id out of an outgoing NitroRPC message
+ */
+export function getRequestId(message: unknown): RequestId | undefined {
+  const req = (message as { req?: unknown[] } | null)?.req;
+  const id = Array.isArray(req) ? req[0] : undefined;
+  return typeof id === 'number' || typeof id === 'string' ? id : undefined;
+}
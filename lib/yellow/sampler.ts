@@ -0,0 +1,199 @@
+/**
+ * Metric Sampler
+ *
+ * Records a snapshot of every tracked streamer (viewers, game, title,
+ * followers) into metric_samples, so the oracle resolves markets from the
+ * whole series in the market window instead of a single value read at
+ * resolution time. Run periodically by scripts/metric-sampler.ts or
+ * /api/oracle/sample.
+ */
+
+import { getChannel, getFollowerCount, getStreamByUser, getUserByLogin } from '@/lib/twitch/client';
+import { supabase } from '@/lib/supabase/client';
+import { createServiceClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/logger';
+import type { Database, Json } from '@/types/database';
+
+type MetricSampleRow = Database['public']['Tables']['metric_samples']['Row'];
+type MetricSampleInsert = Database['public']['Tables']['metric_samples']['Insert'];
+
+export interface MetricSnapshot {
+  id?: string; // metric_samples row, once stored
+  sampledAt: string; // ISO 8601
+  live: boolean;
+  viewerCount: number | null; // 0 while offline
+  followerCount: number | null;
+  gameName: string | null; // Category of the stream, or of the channel while offline
+  title: string | null;
+  streamStartedAt: string | null; // Identifies the stream a live snapshot belongs to
+  raw?: Json; // Twitch API payloads the snapshot was read from
+}
+
+export interface SampleRunResult {
+  sampled: number;
+  failed: number;
+}
+
+const log = createLogger('sampler');
+
+// Markets still waiting for an outcome need their streamer sampled
+const TRACKED_MARKET_STATUSES = ['active', 'closed'];
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Read every sampled metric for a streamer (Twitch login) from the Twitch API now
+ */
+export async function takeSnapshot(login: string): Promise<MetricSnapshot> {
+  const user = await getUserByLogin(login);
+  if (!user) {
+    throw new Error(`Twitch user not found: ${login}`);
+  }
+
+  const [stream, followerCount] = await Promise.all([
+    getStreamByUser(login),
+    getFollowerCount(user.id),
+  ]);
+
+  // Offline channels still report their category and title in the channel settings
+  const channel = stream ? null : await getChannel(user.id);
+
+  return {
+    sampledAt: new Date().toISOString(),
+    live: !!stream,
+    viewerCount: stream?.viewer_count ?? 0,
+    followerCount,
+    gameName: (stream?.game_name ?? channel?.game_name) || null,
+    title: (stream?.title ?? channel?.title) || null,
+    streamStartedAt: stream?.started_at ?? null,
+    // Helix responses are plain JSON
+    raw: { stream, channel, followerCount } as unknown as Json,
+  };
+}
+
+function toRow(streamerId: string, snapshot: MetricSnapshot): MetricSampleInsert {
+  return {
+    streamer_id: streamerId,
+    sampled_at: snapshot.sampledAt,
+    is_live: snapshot.live,
+    viewer_count: snapshot.viewerCount,
+    follower_count: snapshot.followerCount,
+    game_name: snapshot.gameName,
+    title: snapshot.title,
+    stream_started_at: snapshot.streamStartedAt,
+    raw_response: snapshot.raw ?? null,
+  };
+}
+
+function fromRow(row: MetricSampleRow): MetricSnapshot {
+  return {
+    id: row.id,
+    sampledAt: row.sampled_at,
+    live: row.is_live,
+    viewerCount: row.viewer_count,
+    followerCount: row.follower_count,
+    gameName: row.game_name,
+    title: row.title,
+    streamStartedAt: row.stream_started_at,
+    raw: row.raw_response ?? undefined,
+  };
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Streamers with at least one market that is not resolved yet
+ */
+export async function getTrackedStreamers(): Promise<Array<{ id: string; slug: string }>> {
+  const { data, error } = await supabase
+    .from('markets')
+    .select('streamers ( id, slug )')
+    .in('status', TRACKED_MARKET_STATUSES);
+
+  if (error) {
+    throw error;
+  }
+
+  const streamers = new Map<string, { id: string; slug: string }>();
+  for (const market of data ?? []) {
+    const streamer = market.streamers as { id: string; slug: string } | null;
+    if (streamer) {
+      streamers.set(streamer.id, streamer);
+    }
+  }
+  return [...streamers.values()];
+}
+
+/**
+ * Take and store one snapshot per tracked streamer. A failing streamer is
+ * logged and skipped so it does not hold up the rest.
+ */
+export async function sampleTrackedStreamers(): Promise<SampleRunResult> {
+  const streamers = await getTrackedStreamers();
+  const rows: MetricSampleInsert[] = [];
+  let failed = 0;
+
+  for (const streamer of streamers) {
+    try {
+      rows.push(toRow(streamer.id, await takeSnapshot(streamer.slug)));
+    } catch (error) {
+      failed++;
+      log.warn('Failed to sample streamer', { streamer: streamer.slug, error });
+    }
+  }
+
+  if (rows.length > 0) {
+    const { error } = await createServiceClient().from('metric_samples').insert(rows);
+    if (error) {
+      throw error;
+    }
+  }
+
+  log.info('Sampled tracked streamers', { sampled: rows.length, failed });
+  return { sampled: rows.length, failed };
+}
+
+/**
+ * Store snapshots taken outside the sampler run (e.g. the oracle's closing
+ * readings) and return them with their row ids
+ */
+export async function recordSnapshots(
+  streamerId: string,
+  snapshots: MetricSnapshot[]
+): Promise<MetricSnapshot[]> {
+  const { data, error } = await createServiceClient()
+    .from('metric_samples')
+    .insert(snapshots.map((snapshot) => toRow(streamerId, snapshot)))
+    .select();
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map(fromRow);
+}
+
+/**
+ * Snapshots recorded for a streamer between `from` and `to`, oldest first
+ */
+export async function loadSnapshots(
+  streamerId: string,
+  from: string,
+  to: string
+): Promise<MetricSnapshot[]> {
+  const { data, error } = await supabase
+    .from('metric_samples')
+    .select('*')
+    .eq('streamer_id', streamerId)
+    .gte('sampled_at', from)
+    .lte('sampled_at', to)
+    .order('sampled_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map(fromRow);
+}
@@ -0,0 +1,257 @@
+/**
+ * Yellow Network Server Service
+ *
+ * Server-only wrapper around YellowClient for API routes and the oracle.
+ * It authenticates once with a private key and keeps the connection warm,
+ * reconnecting and re-authenticating on drops, so route invocations share
+ * one session instead of opening a socket per request. Not exported from
+ * index.ts: it reads private keys and must never end up in a client bundle.
+ */
+
+import { privateKeyToAccount } from 'viem/accounts';
+import type { Address, Hex } from 'viem';
+import { YellowClient } from './client';
+import { YELLOW_CONFIG } from './config';
+import { DEFAULT_ASSET_ID } from './assets';
+import { buildMarketParticipants, derivePoolAddresses, type MarketOutcome, type MarketPools } from './pools';
+import type { MarketStake } from './payouts';
+import { createLogger } from '@/lib/logger';
+import type {
+  Allocation,
+  AppSessionState,
+  OperationOptions,
+  RequestOptions,
+  YellowClientConfig,
+} from './types';
+
+if (typeof window !== 'undefined') {
+  throw new Error('lib/yellow/service can only be imported on the server');
+}
+
+const log = createLogger('yellow/service');
+
+export interface MarketSessionParams {
+  marketId: string; // Pools are derived from it, so create the id before the session
+  question: string;
+  asset?: string; // Defaults to DEFAULT_ASSET_ID
+}
+
+export interface MarketSession {
+  appSessionId: Hex;
+  pools: MarketPools;
+  oracleAddress: Address;
+}
+
+export class YellowService {
+  readonly address: Address;
+  private client: YellowClient;
+  private privateKey: Hex;
+  private starting?: Promise<void>;
+
+  constructor(privateKey: Hex, config: Omit<YellowClientConfig, 'sessionKeyStore'> = {}) {
+    this.privateKey = privateKey;
+    this.address = privateKeyToAccount(privateKey).address;
+    this.client = new YellowClient({ autoReconnect: true, ...config });
+  }
+
+  /**
+   * The authenticated client, connecting and authenticating first if needed.
+   * Concurrent callers share one in-flight start.
+   */
+  async getClient(): Promise<YellowClient> {
+    if (!this.client.isAuthenticated()) {
+      this.starting ??= this.start().finally(() => {
+        this.starting = undefined;
+      });
+      await this.starting;
+    }
+    return this.client;
+  }
+
+  private async start(): Promise<void> {
+    if (!this.client.isConnected()) {
+      await this.client.connect();
+    }
+    if (!this.client.isAuthenticated()) {
+      await this.client.authenticateWithPrivateKey(this.privateKey);
+      log.info('Authenticated server wallet', { wallet: this.address });
+    }
+  }
+
+  /**
+   * Open the app session for a new market: [YES pool, NO pool, this wallet],
+   * with this wallet holding the full quorum so it alone can close it
+   */
+  async createMarketSession(
+    params: MarketSessionParams,
+    options: OperationOptions = {}
+  ): Promise<MarketSession> {
+    const client = await this.getClient();
+    const asset = params.asset ?? DEFAULT_ASSET_ID;
+    const pools = derivePoolAddresses(params.marketId);
+    const participants = buildMarketParticipants(pools, this.address);
+    const { APP_SESSION } = YELLOW_CONFIG;
+
+    const appSessionId = await client.createAppSession(
+      {
+        definition: {
+          protocol: APP_SESSION.PROTOCOL,
+          application: YELLOW_CONFIG.APPLICATION_NAME,
+          name: `Market: ${params.question.substring(0, 50)}`,
+          participants,
+          weights: [0, 0, APP_SESSION.QUORUM],
+          quorum: APP_SESSION.QUORUM,
+          challenge: APP_SESSION.CHALLENGE_PERIOD,
+          nonce: Date.now(),
+        },
+        allocations: participants.map((participant) => ({ participant, asset, amount: '0' })),
+      },
+      options
+    );
+
+    return { appSessionId: appSessionId as Hex, pools, oracleAddress: this.address };
+  }
+
+  /**
+   * Close a market's app session with its final allocations
+   */
+  async closeMarketSession(
+    appSessionId: Hex,
+    allocations: Allocation[],
+    options: OperationOptions = {}
+  ): Promise<void> {
+    const client = await this.getClient();
+    await client.closeAppSession(appSessionId, allocations, options);
+  }
+
+  /**
+   * Current version, status and allocations of an app session
+   */
+  async getSessionState(appSessionId: Hex, options: RequestOptions = {}): Promise<AppSessionState> {
+    const client = await this.getClient();
+    return client.getAppDefinition(appSessionId, options);
+  }
+
+  /**
+   * Send `amount` from this wallet's unified balance to another wallet, e.g.
+   * a stake to the oracle or a payout to a bettor. Returns the ledger
+   * transaction id.
+   */
+  async transfer(
+    destination: Address,
+    asset: string,
+    amount: string,
+    options: OperationOptions = {}
+  ): Promise<string> {
+    const client = await this.getClient();
+    return client.transfer(destination, asset, amount, options);
+  }
+
+  /**
+   * Put stakes bettors transferred to this wallet into a market's pools.
+   * Only the oracle service can submit this, since it is the only
+   * participant besides the pools. Returns the version of the state update.
+   */
+  async addStakes(
+    appSessionId: Hex,
+    asset: string,
+    deposit: string,
+    stakes: MarketStake[],
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const client = await this.getClient();
+    return client.submitStakes(appSessionId, asset, deposit, stakes, options);
+  }
+
+  /**
+   * Move the proceeds of shares `seller` sold from their pool to this
+   * wallet's allocation and record the sale in the stake ledger. Only the
+   * oracle service can submit this; it then withdraws the payout and
+   * transfers it to the seller. Returns the version of the state update.
+   */
+  async cashOut(
+    appSessionId: Hex,
+    asset: string,
+    seller: Address,
+    outcome: MarketOutcome,
+    proceeds: string,
+    shares: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const client = await this.getClient();
+    return client.submitCashOut(appSessionId, asset, seller, outcome, proceeds, shares, options);
+  }
+
+  /**
+   * Give a cash-out that was never paid back to its pool, buying the sold
+   * shares back for `seller` in the stake ledger. Returns the version of
+   * the state update.
+   */
+  async revertCashOut(
+    appSessionId: Hex,
+    asset: string,
+    seller: Address,
+    outcome: MarketOutcome,
+    proceeds: string,
+    shares: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const client = await this.getClient();
+    return client.revertCashOut(appSessionId, asset, seller, outcome, proceeds, shares, options);
+  }
+
+  /**
+   * Withdraw `amount` from this wallet's allocation in an app session to
+   * its unified balance. Returns the version of the state update.
+   */
+  async withdraw(
+    appSessionId: Hex,
+    asset: string,
+    amount: string,
+    options: OperationOptions = {}
+  ): Promise<number> {
+    const client = await this.getClient();
+    return client.withdraw(appSessionId, asset, amount, options);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.client.disconnect();
+  }
+}
+
+// ============================================================================
+// Shared Instances
+// ============================================================================
+
+// Kept on globalThis so Next.js dev reloads and separate route bundles reuse
+// the same warm connection
+const globalForYellow = globalThis as typeof globalThis & {
+  yellowServices?: Map<Address, YellowService>;
+};
+
+/**
+ * Shared service for a server-held wallet, one per private key
+ */
+export function getYellowService(privateKey: Hex): YellowService {
+  const services = (globalForYellow.yellowServices ??= new Map());
+  const address = privateKeyToAccount(privateKey).address;
+
+  let service = services.get(address);
+  if (!service) {
+    service = new YellowService(privateKey);
+    services.set(address, service);
+  }
+  return service;
+}
+
+/**
+ * Shared service for the oracle wallet (YELLOW_ORACLE_PRIVATE_KEY), which
+ * creates and closes every market session
+ */
+export function getOracleService(): YellowService {
+  const privateKey = process.env.YELLOW_ORACLE_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('YELLOW_ORACLE_PRIVATE_KEY not configured');
+  }
+  return getYellowService(privateKey as Hex);
+}
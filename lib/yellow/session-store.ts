@@ -0,0 +1,184 @@
+/**
+ * Session Key Store
+ *
+ * Persists the Yellow session key per wallet so a page reload can reuse it
+ * instead of asking the wallet to sign a new EIP-712 auth. Records are
+ * AES-GCM encrypted in localStorage with a non-extractable key held in IndexedDB.
+ */
+
+import type { Address, Hex } from 'viem';
+import { createLogger } from '@/lib/logger';
+
+export interface StoredSessionKey {
+  privateKey: Hex;
+  address: Address; // Session key address
+  expiresAt: number; // Unix timestamp in seconds
+  jwtToken?: string; // Lets the ClearNode re-authenticate without a signature
+}
+
+export interface SessionKeyStore {
+  load(walletAddress: string): Promise<StoredSessionKey | null>;
+  save(walletAddress: string, key: StoredSessionKey): Promise<void>;
+  remove(walletAddress: string): Promise<void>;
+}
+
+const STORAGE_PREFIX = 'polystream:session-key:';
+const DB_NAME = 'polystream-yellow';
+const DB_STORE = 'crypto-keys';
+const ENCRYPTION_KEY_ID = 'session-key-encryption';
+
+const log = createLogger('session-store');
+
+// ============================================================================
+// Encryption Key
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runTransaction<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load the AES-GCM key from IndexedDB, creating it on first use.
+ * The key is non-extractable, so its raw bytes never reach script code.
+ */
+async function loadOrCreateEncryptionKey(): Promise<CryptoKey> {
+  const db = await openDatabase();
+  try {
+    const existing = await runTransaction<CryptoKey | undefined>(db, 'readonly', (store) =>
+      store.get(ENCRYPTION_KEY_ID)
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    await runTransaction(db, 'readwrite', (store) => store.put(key, ENCRYPTION_KEY_ID));
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function isStoredSessionKey(value: unknown): value is StoredSessionKey {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.privateKey === 'string' &&
+    record.privateKey.startsWith('0x') &&
+    typeof record.address === 'string' &&
+    typeof record.expiresAt === 'number' &&
+    (record.jwtToken === undefined || typeof record.jwtToken === 'string')
+  );
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Browser store backed by localStorage and IndexedDB.
+ * Returns null outside the browser or when WebCrypto is unavailable.
+ */
+export function createBrowserSessionKeyStore(): SessionKeyStore | null {
+  if (typeof window === 'undefined' || !window.indexedDB || !window.crypto?.subtle) {
+    return null;
+  }
+
+  let encryptionKey: Promise<CryptoKey> | undefined;
+  const getEncryptionKey = () => {
+    encryptionKey ??= loadOrCreateEncryptionKey().catch((error) => {
+      encryptionKey = undefined;
+      throw error;
+    });
+    return encryptionKey;
+  };
+
+  const storageKey = (walletAddress: string) => STORAGE_PREFIX + walletAddress.toLowerCase();
+
+  return {
+    async load(walletAddress) {
+      const raw = localStorage.getItem(storageKey(walletAddress));
+      if (!raw) {
+        return null;
+      }
+
+      try {
+        const { iv, data } = JSON.parse(raw);
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(iv) },
+          await getEncryptionKey(),
+          fromBase64(data)
+        );
+        const stored: unknown = JSON.parse(new TextDecoder().decode(plaintext));
+
+        if (!isStoredSessionKey(stored) || stored.expiresAt <= Math.floor(Date.now() / 1000)) {
+          localStorage.removeItem(storageKey(walletAddress));
+          return null;
+        }
+
+        return stored;
+      } catch (error) {
+        // Unreadable records (e.g. the IndexedDB key was cleared) are useless; drop them
+        log.warn('Discarding unreadable stored session key', { error });
+        localStorage.removeItem(storageKey(walletAddress));
+        return null;
+      }
+    },
+
+    async save(walletAddress, key) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await getEncryptionKey(),
+        new TextEncoder().encode(JSON.stringify(key))
+      );
+
+      localStorage.setItem(
+        storageKey(walletAddress),
+        JSON.stringify({ iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) })
+      );
+    },
+
+    async remove(walletAddress) {
+      localStorage.removeItem(storageKey(walletAddress));
+    },
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import type { RPCResponse } from '@erc7824/nitrolite';
+import type { SessionKeyStore } from './session-store';
 
 // ============================================================================
 // App Session Types
@@ -24,7 +25,7 @@ export interface AppDefinition {
 
 export interface Allocation {
   participant: string; // Address
-  asset: string; // Asset identifier (e.g., 'ytest.usd')
+  asset: string; // ClearNode asset id (see ASSET_REGISTRY)
   amount: string; // Amount as string (to handle large numbers)
 }
 
@@ -38,6 +39,19 @@ export interface AppSessionResponse {
   status: 'open' | 'closed';
 }
 
+export type AppSessionStatus = 'open' | 'closed' | 'resizing' | 'challenged';
+
+export interface AppSessionState {
+  app_session_id: string;
+  status: AppSessionStatus;
+  version: number; // Version of the latest accepted state
+  allocations: Allocation[];
+  participants: string[];
+  weights: number[];
+  quorum: number;
+  session_data?: string; // Stake ledger, see payouts.ts
+}
+
 // ============================================================================
 // Market Types
 // ============================================================================
@@ -54,10 +68,30 @@ export enum MarketType {
 export enum MarketStatus {
   ACTIVE = 'active',
   CLOSED = 'closed',
+  PROPOSED = 'proposed', // Outcome proposed by the oracle, open to disputes until dispute_ends_at
   RESOLVED = 'resolved',
   CANCELLED = 'cancelled',
 }
 
+// Oracle progress on a market, persisted so failed or interrupted steps are retried
+export enum OracleState {
+  CLOSING = 'closing', // Past end_date, being closed to new bets
+  RESOLVING = 'resolving', // Closed, waiting for the oracle to propose an outcome
+  RESOLUTION_REVIEW = 'resolution_review', // Closing readings kept disagreeing, left for an admin
+  RESOLVED_PENDING_SETTLEMENT = 'resolved_pending_settlement', // Proposed, app session still open
+  SETTLED = 'settled', // App session closed with the payouts
+  SETTLEMENT_FAILED = 'settlement_failed', // Gave up after ORACLE.MAX_ATTEMPTS, needs an operator
+  CANCELLING = 'cancelling', // Cancelled, stakes not refunded yet
+  CANCELLED = 'cancelled', // App session closed with every stake refunded
+}
+
+// Why a market was cancelled instead of resolved
+export type CancelReason =
+  | 'streamer_never_live'
+  | 'twitch_account_missing'
+  | 'oracle_data_unavailable'
+  | 'admin';
+
 export interface PredictionMarket {
   id: string;
   app_session_id: string;
@@ -66,7 +100,9 @@ export interface PredictionMarket {
   description: string;
   market_type: MarketType;
   target_value: number;
+  target_category?: string | null; // Category/game for CHANGE_CATEGORY and PLAY_SPECIFIC_GAME
   twitch_metric: string; // e.g., 'followers_count', 'viewer_count'
+  asset: string; // ClearNode asset id the market is denominated in (see ASSET_REGISTRY)
 
   // Pool addresses
   pool_yes_address: string;
@@ -77,17 +113,25 @@ export interface PredictionMarket {
   yes_amount: string;
   no_amount: string;
   total_volume: string;
-  yes_price: number; // Calculated from amounts
-  no_price: number; // Calculated from amounts
+  liquidity: number; // LMSR liquidity parameter b, display units
+  yes_shares: string; // Outstanding shares, smallest units
+  no_shares: string;
+  yes_price: number; // LMSR price of the outstanding shares (see lmsr.ts)
+  no_price: number;
 
   // Timing
   created_at: string;
   end_date: string;
+  dispute_ends_at?: string | null;
   resolved_at?: string;
 
   // Resolution
   status: MarketStatus;
   winner?: 'yes' | 'no';
+  oracle_state?: OracleState | null;
+  cancel_reason?: CancelReason | null;
+  cancel_note?: string | null;
+  cancelled_at?: string | null;
 }
 
 // ============================================================================
@@ -96,20 +140,86 @@ export interface PredictionMarket {
 
 export interface Bet {
   id: string;
-  user_id: string;
+  user_id: string | null; // Signed-in user who placed it, if any
+  wallet_address: string; // Wallet whose stake the app session recorded
   market_id: string;
   side: 'yes' | 'no';
-  amount: string;
-  price_at_bet: number; // Price when bet was placed
-  yellow_tx_id?: string;
+  amount: string; // Smallest units, negative for a sale (cash-out)
+  shares: string; // Shares bought, smallest units, negative for a sale
+  price_at_bet: number; // Average price paid (or received) per share
+  realized_pnl?: string | null; // Sales only: proceeds minus the cost of the shares sold
+  app_session_id: string;
+  app_session_version: number; // State update that moved the stake
+  yellow_tx_id?: string | null;
+  order_id?: string | null; // Limit order this bet filled, if any
   created_at: string;
 }
 
+// App session state update a bet was accepted in
+export interface BetReceipt {
+  bettor: string; // Wallet the stake was recorded for
+  version: number;
+  transferId?: string; // Ledger transaction that paid the stake to the oracle
+}
+
+// A wallet's stakes in one market, summed over its bets (see positions.ts)
 export interface UserPosition {
-  market: PredictionMarket;
-  bet: Bet;
-  potential_payout: string;
-  current_value: string;
+  market_id: string;
+  wallet_address: string;
+  user_id: string | null;
+  asset: string; // Market asset the amounts are in
+  yes_amount: string; // Net stake in smallest units, cash-outs subtracted
+  no_amount: string;
+  yes_shares: string; // Shares held
+  no_shares: string;
+  yes_cost: string; // Cost basis of the shares held, at average cost
+  no_cost: string;
+  yes_value: string; // What selling every share held would pay now
+  no_value: string;
+  realized_pnl: string; // Summed over the position's sales
+  bets: number;
+  payout_if_yes: string; // Pro-rata share of the current pot if YES wins
+  payout_if_no: string;
+  first_bet_at: string;
+  last_bet_at: string;
+}
+
+// ============================================================================
+// Order Book Types
+// ============================================================================
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled';
+
+// A limit order to buy shares of one side (see order-book.ts)
+export interface Order {
+  id: string;
+  market_id: string;
+  user_id: string | null;
+  wallet_address: string; // Wallet that paid the escrow
+  side: 'yes' | 'no';
+  price: number; // Limit price in cents per share, 1 to 99
+  shares: string; // Smallest units
+  filled_shares: string; // Filled, or reserved by a fill being settled
+  escrow: string; // Paid to the oracle when placed, smallest units
+  spent: string; // Taken from the escrow by fills, pending or settled
+  refund_status: string | null; // Of the unspent escrow, once the order is done
+  status: OrderStatus;
+  created_at: string;
+  updated_at: string;
+  cancelled_at: string | null;
+}
+
+// Resting shares at one price of one side
+export interface DepthLevel {
+  price: number; // Cents per share
+  shares: string; // Smallest units, summed over the orders at this price
+  orders: number;
+}
+
+// Resting orders of a market, best price first on each side
+export interface OrderBookDepth {
+  yes: DepthLevel[];
+  no: DepthLevel[];
 }
 
 // ============================================================================
@@ -165,12 +275,16 @@ export interface YellowClientConfig {
   autoReconnect?: boolean;
   reconnectAttempts?: number;
   reconnectInterval?: number;
+  requestTimeout?: number; // ms, default and upper bound for RPC request timeouts
+  sessionKeyStore?: SessionKeyStore; // Persists the session key across page loads
 }
 
 export enum ConnectionStatus {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
+  RECONNECTING = 'reconnecting', // Connection lost, waiting to retry
   CONNECTED = 'connected',
+  AUTHENTICATING = 'authenticating', // Renewing or restoring the session key; requests wait for it
   AUTHENTICATED = 'authenticated',
   ERROR = 'error',
 }
@@ -190,11 +304,14 @@ export interface YellowClientState {
 
 export interface OracleResolutionData {
   market_id: string;
+  market_type: MarketType;
   twitch_metric: string;
-  target_value: number;
-  actual_value: number;
+  target_value: number | null;
+  target_category: string | null;
+  actual_value: number | string | null; // Aggregated metric (see lib/yellow/resolvers.ts)
   winner: 'yes' | 'no';
   resolved_at: string;
+  evidence_hash: string; // market_resolutions row with the full evidence (see lib/yellow/evidence.ts)
 }
 
 // ============================================================================
@@ -227,5 +344,10 @@ export interface BetRequest {
 export type Listener<T = RPCResponse> = (message: T) => void | Promise<void>;
 
 export interface RequestOptions {
-  timeout?: number;
+  timeout?: number; // ms per ClearNode request, capped by the client's requestTimeout
+  signal?: AbortSignal; // Aborts the pending request and any retries
+}
+
+export interface OperationOptions extends RequestOptions {
+  correlationId?: string; // Ties the log lines of one bet/market operation together
 }
@@ -0,0 +1,49 @@
+/**
+ * Sampler de métricas de streamers
+ *
+ * Guarda una muestra (viewers, categoría, título, followers) de cada
+ * streamer con mercados pendientes cada ORACLE.SAMPLE_INTERVAL.
+ *
+ * Ejecutar con: npm run sampler
+ * Una sola pasada: npm run sampler -- --once
+ */
+
+import 'dotenv/config';
+import { sampleTrackedStreamers } from '../lib/yellow/sampler';
+import { YELLOW_CONFIG } from '../lib/yellow/config';
+
+const once = process.argv.includes('--once');
+const interval = Number(process.env.SAMPLE_INTERVAL_MS || YELLOW_CONFIG.ORACLE.SAMPLE_INTERVAL);
+
+async function sample() {
+  try {
+    const { sampled, failed } = await sampleTrackedStreamers();
+    console.log(`📈 ${sampled} streamers muestreados, ${failed} fallidos`);
+  } catch (error) {
+    console.error('❌ Error al muestrear:', error);
+  }
+}
+
+async function main() {
+  await sample();
+  if (once) {
+    return;
+  }
+
+  console.log(`⏱️  Muestreando cada ${interval / 1000}s (Ctrl+C para salir)`);
+  const timer = setInterval(sample, interval);
+
+  const shutdown = () => {
+    console.log('\n👋 Cerrando sampler...');
+    clearInterval(timer);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ No se pudo iniciar el sampler:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * ClearNode local para desarrollo sin red
+ *
+ * Ejecutar con: npm run mock:clearnode
+ * Luego arrancar la app con NEXT_PUBLIC_YELLOW_WS_URL=ws://127.0.0.1:8546
+ */
+
+import 'dotenv/config';
+import { MockClearNode } from '../lib/yellow/mock-clearnode';
+
+const port = Number(process.env.MOCK_CLEARNODE_PORT || 8546);
+const initialBalance = Number(process.env.MOCK_CLEARNODE_BALANCE || 1000);
+
+async function main() {
+  const clearNode = new MockClearNode({ port, initialBalance });
+  const url = await clearNode.start();
+
+  console.log(`💰 Cada wallet nueva recibe ${initialBalance} de cada asset`);
+  console.log(`💡 Usa NEXT_PUBLIC_YELLOW_WS_URL=${url}\n`);
+
+  const shutdown = async () => {
+    console.log('\n👋 Cerrando mock ClearNode...');
+    await clearNode.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ No se pudo iniciar el mock ClearNode:', error);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+/**
+ * Ida y vuelta de un mercado contra el mock ClearNode
+ *
+ * Arranca un mock ClearNode en un puerto libre y recorre dos mercados
+ * completos sin Supabase: el oráculo abre la sesión, dos apostadores
+ * transfieren su apuesta al oráculo y este la mete en los pools, la sesión
+ * se cierra con el bote en la asignación del oráculo y el oráculo transfiere
+ * cada pago. El primer mercado se liquida a YES; en el segundo un apostador
+ * vende parte de su posición (el pool paga al oráculo, que se lo transfiere),
+ * otra venta que no se pudo registrar vuelve al pool sin pagarse,
+ * y después se cancela y devuelve lo que queda de cada apuesta. Al final comprueba los saldos de cada wallet y sale
+ * con código 1 si alguno no cuadra.
+ *
+ * Ejecutar con: npm run mock:roundtrip
+ */
+
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { generatePrivateKey } from 'viem/accounts';
+import type { Address } from 'viem';
+import { MockClearNode } from '../lib/yellow/mock-clearnode';
+import { YellowService } from '../lib/yellow/service';
+import { parseStakes, refundMarket, settleMarket, type MarketSettlement } from '../lib/yellow/payouts';
+import { fromSmallestUnit, toSmallestUnit } from '../lib/yellow/assets';
+import { marketLiquidity, netOfFee, quoteShares, replayStakes } from '../lib/yellow/lmsr';
+import type { MarketOutcome } from '../lib/yellow/pools';
+import type { AppSessionState } from '../lib/yellow/types';
+
+const ASSET = 'ytest.usd';
+const INITIAL_BALANCE = 1000;
+const LIQUIDITY = marketLiquidity(null, ASSET);
+
+async function balanceOf(service: YellowService): Promise<bigint> {
+  const client = await service.getClient();
+  const { balances } = await client.fetchUnifiedBalance();
+  const balance = balances.find((b) => b.asset === ASSET);
+  return BigInt(balance?.amount ?? '0');
+}
+
+async function placeBet(
+  oracle: YellowService,
+  bettor: YellowService,
+  appSessionId: `0x${string}`,
+  outcome: MarketOutcome,
+  amount: number
+): Promise<void> {
+  const stake = toSmallestUnit(amount, ASSET);
+  const poolStake = netOfFee(stake);
+  // Acciones cotizadas sobre el libro de la sesión, como en la ruta de apuestas
+  const { session_data } = await oracle.getSessionState(appSessionId);
+  const outstanding = replayStakes(parseStakes(session_data), LIQUIDITY);
+  const { shares } = quoteShares(outstanding, LIQUIDITY, outcome, poolStake);
+  await bettor.transfer(oracle.address, ASSET, stake.toString());
+  // La comisión se queda en la asignación del oráculo
+  const version = await oracle.addStakes(appSessionId, ASSET, stake.toString(), [
+    { bettor: bettor.address, outcome, amount: poolStake.toString(), shares: shares.toString() },
+  ]);
+  console.log(`🎲 ${bettor.address} apuesta ${amount} a ${outcome.toUpperCase()} (versión ${version})`);
+}
+
+async function cashOut(
+  oracle: YellowService,
+  seller: YellowService,
+  appSessionId: `0x${string}`,
+  outcome: MarketOutcome,
+  amount: number,
+  reverted = false
+): Promise<void> {
+  const proceeds = toSmallestUnit(amount, ASSET).toString();
+  // Las acciones no importan aquí: el mercado se cancela
+  const version = await oracle.cashOut(appSessionId, ASSET, seller.address, outcome, proceeds, proceeds);
+  if (reverted) {
+    // Como la ruta de ventas cuando no puede registrarla: vuelve al pool sin pagarse
+    await oracle.revertCashOut(appSessionId, ASSET, seller.address, outcome, proceeds, proceeds);
+    console.log(`↩️  Venta de ${amount} de ${outcome.toUpperCase()} de ${seller.address} revertida`);
+    return;
+  }
+  await oracle.withdraw(appSessionId, ASSET, proceeds);
+  await oracle.transfer(seller.address, ASSET, proceeds);
+  console.log(`💰 ${seller.address} vende ${amount} de ${outcome.toUpperCase()} (versión ${version})`);
+}
+
+/**
+ * Abre un mercado, coloca las apuestas y las ventas, lo cierra con la
+ * liquidación de `settle` y transfiere los pagos, como hace el oráculo
+ */
+async function runMarket(
+  oracle: YellowService,
+  bets: Array<[YellowService, MarketOutcome, number]>,
+  settle: (state: AppSessionState) => MarketSettlement,
+  sales: Array<[YellowService, MarketOutcome, number, boolean?]> = []
+): Promise<void> {
+  const { appSessionId } = await oracle.createMarketSession({
+    marketId: randomUUID(),
+    question: 'Mock round trip',
+    asset: ASSET,
+  });
+  console.log(`\n📂 Sesión ${appSessionId} abierta por el oráculo ${oracle.address}`);
+
+  for (const [bettor, outcome, amount] of bets) {
+    await placeBet(oracle, bettor, appSessionId, outcome, amount);
+  }
+  for (const [seller, outcome, amount, reverted] of sales) {
+    await cashOut(oracle, seller, appSessionId, outcome, amount, reverted);
+  }
+
+  const settlement = settle(await oracle.getSessionState(appSessionId));
+  await oracle.closeMarketSession(appSessionId, settlement.allocations);
+  console.log(`🏁 Sesión cerrada, bote de ${fromSmallestUnit(settlement.pot, ASSET)} para el oráculo`);
+
+  for (const { bettor, payout } of settlement.payouts) {
+    if (payout > 0n) {
+      await oracle.transfer(bettor, ASSET, payout.toString());
+      console.log(`💸 Pagados ${fromSmallestUnit(payout, ASSET)} a ${bettor}`);
+    }
+  }
+}
+
+async function main() {
+  const clearNode = new MockClearNode({ port: 0, initialBalance: INITIAL_BALANCE, quiet: true });
+  const wsUrl = await clearNode.start();
+  const services: YellowService[] = [];
+
+  try {
+    const connect = () => {
+      const service = new YellowService(generatePrivateKey(), { wsUrl, autoReconnect: false });
+      services.push(service);
+      return service;
+    };
+    const [oracle, alice, bob] = [connect(), connect(), connect()];
+
+    // Alice gana el bote de Bob: sus acciones valen más que el bote, que se lleva entero
+    await runMarket(
+      oracle,
+      [[alice, 'yes', 3], [bob, 'no', 1]],
+      (state) => settleMarket(state, 'yes', ASSET, LIQUIDITY)
+    );
+    // Bob vende 2 de NO, la venta de 1 de YES de Alice se revierte y el mercado
+    // se cancela: cada uno recupera lo suyo
+    await runMarket(
+      oracle,
+      [[alice, 'yes', 2], [bob, 'no', 5], [bob, 'yes', 1]],
+      (state) => refundMarket(state, ASSET),
+      [[bob, 'no', 2], [alice, 'yes', 1, true]]
+    );
+
+    console.log('');
+    const initial = toSmallestUnit(INITIAL_BALANCE, ASSET);
+    const expected: Array<[string, Address, bigint]> = [
+      ['oráculo', oracle.address, initial],
+      ['alice', alice.address, initial + toSmallestUnit(1, ASSET)],
+      ['bob', bob.address, initial - toSmallestUnit(1, ASSET)],
+    ];
+    const balances = await Promise.all([oracle, alice, bob].map(balanceOf));
+
+    let failed = false;
+    expected.forEach(([name, address, amount], i) => {
+      const ok = balances[i] === amount;
+      failed ||= !ok;
+      console.log(
+        `${ok ? '✅' : '❌'} ${name} (${address}): ${fromSmallestUnit(balances[i], ASSET)}, esperado ${fromSmallestUnit(amount, ASSET)}`
+      );
+    });
+
+    if (failed) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await Promise.all(services.map((service) => service.shutdown()));
+    await clearNode.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ La ida y vuelta falló:', error);
+  process.exit(1);
+});
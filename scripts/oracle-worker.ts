@@ -0,0 +1,96 @@
+/**
+ * Worker del oráculo
+ *
+ * Autentica la wallet del oráculo (YELLOW_ORACLE_PRIVATE_KEY) y ejecuta el
+ * ciclo completo cada ORACLE.CHECK_INTERVAL: cerrar mercados vencidos,
+ * proponer resultados, liquidar y reembolsar cancelados. Cada ciclo queda
+ * registrado en oracle_runs. Un ciclo nunca se solapa con el siguiente y
+ * Ctrl+C espera a que termine el ciclo en curso antes de salir.
+ *
+ * Ejecutar con: npm run oracle
+ * Un solo ciclo: npm run oracle -- --once
+ * Simulación (no cambia nada, muestra lo que haría): npm run oracle -- --dry-run
+ */
+
+import 'dotenv/config';
+import { TwitchOracle } from '../lib/yellow/oracle';
+import { getOracleService } from '../lib/yellow/service';
+import { YELLOW_CONFIG } from '../lib/yellow/config';
+
+const once = process.argv.includes('--once');
+const dryRun = process.argv.includes('--dry-run');
+const interval = Number(process.env.ORACLE_INTERVAL_MS || YELLOW_CONFIG.ORACLE.CHECK_INTERVAL);
+
+async function main() {
+  const service = getOracleService();
+  const oracle = new TwitchOracle(await service.getClient(), service.address);
+  console.log(`🔮 Oráculo autenticado como ${service.address}`);
+
+  if (dryRun) {
+    const { previews } = await oracle.run('worker', { dryRun: true });
+    console.log(JSON.stringify(previews, null, 2));
+    await service.shutdown();
+    return;
+  }
+
+  let stopping = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let cycle: Promise<void> | undefined;
+
+  const tick = async () => {
+    try {
+      const result = await oracle.run('worker');
+      console.log(
+        `✅ Ciclo completado: ${result.closed} cerrados, ${result.proposed} propuestos, ` +
+          `${result.cancelled} cancelados, ${result.settled} liquidados, ` +
+          `${result.refunded} reembolsados, ${result.failed} fallidos`
+      );
+    } catch (error) {
+      console.error('❌ Error en el ciclo del oráculo:', error);
+    }
+  };
+
+  // The next cycle is scheduled when the previous one ends, so they never overlap
+  const schedule = () => {
+    if (!stopping) {
+      timer = setTimeout(() => {
+        cycle = tick().finally(schedule);
+      }, interval);
+    }
+  };
+
+  const shutdown = async () => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    console.log('\n👋 Cerrando oráculo, esperando al ciclo en curso...');
+    clearTimeout(timer);
+    await cycle;
+    await service.shutdown();
+    process.exit(0);
+  };
+
+  // Registered before the first cycle, which may already hold market leases
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  cycle = tick();
+  await cycle;
+  if (stopping) {
+    return;
+  }
+  if (once) {
+    stopping = true;
+    await service.shutdown();
+    return;
+  }
+
+  console.log(`⏱️  Ejecutando cada ${interval / 1000}s (Ctrl+C para salir)`);
+  schedule();
+}
+
+main().catch((error) => {
+  console.error('❌ No se pudo iniciar el oráculo:', error);
+  process.exit(1);
+});
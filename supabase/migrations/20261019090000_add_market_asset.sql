@@ -0,0 +1,14 @@
+/*
+  # Add Market Asset
+
+  Markets can be denominated in any asset from the Yellow asset registry
+  (lib/yellow/assets.ts):
+  - asset: ClearNode asset id used for every allocation of the market's app session
+
+  Existing markets were all created with sandbox test USD.
+*/
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS asset text NOT NULL DEFAULT 'ytest.usd';
+
+COMMENT ON COLUMN markets.asset IS 'ClearNode asset id the market is denominated in (e.g., ytest.usd); amounts are in its smallest unit';
@@ -0,0 +1,39 @@
+/*
+  # Add Market Types
+
+  Markets can be resolved on any MarketType (lib/yellow/market-types.ts):
+  - market_type: How the oracle resolves the market; rows without it fall back to twitch_metric
+  - target_category: Category or game name for category markets (change_category,
+    play_specific_game); numeric markets keep using target_value
+
+  Category markets have no numeric target, so target_value becomes optional.
+*/
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS market_type text,
+ADD COLUMN IF NOT EXISTS target_category text;
+
+ALTER TABLE markets
+ALTER COLUMN target_value DROP DEFAULT;
+
+UPDATE markets
+SET market_type = CASE twitch_metric
+  WHEN 'followers_count' THEN 'reach_follower_count'
+  ELSE 'reach_viewer_count'
+END
+WHERE market_type IS NULL;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_market_type_check CHECK (
+  market_type IS NULL OR market_type IN (
+    'reach_follower_count',
+    'reach_viewer_count',
+    'peak_viewers',
+    'stream_hours',
+    'change_category',
+    'play_specific_game'
+  )
+);
+
+COMMENT ON COLUMN markets.market_type IS 'MarketType the oracle resolves this market with (e.g., peak_viewers, play_specific_game)';
+COMMENT ON COLUMN markets.target_category IS 'Category or game name for category markets; compared case-insensitively';
@@ -0,0 +1,42 @@
+/*
+  # Create Metric Samples
+
+  1. New Tables
+    - `metric_samples`: Time series of streamer metrics recorded by the sampler
+      (lib/yellow/sampler.ts); the oracle resolves markets from the samples
+      taken between a market's creation and its end date
+      - `id` (uuid, primary key)
+      - `streamer_id` (uuid, references streamers)
+      - `sampled_at` (timestamptz)
+      - `is_live` (boolean)
+      - `viewer_count` (integer) - 0 while offline
+      - `follower_count` (integer)
+      - `game_name` (text) - Stream category, or channel category while offline
+      - `title` (text)
+      - `stream_started_at` (timestamptz) - Start of the live stream, null while offline
+
+  2. Security
+    - Enable RLS on `metric_samples`
+    - Anyone can read samples; only the service role writes them
+*/
+
+CREATE TABLE IF NOT EXISTS metric_samples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  streamer_id uuid NOT NULL REFERENCES streamers(id) ON DELETE CASCADE,
+  sampled_at timestamptz NOT NULL DEFAULT now(),
+  is_live boolean NOT NULL DEFAULT false,
+  viewer_count integer,
+  follower_count integer,
+  game_name text,
+  title text,
+  stream_started_at timestamptz
+);
+
+ALTER TABLE metric_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view metric samples"
+  ON metric_samples FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_metric_samples_streamer_sampled_at
+  ON metric_samples(streamer_id, sampled_at);
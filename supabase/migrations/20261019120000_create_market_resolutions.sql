@@ -0,0 +1,59 @@
+/*
+  # Create Market Resolutions
+
+  1. Changes to `markets`
+    - Add `resolved_at` (timestamptz) - When the oracle resolved the market
+
+  2. Changes to `metric_samples`
+    - Add `raw_response` (jsonb) - Twitch API payloads the sample was read from
+
+  3. New Tables
+    - `market_resolutions`: Evidence for every oracle resolution (lib/yellow/evidence.ts)
+      - `id` (uuid, primary key)
+      - `market_id` (uuid, references markets)
+      - `market_type`, `twitch_metric` (text) - Metric the market resolved on
+      - `target_value` (numeric), `target_category` (text) - Target it was compared to
+      - `actual_value` (jsonb) - Aggregated metric value (number or category name)
+      - `winner` (text) - 'yes' or 'no'
+      - `sample_ids` (uuid[]) - metric_samples rows aggregated; empty when read live
+      - `raw_response` (jsonb) - Raw Twitch response of the latest sample used
+      - `oracle_address` (text) - Wallet of the oracle that resolved the market
+      - `evidence_hash` (text) - keccak256 of the canonical JSON of the fields above
+      - `resolved_at` (timestamptz)
+
+  4. Security
+    - Enable RLS on `market_resolutions`
+    - Anyone can read resolutions; only the service role writes them
+*/
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+ALTER TABLE metric_samples
+ADD COLUMN IF NOT EXISTS raw_response jsonb;
+
+CREATE TABLE IF NOT EXISTS market_resolutions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  market_type text NOT NULL,
+  twitch_metric text NOT NULL,
+  target_value numeric,
+  target_category text,
+  actual_value jsonb,
+  winner text NOT NULL CHECK (winner IN ('yes', 'no')),
+  sample_ids uuid[] NOT NULL DEFAULT '{}',
+  raw_response jsonb,
+  oracle_address text NOT NULL,
+  evidence_hash text NOT NULL,
+  resolved_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE market_resolutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view market resolutions"
+  ON market_resolutions FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_market_resolutions_market_id
+  ON market_resolutions(market_id, resolved_at DESC);
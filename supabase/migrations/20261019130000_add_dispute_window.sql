@@ -0,0 +1,66 @@
+/*
+  # Add Dispute Window
+
+  The oracle no longer settles a market in the cycle it resolves it. It
+  proposes an outcome (status 'proposed') and bettors can dispute it until
+  `dispute_ends_at`; the app session is only closed once the window has
+  passed without an open or upheld dispute against the current proposal.
+
+  1. Changes to `markets`
+    - Allow status 'proposed' (active -> closed -> proposed -> resolved)
+    - Add `dispute_ends_at` (timestamptz) - End of the dispute window of the current proposal
+
+  2. New Tables
+    - `market_disputes`
+      - `id` (uuid, primary key)
+      - `market_id` (uuid, references markets)
+      - `resolution_id` (uuid, references market_resolutions) - Proposal being disputed
+      - `user_id` (uuid, references profiles) - Who filed it
+      - `bettor_address` (text) - Wallet whose stake entitles them to dispute
+      - `reason` (text)
+      - `status` (text) - 'open', 'upheld' or 'rejected'
+      - `admin_note` (text) - Why the admin decided as they did
+      - `decided_at` (timestamptz)
+
+  3. Changes to `market_resolutions`
+    - Add `overturns_dispute_id` (uuid) - Upheld dispute this proposal replaces the outcome for
+
+  4. Security
+    - Enable RLS on `market_disputes`
+    - Anyone can read disputes; they are filed and decided through the API with the service role
+*/
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_status_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_status_check CHECK (status IN ('active', 'closed', 'proposed', 'resolved'));
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS dispute_ends_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS market_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  resolution_id uuid NOT NULL REFERENCES market_resolutions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  bettor_address text NOT NULL,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'upheld', 'rejected')),
+  admin_note text,
+  decided_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE market_resolutions
+ADD COLUMN IF NOT EXISTS overturns_dispute_id uuid REFERENCES market_disputes(id);
+
+ALTER TABLE market_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view market disputes"
+  ON market_disputes FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_market_disputes_market_id ON market_disputes(market_id);
+CREATE INDEX IF NOT EXISTS idx_market_disputes_status ON market_disputes(status);
+CREATE INDEX IF NOT EXISTS idx_markets_dispute_ends_at ON markets(dispute_ends_at) WHERE status = 'proposed';
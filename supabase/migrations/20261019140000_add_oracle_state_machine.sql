@@ -0,0 +1,47 @@
+/*
+  # Add Oracle State Machine
+
+  Every step the oracle takes on a market is persisted, so a crash or a
+  failed app session close is retried instead of leaving funds locked
+  (lib/yellow/oracle-state.ts).
+
+  1. Changes to `markets`
+    - `oracle_state` (text) - closing -> resolving -> resolved_pending_settlement -> settled,
+      or settlement_failed once settling has failed ORACLE.MAX_ATTEMPTS times
+    - `oracle_attempts` (integer) - Failed attempts at the current step
+    - `oracle_last_error` (text) - Error of the last failed attempt
+    - `oracle_next_attempt_at` (timestamptz) - Backoff: the step is not retried before this
+    - `oracle_lease_owner` (text) - Oracle run currently working on the market
+    - `oracle_lease_expires_at` (timestamptz) - Lease end; an expired lease can be taken over
+
+  2. Existing markets are backfilled from their status
+*/
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS oracle_state text,
+ADD COLUMN IF NOT EXISTS oracle_attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS oracle_last_error text,
+ADD COLUMN IF NOT EXISTS oracle_next_attempt_at timestamptz,
+ADD COLUMN IF NOT EXISTS oracle_lease_owner text,
+ADD COLUMN IF NOT EXISTS oracle_lease_expires_at timestamptz;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_oracle_state_check CHECK (
+  oracle_state IS NULL OR oracle_state IN (
+    'closing',
+    'resolving',
+    'resolved_pending_settlement',
+    'settled',
+    'settlement_failed'
+  )
+);
+
+UPDATE markets
+SET oracle_state = CASE status
+  WHEN 'closed' THEN 'resolving'
+  WHEN 'proposed' THEN 'resolved_pending_settlement'
+  WHEN 'resolved' THEN 'settled'
+END
+WHERE oracle_state IS NULL AND status IN ('closed', 'proposed', 'resolved');
+
+CREATE INDEX IF NOT EXISTS idx_markets_oracle_state ON markets(oracle_state, oracle_next_attempt_at);
@@ -0,0 +1,43 @@
+/*
+  # Add Market Cancellation
+
+  A market that cannot be resolved fairly is cancelled and every bettor gets
+  their exact stake back when its app session is closed.
+
+  1. Changes to `markets`
+    - Allow status 'cancelled'
+    - Add `cancel_reason` (text) - 'streamer_never_live', 'twitch_account_missing',
+      'oracle_data_unavailable' or 'admin'
+    - Add `cancel_note` (text) - Free-form detail, e.g. why an admin cancelled it
+    - Add `cancelled_at` (timestamptz)
+    - Allow oracle_state 'cancelling' (stakes still in the app session) and 'cancelled' (refunded)
+*/
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_status_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_status_check CHECK (status IN ('active', 'closed', 'proposed', 'resolved', 'cancelled'));
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS cancel_reason text CHECK (
+  cancel_reason IN ('streamer_never_live', 'twitch_account_missing', 'oracle_data_unavailable', 'admin')
+),
+ADD COLUMN IF NOT EXISTS cancel_note text,
+ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_oracle_state_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_oracle_state_check CHECK (
+  oracle_state IS NULL OR oracle_state IN (
+    'closing',
+    'resolving',
+    'resolved_pending_settlement',
+    'settled',
+    'settlement_failed',
+    'cancelling',
+    'cancelled'
+  )
+);
@@ -0,0 +1,42 @@
+/*
+  # Create Oracle Runs
+
+  One row per oracle cycle, whether started by the oracle worker
+  (npm run oracle) or by POST /api/oracle/run, so operators can see when the
+  oracle last ran and what it did.
+
+  1. New Tables
+    - `oracle_runs`
+      - `id` (uuid, primary key)
+      - `trigger` (text) - 'worker' or 'api'
+      - `oracle_address` (text) - Wallet that ran the cycle
+      - `status` (text) - 'running', 'succeeded' or 'failed'
+      - `closed` / `proposed` / `cancelled` / `settled` / `refunded` (integer) - Markets each step completed
+      - `failed` (integer) - Market steps that failed and will be retried
+      - `error` (text) - Why the cycle itself failed
+      - `started_at` / `finished_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `oracle_runs`
+    - No public policies: written and read with the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS oracle_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL CHECK (trigger IN ('worker', 'api')),
+  oracle_address text NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  closed integer NOT NULL DEFAULT 0,
+  proposed integer NOT NULL DEFAULT 0,
+  cancelled integer NOT NULL DEFAULT 0,
+  settled integer NOT NULL DEFAULT 0,
+  refunded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  error text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+ALTER TABLE oracle_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_oracle_runs_started_at ON oracle_runs(started_at DESC);
@@ -0,0 +1,111 @@
+/*
+  # Create Bets
+
+  Every bet placed through /api/markets/bet is stored, so stakes can be
+  aggregated per user and market instead of read off the market totals.
+
+  1. New Tables
+    - `bets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles) - Signed-in user who placed it, if any
+      - `wallet_address` (text) - Wallet whose stake the app session recorded (checksummed)
+      - `market_id` (uuid, references markets)
+      - `side` (text) - 'yes' or 'no'
+      - `amount` (text) - Stake in the market asset's smallest unit
+      - `price_at_bet` (numeric) - Price of the side when the bet was placed
+      - `app_session_id` (text) / `app_session_version` (integer) - State update that moved the stake;
+        unique, so the same update is never recorded twice
+      - `yellow_tx_id` (text) - ClearNode ledger transaction, when the bet produced one
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `record_bet` - Inserts the bet and updates the market's amounts, prices and volume in one
+      transaction, with the market row locked so concurrent bets cannot overwrite each other
+
+  3. Security
+    - Enable RLS on `bets`
+    - Anyone can read bets (the stakes are public in the app session data anyway)
+    - Only the service role can call `record_bet`
+*/
+
+CREATE TABLE IF NOT EXISTS bets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  wallet_address text NOT NULL,
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  side text NOT NULL CHECK (side IN ('yes', 'no')),
+  amount text NOT NULL CHECK (amount ~ '^[0-9]+$'),
+  price_at_bet numeric(5,2) NOT NULL,
+  app_session_id text NOT NULL,
+  app_session_version integer NOT NULL,
+  yellow_tx_id text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (app_session_id, app_session_version)
+);
+
+ALTER TABLE bets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view bets"
+  ON bets FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_bets_market_id ON bets(market_id);
+CREATE INDEX IF NOT EXISTS idx_bets_wallet_address ON bets(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_bets_user_id ON bets(user_id);
+
+CREATE OR REPLACE FUNCTION record_bet(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_amount text,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS TABLE (bet_id uuid, yes_price numeric, no_price numeric)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  market markets%ROWTYPE;
+  new_yes numeric;
+  new_no numeric;
+  new_yes_price numeric;
+  new_bet_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market not found: %', p_market_id;
+  END IF;
+
+  new_yes := COALESCE(market.yes_amount, '0')::numeric + CASE WHEN p_side = 'yes' THEN p_amount::numeric ELSE 0 END;
+  new_no := COALESCE(market.no_amount, '0')::numeric + CASE WHEN p_side = 'no' THEN p_amount::numeric ELSE 0 END;
+  new_yes_price := CASE WHEN new_yes + new_no > 0 THEN floor(new_yes * 100 / (new_yes + new_no)) ELSE 50 END;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, price_at_bet,
+    app_session_id, app_session_version, yellow_tx_id
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, p_amount,
+    CASE WHEN p_side = 'yes' THEN market.yes_price ELSE market.no_price END,
+    p_app_session_id, p_app_session_version, p_yellow_tx_id
+  )
+  RETURNING id INTO new_bet_id;
+
+  UPDATE markets
+  SET yes_amount = new_yes::text,
+      no_amount = new_no::text,
+      yes_price = new_yes_price,
+      no_price = 100 - new_yes_price,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = p_market_id;
+
+  RETURN QUERY SELECT new_bet_id, new_yes_price, 100 - new_yes_price;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_bet(uuid, uuid, text, text, text, numeric, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_bet(uuid, uuid, text, text, text, numeric, text, integer, text) TO service_role;
@@ -0,0 +1,100 @@
+/*
+  # Add LMSR Pricing
+
+  Market prices come from a logarithmic market scoring rule (lib/yellow/lmsr.ts)
+  instead of the pool ratio. Every bet buys shares, and prices follow the
+  outstanding shares and the market's liquidity parameter.
+
+  1. Changes to `markets`
+    - Add `liquidity` (numeric) - LMSR liquidity parameter b, in display units of the market asset
+    - Add `yes_shares` / `no_shares` (text) - Outstanding shares, in smallest units
+    - Existing markets start with shares equal to their pool amounts and keep
+      their last price until their next bet
+
+  2. Changes to `bets`
+    - Add `shares` (text) - Shares the bet bought, in smallest units
+    - `price_at_bet` is now the average price paid per share
+    - Existing bets are backfilled with one share per unit staked
+
+  3. Functions
+    - `record_bet` now takes the quoted shares and prices, and the outstanding
+      shares they were quoted from. It raises serialization_failure (40001)
+      when another bet changed the shares in between, so the caller re-quotes
+*/
+
+ALTER TABLE markets
+ADD COLUMN IF NOT EXISTS liquidity numeric NOT NULL DEFAULT 100 CHECK (liquidity > 0),
+ADD COLUMN IF NOT EXISTS yes_shares text NOT NULL DEFAULT '0' CHECK (yes_shares ~ '^[0-9]+$'),
+ADD COLUMN IF NOT EXISTS no_shares text NOT NULL DEFAULT '0' CHECK (no_shares ~ '^[0-9]+$');
+
+UPDATE markets
+SET yes_shares = COALESCE(yes_amount, '0'),
+    no_shares = COALESCE(no_amount, '0');
+
+ALTER TABLE bets
+ADD COLUMN IF NOT EXISTS shares text NOT NULL DEFAULT '0' CHECK (shares ~ '^[0-9]+$');
+
+UPDATE bets SET shares = amount;
+
+DROP FUNCTION IF EXISTS record_bet(uuid, uuid, text, text, text, numeric, text, integer, text);
+
+CREATE OR REPLACE FUNCTION record_bet(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_amount text,
+  p_shares text,
+  p_price_at_bet numeric,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer,
+  p_expected_yes_shares text,
+  p_expected_no_shares text,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  market markets%ROWTYPE;
+  new_bet_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market not found: %', p_market_id;
+  END IF;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, shares, price_at_bet,
+    app_session_id, app_session_version, yellow_tx_id
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, p_amount, p_shares, p_price_at_bet,
+    p_app_session_id, p_app_session_version, p_yellow_tx_id
+  )
+  RETURNING id INTO new_bet_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric + CASE WHEN p_side = 'yes' THEN p_amount::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric + CASE WHEN p_side = 'no' THEN p_amount::numeric ELSE 0 END)::text,
+      yes_shares = (yes_shares::numeric + CASE WHEN p_side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric + CASE WHEN p_side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = p_market_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_bet(uuid, uuid, text, text, text, text, numeric, numeric, numeric, numeric, text, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_bet(uuid, uuid, text, text, text, text, numeric, numeric, numeric, numeric, text, integer, text, text, text) TO service_role;
@@ -0,0 +1,96 @@
+/*
+  # Add Bet Sales
+
+  Bettors can cash out part or all of a position before the market resolves,
+  selling shares back to the LMSR market maker. A sale is stored in `bets` as
+  a negative position: negative `amount` (what the pool paid out) and negative
+  `shares` (what was sold), the same way the app session's stake ledger
+  records it.
+
+  1. Changes to `bets`
+    - Allow negative `amount` and `shares` (sales)
+    - Add `realized_pnl` (text) - Proceeds minus the average cost of the shares sold,
+      in smallest units; null on bets
+
+  2. New Functions
+    - `record_sale` - Inserts the sale and takes the proceeds and shares off the market in
+      one transaction. Like `record_bet` it raises serialization_failure (40001) when the
+      shares changed since the prices were computed
+*/
+
+ALTER TABLE bets
+DROP CONSTRAINT IF EXISTS bets_amount_check;
+
+ALTER TABLE bets
+ADD CONSTRAINT bets_amount_check CHECK (amount ~ '^-?[0-9]+$');
+
+ALTER TABLE bets
+DROP CONSTRAINT IF EXISTS bets_shares_check;
+
+ALTER TABLE bets
+ADD CONSTRAINT bets_shares_check CHECK (shares ~ '^-?[0-9]+$');
+
+ALTER TABLE bets
+ADD COLUMN IF NOT EXISTS realized_pnl text CHECK (realized_pnl ~ '^-?[0-9]+$');
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_proceeds text,
+  p_shares text,
+  p_price numeric,
+  p_realized_pnl text,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer,
+  p_expected_yes_shares text,
+  p_expected_no_shares text,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  market markets%ROWTYPE;
+  new_bet_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market not found: %', p_market_id;
+  END IF;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, shares, price_at_bet, realized_pnl,
+    app_session_id, app_session_version, yellow_tx_id
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, '-' || p_proceeds, '-' || p_shares, p_price,
+    p_realized_pnl, p_app_session_id, p_app_session_version, p_yellow_tx_id
+  )
+  RETURNING id INTO new_bet_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric - CASE WHEN p_side = 'yes' THEN p_proceeds::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric - CASE WHEN p_side = 'no' THEN p_proceeds::numeric ELSE 0 END)::text,
+      yes_shares = (yes_shares::numeric - CASE WHEN p_side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric - CASE WHEN p_side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = p_market_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, uuid, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text) TO service_role;
@@ -0,0 +1,242 @@
+/*
+  # Create Order Book
+
+  Limit orders for YES and NO shares next to the LMSR pool. An order buys
+  `shares` of one side at up to `price` cents per share; a YES order and a NO
+  order cross when their prices add up to at least 100 cents. A fill of n
+  shares stakes n units in total, split at the resting order's price, and
+  is settled as an OPERATE update in the market's app session.
+
+  1. New Tables
+    - `orders`
+      - `id` (uuid, primary key)
+      - `market_id` (uuid, references markets)
+      - `user_id` (uuid, references profiles) - Signed-in user who placed it
+      - `wallet_address` (text) - Wallet whose session balance funds it (checksummed)
+      - `side` (text) - 'yes' or 'no'
+      - `price` (integer) - Limit price in cents per share, 1 to 99
+      - `shares` (text) - Shares wanted, in smallest units
+      - `filled_shares` (text) - Shares filled or reserved by a pending fill
+      - `status` (text) - 'open', 'filled' or 'cancelled'
+      - `created_at` (timestamptz) - Time priority
+      - `updated_at`, `cancelled_at` (timestamptz)
+    - `order_fills`
+      - `id` (uuid, primary key)
+      - `market_id` (uuid, references markets)
+      - `taker_order_id` / `maker_order_id` (uuid, references orders) - Incoming and resting order
+      - `shares` (text) - Shares filled, in smallest units
+      - `yes_price` (integer) - Cents per YES share; NO pays the rest of 100
+      - `status` (text) - 'pending' (shares reserved, state update not yet accepted), 'settled' or 'failed'
+      - `app_session_version` (integer) - State update that moved the stakes
+      - `error` (text) - Why a failed fill was not settled
+      - `created_at`, `settled_at` (timestamptz)
+
+  2. Changes to `bets`
+    - Add `order_id` (uuid, references orders) - Set on the two bets a fill records
+    - A fill records a YES and a NO bet from one state update, so the unique key on
+      (`app_session_id`, `app_session_version`) gains `side`
+
+  3. New Functions
+    - `reserve_fill` - Locks both orders, checks they still cross and have the shares left,
+      and reserves them in a pending fill. Raises serialization_failure (40001) otherwise
+    - `settle_fill` - Records a pending fill once its state update was accepted: a bet for
+      each side, the market's amounts and shares, and the fill itself
+    - `release_fill` - Gives the shares of a pending fill back to its orders when its state
+      update failed
+
+  4. Security
+    - Enable RLS on `orders` and `order_fills`
+    - Anyone can read them (the book is public)
+    - Only the service role writes them and calls the functions
+*/
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  wallet_address text NOT NULL,
+  side text NOT NULL CHECK (side IN ('yes', 'no')),
+  price integer NOT NULL CHECK (price BETWEEN 1 AND 99),
+  shares text NOT NULL CHECK (shares ~ '^[0-9]+$' AND shares::numeric > 0),
+  filled_shares text NOT NULL DEFAULT '0' CHECK (filled_shares ~ '^[0-9]+$'),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  cancelled_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS order_fills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  taker_order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  maker_order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  shares text NOT NULL CHECK (shares ~ '^[0-9]+$'),
+  yes_price integer NOT NULL CHECK (yes_price BETWEEN 1 AND 99),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'settled', 'failed')),
+  app_session_version integer,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  settled_at timestamptz
+);
+
+ALTER TABLE bets
+ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES orders(id) ON DELETE SET NULL;
+
+ALTER TABLE bets
+DROP CONSTRAINT IF EXISTS bets_app_session_id_app_session_version_key;
+
+ALTER TABLE bets
+ADD CONSTRAINT bets_app_session_id_app_session_version_side_key
+  UNIQUE (app_session_id, app_session_version, side);
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view orders"
+  ON orders FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public can view order fills"
+  ON order_fills FOR SELECT
+  USING (true);
+
+-- Resting orders of a market in price-time priority
+CREATE INDEX IF NOT EXISTS idx_orders_book ON orders(market_id, side, price DESC, created_at) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_orders_wallet_address ON orders(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_order_fills_market_id ON order_fills(market_id);
+CREATE INDEX IF NOT EXISTS idx_bets_order_id ON bets(order_id);
+
+CREATE OR REPLACE FUNCTION reserve_fill(
+  p_taker_order_id uuid,
+  p_maker_order_id uuid,
+  p_shares text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  taker orders%ROWTYPE;
+  maker orders%ROWTYPE;
+  new_fill_id uuid;
+BEGIN
+  -- Lock in id order, so two matchers never wait on each other
+  PERFORM 1 FROM orders WHERE id IN (p_taker_order_id, p_maker_order_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO taker FROM orders WHERE id = p_taker_order_id;
+  SELECT * INTO maker FROM orders WHERE id = p_maker_order_id;
+
+  IF taker.status IS DISTINCT FROM 'open' OR maker.status IS DISTINCT FROM 'open'
+     OR taker.market_id <> maker.market_id
+     OR taker.side = maker.side
+     OR taker.price + maker.price < 100
+     OR taker.shares::numeric - taker.filled_shares::numeric < p_shares::numeric
+     OR maker.shares::numeric - maker.filled_shares::numeric < p_shares::numeric THEN
+    RAISE EXCEPTION 'Orders no longer match'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE orders
+  SET filled_shares = (filled_shares::numeric + p_shares::numeric)::text,
+      status = CASE WHEN filled_shares::numeric + p_shares::numeric >= shares::numeric THEN 'filled' ELSE 'open' END,
+      updated_at = now()
+  WHERE id IN (p_taker_order_id, p_maker_order_id);
+
+  INSERT INTO order_fills (market_id, taker_order_id, maker_order_id, shares, yes_price)
+  VALUES (
+    maker.market_id, p_taker_order_id, p_maker_order_id, p_shares,
+    CASE WHEN maker.side = 'yes' THEN maker.price ELSE 100 - maker.price END
+  )
+  RETURNING id INTO new_fill_id;
+
+  RETURN new_fill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_fill(
+  p_fill_id uuid,
+  p_yes_stake text,
+  p_no_stake text,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  fill order_fills%ROWTYPE;
+  yes_order orders%ROWTYPE;
+  no_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO fill FROM order_fills WHERE id = p_fill_id FOR UPDATE;
+  IF NOT FOUND OR fill.status <> 'pending' THEN
+    RAISE EXCEPTION 'Fill is not pending: %', p_fill_id;
+  END IF;
+
+  SELECT * INTO yes_order FROM orders
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id) AND side = 'yes';
+  SELECT * INTO no_order FROM orders
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id) AND side = 'no';
+
+  PERFORM 1 FROM markets WHERE id = fill.market_id FOR UPDATE;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, shares, price_at_bet,
+    app_session_id, app_session_version, order_id
+  )
+  VALUES
+    (yes_order.user_id, yes_order.wallet_address, fill.market_id, 'yes', p_yes_stake, fill.shares,
+     fill.yes_price, p_app_session_id, p_app_session_version, yes_order.id),
+    (no_order.user_id, no_order.wallet_address, fill.market_id, 'no', p_no_stake, fill.shares,
+     100 - fill.yes_price, p_app_session_id, p_app_session_version, no_order.id);
+
+  -- A fill adds as many YES as NO shares, which leaves the LMSR prices where they are
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric + p_yes_stake::numeric)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric + p_no_stake::numeric)::text,
+      yes_shares = (yes_shares::numeric + fill.shares::numeric)::text,
+      no_shares = (no_shares::numeric + fill.shares::numeric)::text,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = fill.market_id;
+
+  UPDATE order_fills
+  SET status = 'settled',
+      app_session_version = p_app_session_version,
+      settled_at = now()
+  WHERE id = p_fill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_fill(
+  p_fill_id uuid,
+  p_error text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  fill order_fills%ROWTYPE;
+BEGIN
+  SELECT * INTO fill FROM order_fills WHERE id = p_fill_id FOR UPDATE;
+  IF NOT FOUND OR fill.status <> 'pending' THEN
+    RAISE EXCEPTION 'Fill is not pending: %', p_fill_id;
+  END IF;
+
+  UPDATE orders
+  SET filled_shares = (filled_shares::numeric - fill.shares::numeric)::text,
+      status = CASE WHEN status = 'filled' THEN 'open' ELSE status END,
+      updated_at = now()
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id);
+
+  UPDATE order_fills
+  SET status = 'failed',
+      error = p_error
+  WHERE id = p_fill_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_fill(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_fill(uuid, text, text, numeric, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_fill(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_fill(uuid, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_fill(uuid, text, text, numeric, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION release_fill(uuid, text) TO service_role;
@@ -0,0 +1,53 @@
+/*
+  # Create Market Payouts
+
+  Bettors are not app session participants, so a market's session closes
+  with the pot in the oracle's allocation and the oracle transfers each
+  payout to its bettor. The payouts are recorded before the close, so a
+  run that fails halfway through the transfers is picked up by the next
+  one, which pays only what is still unpaid.
+
+  1. New Tables
+    - `market_payouts`
+      - `id` (uuid, primary key)
+      - `market_id` (uuid, references markets)
+      - `wallet_address` (text) - Bettor paid (checksummed); one payout per bettor and market
+      - `asset` (text) - Market asset
+      - `stake` (text) - Net stake the payout is computed from, in smallest units
+      - `amount` (text) - Payout in smallest units
+      - `kind` (text) - 'winnings' or 'refund'
+      - `status` (text) - 'pending', 'paying' (transfer sent, outcome not recorded yet), 'paid' or 'failed'
+      - `yellow_tx_id` (text) - ClearNode transfer that paid it
+      - `error` (text) - Why the last transfer failed
+      - `created_at`, `paid_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `market_payouts`
+    - Anyone can read payouts (the stakes they come from are public in the app session data)
+    - Only the service role writes them
+*/
+
+CREATE TABLE IF NOT EXISTS market_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id uuid NOT NULL REFERENCES markets(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  asset text NOT NULL,
+  stake text NOT NULL CHECK (stake ~ '^[0-9]+$'),
+  amount text NOT NULL CHECK (amount ~ '^[0-9]+$'),
+  kind text NOT NULL CHECK (kind IN ('winnings', 'refund')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paying', 'paid', 'failed')),
+  yellow_tx_id text,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  UNIQUE (market_id, wallet_address)
+);
+
+ALTER TABLE market_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view market payouts"
+  ON market_payouts FOR SELECT
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_market_payouts_wallet_address ON market_payouts(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_market_payouts_unpaid ON market_payouts(market_id) WHERE status <> 'paid';
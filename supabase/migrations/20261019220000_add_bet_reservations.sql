@@ -0,0 +1,155 @@
+/*
+  # Add Bet Reservations
+
+  A bet is stored before its stake moves, so a stake that reached the app
+  session is never lost when recording it fails afterwards. The bet route
+  reserves a pending row, transfers the stake and adds it to the session,
+  then confirms the row with record_bet; a stake that never reached the
+  session releases it. The transfer id and session version are stored on
+  the row as soon as they are known, so a bet left pending (its stake moved,
+  the market not updated) can be reconciled from them.
+
+  1. Changes to `bets`
+    - Add `status` (text) - 'pending', 'confirmed' or 'failed'; existing bets are confirmed
+    - Add `error` (text) - Why a failed bet never reached the app session
+    - `app_session_version` is null until the app session accepts the stake
+    - `price_at_bet` is plain numeric: an average price per share is not bounded to 5 digits
+
+  2. New Functions
+    - `reserve_bet` - Inserts a pending bet for an active market
+    - `release_bet` - Marks a pending bet failed
+
+  3. Functions
+    - `record_bet` now confirms a reserved bet instead of inserting one, with the
+      same shares check (serialization_failure, 40001)
+*/
+
+ALTER TABLE bets
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'confirmed', 'failed')),
+ADD COLUMN IF NOT EXISTS error text;
+
+ALTER TABLE bets ALTER COLUMN app_session_version DROP NOT NULL;
+ALTER TABLE bets ALTER COLUMN price_at_bet TYPE numeric;
+
+ALTER TABLE bets
+ADD CONSTRAINT bets_confirmed_version CHECK (status <> 'confirmed' OR app_session_version IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_bets_pending ON bets(market_id) WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION reserve_bet(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_amount text,
+  p_shares text,
+  p_price_at_bet numeric,
+  p_app_session_id text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_bet_id uuid;
+BEGIN
+  PERFORM 1 FROM markets WHERE id = p_market_id AND status = 'active' FOR SHARE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market is not active: %', p_market_id;
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, shares, price_at_bet,
+    app_session_id, status
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, p_amount, p_shares, p_price_at_bet,
+    p_app_session_id, 'pending'
+  )
+  RETURNING id INTO new_bet_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_bet(
+  p_bet_id uuid,
+  p_error text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE bets
+  SET status = 'failed',
+      error = p_error
+  WHERE id = p_bet_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending bet: %', p_bet_id;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_bet(uuid, uuid, text, text, text, text, numeric, numeric, numeric, numeric, text, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_bet(
+  p_bet_id uuid,
+  p_shares text,
+  p_price_at_bet numeric,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_volume numeric,
+  p_app_session_version integer,
+  p_expected_yes_shares text,
+  p_expected_no_shares text,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  bet bets%ROWTYPE;
+  market markets%ROWTYPE;
+BEGIN
+  SELECT * INTO bet FROM bets WHERE id = p_bet_id FOR UPDATE;
+  IF NOT FOUND OR bet.status <> 'pending' THEN
+    RAISE EXCEPTION 'No pending bet: %', p_bet_id;
+  END IF;
+
+  SELECT * INTO market FROM markets WHERE id = bet.market_id FOR UPDATE;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE bets
+  SET status = 'confirmed',
+      shares = p_shares,
+      price_at_bet = p_price_at_bet,
+      app_session_version = p_app_session_version,
+      yellow_tx_id = p_yellow_tx_id
+  WHERE id = p_bet_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric + CASE WHEN bet.side = 'yes' THEN bet.amount::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric + CASE WHEN bet.side = 'no' THEN bet.amount::numeric ELSE 0 END)::text,
+      yes_shares = (yes_shares::numeric + CASE WHEN bet.side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric + CASE WHEN bet.side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = bet.market_id;
+
+  RETURN p_bet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, numeric, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, numeric, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_bet(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_bet(uuid, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION record_bet(uuid, text, numeric, numeric, numeric, numeric, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_bet(uuid, text, numeric, numeric, numeric, numeric, integer, text, text, text) TO service_role;
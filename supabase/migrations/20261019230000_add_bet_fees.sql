@@ -0,0 +1,61 @@
+/*
+  # Add Bet Fees
+
+  The trading fee (YELLOW_CONFIG.MARKET.FEE_BPS) is charged on the app
+  session instead of only being priced in: the bettor transfers the whole
+  stake to the oracle, the pool receives the stake net of the fee, and the
+  fee stays in the oracle's allocation. A bet's `amount` is what reached
+  the pool, as in the session's stake ledger, and its fee is stored next
+  to it.
+
+  1. Changes to `bets`
+    - Add `fee` (text) - Fee charged on the bet, in smallest units; existing bets paid none
+    - `amount` is the stake net of the fee
+
+  2. Functions
+    - `reserve_bet` takes the fee
+*/
+
+ALTER TABLE bets
+ADD COLUMN IF NOT EXISTS fee text NOT NULL DEFAULT '0' CHECK (fee ~ '^[0-9]+$');
+
+DROP FUNCTION IF EXISTS reserve_bet(uuid, uuid, text, text, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION reserve_bet(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_amount text,
+  p_fee text,
+  p_shares text,
+  p_price_at_bet numeric,
+  p_app_session_id text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_bet_id uuid;
+BEGIN
+  PERFORM 1 FROM markets WHERE id = p_market_id AND status = 'active' FOR SHARE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market is not active: %', p_market_id;
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, fee, shares, price_at_bet,
+    app_session_id, status
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, p_amount, p_fee, p_shares, p_price_at_bet,
+    p_app_session_id, 'pending'
+  )
+  RETURNING id INTO new_bet_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, text, numeric, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, text, numeric, text) TO service_role;
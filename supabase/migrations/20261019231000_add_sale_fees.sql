@@ -0,0 +1,79 @@
+/*
+  # Add Sale Fees
+
+  A cash-out is paid through the oracle like every other movement of a
+  market's funds: the pool pays the proceeds into the oracle's allocation of
+  the app session, and the oracle transfers them to the seller net of the
+  trading fee, which stays in its allocation. A sale's `amount` stays what
+  the pool paid out, as in the stake ledger, and its fee is stored next to
+  it.
+
+  1. Functions
+    - `record_sale` takes the fee, with the same shares check
+      (serialization_failure, 40001)
+*/
+
+DROP FUNCTION IF EXISTS record_sale(uuid, uuid, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_proceeds text,
+  p_fee text,
+  p_shares text,
+  p_price numeric,
+  p_realized_pnl text,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer,
+  p_expected_yes_shares text,
+  p_expected_no_shares text,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  market markets%ROWTYPE;
+  new_bet_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Market not found: %', p_market_id;
+  END IF;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, fee, shares, price_at_bet, realized_pnl,
+    app_session_id, app_session_version, yellow_tx_id
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, '-' || p_proceeds, p_fee, '-' || p_shares, p_price,
+    p_realized_pnl, p_app_session_id, p_app_session_version, p_yellow_tx_id
+  )
+  RETURNING id INTO new_bet_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric - CASE WHEN p_side = 'yes' THEN p_proceeds::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric - CASE WHEN p_side = 'no' THEN p_proceeds::numeric ELSE 0 END)::text,
+      yes_shares = (yes_shares::numeric - CASE WHEN p_side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric - CASE WHEN p_side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = p_market_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text) TO service_role;
@@ -0,0 +1,248 @@
+/*
+  # Add Order Escrow
+
+  Bettors are not app session participants, so an order cannot be paid
+  from a balance of theirs in the market's session. Orders are paid like
+  bets instead: placing one transfers its most expensive cost to the oracle
+  as escrow, each fill takes the two orders' stakes out of their escrow and
+  the oracle adds them to the pools, and whatever escrow an order did not
+  spend is transferred back once it is filled or cancelled. Fills are
+  signed by the oracle alone: it holds the escrow, and a fill only moves
+  what reserve_fill took from the escrow of the two orders it fills.
+
+  Open orders placed before this were paid from a session balance and hold
+  no escrow, so they are cancelled.
+
+  1. Changes to `orders`
+    - Add `escrow` (text) - Transferred to the oracle when the order was placed, in smallest units
+    - Add `spent` (text) - Taken from the escrow by fills, pending or settled; never above `escrow`
+    - Add `escrow_tx_id` (text) - Ledger transaction of the escrow transfer
+    - Add `refund` (text) - Unspent escrow transferred back
+    - Add `refund_status` (text) - null until refunded, then 'paying', 'paid' or 'failed'
+    - Add `refund_tx_id` (text), `refund_error` (text)
+    - `wallet_address` is the wallet that paid the escrow
+
+  2. Changes to `order_fills`
+    - Add `yes_stake` / `no_stake` (text) - Taken from each order's escrow, in smallest units
+
+  3. Functions
+    - `reserve_fill` takes the stakes, checks each order's escrow covers its stake and that the
+      two orders are not paid from the same wallet, and spends the stakes from the escrow
+    - `settle_fill` records the stakes the fill reserved
+    - `release_fill` gives the stakes back to the escrow as well as the shares
+    - New `claim_order_refund` - Marks the unspent escrow of an order that is no longer open
+      and has no pending fill as being refunded, and returns it
+*/
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS escrow text NOT NULL DEFAULT '0' CHECK (escrow ~ '^[0-9]+$'),
+ADD COLUMN IF NOT EXISTS spent text NOT NULL DEFAULT '0' CHECK (spent ~ '^[0-9]+$'),
+ADD COLUMN IF NOT EXISTS escrow_tx_id text,
+ADD COLUMN IF NOT EXISTS refund text CHECK (refund ~ '^[0-9]+$'),
+ADD COLUMN IF NOT EXISTS refund_status text CHECK (refund_status IN ('paying', 'paid', 'failed')),
+ADD COLUMN IF NOT EXISTS refund_tx_id text,
+ADD COLUMN IF NOT EXISTS refund_error text;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_spent_within_escrow CHECK (spent::numeric <= escrow::numeric);
+
+ALTER TABLE order_fills
+ADD COLUMN IF NOT EXISTS yes_stake text NOT NULL DEFAULT '0' CHECK (yes_stake ~ '^[0-9]+$'),
+ADD COLUMN IF NOT EXISTS no_stake text NOT NULL DEFAULT '0' CHECK (no_stake ~ '^[0-9]+$');
+
+UPDATE orders
+SET status = 'cancelled',
+    cancelled_at = now(),
+    updated_at = now()
+WHERE status = 'open' AND escrow = '0';
+
+CREATE INDEX IF NOT EXISTS idx_orders_unrefunded ON orders(market_id)
+  WHERE status <> 'open' AND escrow::numeric > spent::numeric AND refund_status IS DISTINCT FROM 'paid';
+
+DROP FUNCTION IF EXISTS reserve_fill(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION reserve_fill(
+  p_taker_order_id uuid,
+  p_maker_order_id uuid,
+  p_shares text,
+  p_yes_stake text,
+  p_no_stake text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  taker orders%ROWTYPE;
+  maker orders%ROWTYPE;
+  new_fill_id uuid;
+BEGIN
+  -- Lock in id order, so two matchers never wait on each other
+  PERFORM 1 FROM orders WHERE id IN (p_taker_order_id, p_maker_order_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO taker FROM orders WHERE id = p_taker_order_id;
+  SELECT * INTO maker FROM orders WHERE id = p_maker_order_id;
+
+  IF taker.status IS DISTINCT FROM 'open' OR maker.status IS DISTINCT FROM 'open'
+     OR taker.market_id <> maker.market_id
+     OR taker.side = maker.side
+     OR lower(taker.wallet_address) = lower(maker.wallet_address)
+     OR taker.price + maker.price < 100
+     OR taker.shares::numeric - taker.filled_shares::numeric < p_shares::numeric
+     OR maker.shares::numeric - maker.filled_shares::numeric < p_shares::numeric
+     OR taker.escrow::numeric - taker.spent::numeric
+        < CASE WHEN taker.side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric
+     OR maker.escrow::numeric - maker.spent::numeric
+        < CASE WHEN maker.side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric THEN
+    RAISE EXCEPTION 'Orders no longer match'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE orders
+  SET filled_shares = (filled_shares::numeric + p_shares::numeric)::text,
+      spent = (spent::numeric + CASE WHEN side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric)::text,
+      status = CASE WHEN filled_shares::numeric + p_shares::numeric >= shares::numeric THEN 'filled' ELSE 'open' END,
+      updated_at = now()
+  WHERE id IN (p_taker_order_id, p_maker_order_id);
+
+  INSERT INTO order_fills (market_id, taker_order_id, maker_order_id, shares, yes_price, yes_stake, no_stake)
+  VALUES (
+    maker.market_id, p_taker_order_id, p_maker_order_id, p_shares,
+    CASE WHEN maker.side = 'yes' THEN maker.price ELSE 100 - maker.price END,
+    p_yes_stake, p_no_stake
+  )
+  RETURNING id INTO new_fill_id;
+
+  RETURN new_fill_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS settle_fill(uuid, text, text, numeric, text, integer);
+
+CREATE OR REPLACE FUNCTION settle_fill(
+  p_fill_id uuid,
+  p_volume numeric,
+  p_app_session_id text,
+  p_app_session_version integer
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  fill order_fills%ROWTYPE;
+  yes_order orders%ROWTYPE;
+  no_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO fill FROM order_fills WHERE id = p_fill_id FOR UPDATE;
+  IF NOT FOUND OR fill.status <> 'pending' THEN
+    RAISE EXCEPTION 'Fill is not pending: %', p_fill_id;
+  END IF;
+
+  SELECT * INTO yes_order FROM orders
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id) AND side = 'yes';
+  SELECT * INTO no_order FROM orders
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id) AND side = 'no';
+
+  PERFORM 1 FROM markets WHERE id = fill.market_id FOR UPDATE;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, shares, price_at_bet,
+    app_session_id, app_session_version, order_id
+  )
+  VALUES
+    (yes_order.user_id, yes_order.wallet_address, fill.market_id, 'yes', fill.yes_stake, fill.shares,
+     fill.yes_price, p_app_session_id, p_app_session_version, yes_order.id),
+    (no_order.user_id, no_order.wallet_address, fill.market_id, 'no', fill.no_stake, fill.shares,
+     100 - fill.yes_price, p_app_session_id, p_app_session_version, no_order.id);
+
+  -- A fill adds as many YES as NO shares, which leaves the LMSR prices where they are
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric + fill.yes_stake::numeric)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric + fill.no_stake::numeric)::text,
+      yes_shares = (yes_shares::numeric + fill.shares::numeric)::text,
+      no_shares = (no_shares::numeric + fill.shares::numeric)::text,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = fill.market_id;
+
+  UPDATE order_fills
+  SET status = 'settled',
+      app_session_version = p_app_session_version,
+      settled_at = now()
+  WHERE id = p_fill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_fill(
+  p_fill_id uuid,
+  p_error text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  fill order_fills%ROWTYPE;
+BEGIN
+  SELECT * INTO fill FROM order_fills WHERE id = p_fill_id FOR UPDATE;
+  IF NOT FOUND OR fill.status <> 'pending' THEN
+    RAISE EXCEPTION 'Fill is not pending: %', p_fill_id;
+  END IF;
+
+  UPDATE orders
+  SET filled_shares = (filled_shares::numeric - fill.shares::numeric)::text,
+      spent = (spent::numeric - CASE WHEN side = 'yes' THEN fill.yes_stake ELSE fill.no_stake END::numeric)::text,
+      status = CASE WHEN status = 'filled' THEN 'open' ELSE status END,
+      updated_at = now()
+  WHERE id IN (fill.taker_order_id, fill.maker_order_id);
+
+  UPDATE order_fills
+  SET status = 'failed',
+      error = p_error
+  WHERE id = p_fill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_order_refund(
+  p_order_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target orders%ROWTYPE;
+  unspent numeric;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR target.status = 'open' OR target.refund_status IN ('paying', 'paid') THEN
+    RETURN NULL;
+  END IF;
+
+  -- A pending fill may still be released, giving its stake back to the escrow
+  IF EXISTS (
+    SELECT 1 FROM order_fills
+    WHERE status = 'pending' AND p_order_id IN (taker_order_id, maker_order_id)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  unspent := target.escrow::numeric - target.spent::numeric;
+  IF unspent <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE orders
+  SET refund = unspent::text,
+      refund_status = 'paying',
+      refund_error = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN unspent::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_fill(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_fill(uuid, numeric, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_fill(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_order_refund(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_fill(uuid, uuid, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_fill(uuid, numeric, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION release_fill(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_order_refund(uuid) TO service_role;
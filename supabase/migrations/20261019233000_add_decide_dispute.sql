@@ -0,0 +1,113 @@
+/*
+  # Decide Disputes in One Transaction
+
+  Upholding a dispute used to take several separate writes: the new
+  proposal, the market's outcome and dispute window, the other open
+  disputes and the dispute itself. A crash or a lease taken between them
+  left a market with a new proposal and its dispute still open, or the
+  reverse. decide_dispute checks the dispute, the current proposal and the
+  oracle lease and makes every write in one transaction, with the market
+  row locked so no oracle run can take a lease while it decides.
+
+  1. New Functions
+    - `decide_dispute` - Upholds or rejects an open dispute. Upholding inserts the
+      proposal built by lib/yellow/disputes.ts (`p_resolution`, with its evidence hash),
+      moves the market to its winner and dispute window and upholds the other open
+      disputes against the overturned proposal. Returns the decided dispute.
+*/
+
+CREATE OR REPLACE FUNCTION decide_dispute(
+  p_dispute_id uuid,
+  p_decision text,
+  p_note text,
+  p_decided_at timestamptz,
+  p_resolution jsonb DEFAULT NULL,
+  p_dispute_ends_at timestamptz DEFAULT NULL
+)
+RETURNS market_disputes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dispute market_disputes%ROWTYPE;
+  market markets%ROWTYPE;
+  current_resolution market_resolutions%ROWTYPE;
+  proposal market_resolutions%ROWTYPE;
+BEGIN
+  IF p_decision NOT IN ('uphold', 'reject') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO dispute FROM market_disputes WHERE id = p_dispute_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  -- Lock the market before the dispute, so no oracle run takes its lease meanwhile
+  SELECT * INTO market FROM markets WHERE id = dispute.market_id FOR UPDATE;
+  SELECT * INTO dispute FROM market_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute.status;
+  END IF;
+
+  IF p_decision = 'uphold' THEN
+    SELECT * INTO current_resolution FROM market_resolutions
+    WHERE market_id = dispute.market_id
+    ORDER BY resolved_at DESC
+    LIMIT 1;
+    IF NOT FOUND OR current_resolution.id <> dispute.resolution_id THEN
+      RAISE EXCEPTION 'Dispute is against a proposal that has been superseded';
+    END IF;
+
+    -- Never flip the outcome under an oracle run that is settling the market
+    IF market.oracle_state IS DISTINCT FROM 'resolved_pending_settlement'
+       OR market.oracle_lease_expires_at > p_decided_at THEN
+      RAISE EXCEPTION 'Market is being settled and can no longer be overturned';
+    END IF;
+
+    proposal := jsonb_populate_record(NULL::market_resolutions, p_resolution);
+    IF p_resolution IS NULL OR p_dispute_ends_at IS NULL
+       OR proposal.market_id IS DISTINCT FROM dispute.market_id
+       OR proposal.overturns_dispute_id IS DISTINCT FROM dispute.id
+       OR proposal.winner IS NOT DISTINCT FROM current_resolution.winner THEN
+      RAISE EXCEPTION 'Upholding needs a proposal that flips the outcome of the disputed one';
+    END IF;
+
+    INSERT INTO market_resolutions (
+      market_id, market_type, twitch_metric, target_value, target_category, actual_value,
+      winner, sample_ids, raw_response, oracle_address, overturns_dispute_id, evidence_hash,
+      resolved_at
+    )
+    VALUES (
+      proposal.market_id, proposal.market_type, proposal.twitch_metric, proposal.target_value,
+      proposal.target_category, proposal.actual_value, proposal.winner, proposal.sample_ids,
+      proposal.raw_response, proposal.oracle_address, proposal.overturns_dispute_id,
+      proposal.evidence_hash, proposal.resolved_at
+    );
+
+    UPDATE markets
+    SET winner = proposal.winner,
+        dispute_ends_at = p_dispute_ends_at
+    WHERE id = dispute.market_id;
+
+    UPDATE market_disputes
+    SET status = 'upheld',
+        admin_note = 'Outcome overturned by dispute ' || dispute.id,
+        decided_at = p_decided_at
+    WHERE resolution_id = dispute.resolution_id
+      AND status = 'open'
+      AND id <> dispute.id;
+  END IF;
+
+  UPDATE market_disputes
+  SET status = CASE WHEN p_decision = 'uphold' THEN 'upheld' ELSE 'rejected' END,
+      admin_note = p_note,
+      decided_at = p_decided_at
+  WHERE id = p_dispute_id
+  RETURNING * INTO dispute;
+
+  RETURN dispute;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION decide_dispute(uuid, text, text, timestamptz, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION decide_dispute(uuid, text, text, timestamptz, jsonb, timestamptz) TO service_role;
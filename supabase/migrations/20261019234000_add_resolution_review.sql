@@ -0,0 +1,28 @@
+/*
+  # Add Resolution Review
+
+  A market whose closing readings still disagree after ORACLE.MAX_ATTEMPTS
+  is no longer cancelled as if its data were unavailable. The oracle leaves
+  it unresolved in 'resolution_review' for an admin to decide: set it back
+  to 'resolving' to try again, or cancel it (POST /api/admin/markets/cancel).
+
+  1. Changes to `markets`
+    - Allow oracle_state 'resolution_review'
+*/
+
+ALTER TABLE markets
+DROP CONSTRAINT IF EXISTS markets_oracle_state_check;
+
+ALTER TABLE markets
+ADD CONSTRAINT markets_oracle_state_check CHECK (
+  oracle_state IS NULL OR oracle_state IN (
+    'closing',
+    'resolving',
+    'resolution_review',
+    'resolved_pending_settlement',
+    'settled',
+    'settlement_failed',
+    'cancelling',
+    'cancelled'
+  )
+);
@@ -0,0 +1,178 @@
+/*
+  # Reserve Bet Shares
+
+  A bet's shares used to be checked against the market only when it was
+  confirmed, after its stake and shares had reached the app session's
+  ledger. Another bet landing in between left the ledger with shares quoted
+  against an older market than the one record_bet updated. The shares are
+  now checked and added to the market when the bet is reserved, before any
+  funds move: a bet quoted against shares that have since changed is
+  refused with serialization_failure (40001) and quoted again, and what it
+  records in the ledger is what the market was moved by.
+
+  1. Functions
+    - New `lmsr_yes_price` - YES price in percent of outstanding shares with liquidity b,
+      both in smallest units, as lmsrPrices in lib/yellow/lmsr.ts computes it
+    - `reserve_bet` takes the market shares the bet was quoted against and the prices it
+      leaves, checks the shares and adds the bet's shares to the market
+    - `record_bet` confirms the bet and adds its stake to the pool amounts; its shares are
+      already on the market
+    - `release_bet` takes the market's liquidity b, gives the bet's shares back and prices
+      the market again
+*/
+
+CREATE OR REPLACE FUNCTION lmsr_yes_price(
+  p_yes_shares numeric,
+  p_no_shares numeric,
+  p_liquidity numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(
+    (100 / (1 + exp(LEAST(GREATEST((p_no_shares - p_yes_shares) / p_liquidity, -700), 700)::double precision)))::numeric,
+    2
+  );
+$$;
+
+DROP FUNCTION IF EXISTS reserve_bet(uuid, uuid, text, text, text, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION reserve_bet(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_amount text,
+  p_fee text,
+  p_shares text,
+  p_price_at_bet numeric,
+  p_app_session_id text,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_expected_yes_shares text,
+  p_expected_no_shares text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  market markets%ROWTYPE;
+  new_bet_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND OR market.status <> 'active' THEN
+    RAISE EXCEPTION 'Market is not active: %', p_market_id;
+  END IF;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, fee, shares, price_at_bet,
+    app_session_id, status
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, p_amount, p_fee, p_shares, p_price_at_bet,
+    p_app_session_id, 'pending'
+  )
+  RETURNING id INTO new_bet_id;
+
+  UPDATE markets
+  SET yes_shares = (yes_shares::numeric + CASE WHEN p_side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric + CASE WHEN p_side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price
+  WHERE id = p_market_id;
+
+  RETURN new_bet_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_bet(uuid, text, numeric, numeric, numeric, numeric, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_bet(
+  p_bet_id uuid,
+  p_volume numeric,
+  p_app_session_version integer,
+  p_yellow_tx_id text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  bet bets%ROWTYPE;
+BEGIN
+  SELECT * INTO bet FROM bets WHERE id = p_bet_id FOR UPDATE;
+  IF NOT FOUND OR bet.status <> 'pending' THEN
+    RAISE EXCEPTION 'No pending bet: %', p_bet_id;
+  END IF;
+
+  PERFORM 1 FROM markets WHERE id = bet.market_id FOR UPDATE;
+
+  UPDATE bets
+  SET status = 'confirmed',
+      app_session_version = p_app_session_version,
+      yellow_tx_id = p_yellow_tx_id
+  WHERE id = p_bet_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric + CASE WHEN bet.side = 'yes' THEN bet.amount::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric + CASE WHEN bet.side = 'no' THEN bet.amount::numeric ELSE 0 END)::text,
+      volume = COALESCE(volume, 0) + p_volume
+  WHERE id = bet.market_id;
+
+  RETURN p_bet_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS release_bet(uuid, text);
+
+CREATE OR REPLACE FUNCTION release_bet(
+  p_bet_id uuid,
+  p_error text,
+  p_liquidity text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  bet bets%ROWTYPE;
+  market markets%ROWTYPE;
+  new_yes_price numeric;
+BEGIN
+  SELECT * INTO bet FROM bets WHERE id = p_bet_id FOR UPDATE;
+  IF NOT FOUND OR bet.status <> 'pending' THEN
+    RAISE EXCEPTION 'No pending bet: %', p_bet_id;
+  END IF;
+
+  SELECT * INTO market FROM markets WHERE id = bet.market_id FOR UPDATE;
+
+  UPDATE bets
+  SET status = 'failed',
+      error = p_error
+  WHERE id = p_bet_id;
+
+  market.yes_shares := (market.yes_shares::numeric - CASE WHEN bet.side = 'yes' THEN bet.shares::numeric ELSE 0 END)::text;
+  market.no_shares := (market.no_shares::numeric - CASE WHEN bet.side = 'no' THEN bet.shares::numeric ELSE 0 END)::text;
+  new_yes_price := lmsr_yes_price(market.yes_shares::numeric, market.no_shares::numeric, p_liquidity::numeric);
+
+  UPDATE markets
+  SET yes_shares = market.yes_shares,
+      no_shares = market.no_shares,
+      yes_price = new_yes_price,
+      no_price = 100 - new_yes_price
+  WHERE id = bet.market_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_bet(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, text, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION record_bet(uuid, numeric, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_bet(uuid, numeric, integer, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_bet(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_bet(uuid, text, text) TO service_role;
@@ -0,0 +1,178 @@
+/*
+  # Reserve Sales
+
+  A cash-out used to check the shares held from the seller's bets before
+  anything was locked, so two concurrent sales could both sell the same
+  shares, and it was recorded only after its proceeds had left the pool.
+  A sale is now reserved as a pending row before the app session moves:
+  reserve_sale locks the market, checks the shares the seller still holds
+  (confirmed bets and sales, and sales still pending) and the pool, and
+  takes the shares and proceeds off the market in the same transaction.
+  The seller is only paid once record_sale has confirmed it.
+
+  1. Functions
+    - New `reserve_sale` - Reserves a pending sale at the shares it was quoted against
+      (serialization_failure, 40001, when they changed) and refuses to sell more shares than
+      the seller holds (check_violation, 23514)
+    - `record_sale` confirms a reserved sale with its session version and volume
+    - New `release_sale` - Marks a pending sale that never reached the app session as failed,
+      gives its shares and proceeds back to the market and prices it again
+*/
+
+CREATE OR REPLACE FUNCTION reserve_sale(
+  p_market_id uuid,
+  p_user_id uuid,
+  p_wallet_address text,
+  p_side text,
+  p_proceeds text,
+  p_fee text,
+  p_shares text,
+  p_price numeric,
+  p_realized_pnl text,
+  p_yes_price numeric,
+  p_no_price numeric,
+  p_app_session_id text,
+  p_expected_yes_shares text,
+  p_expected_no_shares text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  market markets%ROWTYPE;
+  held numeric;
+  pool numeric;
+  new_sale_id uuid;
+BEGIN
+  SELECT * INTO market FROM markets WHERE id = p_market_id FOR UPDATE;
+  IF NOT FOUND OR market.status <> 'active' THEN
+    RAISE EXCEPTION 'Market is not active: %', p_market_id;
+  END IF;
+
+  IF market.yes_shares <> p_expected_yes_shares OR market.no_shares <> p_expected_no_shares THEN
+    RAISE EXCEPTION 'Market shares changed since the quote'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  -- Pending bets have not bought their shares yet; pending sales already sold theirs
+  SELECT COALESCE(sum(shares::numeric), 0) INTO held
+  FROM bets
+  WHERE market_id = p_market_id
+    AND user_id = p_user_id
+    AND wallet_address = p_wallet_address
+    AND side = p_side
+    AND (status = 'confirmed' OR (status = 'pending' AND shares::numeric < 0));
+  IF held < p_shares::numeric THEN
+    RAISE EXCEPTION 'Only % % shares held', held, upper(p_side)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  pool := COALESCE(CASE WHEN p_side = 'yes' THEN market.yes_amount ELSE market.no_amount END, '0')::numeric;
+  IF pool < p_proceeds::numeric THEN
+    RAISE EXCEPTION 'The % pool cannot cover this sale', upper(p_side)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO bets (
+    user_id, wallet_address, market_id, side, amount, fee, shares, price_at_bet, realized_pnl,
+    app_session_id, status
+  )
+  VALUES (
+    p_user_id, p_wallet_address, p_market_id, p_side, '-' || p_proceeds, p_fee, '-' || p_shares, p_price,
+    p_realized_pnl, p_app_session_id, 'pending'
+  )
+  RETURNING id INTO new_sale_id;
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric - CASE WHEN p_side = 'yes' THEN p_proceeds::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric - CASE WHEN p_side = 'no' THEN p_proceeds::numeric ELSE 0 END)::text,
+      yes_shares = (yes_shares::numeric - CASE WHEN p_side = 'yes' THEN p_shares::numeric ELSE 0 END)::text,
+      no_shares = (no_shares::numeric - CASE WHEN p_side = 'no' THEN p_shares::numeric ELSE 0 END)::text,
+      yes_price = p_yes_price,
+      no_price = p_no_price
+  WHERE id = p_market_id;
+
+  RETURN new_sale_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_sale(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, numeric, text, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_sale_id uuid,
+  p_volume numeric,
+  p_app_session_version integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  sale bets%ROWTYPE;
+BEGIN
+  SELECT * INTO sale FROM bets WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND OR sale.status <> 'pending' OR sale.shares::numeric >= 0 THEN
+    RAISE EXCEPTION 'No pending sale: %', p_sale_id;
+  END IF;
+
+  UPDATE bets
+  SET status = 'confirmed',
+      app_session_version = p_app_session_version
+  WHERE id = p_sale_id;
+
+  UPDATE markets
+  SET volume = COALESCE(volume, 0) + p_volume
+  WHERE id = sale.market_id;
+
+  RETURN p_sale_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_sale(
+  p_sale_id uuid,
+  p_error text,
+  p_liquidity text
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  sale bets%ROWTYPE;
+  market markets%ROWTYPE;
+  new_yes_price numeric;
+BEGIN
+  SELECT * INTO sale FROM bets WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND OR sale.status <> 'pending' OR sale.shares::numeric >= 0 THEN
+    RAISE EXCEPTION 'No pending sale: %', p_sale_id;
+  END IF;
+
+  SELECT * INTO market FROM markets WHERE id = sale.market_id FOR UPDATE;
+
+  UPDATE bets
+  SET status = 'failed',
+      error = p_error
+  WHERE id = p_sale_id;
+
+  -- The sale's amount and shares are negative
+  market.yes_shares := (market.yes_shares::numeric - CASE WHEN sale.side = 'yes' THEN sale.shares::numeric ELSE 0 END)::text;
+  market.no_shares := (market.no_shares::numeric - CASE WHEN sale.side = 'no' THEN sale.shares::numeric ELSE 0 END)::text;
+  new_yes_price := lmsr_yes_price(market.yes_shares::numeric, market.no_shares::numeric, p_liquidity::numeric);
+
+  UPDATE markets
+  SET yes_amount = (COALESCE(yes_amount, '0')::numeric - CASE WHEN sale.side = 'yes' THEN sale.amount::numeric ELSE 0 END)::text,
+      no_amount = (COALESCE(no_amount, '0')::numeric - CASE WHEN sale.side = 'no' THEN sale.amount::numeric ELSE 0 END)::text,
+      yes_shares = market.yes_shares,
+      no_shares = market.no_shares,
+      yes_price = new_yes_price,
+      no_price = 100 - new_yes_price
+  WHERE id = sale.market_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_sale(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_sale(uuid, uuid, text, text, text, text, text, numeric, text, numeric, numeric, text, text, text) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, numeric, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, numeric, integer) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_sale(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_sale(uuid, text, text) TO service_role;
@@ -0,0 +1,66 @@
+/*
+  # Match Orders by User
+
+  reserve_fill refused to fill two orders paid from the same wallet. Every
+  order is paid from the server-held demo wallet, so no two orders could
+  ever fill. Orders are now told apart by the user who placed them, as the
+  matcher in lib/yellow/order-book.ts does: a user's orders never fill each
+  other, and orders of different users fill whichever wallet paid them.
+
+  1. Functions
+    - `reserve_fill` refuses two orders of the same user instead of two orders of the same wallet
+*/
+
+CREATE OR REPLACE FUNCTION reserve_fill(
+  p_taker_order_id uuid,
+  p_maker_order_id uuid,
+  p_shares text,
+  p_yes_stake text,
+  p_no_stake text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  taker orders%ROWTYPE;
+  maker orders%ROWTYPE;
+  new_fill_id uuid;
+BEGIN
+  -- Lock in id order, so two matchers never wait on each other
+  PERFORM 1 FROM orders WHERE id IN (p_taker_order_id, p_maker_order_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO taker FROM orders WHERE id = p_taker_order_id;
+  SELECT * INTO maker FROM orders WHERE id = p_maker_order_id;
+
+  IF taker.status IS DISTINCT FROM 'open' OR maker.status IS DISTINCT FROM 'open'
+     OR taker.market_id <> maker.market_id
+     OR taker.side = maker.side
+     OR taker.user_id = maker.user_id
+     OR taker.price + maker.price < 100
+     OR taker.shares::numeric - taker.filled_shares::numeric < p_shares::numeric
+     OR maker.shares::numeric - maker.filled_shares::numeric < p_shares::numeric
+     OR taker.escrow::numeric - taker.spent::numeric
+        < CASE WHEN taker.side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric
+     OR maker.escrow::numeric - maker.spent::numeric
+        < CASE WHEN maker.side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric THEN
+    RAISE EXCEPTION 'Orders no longer match'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  UPDATE orders
+  SET filled_shares = (filled_shares::numeric + p_shares::numeric)::text,
+      spent = (spent::numeric + CASE WHEN side = 'yes' THEN p_yes_stake ELSE p_no_stake END::numeric)::text,
+      status = CASE WHEN filled_shares::numeric + p_shares::numeric >= shares::numeric THEN 'filled' ELSE 'open' END,
+      updated_at = now()
+  WHERE id IN (p_taker_order_id, p_maker_order_id);
+
+  INSERT INTO order_fills (market_id, taker_order_id, maker_order_id, shares, yes_price, yes_stake, no_stake)
+  VALUES (
+    maker.market_id, p_taker_order_id, p_maker_order_id, p_shares,
+    CASE WHEN maker.side = 'yes' THEN maker.price ELSE 100 - maker.price END,
+    p_yes_stake, p_no_stake
+  )
+  RETURNING id INTO new_fill_id;
+
+  RETURN new_fill_id;
+END;
+$$;
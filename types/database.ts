@@ -72,6 +72,239 @@ export type Database = {
         };
         Relationships: [];
       };
+      bets: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          wallet_address: string;
+          market_id: string;
+          side: string;
+          amount: string;
+          fee: string;
+          shares: string;
+          price_at_bet: number;
+          app_session_id: string;
+          app_session_version: number | null;
+          yellow_tx_id: string | null;
+          realized_pnl: string | null;
+          order_id: string | null;
+          status: string;
+          error: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          wallet_address: string;
+          market_id: string;
+          side: string;
+          amount: string;
+          fee?: string;
+          shares: string;
+          price_at_bet: number;
+          app_session_id: string;
+          app_session_version?: number | null;
+          yellow_tx_id?: string | null;
+          realized_pnl?: string | null;
+          order_id?: string | null;
+          status?: string;
+          error?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          wallet_address?: string;
+          market_id?: string;
+          side?: string;
+          amount?: string;
+          fee?: string;
+          shares?: string;
+          price_at_bet?: number;
+          app_session_id?: string;
+          app_session_version?: number | null;
+          yellow_tx_id?: string | null;
+          realized_pnl?: string | null;
+          order_id?: string | null;
+          status?: string;
+          error?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "bets_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bets_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bets_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      orders: {
+        Row: {
+          id: string;
+          market_id: string;
+          user_id: string | null;
+          wallet_address: string;
+          side: string;
+          price: number;
+          shares: string;
+          filled_shares: string;
+          status: string;
+          created_at: string;
+          updated_at: string;
+          cancelled_at: string | null;
+          escrow: string;
+          spent: string;
+          escrow_tx_id: string | null;
+          refund: string | null;
+          refund_status: string | null;
+          refund_tx_id: string | null;
+          refund_error: string | null;
+        };
+        Insert: {
+          id?: string;
+          market_id: string;
+          user_id?: string | null;
+          wallet_address: string;
+          side: string;
+          price: number;
+          shares: string;
+          filled_shares?: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+          cancelled_at?: string | null;
+          escrow?: string;
+          spent?: string;
+          escrow_tx_id?: string | null;
+          refund?: string | null;
+          refund_status?: string | null;
+          refund_tx_id?: string | null;
+          refund_error?: string | null;
+        };
+        Update: {
+          id?: string;
+          market_id?: string;
+          user_id?: string | null;
+          wallet_address?: string;
+          side?: string;
+          price?: number;
+          shares?: string;
+          filled_shares?: string;
+          status?: string;
+          created_at?: string;
+          updated_at?: string;
+          cancelled_at?: string | null;
+          escrow?: string;
+          spent?: string;
+          escrow_tx_id?: string | null;
+          refund?: string | null;
+          refund_status?: string | null;
+          refund_tx_id?: string | null;
+          refund_error?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "orders_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "orders_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      order_fills: {
+        Row: {
+          id: string;
+          market_id: string;
+          taker_order_id: string;
+          maker_order_id: string;
+          shares: string;
+          yes_price: number;
+          status: string;
+          app_session_version: number | null;
+          error: string | null;
+          created_at: string;
+          settled_at: string | null;
+          yes_stake: string;
+          no_stake: string;
+        };
+        Insert: {
+          id?: string;
+          market_id: string;
+          taker_order_id: string;
+          maker_order_id: string;
+          shares: string;
+          yes_price: number;
+          status?: string;
+          app_session_version?: number | null;
+          error?: string | null;
+          created_at?: string;
+          settled_at?: string | null;
+          yes_stake?: string;
+          no_stake?: string;
+        };
+        Update: {
+          id?: string;
+          market_id?: string;
+          taker_order_id?: string;
+          maker_order_id?: string;
+          shares?: string;
+          yes_price?: number;
+          status?: string;
+          app_session_version?: number | null;
+          error?: string | null;
+          created_at?: string;
+          settled_at?: string | null;
+          yes_stake?: string;
+          no_stake?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_fills_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_fills_taker_order_id_fkey";
+            columns: ["taker_order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_fills_maker_order_id_fkey";
+            columns: ["maker_order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       markets: {
         Row: {
           id: string;
@@ -85,6 +318,32 @@ export type Database = {
           status: string;
           created_at: string;
           updated_at: string;
+          app_session_id: string | null;
+          pool_yes_address: string | null;
+          pool_no_address: string | null;
+          oracle_address: string | null;
+          yes_amount: string | null;
+          no_amount: string | null;
+          liquidity: number;
+          yes_shares: string;
+          no_shares: string;
+          twitch_metric: string | null;
+          target_value: number | null;
+          market_type: string | null;
+          target_category: string | null;
+          winner: string | null;
+          asset: string;
+          resolved_at: string | null;
+          dispute_ends_at: string | null;
+          oracle_state: string | null;
+          oracle_attempts: number;
+          oracle_last_error: string | null;
+          oracle_next_attempt_at: string | null;
+          oracle_lease_owner: string | null;
+          oracle_lease_expires_at: string | null;
+          cancel_reason: string | null;
+          cancel_note: string | null;
+          cancelled_at: string | null;
         };
         Insert: {
           id?: string;
@@ -98,6 +357,32 @@ export type Database = {
           status?: string;
           created_at?: string;
           updated_at?: string;
+          app_session_id?: string | null;
+          pool_yes_address?: string | null;
+          pool_no_address?: string | null;
+          oracle_address?: string | null;
+          yes_amount?: string | null;
+          no_amount?: string | null;
+          liquidity?: number;
+          yes_shares?: string;
+          no_shares?: string;
+          twitch_metric?: string | null;
+          target_value?: number | null;
+          market_type?: string | null;
+          target_category?: string | null;
+          winner?: string | null;
+          asset?: string;
+          resolved_at?: string | null;
+          dispute_ends_at?: string | null;
+          oracle_state?: string | null;
+          oracle_attempts?: number;
+          oracle_last_error?: string | null;
+          oracle_next_attempt_at?: string | null;
+          oracle_lease_owner?: string | null;
+          oracle_lease_expires_at?: string | null;
+          cancel_reason?: string | null;
+          cancel_note?: string | null;
+          cancelled_at?: string | null;
         };
         Update: {
           id?: string;
@@ -111,6 +396,32 @@ export type Database = {
           status?: string;
           created_at?: string;
           updated_at?: string;
+          app_session_id?: string | null;
+          pool_yes_address?: string | null;
+          pool_no_address?: string | null;
+          oracle_address?: string | null;
+          yes_amount?: string | null;
+          no_amount?: string | null;
+          liquidity?: number;
+          yes_shares?: string;
+          no_shares?: string;
+          twitch_metric?: string | null;
+          target_value?: number | null;
+          market_type?: string | null;
+          target_category?: string | null;
+          winner?: string | null;
+          asset?: string;
+          resolved_at?: string | null;
+          dispute_ends_at?: string | null;
+          oracle_state?: string | null;
+          oracle_attempts?: number;
+          oracle_last_error?: string | null;
+          oracle_next_attempt_at?: string | null;
+          oracle_lease_owner?: string | null;
+          oracle_lease_expires_at?: string | null;
+          cancel_reason?: string | null;
+          cancel_note?: string | null;
+          cancelled_at?: string | null;
         };
         Relationships: [
           {
@@ -122,6 +433,277 @@ export type Database = {
           }
         ];
       };
+      market_disputes: {
+        Row: {
+          id: string;
+          market_id: string;
+          resolution_id: string;
+          user_id: string;
+          bettor_address: string;
+          reason: string;
+          status: string;
+          admin_note: string | null;
+          decided_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          market_id: string;
+          resolution_id: string;
+          user_id: string;
+          bettor_address: string;
+          reason: string;
+          status?: string;
+          admin_note?: string | null;
+          decided_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          market_id?: string;
+          resolution_id?: string;
+          user_id?: string;
+          bettor_address?: string;
+          reason?: string;
+          status?: string;
+          admin_note?: string | null;
+          decided_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "market_disputes_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "market_disputes_resolution_id_fkey";
+            columns: ["resolution_id"];
+            isOneToOne: false;
+            referencedRelation: "market_resolutions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "market_disputes_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      market_resolutions: {
+        Row: {
+          id: string;
+          market_id: string;
+          market_type: string;
+          twitch_metric: string;
+          target_value: number | null;
+          target_category: string | null;
+          actual_value: Json | null;
+          winner: string;
+          sample_ids: string[];
+          raw_response: Json | null;
+          oracle_address: string;
+          evidence_hash: string;
+          resolved_at: string;
+          created_at: string;
+          overturns_dispute_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          market_id: string;
+          market_type: string;
+          twitch_metric: string;
+          target_value?: number | null;
+          target_category?: string | null;
+          actual_value?: Json | null;
+          winner: string;
+          sample_ids?: string[];
+          raw_response?: Json | null;
+          oracle_address: string;
+          evidence_hash: string;
+          resolved_at: string;
+          created_at?: string;
+          overturns_dispute_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          market_id?: string;
+          market_type?: string;
+          twitch_metric?: string;
+          target_value?: number | null;
+          target_category?: string | null;
+          actual_value?: Json | null;
+          winner?: string;
+          sample_ids?: string[];
+          raw_response?: Json | null;
+          oracle_address?: string;
+          evidence_hash?: string;
+          resolved_at?: string;
+          created_at?: string;
+          overturns_dispute_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "market_resolutions_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      market_payouts: {
+        Row: {
+          id: string;
+          market_id: string;
+          wallet_address: string;
+          asset: string;
+          stake: string;
+          amount: string;
+          kind: string;
+          status: string;
+          yellow_tx_id: string | null;
+          error: string | null;
+          created_at: string;
+          paid_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          market_id: string;
+          wallet_address: string;
+          asset: string;
+          stake: string;
+          amount: string;
+          kind: string;
+          status?: string;
+          yellow_tx_id?: string | null;
+          error?: string | null;
+          created_at?: string;
+          paid_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          market_id?: string;
+          wallet_address?: string;
+          asset?: string;
+          stake?: string;
+          amount?: string;
+          kind?: string;
+          status?: string;
+          yellow_tx_id?: string | null;
+          error?: string | null;
+          created_at?: string;
+          paid_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "market_payouts_market_id_fkey";
+            columns: ["market_id"];
+            isOneToOne: false;
+            referencedRelation: "markets";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      metric_samples: {
+        Row: {
+          id: string;
+          streamer_id: string;
+          sampled_at: string;
+          is_live: boolean;
+          viewer_count: number | null;
+          follower_count: number | null;
+          game_name: string | null;
+          title: string | null;
+          stream_started_at: string | null;
+          raw_response: Json | null;
+        };
+        Insert: {
+          id?: string;
+          streamer_id: string;
+          sampled_at?: string;
+          is_live?: boolean;
+          viewer_count?: number | null;
+          follower_count?: number | null;
+          game_name?: string | null;
+          title?: string | null;
+          stream_started_at?: string | null;
+          raw_response?: Json | null;
+        };
+        Update: {
+          id?: string;
+          streamer_id?: string;
+          sampled_at?: string;
+          is_live?: boolean;
+          viewer_count?: number | null;
+          follower_count?: number | null;
+          game_name?: string | null;
+          title?: string | null;
+          stream_started_at?: string | null;
+          raw_response?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "metric_samples_streamer_id_fkey";
+            columns: ["streamer_id"];
+            isOneToOne: false;
+            referencedRelation: "streamers";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      oracle_runs: {
+        Row: {
+          id: string;
+          trigger: string;
+          oracle_address: string;
+          status: string;
+          closed: number;
+          proposed: number;
+          cancelled: number;
+          settled: number;
+          refunded: number;
+          failed: number;
+          error: string | null;
+          started_at: string;
+          finished_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          trigger: string;
+          oracle_address: string;
+          status?: string;
+          closed?: number;
+          proposed?: number;
+          cancelled?: number;
+          settled?: number;
+          refunded?: number;
+          failed?: number;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          trigger?: string;
+          oracle_address?: string;
+          status?: string;
+          closed?: number;
+          proposed?: number;
+          cancelled?: number;
+          settled?: number;
+          refunded?: number;
+          failed?: number;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+        };
+        Relationships: [];
+      };
       transactions: {
         Row: {
           id: string;
@@ -162,7 +744,130 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      reserve_bet: {
+        Args: {
+          p_market_id: string;
+          p_user_id: string | null;
+          p_wallet_address: string;
+          p_side: string;
+          p_amount: string;
+          p_fee: string;
+          p_shares: string;
+          p_price_at_bet: number;
+          p_app_session_id: string;
+          p_yes_price: number;
+          p_no_price: number;
+          p_expected_yes_shares: string;
+          p_expected_no_shares: string;
+        };
+        Returns: string;
+      };
+      record_bet: {
+        Args: {
+          p_bet_id: string;
+          p_volume: number;
+          p_app_session_version: number;
+          p_yellow_tx_id?: string | null;
+        };
+        Returns: string;
+      };
+      release_bet: {
+        Args: {
+          p_bet_id: string;
+          p_error: string;
+          p_liquidity: string;
+        };
+        Returns: undefined;
+      };
+      reserve_sale: {
+        Args: {
+          p_market_id: string;
+          p_user_id: string;
+          p_wallet_address: string;
+          p_side: string;
+          p_proceeds: string;
+          p_fee: string;
+          p_shares: string;
+          p_price: number;
+          p_realized_pnl: string;
+          p_yes_price: number;
+          p_no_price: number;
+          p_app_session_id: string;
+          p_expected_yes_shares: string;
+          p_expected_no_shares: string;
+        };
+        Returns: string;
+      };
+      record_sale: {
+        Args: {
+          p_sale_id: string;
+          p_volume: number;
+          p_app_session_version: number;
+        };
+        Returns: string;
+      };
+      release_sale: {
+        Args: {
+          p_sale_id: string;
+          p_error: string;
+          p_liquidity: string;
+        };
+        Returns: undefined;
+      };
+      reserve_fill: {
+        Args: {
+          p_taker_order_id: string;
+          p_maker_order_id: string;
+          p_shares: string;
+          p_yes_stake: string;
+          p_no_stake: string;
+        };
+        Returns: string;
+      };
+      settle_fill: {
+        Args: {
+          p_fill_id: string;
+          p_volume: number;
+          p_app_session_id: string;
+          p_app_session_version: number;
+        };
+        Returns: undefined;
+      };
+      release_fill: {
+        Args: {
+          p_fill_id: string;
+          p_error: string;
+        };
+        Returns: undefined;
+      };
+      claim_order_refund: {
+        Args: {
+          p_order_id: string;
+        };
+        Returns: string | null;
+      };
+      decide_dispute: {
+        Args: {
+          p_dispute_id: string;
+          p_decision: string;
+          p_note: string | null;
+          p_decided_at: string;
+          p_resolution?: Json | null;
+          p_dispute_ends_at?: string | null;
+        };
+        Returns: {
+          id: string;
+          market_id: string;
+          resolution_id: string;
+          user_id: string;
+          bettor_address: string;
+          reason: string;
+          status: string;
+          admin_note: string | null;
+          decided_at: string | null;
+          created_at: string;
+        };
+      };
     };
     Enums: {
       [_ in never]: never;